@@ -3,11 +3,24 @@ import { type ClientSchema, a, defineData } from '@aws-amplify/backend';
 const schema = a.schema({
   TimerSession: a
     .model({
+      schemaVersion: a.integer(),
       mode: a.string().required(),
       duration: a.integer().required(),
+      plannedDuration: a.integer(),
       startTime: a.datetime().required(),
       endTime: a.datetime(),
       completed: a.boolean().required(),
+      phase: a.string(),
+      pauses: a.string(),
+      interruptions: a.string(),
+      intention: a.string(),
+      taskId: a.string(),
+      projectId: a.string(),
+      notes: a.string(),
+      tags: a.string().array(),
+      focusQuality: a.integer(),
+      mood: a.integer(),
+      editedAt: a.datetime(),
     })
     .authorization((allow) => [allow.owner()]),
 
@@ -0,0 +1,565 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { FocusMode, FocusModeConfig } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import type { DayOptions } from '@/lib/utils/calendarDay';
+import { formatDuration } from '@/lib/utils/formatDuration';
+import {
+  buildFocusTimeSeries,
+  compareWeeks,
+  getTimeOfDayDistribution,
+  summarizeModes,
+  summarizeTags,
+  type ChartPeriod,
+} from '@/lib/utils/focusStatistics';
+import { Label } from '@/components/ui/label';
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-background px-2 text-sm';
+
+const PERIOD_OPTIONS: { value: ChartPeriod; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+  { value: 'month', label: 'Months' },
+];
+
+const BAR_WIDTH = 14;
+const BAR_GAP = 2;
+const GROUP_GAP = 8;
+const PLOT_HEIGHT = 120;
+const TOP_PADDING = 14; // room for the scale label
+const AXIS_HEIGHT = 16; // room for the group labels
+
+/**
+ * One bar of a chart, stacked from its first segment up.
+ */
+interface ChartBar {
+  key: string;
+  title: string;
+  segments: { key: string; value: number; className: string }[];
+}
+
+/**
+ * Bars drawn side by side above one axis label.
+ */
+interface ChartGroup {
+  key: string;
+  label: string;
+  bars: ChartBar[];
+}
+
+/**
+ * Screen reader table standing in for a chart.
+ */
+interface ChartTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const toDate = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Days are calendar dates, so they are formatted in UTC to keep them from shifting
+const formatDate = (key: string, options: Intl.DateTimeFormatOptions) =>
+  toDate(key).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+
+const formatHour = (hour: number) =>
+  new Date(Date.UTC(2000, 0, 1, hour)).toLocaleTimeString(undefined, {
+    hour: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+/**
+ * Axis label and full name of a period's bar in the focus time chart.
+ */
+const describePeriod = (start: string, period: ChartPeriod, index: number) => {
+  if (period === 'day') {
+    return {
+      label: index % 2 === 0 ? formatDate(start, { day: 'numeric' }) : '',
+      name: formatDate(start, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }),
+    };
+  }
+  if (period === 'week') {
+    return {
+      label: index % 3 === 0 ? formatDate(start, { month: 'short', day: 'numeric' }) : '',
+      name: `Week of ${formatDate(start, { month: 'short', day: 'numeric', year: 'numeric' })}`,
+    };
+  }
+  return {
+    label: formatDate(start, { month: 'short' }),
+    name: formatDate(start, { month: 'long', year: 'numeric' }),
+  };
+};
+
+/**
+ * Describes this week's change in focus time, e.g. "up 25% on last week".
+ */
+const describeChange = (change: number | null) => {
+  if (change === null) return 'no focus time last week to compare with';
+  if (Math.round(change * 100) === 0) return 'the same as last week';
+  return `${change > 0 ? 'up' : 'down'} ${formatPercent(Math.abs(change))} on last week`;
+};
+
+/**
+ * Stacked bar chart drawn as SVG, with a hidden table for screen readers.
+ */
+function BarChart({
+  label,
+  groups,
+  table,
+}: {
+  label: string;
+  groups: ChartGroup[];
+  table: ChartTable;
+}): React.ReactElement {
+  const maxValue = Math.max(
+    0,
+    ...groups.flatMap((group) =>
+      group.bars.map((bar) => bar.segments.reduce((sum, segment) => sum + segment.value, 0))
+    )
+  );
+  const barsPerGroup = Math.max(1, ...groups.map((group) => group.bars.length));
+  const groupWidth = barsPerGroup * BAR_WIDTH + (barsPerGroup - 1) * BAR_GAP;
+  const width = groups.length * (groupWidth + GROUP_GAP) - GROUP_GAP;
+  const baseline = TOP_PADDING + PLOT_HEIGHT;
+
+  return (
+    <figure>
+      <svg
+        viewBox={`0 0 ${width} ${baseline + AXIS_HEIGHT}`}
+        className="h-auto w-full"
+        aria-hidden="true"
+      >
+        {maxValue > 0 && (
+          <>
+            <line
+              x1={0}
+              x2={width}
+              y1={TOP_PADDING}
+              y2={TOP_PADDING}
+              strokeDasharray="2 3"
+              className="stroke-border"
+            />
+            <text x={0} y={TOP_PADDING - 4} fontSize={9} className="fill-muted-foreground">
+              {formatDuration(maxValue)}
+            </text>
+          </>
+        )}
+        <line x1={0} x2={width} y1={baseline} y2={baseline} className="stroke-border" />
+        {groups.map((group, groupIndex) => {
+          const groupX = groupIndex * (groupWidth + GROUP_GAP);
+          return (
+            <g key={group.key}>
+              {group.bars.map((bar, barIndex) => {
+                const x = groupX + barIndex * (BAR_WIDTH + BAR_GAP);
+                let top = baseline;
+                return (
+                  <g key={bar.key}>
+                    <title>{bar.title}</title>
+                    {bar.segments.map((segment) => {
+                      if (maxValue === 0 || segment.value === 0) return null;
+                      const height = (segment.value / maxValue) * PLOT_HEIGHT;
+                      top -= height;
+                      return (
+                        <rect
+                          key={segment.key}
+                          x={x}
+                          y={top}
+                          width={BAR_WIDTH}
+                          height={height}
+                          className={segment.className}
+                        />
+                      );
+                    })}
+                  </g>
+                );
+              })}
+              {group.label && (
+                <text
+                  x={groupX + groupWidth / 2}
+                  y={baseline + AXIS_HEIGHT - 4}
+                  fontSize={9}
+                  textAnchor="middle"
+                  className="fill-muted-foreground"
+                >
+                  {group.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <table className="sr-only">
+        <caption>{label}</caption>
+        <thead>
+          <tr>
+            {table.headers.map((header) => (
+              <th key={header} scope="col">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map(([name, ...cells]) => (
+            <tr key={name}>
+              <th scope="row">{name}</th>
+              {cells.map((cell, index) => (
+                <td key={index}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
+
+/**
+ * Color swatch and name for a chart legend.
+ */
+function LegendItem({ label, className }: { label: string; className: string }) {
+  return (
+    <li className="flex items-center gap-1.5">
+      <svg viewBox="0 0 10 10" className="h-2.5 w-2.5" aria-hidden="true">
+        <rect width={10} height={10} rx={2} className={className} />
+      </svg>
+      {label}
+    </li>
+  );
+}
+
+/**
+ * Props for FocusCharts component.
+ *
+ * @interface FocusChartsProps
+ * @property {TimerSession[]} sessions - Recorded sessions
+ * @property {(mode: FocusMode) => FocusModeConfig} getConfig - Looks up mode labels and colors
+ * @property {DayOptions} [dayOptions] - Time zone and the hour days start at
+ */
+interface FocusChartsProps {
+  sessions: TimerSession[];
+  getConfig: (mode: FocusMode) => FocusModeConfig;
+  dayOptions?: DayOptions;
+}
+
+/**
+ * Statistics dashboard charting where focus time goes and how it changes.
+ *
+ * @component
+ *
+ * @remarks
+ * - Stacked bars of focus time per mode for the last 14 days, 12 weeks or 12 months
+ * - This week's focus time against the same days of last week
+ * - Focus time by the hour sessions started, naming the busiest hour
+ * - Sessions, focus time, average session length and completion rate per mode
+ * - Sessions, focus time and average focus quality per tag, once sessions are tagged
+ * - Charts are plain SVG, each with a hidden table of its numbers for screen readers
+ * - Pomodoro breaks are left out; focus time counts every session run, completed or not
+ *
+ * @example
+ * ```tsx
+ * const { getConfig } = useFocusModes();
+ * return <FocusCharts sessions={sessions} getConfig={getConfig} dayOptions={dayOptions} />;
+ * ```
+ *
+ * @param {FocusChartsProps} props - Component props
+ * @returns {React.ReactElement} Charts, or an empty state without focus sessions
+ */
+export default function FocusCharts({
+  sessions,
+  getConfig,
+  dayOptions,
+}: FocusChartsProps): React.ReactElement {
+  /**
+   * Length of each bar in the focus time chart.
+   * @type {[ChartPeriod, React.Dispatch<React.SetStateAction<ChartPeriod>>]}
+   */
+  const [period, setPeriod] = useState<ChartPeriod>('day');
+
+  const series = useMemo(
+    () => buildFocusTimeSeries(sessions, period, dayOptions),
+    [sessions, period, dayOptions]
+  );
+  const weeks = useMemo(() => compareWeeks(sessions, dayOptions), [sessions, dayOptions]);
+  const hours = useMemo(
+    () => getTimeOfDayDistribution(sessions, dayOptions?.timeZone),
+    [sessions, dayOptions]
+  );
+  const modeSummaries = useMemo(() => summarizeModes(sessions), [sessions]);
+  const tagSummaries = useMemo(() => summarizeTags(sessions), [sessions]);
+
+  if (modeSummaries.length === 0) {
+    return (
+      <p className="py-8 text-center text-muted-foreground">
+        No focus sessions yet. Charts appear once you record some.
+      </p>
+    );
+  }
+
+  const modeClassName = (mode: FocusMode) => `${getConfig(mode).color} fill-current`;
+
+  const periodGroups = series.periods.map((entry, index) => {
+    const { label, name } = describePeriod(entry.start, period, index);
+    return {
+      key: entry.start,
+      label,
+      name,
+      bars: [
+        {
+          key: entry.start,
+          title: `${name}: ${formatDuration(entry.totalTime)}`,
+          segments: entry.modes.map(({ mode, totalTime }) => ({
+            key: mode,
+            value: totalTime,
+            className: modeClassName(mode),
+          })),
+        },
+      ],
+    };
+  });
+
+  const weekGroups = weeks.days.map(({ key, current, previous }) => {
+    const weekday = formatDate(key, { weekday: 'short' });
+    return {
+      key,
+      label: weekday,
+      bars: [
+        {
+          key: 'previous',
+          title: `${weekday} last week: ${formatDuration(previous)}`,
+          segments: [{ key: 'previous', value: previous, className: 'fill-muted-foreground/40' }],
+        },
+        {
+          key: 'current',
+          title: `${weekday} this week: ${current === null ? 'to come' : formatDuration(current)}`,
+          segments: [{ key: 'current', value: current ?? 0, className: 'fill-primary' }],
+        },
+      ],
+    };
+  });
+
+  const peak = hours
+    .filter((hour) => hour.sessions > 0)
+    .reduce((best, hour) => (hour.totalTime > best.totalTime ? hour : best));
+  const hourGroups = hours.map(({ hour, totalTime }) => ({
+    key: String(hour),
+    label: hour % 6 === 0 ? formatHour(hour) : '',
+    bars: [
+      {
+        key: String(hour),
+        title: `${formatHour(hour)}: ${formatDuration(totalTime)}`,
+        segments: [
+          {
+            key: 'time',
+            value: totalTime,
+            className: hour === peak.hour ? 'fill-primary' : 'fill-primary/50',
+          },
+        ],
+      },
+    ],
+  }));
+
+  return (
+    <div className="space-y-8">
+      {/* Focus Time by Mode */}
+      <section className="space-y-3" aria-labelledby="focus-charts-modes">
+        <div className="flex flex-wrap items-end justify-between gap-2">
+          <h4 id="focus-charts-modes" className="text-sm font-medium text-muted-foreground">
+            Focus time by mode
+          </h4>
+          <div className="w-32 space-y-1">
+            <Label htmlFor="focus-charts-period">Show by</Label>
+            <select
+              id="focus-charts-period"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as ChartPeriod)}
+              className={SELECT_CLASS_NAME}
+            >
+              {PERIOD_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <BarChart
+          label="Focus time by mode"
+          groups={periodGroups}
+          table={{
+            headers: [
+              PERIOD_OPTIONS.find((option) => option.value === period)!.label,
+              ...series.modes.map((mode) => getConfig(mode).label),
+              'Total',
+            ],
+            rows: series.periods.map((entry, index) => [
+              periodGroups[index].name,
+              ...entry.modes.map(({ totalTime }) => formatDuration(totalTime)),
+              formatDuration(entry.totalTime),
+            ]),
+          }}
+        />
+        <ul className="flex flex-wrap gap-3 text-xs text-muted-foreground" aria-hidden="true">
+          {series.modes.map((mode) => (
+            <LegendItem key={mode} label={getConfig(mode).label} className={modeClassName(mode)} />
+          ))}
+        </ul>
+      </section>
+
+      {/* Week over Week */}
+      <section className="space-y-3" aria-labelledby="focus-charts-weeks">
+        <div>
+          <h4 id="focus-charts-weeks" className="text-sm font-medium text-muted-foreground">
+            This week vs last week
+          </h4>
+          <p className="text-sm">
+            {formatDuration(weeks.currentTotal)} so far this week, {describeChange(weeks.change)}
+          </p>
+        </div>
+        <BarChart
+          label="This week vs last week"
+          groups={weekGroups}
+          table={{
+            headers: ['Day', 'Last week', 'This week'],
+            rows: weeks.days.map(({ key, current, previous }) => [
+              formatDate(key, { weekday: 'long' }),
+              formatDuration(previous),
+              current === null ? 'To come' : formatDuration(current),
+            ]),
+          }}
+        />
+        <ul className="flex flex-wrap gap-3 text-xs text-muted-foreground" aria-hidden="true">
+          <LegendItem label="Last week" className="fill-muted-foreground/40" />
+          <LegendItem label="This week" className="fill-primary" />
+        </ul>
+      </section>
+
+      {/* Time of Day */}
+      <section className="space-y-3" aria-labelledby="focus-charts-hours">
+        <div>
+          <h4 id="focus-charts-hours" className="text-sm font-medium text-muted-foreground">
+            Time of day
+          </h4>
+          <p className="text-sm">
+            You focus most in sessions started around {formatHour(peak.hour)}, completing{' '}
+            {formatPercent(peak.completed / peak.sessions)} of them
+          </p>
+        </div>
+        <BarChart
+          label="Focus time by starting hour"
+          groups={hourGroups}
+          table={{
+            headers: ['Hour', 'Sessions', 'Focus time', 'Completed'],
+            rows: hours
+              .filter((hour) => hour.sessions > 0)
+              .map(({ hour, sessions: count, completed, totalTime }) => [
+                formatHour(hour),
+                String(count),
+                formatDuration(totalTime),
+                formatPercent(completed / count),
+              ]),
+          }}
+        />
+      </section>
+
+      {/* Mode Summary */}
+      <section className="space-y-3" aria-labelledby="focus-charts-summary">
+        <h4 id="focus-charts-summary" className="text-sm font-medium text-muted-foreground">
+          By mode
+        </h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm" aria-labelledby="focus-charts-summary">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th scope="col" className="py-1 pr-4 font-normal">
+                  Mode
+                </th>
+                <th scope="col" className="py-1 pr-4 text-right font-normal">
+                  Sessions
+                </th>
+                <th scope="col" className="py-1 pr-4 text-right font-normal">
+                  Focus time
+                </th>
+                <th scope="col" className="py-1 pr-4 text-right font-normal">
+                  Average
+                </th>
+                <th scope="col" className="py-1 text-right font-normal">
+                  Completed
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {modeSummaries.map((summary) => (
+                <tr key={summary.mode} className="border-t">
+                  <th scope="row" className="py-2 pr-4 text-left font-medium">
+                    {getConfig(summary.mode).label}
+                  </th>
+                  <td className="py-2 pr-4 text-right">{summary.sessions}</td>
+                  <td className="py-2 pr-4 text-right">{formatDuration(summary.totalTime)}</td>
+                  <td className="py-2 pr-4 text-right">{formatDuration(summary.averageLength)}</td>
+                  <td className="py-2 text-right">{formatPercent(summary.completionRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Tag Summary */}
+      {tagSummaries.length > 0 && (
+        <section className="space-y-3" aria-labelledby="focus-charts-tags">
+          <div>
+            <h4 id="focus-charts-tags" className="text-sm font-medium text-muted-foreground">
+              By tag
+            </h4>
+            <p className="text-xs text-muted-foreground">
+              Sessions with several tags count toward each of them
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" aria-labelledby="focus-charts-tags">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th scope="col" className="py-1 pr-4 font-normal">
+                    Tag
+                  </th>
+                  <th scope="col" className="py-1 pr-4 text-right font-normal">
+                    Sessions
+                  </th>
+                  <th scope="col" className="py-1 pr-4 text-right font-normal">
+                    Focus time
+                  </th>
+                  <th scope="col" className="py-1 text-right font-normal">
+                    Focus quality
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {tagSummaries.map((summary) => (
+                  <tr key={summary.tag} className="border-t">
+                    <th scope="row" className="py-2 pr-4 text-left font-medium">
+                      #{summary.tag}
+                    </th>
+                    <td className="py-2 pr-4 text-right">{summary.sessions}</td>
+                    <td className="py-2 pr-4 text-right">{formatDuration(summary.totalTime)}</td>
+                    <td className="py-2 text-right">
+                      {summary.averageFocusQuality === null
+                        ? 'Not rated'
+                        : `${summary.averageFocusQuality.toFixed(1)}/5`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
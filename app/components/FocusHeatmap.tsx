@@ -0,0 +1,262 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import { addDays, type DayOptions } from '@/lib/utils/calendarDay';
+import { formatDuration } from '@/lib/utils/formatDuration';
+import { buildFocusHeatmap, type HeatmapDay } from '@/lib/utils/focusHeatmap';
+
+/**
+ * Cell colors by level, darker with more focus in the light theme and
+ * brighter in the dark theme.
+ */
+const LEVEL_CLASS_NAMES = [
+  'bg-muted',
+  'bg-emerald-200 dark:bg-emerald-900',
+  'bg-emerald-400 dark:bg-emerald-700',
+  'bg-emerald-600 dark:bg-emerald-500',
+  'bg-emerald-800 dark:bg-emerald-300',
+];
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Arrow keys move a day up or down within a week, a week left or right
+const KEY_OFFSETS: Record<string, number> = {
+  ArrowUp: -1,
+  ArrowDown: 1,
+  ArrowLeft: -7,
+  ArrowRight: 7,
+};
+
+const toDate = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/**
+ * Formats a "YYYY-MM-DD" day, e.g. "Mon, Jan 6, 2025". Days are calendar
+ * dates, so they are formatted in UTC to keep them from shifting.
+ */
+const formatDay = (key: string) =>
+  toDate(key).toLocaleDateString(undefined, {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatMonth = (key: string) =>
+  toDate(key).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' });
+
+const describeTotal = (totalTime: number) =>
+  totalTime > 0 ? `${formatDuration(totalTime)} of focus` : 'No focus time';
+
+/**
+ * Props for FocusHeatmap component.
+ *
+ * @interface FocusHeatmapProps
+ * @property {TimerSession[]} sessions - Recorded sessions
+ * @property {(mode: FocusMode) => string} getModeLabel - Looks up mode labels for the tooltip
+ * @property {DayOptions} [dayOptions] - Time zone and the hour days start at
+ * @property {string | null} selectedDay - Day the session list is filtered to, if any
+ * @property {(day: string | null) => void} onSelectDay - Callback with a clicked day, or null when the selected day is clicked again
+ */
+interface FocusHeatmapProps {
+  sessions: TimerSession[];
+  getModeLabel: (mode: FocusMode) => string;
+  dayOptions?: DayOptions;
+  selectedDay: string | null;
+  onSelectDay: (day: string | null) => void;
+}
+
+/**
+ * Year of daily focus time as a grid of shaded days, one column per week.
+ *
+ * @component
+ *
+ * @remarks
+ * - Each day is a button; hovering or focusing it shows a tooltip with the day's focus time by mode
+ * - Arrow keys move between days, Home and End jump to the first and last day, Escape hides the tooltip
+ * - Clicking a day selects it so the session list can be filtered to it
+ * - Shades are relative to the busiest day and adapt to the light and dark themes
+ *
+ * @example
+ * ```tsx
+ * <FocusHeatmap
+ *   sessions={sessions}
+ *   getModeLabel={(mode) => getConfig(mode).label}
+ *   selectedDay={selectedDay}
+ *   onSelectDay={setSelectedDay}
+ * />
+ * ```
+ *
+ * @param {FocusHeatmapProps} props - Component props
+ * @returns {React.ReactElement} Heatmap grid with its legend
+ */
+export default function FocusHeatmap({
+  sessions,
+  getModeLabel,
+  dayOptions,
+  selectedDay,
+  onSelectDay,
+}: FocusHeatmapProps): React.ReactElement {
+  const weeks = useMemo(() => buildFocusHeatmap(sessions, dayOptions), [sessions, dayOptions]);
+  const days = useMemo(
+    () => weeks.flat().filter((day): day is HeatmapDay => day !== null),
+    [weeks]
+  );
+
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const [tooltip, setTooltip] = useState<{ day: HeatmapDay; left: number; top: number } | null>(
+    null
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cellRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  // The heatmap always ends with today, so there is at least one day
+  const firstKey = days[0].key;
+  const lastKey = days[days.length - 1].key;
+  // The one day reachable with Tab; arrow keys move from there
+  const tabKey = [focusedKey, selectedDay, lastKey].find(
+    (key) => key && key >= firstKey && key <= lastKey
+  );
+
+  const showTooltip = (day: HeatmapDay, cell: HTMLElement) => {
+    const container = containerRef.current?.getBoundingClientRect();
+    const rect = cell.getBoundingClientRect();
+    setTooltip({
+      day,
+      left: rect.left - (container?.left ?? 0) + rect.width / 2,
+      top: rect.top - (container?.top ?? 0),
+    });
+  };
+
+  const moveFocus = (key: string) => {
+    if (key < firstKey || key > lastKey) return;
+    setFocusedKey(key);
+    cellRefs.current.get(key)?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, day: HeatmapDay) => {
+    if (event.key in KEY_OFFSETS) {
+      event.preventDefault();
+      moveFocus(addDays(day.key, KEY_OFFSETS[event.key]));
+    } else if (event.key === 'Home') {
+      event.preventDefault();
+      moveFocus(firstKey);
+    } else if (event.key === 'End') {
+      event.preventDefault();
+      moveFocus(lastKey);
+    } else if (event.key === 'Escape') {
+      setTooltip(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-2">
+          <div
+            className="flex flex-col gap-[3px] pt-5 text-xs text-muted-foreground"
+            aria-hidden="true"
+          >
+            {WEEKDAY_LABELS.map((label, index) => (
+              <span key={index} className="h-3 leading-3">
+                {label}
+              </span>
+            ))}
+          </div>
+          <div role="group" aria-label="Daily focus time">
+            <div className="flex gap-[3px] text-xs text-muted-foreground" aria-hidden="true">
+              {weeks.map((week, index) => {
+                const monday = week[0];
+                const previous = weeks[index - 1]?.[0];
+                const label =
+                  monday && (!previous || formatMonth(previous.key) !== formatMonth(monday.key))
+                    ? formatMonth(monday.key)
+                    : '';
+                return (
+                  <span key={index} className="h-5 w-3 overflow-visible whitespace-nowrap">
+                    {label}
+                  </span>
+                );
+              })}
+            </div>
+            <div className="flex gap-[3px]">
+              {weeks.map((week, index) => (
+                <div key={index} className="flex flex-col gap-[3px]">
+                  {week.map((day, weekday) =>
+                    day ? (
+                      <button
+                        key={day.key}
+                        ref={(cell) => {
+                          if (cell) cellRefs.current.set(day.key, cell);
+                          else cellRefs.current.delete(day.key);
+                        }}
+                        type="button"
+                        tabIndex={day.key === tabKey ? 0 : -1}
+                        aria-label={`${formatDay(day.key)}: ${describeTotal(day.totalTime)}`}
+                        aria-pressed={day.key === selectedDay}
+                        aria-describedby={
+                          tooltip?.day.key === day.key ? 'focus-heatmap-tooltip' : undefined
+                        }
+                        className={`h-3 w-3 rounded-sm ${LEVEL_CLASS_NAMES[day.level]} ${
+                          day.key === selectedDay ? 'ring-2 ring-foreground ring-offset-1' : ''
+                        } focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring`}
+                        onClick={() => onSelectDay(day.key === selectedDay ? null : day.key)}
+                        onKeyDown={(event) => handleKeyDown(event, day)}
+                        onFocus={(event) => {
+                          setFocusedKey(day.key);
+                          showTooltip(day, event.currentTarget);
+                        }}
+                        onBlur={() => setTooltip(null)}
+                        onMouseEnter={(event) => showTooltip(day, event.currentTarget)}
+                        onMouseLeave={() => setTooltip(null)}
+                      />
+                    ) : (
+                      <span key={weekday} className="h-3 w-3" />
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div
+        className="mt-2 flex items-center justify-end gap-1 text-xs text-muted-foreground"
+        aria-hidden="true"
+      >
+        <span className="mr-1">Less</span>
+        {LEVEL_CLASS_NAMES.map((className) => (
+          <span key={className} className={`h-3 w-3 rounded-sm ${className}`} />
+        ))}
+        <span className="ml-1">More</span>
+      </div>
+
+      {tooltip && (
+        <div
+          id="focus-heatmap-tooltip"
+          role="tooltip"
+          className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full rounded-md border bg-popover px-3 py-2 text-xs text-popover-foreground shadow-md"
+          style={{ left: tooltip.left, top: tooltip.top - 6 }}
+        >
+          <p className="font-medium">{formatDay(tooltip.day.key)}</p>
+          <p>{describeTotal(tooltip.day.totalTime)}</p>
+          {tooltip.day.modes.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-muted-foreground">
+              {tooltip.day.modes.map(({ mode, totalTime }) => (
+                <li key={mode}>
+                  {getModeLabel(mode)}: {formatDuration(totalTime)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
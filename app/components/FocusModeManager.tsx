@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Pencil, Plus, Settings2, Trash2 } from 'lucide-react';
+import {
+  CUSTOM_FOCUS_MODE_COLORS,
+  type CustomFocusMode,
+  type FocusMode,
+} from '@/lib/constants/focus-modes';
+import type { CustomFocusModeInput } from '@/lib/hooks/useFocusModes';
+import { formatDuration } from '@/lib/utils/formatDuration';
+import { parseDurationInput, validateDurationInput } from '@/lib/utils/durationInput';
+
+/**
+ * Props for FocusModeManager component.
+ *
+ * @interface FocusModeManagerProps
+ * @property {CustomFocusMode[]} customModes - User's focus modes, without deleted ones
+ * @property {(input: CustomFocusModeInput) => void} onAdd - Callback to create a mode
+ * @property {(value: FocusMode, input: CustomFocusModeInput) => void} onUpdate - Callback to save changes to a mode
+ * @property {(value: FocusMode) => void} onDelete - Callback to delete a mode
+ */
+interface FocusModeManagerProps {
+  customModes: CustomFocusMode[];
+  onAdd: (input: CustomFocusModeInput) => void;
+  onUpdate: (value: FocusMode, input: CustomFocusModeInput) => void;
+  onDelete: (value: FocusMode) => void;
+}
+
+interface ModeForm {
+  label: string;
+  title: string;
+  description: string;
+  duration: string;
+  color: string;
+}
+
+const EMPTY_FORM: ModeForm = {
+  label: '',
+  title: '',
+  description: '',
+  duration: '25',
+  color: CUSTOM_FOCUS_MODE_COLORS[0].color,
+};
+
+/**
+ * Converts seconds to the text shown in the duration field (minutes or MM:SS).
+ */
+const toDurationText = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes}:${rest.toString().padStart(2, '0')}` : `${minutes}`;
+};
+
+/**
+ * Dialog for creating, editing and deleting custom focus modes.
+ *
+ * Each mode has a label shown in the mode selector, a timer title, a short
+ * description, a default duration and a color used for its history badges.
+ *
+ * @component
+ *
+ * @remarks
+ * - The title defaults to "<label> Timer" when left empty
+ * - Durations accept minutes ("45") or MM:SS/HH:MM:SS, like the custom timer input
+ * - Deleting a mode keeps the sessions recorded in it
+ *
+ * @example
+ * ```tsx
+ * const { customModes, addMode, updateMode, deleteMode } = useFocusModes();
+ * return (
+ *   <FocusModeManager
+ *     customModes={customModes}
+ *     onAdd={addMode}
+ *     onUpdate={updateMode}
+ *     onDelete={deleteMode}
+ *   />
+ * );
+ * ```
+ *
+ * @param {FocusModeManagerProps} props - Component props
+ * @returns {React.ReactElement} Button opening the custom focus modes dialog
+ */
+export default function FocusModeManager({
+  customModes,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: FocusModeManagerProps): React.ReactElement {
+  const [open, setOpen] = useState(false);
+
+  /**
+   * Mode being edited, or null when the form creates a new mode.
+   * @type {[FocusMode | null, React.Dispatch<React.SetStateAction<FocusMode | null>>]}
+   */
+  const [editing, setEditing] = useState<FocusMode | null>(null);
+  const [form, setForm] = useState<ModeForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | undefined>();
+
+  const updateField = (field: keyof ModeForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }));
+      setError(undefined);
+    };
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(undefined);
+  };
+
+  const handleEdit = (mode: CustomFocusMode) => {
+    setEditing(mode.value);
+    setForm({
+      label: mode.label,
+      title: mode.title,
+      description: mode.description,
+      duration: toDurationText(mode.duration),
+      color: mode.color,
+    });
+    setError(undefined);
+  };
+
+  const handleDelete = (mode: CustomFocusMode) => {
+    onDelete(mode.value);
+    if (editing === mode.value) resetForm();
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const label = form.label.trim();
+    if (!label) {
+      setError('Please enter a name for the mode');
+      return;
+    }
+    const duration = parseDurationInput(form.duration);
+    const validation = validateDurationInput(duration);
+    if (!validation.isValid) {
+      setError(validation.error);
+      return;
+    }
+
+    const input: CustomFocusModeInput = {
+      label,
+      title: form.title.trim() || `${label} Timer`,
+      description: form.description.trim(),
+      duration,
+      color: form.color,
+    };
+    if (editing) {
+      onUpdate(editing, input);
+    } else {
+      onAdd(input);
+    }
+    resetForm();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 mb-6">
+          <Settings2 className="h-4 w-4" />
+          Manage modes
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Custom Focus Modes</DialogTitle>
+          <DialogDescription>
+            Add your own modes, like Reading or Language practice, with their own duration.
+          </DialogDescription>
+        </DialogHeader>
+
+        {customModes.length > 0 && (
+          <ul className="space-y-2" aria-label="Custom focus modes">
+            {customModes.map((mode) => (
+              <li
+                key={mode.value}
+                className="flex items-center justify-between gap-2 rounded-lg border p-2"
+              >
+                <span className={`rounded-md px-2 py-0.5 text-sm font-medium ${mode.color}`}>
+                  {mode.label}
+                </span>
+                <span className="flex-1 text-sm text-muted-foreground">
+                  {formatDuration(mode.duration)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleEdit(mode)}
+                  aria-label={`Edit ${mode.label}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(mode)}
+                  aria-label={`Delete ${mode.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3" aria-label="Focus mode details">
+          <div className="space-y-1">
+            <Label htmlFor="mode-label">Name</Label>
+            <Input
+              id="mode-label"
+              value={form.label}
+              onChange={updateField('label')}
+              placeholder="Reading"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mode-title">Timer title</Label>
+            <Input
+              id="mode-title"
+              value={form.title}
+              onChange={updateField('title')}
+              placeholder={form.label.trim() ? `${form.label.trim()} Timer` : 'Reading Timer'}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mode-description">Description</Label>
+            <Input
+              id="mode-description"
+              value={form.description}
+              onChange={updateField('description')}
+              placeholder="Quiet time with a book"
+            />
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="mode-duration">Default duration</Label>
+              <Input
+                id="mode-duration"
+                value={form.duration}
+                onChange={updateField('duration')}
+                placeholder="Minutes or MM:SS"
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="mode-color">Color</Label>
+              <select
+                id="mode-color"
+                value={form.color}
+                onChange={updateField('color')}
+                className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {CUSTOM_FOCUS_MODE_COLORS.map(({ name, color }) => (
+                  <option key={name} value={color}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="gap-2">
+              {editing ? (
+                'Save changes'
+              ) : (
+                <>
+                  <Plus className="h-4 w-4" />
+                  Add mode
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
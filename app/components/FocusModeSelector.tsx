@@ -1,7 +1,11 @@
 'use client';
 
 import React from 'react';
-import { getFocusModeList, type FocusMode } from '@/lib/constants/focus-modes';
+import {
+  getFocusModeList,
+  type FocusMode,
+  type FocusModeConfig,
+} from '@/lib/constants/focus-modes';
 
 /**
  * Props for FocusModeSelector component.
@@ -9,17 +13,20 @@ import { getFocusModeList, type FocusMode } from '@/lib/constants/focus-modes';
  * @interface FocusModeSelectorProps
  * @property {FocusMode} selectedMode - Currently selected focus mode
  * @property {(mode: FocusMode) => void} onModeChange - Callback when mode is changed
+ * @property {FocusModeConfig[]} [modes] - Modes to offer, defaults to the built-in modes
  */
 interface FocusModeSelectorProps {
   selectedMode: FocusMode;
   onModeChange: (mode: FocusMode) => void;
+  modes?: FocusModeConfig[];
 }
 
 /**
  * FocusModeSelector component for choosing between different focus modes.
  *
  * This component provides a radio group interface for selecting between Study, Work,
- * Yoga, and Meditation modes. It's designed to be used within the Focus tab to allow
+ * Yoga, and Meditation modes, plus any modes passed in `modes` such as the user's
+ * custom modes. It's designed to be used within the Focus tab to allow
  * users to switch between different timer configurations without changing tabs.
  *
  * @component
@@ -48,8 +55,9 @@ interface FocusModeSelectorProps {
 export default function FocusModeSelector({
   selectedMode,
   onModeChange,
+  modes,
 }: FocusModeSelectorProps): React.ReactElement {
-  const focusModes = getFocusModeList();
+  const focusModes = modes ?? getFocusModeList();
 
   const handleModeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     onModeChange(event.target.value as FocusMode);
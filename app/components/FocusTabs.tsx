@@ -1,16 +1,35 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
+import { Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import Timer from './Timer';
 import TimerHistory from './TimerHistory';
 import RepeatTimer from './RepeatTimer';
+import PomodoroTimer from './PomodoroTimer';
 import FocusModeSelector from './FocusModeSelector';
+import FocusModeManager from './FocusModeManager';
+import GoalProgressRings from './GoalProgressRings';
+import SessionReflectionDialog from './SessionReflectionDialog';
+import TaskList from './TaskList';
+import InterruptionReview from './InterruptionReview';
 import { motion, useReducedMotion, type Variants } from 'framer-motion';
 import { ThemeToggle } from './ThemeToggle';
 import { useTimerHistory } from '@/lib/hooks/useTimerHistory';
+import { useHistorySyncClient } from '@/lib/hooks/useHistorySyncClient';
+import { useFocusModes } from '@/lib/hooks/useFocusModes';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { useGoalProgress } from '@/lib/hooks/useGoalProgress';
+import { useFocusTasks } from '@/lib/hooks/useFocusTasks';
+import { useProjects } from '@/lib/hooks/useProjects';
 import type { TimerSession } from '@/lib/types/timer-history';
-import { getFocusModeConfig, type FocusMode } from '@/lib/constants/focus-modes';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import { loadActiveTimer } from '@/lib/utils/activeTimerStorage';
+import { getSessionTags } from '@/lib/utils/sessionReflection';
+import { getTaskProgress } from '@/lib/utils/focusTasks';
+import type { TimerSessionInput } from '@/lib/utils/timerSession';
 
 /**
  * Framer Motion animation variants for tab content transitions.
@@ -48,19 +67,31 @@ const tabContentVariants: Variants = {
 /**
  * Main tabbed interface component for the focus timer application.
  *
- * This component provides a tabbed interface with a Focus tab and History view.
- * The Focus tab includes a mode selector for switching between Study, Work, Yoga,
- * and Meditation modes, each with its own timer configuration.
+ * This component provides a tabbed interface with Focus, Pomodoro, Intervals and
+ * History views. The Focus tab includes a mode selector for switching between Study,
+ * Work, Yoga, and Meditation modes and the user's own modes, each with its own timer
+ * configuration.
  *
  * @component
  *
  * @remarks
- * - 2 main tabs: Focus and History
+ * - 4 main tabs: Focus, Pomodoro, Intervals and History
+ * - Pomodoro tab cycles focus blocks with short and long breaks, recorded under the
+ *   focus mode selected in the Focus tab
  * - Focus tab includes a mode selector for 4 focus modes (Study, Work, Yoga, Meditation)
- * - Each focus mode has a pre-configured timer duration
- * - Integrates with timer history tracking system
+ *   plus custom modes created in the "Manage modes" dialog
+ * - Each focus mode has a pre-configured timer duration, which can be overridden in Settings
+ * - Focus tab shows progress rings for the goals of the selected mode and of any mode;
+ *   reaching a goal is announced on every tab
+ * - A completed Focus tab session opens a reflection dialog for notes, tags and ratings,
+ *   unless the reflection prompt is turned off in Settings
+ * - Focus tab has a task list; sessions and Pomodoro focus blocks are attributed to the task
+ *   selected when they start and reported to that task's project
+ * - Notes logged with the interruption capture while a session runs are listed when it
+ *   ends, to be added to the task list
+ * - Integrates with timer history tracking system, synced to Amplify for signed-in users
  * - Respects user's reduced motion preferences (prefers-reduced-motion)
- * - Displays theme toggle in top-right corner
+ * - Displays a settings link and theme toggle in top-right corner
  * - Uses Framer Motion for smooth transitions
  * - Fully accessible with ARIA labels
  *
@@ -76,7 +107,7 @@ const tabContentVariants: Variants = {
  */
 export default function FocusTabs() {
   /**
-   * Currently active tab value (either 'focus' or 'history').
+   * Currently active tab value ('focus', 'pomodoro', 'intervals' or 'history').
    * @type {[string, React.Dispatch<React.SetStateAction<string>>]}
    */
   const [activeTab, setActiveTab] = React.useState('focus');
@@ -94,26 +125,144 @@ export default function FocusTabs() {
   const shouldReduceMotion = useReducedMotion();
 
   /**
-   * Hook to add timer sessions to history.
-   * @type {{ addSession: (focusMode: TimerSession['focusMode'], duration: number, completed: boolean) => void }}
+   * Built-in and custom focus modes.
    */
-  const { addSession } = useTimerHistory();
+  const { focusModes, customModes, getConfig, isFocusMode, addMode, updateMode, deleteMode } =
+    useFocusModes();
 
   /**
-   * Handles completion of a timer session.
-   * Adds the session to history with focus mode, duration, and completion status.
+   * User's default duration overrides for each focus mode.
+   */
+  const {
+    getDefaultDuration,
+    preferences: { reflectionPrompt },
+  } = usePreferences();
+
+  // Reopen the mode or tab of a timer saved before the page was reloaded
+  React.useEffect(() => {
+    const focusTimer = loadActiveTimer('focus');
+    const pomodoroTimer = loadActiveTimer('pomodoro');
+    if (focusTimer) {
+      setSelectedMode(focusTimer.focusMode);
+    } else if (pomodoroTimer) {
+      setActiveTab('pomodoro');
+      if (pomodoroTimer.focusMode) setSelectedMode(pomodoroTimer.focusMode);
+    } else if (loadActiveTimer('interval')) {
+      setActiveTab('intervals');
+    }
+  }, []);
+
+  // Fall back to Study when the selected custom mode is deleted
+  const isSelectedAvailable = isFocusMode(selectedMode);
+  React.useEffect(() => {
+    if (!isSelectedAvailable && !loadActiveTimer('focus')) {
+      setSelectedMode('study');
+    }
+  }, [isSelectedAvailable]);
+
+  /**
+   * Amplify data client while a user is signed in, used to sync history across devices.
+   */
+  const syncClient = useHistorySyncClient();
+
+  /**
+   * Hook to add timer sessions to history. Focus tab sessions are recorded
+   * with their start time and pauses, and reflections added to them afterwards.
+   * @type {{ sessions: TimerSession[], addSession: (focusMode: TimerSession['mode'], duration: number, completed: boolean, phase?: SessionPhase) => void, recordSession: (session: TimerSessionInput) => TimerSession, updateSession: (id: string, changes: TimerSessionChanges) => void }}
+   */
+  const { sessions, addSession, recordSession, updateSession } = useTimerHistory({ syncClient });
+
+  /**
+   * Focus tab session just completed, awaiting the user's reflection.
+   * @type {[TimerSession | null, React.Dispatch<React.SetStateAction<TimerSession | null>>]}
+   */
+  const [reflectingSession, setReflectingSession] = React.useState<TimerSession | null>(null);
+
+  /**
+   * Last Focus tab session with notes logged while it ran, until the user is done with them.
+   * @type {[TimerSession | null, React.Dispatch<React.SetStateAction<TimerSession | null>>]}
+   */
+  const [reviewSession, setReviewSession] = React.useState<TimerSession | null>(null);
+
+  const getModeLabel = React.useCallback(
+    (mode: FocusMode) => getConfig(mode).label,
+    [getConfig]
+  );
+
+  /**
+   * Progress of the goals due today; reached goals are announced by the hook.
+   */
+  const goalProgress = useGoalProgress(sessions, getModeLabel);
+
+  /**
+   * Task list of the Focus tab and the task new sessions are attributed to.
+   */
+  const {
+    tasks,
+    activeTaskId,
+    addTask,
+    updateTask,
+    selectTask,
+    setTaskCompleted,
+    setTaskArchived,
+    moveTask,
+  } = useFocusTasks();
+
+  const taskProgress = React.useMemo(() => getTaskProgress(sessions), [sessions]);
+
+  /**
+   * Projects tasks belong to; their sessions are reported to the same project.
+   */
+  const { projects } = useProjects();
+
+  /**
+   * Handles completion of an Intervals tab round.
+   * Adds the session to history with focus mode, duration and completion status.
    *
-   * @param {TimerSession['focusMode']} focusMode - Type of focus session
+   * @param {TimerSession['mode']} focusMode - Type of focus session
    * @param {number} duration - Session duration in seconds
-   * @param {boolean} completed - Whether session was completed or paused
+   * @param {boolean} completed - Whether session was completed or stopped early
    */
   const handleSessionComplete = React.useCallback(
-    (focusMode: TimerSession['focusMode'], duration: number, completed: boolean) => {
+    (focusMode: TimerSession['mode'], duration: number, completed: boolean) => {
       addSession(focusMode, duration, completed);
     },
     [addSession]
   );
 
+  /**
+   * Records a Focus tab session under the project of its task, lists the notes
+   * logged during it and, once it completes, asks for a reflection on it.
+   *
+   * @param {TimerSessionInput} input - Session reported by the timer
+   */
+  const handleFocusSessionComplete = React.useCallback(
+    (input: TimerSessionInput) => {
+      const projectId = tasks.find((task) => task.id === input.taskId)?.projectId;
+      const session = recordSession({ ...input, projectId });
+      if (session.interruptions?.some((interruption) => interruption.note)) {
+        setReviewSession(session);
+      }
+      if (session.completed && reflectionPrompt) {
+        setReflectingSession(session);
+      }
+    },
+    [recordSession, reflectionPrompt, tasks]
+  );
+
+  /**
+   * Records a Pomodoro phase under the project of its task.
+   *
+   * @param {TimerSessionInput} input - Phase reported by the Pomodoro timer
+   */
+  const handlePomodoroPhaseComplete = React.useCallback(
+    (input: TimerSessionInput) => {
+      const projectId = tasks.find((task) => task.id === input.taskId)?.projectId;
+      recordSession({ ...input, projectId });
+    },
+    [recordSession, tasks]
+  );
+
   /**
    * Animation variants adjusted for user's reduced motion preference.
    * Uses simple opacity-only transitions if reduced motion is preferred.
@@ -134,11 +283,16 @@ export default function FocusTabs() {
   /**
    * Get the configuration for the currently selected focus mode.
    */
-  const currentModeConfig = getFocusModeConfig(selectedMode);
+  const currentModeConfig = getConfig(selectedMode);
 
   return (
     <div className="relative flex min-h-screen flex-col items-center justify-center p-8 sm:p-24">
-      <div className="absolute top-4 right-4 sm:top-8 sm:right-8">
+      <div className="absolute top-4 right-4 flex gap-1 sm:top-8 sm:right-8">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/settings" aria-label="Settings" title="Settings">
+            <Settings className="size-5" />
+          </Link>
+        </Button>
         <ThemeToggle />
       </div>
       <Tabs
@@ -146,8 +300,9 @@ export default function FocusTabs() {
         onValueChange={setActiveTab}
         className="w-full max-w-4xl"
       >
-        <TabsList className="grid w-full grid-cols-3 mb-12" aria-label="Focus mode selection">
+        <TabsList className="grid w-full grid-cols-4 mb-12" aria-label="Focus mode selection">
           <TabsTrigger value="focus">Focus</TabsTrigger>
+          <TabsTrigger value="pomodoro">Pomodoro</TabsTrigger>
           <TabsTrigger value="intervals">Intervals</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
@@ -169,12 +324,71 @@ export default function FocusTabs() {
             <FocusModeSelector
               selectedMode={selectedMode}
               onModeChange={setSelectedMode}
+              modes={focusModes}
+            />
+            <FocusModeManager
+              customModes={customModes}
+              onAdd={addMode}
+              onUpdate={updateMode}
+              onDelete={deleteMode}
             />
             <Timer
-              duration={currentModeConfig.duration}
+              duration={getDefaultDuration(selectedMode, currentModeConfig.duration)}
               title={currentModeConfig.title}
               focusMode={selectedMode}
-              onSessionComplete={handleSessionComplete}
+              onSessionComplete={handleFocusSessionComplete}
+              onFocusModeChange={setSelectedMode}
+              taskId={activeTaskId ?? undefined}
+            />
+            {reviewSession && (
+              <InterruptionReview
+                key={reviewSession.id}
+                interruptions={reviewSession.interruptions ?? []}
+                onAddTask={(title) => addTask(title, undefined, reviewSession.projectId)}
+                onClose={() => setReviewSession(null)}
+              />
+            )}
+            <GoalProgressRings
+              progress={goalProgress.filter(
+                ({ goal }) => goal.mode === undefined || goal.mode === selectedMode
+              )}
+              getModeLabel={getModeLabel}
+            />
+            <TaskList
+              tasks={tasks}
+              activeTaskId={activeTaskId}
+              progress={taskProgress}
+              projects={projects}
+              onAdd={addTask}
+              onUpdate={updateTask}
+              onSelect={selectTask}
+              onCompletedChange={setTaskCompleted}
+              onArchivedChange={setTaskArchived}
+              onMove={moveTask}
+            />
+            <SessionReflectionDialog
+              session={reflectingSession}
+              suggestedTags={getSessionTags(sessions)}
+              onSave={updateSession}
+              onClose={() => setReflectingSession(null)}
+            />
+          </motion.div>
+        </TabsContent>
+
+        <TabsContent value="pomodoro" className="text-center">
+          <motion.div
+            initial="hidden"
+            animate="visible"
+            variants={animationVariants}
+          >
+            <h1 className="text-4xl font-bold mb-2">Pomodoro Timer</h1>
+            <p className="text-lg text-muted-foreground mb-8">
+              Focus blocks with short breaks and a long break every few Pomodoros
+            </p>
+            <PomodoroTimer
+              focusMode={selectedMode}
+              taskId={activeTaskId ?? undefined}
+              onSessionComplete={handlePomodoroPhaseComplete}
             />
           </motion.div>
         </TabsContent>
@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { Check } from 'lucide-react';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { GoalProgress } from '@/lib/types/goals';
+import { describeGoal, formatGoalValue } from '@/lib/utils/goals';
+
+const RING_SIZE = 64;
+const RING_STROKE = 6;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Props for GoalProgressRings component.
+ *
+ * @interface GoalProgressRingsProps
+ * @property {GoalProgress[]} progress - Goals to show, from `useGoalProgress`
+ * @property {(mode: FocusMode) => string} getModeLabel - Looks up the label of a goal's focus mode
+ */
+interface GoalProgressRingsProps {
+  progress: GoalProgress[];
+  getModeLabel: (mode: FocusMode) => string;
+}
+
+/**
+ * Progress rings for the user's goals, one per goal, filling up as focus time
+ * or sessions are recorded in the goal's day or week.
+ *
+ * @component
+ *
+ * @remarks
+ * - Each ring is a progressbar labelled with the goal, e.g. "3h of Work every weekday"
+ * - A reached goal shows a check mark in its ring
+ * - Renders nothing without goals
+ *
+ * @example
+ * ```tsx
+ * const progress = useGoalProgress(sessions, getModeLabel);
+ * return <GoalProgressRings progress={progress} getModeLabel={getModeLabel} />;
+ * ```
+ *
+ * @param {GoalProgressRingsProps} props - Component props
+ * @returns {React.ReactElement | null} List of goal rings
+ */
+export default function GoalProgressRings({
+  progress,
+  getModeLabel,
+}: GoalProgressRingsProps): React.ReactElement | null {
+  if (progress.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-8 flex flex-wrap justify-center gap-6" aria-label="Goals">
+      {progress.map(({ goal, value, met }) => {
+        const label = describeGoal(
+          goal,
+          goal.mode === undefined ? undefined : getModeLabel(goal.mode)
+        );
+        const filled = Math.min(value / goal.target, 1);
+
+        return (
+          <li key={goal.id} className="flex w-32 flex-col items-center gap-2 text-center">
+            <div
+              role="progressbar"
+              aria-label={label}
+              aria-valuemin={0}
+              aria-valuemax={goal.target}
+              aria-valuenow={Math.min(value, goal.target)}
+              aria-valuetext={`${formatGoalValue(goal.metric, value)} of ${formatGoalValue(
+                goal.metric,
+                goal.target
+              )}`}
+              className="relative"
+            >
+              <svg
+                width={RING_SIZE}
+                height={RING_SIZE}
+                viewBox={`0 0 ${RING_SIZE} ${RING_SIZE}`}
+                className="-rotate-90"
+                aria-hidden="true"
+              >
+                <circle
+                  cx={RING_SIZE / 2}
+                  cy={RING_SIZE / 2}
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth={RING_STROKE}
+                  className="stroke-muted"
+                />
+                <circle
+                  cx={RING_SIZE / 2}
+                  cy={RING_SIZE / 2}
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth={RING_STROKE}
+                  strokeLinecap="round"
+                  strokeDasharray={RING_CIRCUMFERENCE}
+                  strokeDashoffset={RING_CIRCUMFERENCE * (1 - filled)}
+                  className="stroke-primary transition-[stroke-dashoffset] duration-500"
+                />
+              </svg>
+              {met && (
+                <Check className="absolute inset-0 m-auto h-6 w-6 text-primary" aria-hidden="true" />
+              )}
+            </div>
+            <div className="text-sm">
+              <p className="font-medium">
+                {formatGoalValue(goal.metric, value)} / {formatGoalValue(goal.metric, goal.target)}
+              </p>
+              <p className="text-muted-foreground">{label}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,405 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Filter } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTimerHistory } from '@/lib/hooks/useTimerHistory';
+import { useHistorySyncClient } from '@/lib/hooks/useHistorySyncClient';
+import { useFocusModes } from '@/lib/hooks/useFocusModes';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { useProjects } from '@/lib/hooks/useProjects';
+import {
+  DEFAULT_HISTORY_FILTER,
+  filterSessions,
+  getDailyTotals,
+  groupSessionsByDay,
+  type HistoryFilter,
+  type HistorySort,
+  type HistoryStatusFilter,
+} from '@/lib/utils/historyFilter';
+import { formatDuration } from '@/lib/utils/formatDuration';
+import { getSessionTags } from '@/lib/utils/sessionReflection';
+import type { FocusMode, FocusModeConfig } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import HistoryExportButton from './HistoryExportButton';
+import SessionEditDialog from './SessionEditDialog';
+import SessionRow from './SessionRow';
+import UndoToast from './UndoToast';
+
+/**
+ * Sessions shown per page
+ */
+export const HISTORY_PAGE_SIZE = 50;
+
+const STATUS_OPTIONS: { value: HistoryStatusFilter; label: string }[] = [
+  { value: 'all', label: 'All sessions' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'incomplete', label: 'Incomplete' },
+];
+
+const SORT_OPTIONS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'longest', label: 'Longest first' },
+  { value: 'shortest', label: 'Shortest first' },
+];
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-background px-2 text-sm';
+
+/**
+ * Formats a "YYYY-MM-DD" day as a heading, e.g. "Monday, January 13, 2025".
+ */
+const formatDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const formatClockTime = (iso: string, timeZone: string | undefined) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', timeZone });
+
+const formatDateTime = (iso: string, timeZone: string | undefined) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone });
+
+/**
+ * Full timer history with filters, search and pagination.
+ *
+ * Lists every recorded session, unlike the 10 most recent shown on the
+ * History tab. Sessions can be narrowed down by date range, focus mode,
+ * completion and tag, searched by text and sorted by time or duration.
+ *
+ * @component
+ *
+ * @remarks
+ * - Sorted by time, sessions are grouped by day with the day's session count and focus time
+ * - Days and times follow the time zone and "day starts at" hour in the user's preferences
+ * - Daily totals cover every session of the day that matches the filters, not just the current page
+ * - Shows {@link HISTORY_PAGE_SIZE} sessions per page, so long histories render quickly
+ * - Search matches focus mode names, intentions, notes and tags; every word must match
+ * - Sessions can be edited and deleted, with an undo toast after deleting
+ * - Exports the sessions matching the filters as CSV, a JSON backup or an iCalendar file
+ *
+ * @example
+ * ```tsx
+ * // app/history/page.tsx
+ * export default function HistoryPage() {
+ *   return <HistoryBrowser />;
+ * }
+ * ```
+ *
+ * @returns {React.ReactElement} Filters and the paginated session list
+ */
+export default function HistoryBrowser(): React.ReactElement {
+  const syncClient = useHistorySyncClient();
+  const { sessions, updateSession, deleteSessions, restoreSessions } = useTimerHistory({
+    syncClient,
+  });
+  const { focusModes, getConfig } = useFocusModes();
+  const { projects, getProject } = useProjects();
+  const {
+    preferences: { timeZone, dayStartHour },
+  } = usePreferences();
+  const dayOptions = useMemo(() => ({ timeZone, dayStartHour }), [timeZone, dayStartHour]);
+
+  const [filter, setFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+  const [page, setPage] = useState(0);
+  const [editingSession, setEditingSession] = useState<TimerSession | null>(null);
+  const [deleted, setDeleted] = useState<TimerSession | null>(null);
+
+  /**
+   * Modes offered in the mode filter, including deleted modes that still have sessions.
+   */
+  const modeOptions = useMemo<FocusModeConfig[]>(() => {
+    const known = new Set(focusModes.map((mode) => mode.value));
+    const removed = new Set<FocusMode>();
+    sessions.forEach((session) => {
+      if (!known.has(session.mode)) removed.add(session.mode);
+    });
+    return [...focusModes, ...[...removed].map(getConfig)];
+  }, [focusModes, getConfig, sessions]);
+
+  /**
+   * Tags offered in the tag filter, most used first.
+   */
+  const tagOptions = useMemo(() => getSessionTags(sessions), [sessions]);
+
+  const filtered = useMemo(
+    () => filterSessions(sessions, filter, (mode) => getConfig(mode).label, dayOptions),
+    [sessions, filter, getConfig, dayOptions]
+  );
+  const dailyTotals = useMemo(() => getDailyTotals(filtered, dayOptions), [filtered, dayOptions]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / HISTORY_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageSessions = filtered.slice(
+    currentPage * HISTORY_PAGE_SIZE,
+    (currentPage + 1) * HISTORY_PAGE_SIZE
+  );
+  const groupByDay = filter.sort === 'newest' || filter.sort === 'oldest';
+
+  const updateFilter = <K extends keyof HistoryFilter>(field: K, value: HistoryFilter[K]) => {
+    setFilter((prev) => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  const handleDelete = (session: TimerSession) => {
+    deleteSessions([session.id]);
+    setDeleted(session);
+  };
+
+  const renderRow = (session: TimerSession, timeLabel: string) => (
+    <SessionRow
+      key={session.id}
+      session={session}
+      config={getConfig(session.mode)}
+      timeLabel={timeLabel}
+      project={getProject(session.projectId)}
+      onEdit={() => setEditingSession(session)}
+      onDelete={() => handleDelete(session)}
+    />
+  );
+
+  return (
+    <main className="mx-auto w-full max-w-4xl space-y-6 p-8 sm:p-12">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">History</h1>
+          <p className="text-muted-foreground">Every session you have recorded</p>
+        </div>
+        <Button variant="ghost" asChild>
+          <Link href="/" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to timers
+          </Link>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Filters
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="history-from">From</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filter.from}
+              max={filter.to || undefined}
+              onChange={(e) => updateFilter('from', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to">To</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filter.to}
+              min={filter.from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-search">Search</Label>
+            <Input
+              id="history-search"
+              type="search"
+              value={filter.query}
+              onChange={(e) => updateFilter('query', e.target.value)}
+              placeholder="Mode, intention, notes or tag"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-mode">Focus mode</Label>
+            <select
+              id="history-mode"
+              value={filter.mode}
+              onChange={(e) => updateFilter('mode', e.target.value as FocusMode | 'all')}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="all">All modes</option>
+              {modeOptions.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-status">Status</Label>
+            <select
+              id="history-status"
+              value={filter.status}
+              onChange={(e) => updateFilter('status', e.target.value as HistoryStatusFilter)}
+              className={SELECT_CLASS_NAME}
+            >
+              {STATUS_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-tag">Tag</Label>
+            <select
+              id="history-tag"
+              value={filter.tag}
+              onChange={(e) => updateFilter('tag', e.target.value)}
+              className={SELECT_CLASS_NAME}
+              disabled={tagOptions.length === 0 && !filter.tag}
+            >
+              <option value="">All tags</option>
+              {tagOptions.map((tag) => (
+                <option key={tag} value={tag}>
+                  {tag}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-sort">Sort</Label>
+            <select
+              id="history-sort"
+              value={filter.sort}
+              onChange={(e) => updateFilter('sort', e.target.value as HistorySort)}
+              className={SELECT_CLASS_NAME}
+            >
+              {SORT_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sessions */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Sessions</CardTitle>
+              <CardDescription>
+                {filtered.length === 1 ? '1 session' : `${filtered.length} sessions`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setFilter(DEFAULT_HISTORY_FILTER);
+                  setPage(0);
+                }}
+                disabled={filter === DEFAULT_HISTORY_FILTER}
+              >
+                Reset filters
+              </Button>
+              <HistoryExportButton
+                sessions={filtered}
+                getModeLabel={(mode) => getConfig(mode).label}
+                scope={filter === DEFAULT_HISTORY_FILTER ? undefined : 'matching the filters'}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {filtered.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Clock className="h-12 w-12 mx-auto mb-3 opacity-20" />
+              <p>{sessions.length === 0 ? 'No timer sessions yet' : 'No sessions match'}</p>
+            </div>
+          ) : groupByDay ? (
+            groupSessionsByDay(pageSessions, dayOptions).map((day) => {
+              const totals = dailyTotals.get(day.key);
+              return (
+                <section key={day.key} aria-label={formatDay(day.key)} className="space-y-3">
+                  <div className="flex items-baseline justify-between">
+                    <h2 className="font-medium">{formatDay(day.key)}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      {totals?.count === 1 ? '1 session' : `${totals?.count} sessions`} ·{' '}
+                      {formatDuration(totals?.totalTime ?? 0)}
+                    </p>
+                  </div>
+                  {day.sessions.map((session) =>
+                    renderRow(session, formatClockTime(session.endTime, timeZone))
+                  )}
+                </section>
+              );
+            })
+          ) : (
+            <div className="space-y-3">
+              {pageSessions.map((session) =>
+                renderRow(session, formatDateTime(session.endTime, timeZone))
+              )}
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <nav aria-label="Pages" className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage === pageCount - 1}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </nav>
+          )}
+        </CardContent>
+      </Card>
+
+      <SessionEditDialog
+        session={editingSession}
+        modes={focusModes}
+        getConfig={getConfig}
+        projects={projects}
+        onSave={updateSession}
+        onClose={() => setEditingSession(null)}
+      />
+
+      {deleted && (
+        <UndoToast
+          key={deleted.id}
+          message="Session deleted"
+          onUndo={() => {
+            restoreSessions([deleted]);
+            setDeleted(null);
+          }}
+          onDismiss={() => setDeleted(null)}
+        />
+      )}
+    </main>
+  );
+}
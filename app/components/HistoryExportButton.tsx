@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CalendarDays, Download, FileJson, FileSpreadsheet } from 'lucide-react';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import {
+  downloadFile,
+  exportHistory,
+  type HistoryExportFormat,
+} from '@/lib/utils/historyExport';
+
+const EXPORT_OPTIONS: {
+  format: HistoryExportFormat;
+  label: string;
+  description: string;
+  icon: typeof Download;
+}[] = [
+  {
+    format: 'csv',
+    label: 'CSV',
+    description: 'For spreadsheets and timesheets',
+    icon: FileSpreadsheet,
+  },
+  {
+    format: 'json',
+    label: 'JSON backup',
+    description: 'Every detail, to keep or import later',
+    icon: FileJson,
+  },
+  {
+    format: 'ics',
+    label: 'Calendar (.ics)',
+    description: 'Each session as a calendar event',
+    icon: CalendarDays,
+  },
+];
+
+/**
+ * Props for HistoryExportButton component.
+ *
+ * @interface HistoryExportButtonProps
+ * @property {TimerSession[]} sessions - Sessions to export
+ * @property {(mode: FocusMode) => string} getModeLabel - Looks up mode labels for the CSV and calendar
+ * @property {string} [scope] - Describes which sessions are exported, e.g. "matching the filters"
+ */
+interface HistoryExportButtonProps {
+  sessions: TimerSession[];
+  getModeLabel: (mode: FocusMode) => string;
+  scope?: string;
+}
+
+/**
+ * Button opening a dialog to download sessions as CSV, a JSON backup or an
+ * iCalendar file.
+ *
+ * @component
+ *
+ * @remarks
+ * - Files are generated in the browser; nothing is uploaded
+ * - Disabled when there are no sessions to export
+ *
+ * @example
+ * ```tsx
+ * <HistoryExportButton sessions={sessions} getModeLabel={(mode) => getConfig(mode).label} />
+ * ```
+ *
+ * @param {HistoryExportButtonProps} props - Component props
+ * @returns {React.ReactElement} Export button and dialog
+ */
+export default function HistoryExportButton({
+  sessions,
+  getModeLabel,
+  scope,
+}: HistoryExportButtonProps): React.ReactElement {
+  const [open, setOpen] = useState(false);
+  const count = sessions.length === 1 ? '1 session' : `${sessions.length} sessions`;
+
+  const handleExport = (format: HistoryExportFormat) => {
+    downloadFile(exportHistory(sessions, format, getModeLabel));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={sessions.length === 0}>
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export History</DialogTitle>
+          <DialogDescription>
+            Download {count}
+            {scope ? ` ${scope}` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+            <Button
+              key={format}
+              variant="outline"
+              className="h-auto w-full justify-start gap-3 py-3"
+              onClick={() => handleExport(format)}
+            >
+              <Icon className="h-5 w-5" />
+              <span className="text-left">
+                <span className="block font-medium">{label}</span>
+                <span className="block text-sm text-muted-foreground">{description}</span>
+              </span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
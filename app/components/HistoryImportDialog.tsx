@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+import type { FocusMode, FocusModeConfig } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import {
+  guessColumnMapping,
+  parseCsv,
+  previewImport,
+  readBackupSessions,
+  readCsvSessions,
+  type CsvColumnMapping,
+  type CsvImportField,
+  type ImportCandidate,
+} from '@/lib/utils/historyImport';
+
+const FIELD_LABELS: { field: CsvImportField; label: string }[] = [
+  { field: 'mode', label: 'Focus mode' },
+  { field: 'startTime', label: 'Start time' },
+  { field: 'endTime', label: 'End time' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'plannedDuration', label: 'Planned duration' },
+  { field: 'completed', label: 'Completed' },
+  { field: 'phase', label: 'Pomodoro phase' },
+  { field: 'intention', label: 'Focused on' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'focusQuality', label: 'Focus quality' },
+  { field: 'mood', label: 'Energy and mood' },
+  { field: 'id', label: 'Session id' },
+];
+
+/**
+ * Skipped rows listed in the preview; the rest are only counted
+ */
+const MAX_SKIPPED_SHOWN = 20;
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-background px-2 text-sm';
+
+/**
+ * Reads a chosen file as text. FileReader is used rather than `Blob.text()`,
+ * which some older mobile browsers lack.
+ */
+const readFileText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * A file being imported: a backup is read as is, a CSV file is read with the
+ * column mapping chosen in the dialog.
+ */
+type ImportSource =
+  | { kind: 'backup'; candidates: ImportCandidate[] }
+  | { kind: 'csv'; rows: string[][] };
+
+/**
+ * Props for HistoryImportDialog component.
+ *
+ * @interface HistoryImportDialogProps
+ * @property {TimerSession[]} sessions - Current history, to detect duplicates
+ * @property {FocusModeConfig[]} modes - Focus modes CSV mode names are matched against
+ * @property {(sessions: TimerSession[]) => void} onImport - Callback with the sessions to add
+ */
+interface HistoryImportDialogProps {
+  sessions: TimerSession[];
+  modes: FocusModeConfig[];
+  onImport: (sessions: TimerSession[]) => void;
+}
+
+/**
+ * Dialog importing sessions from a zenFocus JSON backup or a CSV file from
+ * another timer app.
+ *
+ * @component
+ *
+ * @remarks
+ * - CSV columns are matched to session fields by their headers and can be changed before importing
+ * - CSV mode names are matched to focus modes by name or id; other rows use the chosen default mode
+ * - Rows are validated and checked for duplicates of the history (same id, or same start and end time)
+ * - The preview lists skipped rows with the reason before anything is imported
+ *
+ * @example
+ * ```tsx
+ * <HistoryImportDialog sessions={sessions} modes={focusModes} onImport={restoreSessions} />
+ * ```
+ *
+ * @param {HistoryImportDialogProps} props - Component props
+ * @returns {React.ReactElement} Import button and dialog
+ */
+export default function HistoryImportDialog({
+  sessions,
+  modes,
+  onImport,
+}: HistoryImportDialogProps): React.ReactElement {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [defaultMode, setDefaultMode] = useState<FocusMode>(modes[0]?.value ?? 'study');
+  const [error, setError] = useState<string | undefined>();
+
+  const reset = () => {
+    setSource(null);
+    setMapping(null);
+    setError(undefined);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    try {
+      const text = await readFileText(file);
+      if (file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+        setSource({ kind: 'backup', candidates: readBackupSessions(text) });
+        return;
+      }
+      const rows = parseCsv(text);
+      if (rows.length < 2) {
+        setError('The file has no rows to import');
+        return;
+      }
+      setSource({ kind: 'csv', rows });
+      setMapping(guessColumnMapping(rows[0]));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The file could not be read');
+    }
+  };
+
+  const preview = useMemo(() => {
+    if (!source) return null;
+    if (source.kind === 'backup') return previewImport(source.candidates, sessions);
+    if (!mapping) return null;
+
+    const resolveMode = (value: string) => {
+      const name = value.toLowerCase();
+      return (
+        modes.find(
+          (mode) => mode.value.toLowerCase() === name || mode.label.toLowerCase() === name
+        )?.value ?? null
+      );
+    };
+    return previewImport(readCsvSessions(source.rows, mapping, resolveMode, defaultMode), sessions);
+  }, [source, mapping, defaultMode, modes, sessions]);
+
+  const setColumn = (field: CsvImportField, value: string) => {
+    setMapping((prev) =>
+      prev
+        ? {
+            ...prev,
+            columns: { ...prev.columns, [field]: value === '' ? undefined : Number(value) },
+          }
+        : prev
+    );
+  };
+
+  const handleImport = () => {
+    if (!preview || preview.sessions.length === 0) return;
+    onImport(preview.sessions);
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import History</DialogTitle>
+          <DialogDescription>
+            Restore a zenFocus JSON backup or import a CSV export from another timer app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".json,.csv,text/csv,application/json"
+            onChange={handleFile}
+          />
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {source?.kind === 'csv' && mapping && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Columns</legend>
+            {FIELD_LABELS.map(({ field, label }) => (
+              <div key={field} className="flex items-center gap-3">
+                <Label htmlFor={`import-column-${field}`} className="w-36 shrink-0 font-normal">
+                  {label}
+                </Label>
+                <select
+                  id={`import-column-${field}`}
+                  value={mapping.columns[field] ?? ''}
+                  onChange={(e) => setColumn(field, e.target.value)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value="">Not in file</option>
+                  {source.rows[0].map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div className="flex items-center gap-3">
+              <Label htmlFor="import-duration-unit" className="w-36 shrink-0 font-normal">
+                Durations in
+              </Label>
+              <select
+                id="import-duration-unit"
+                value={mapping.durationUnit}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    durationUnit: e.target.value as CsvColumnMapping['durationUnit'],
+                  })
+                }
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="seconds">Seconds</option>
+                <option value="minutes">Minutes</option>
+              </select>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="import-default-mode" className="w-36 shrink-0 font-normal">
+                Other modes as
+              </Label>
+              <select
+                id="import-default-mode"
+                value={defaultMode}
+                onChange={(e) => setDefaultMode(e.target.value as FocusMode)}
+                className={SELECT_CLASS_NAME}
+              >
+                {modes.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </fieldset>
+        )}
+
+        {preview && (
+          <div className="space-y-2" aria-live="polite">
+            <p className="text-sm font-medium">
+              {preview.sessions.length === 1
+                ? '1 session ready to import'
+                : `${preview.sessions.length} sessions ready to import`}
+              {preview.skipped.length > 0 && `, ${preview.skipped.length} skipped`}
+            </p>
+            {preview.skipped.length > 0 && (
+              <ul
+                className="max-h-40 space-y-1 overflow-y-auto text-sm text-muted-foreground"
+                aria-label="Skipped rows"
+              >
+                {preview.skipped.slice(0, MAX_SKIPPED_SHOWN).map(({ row, reason }) => (
+                  <li key={row}>
+                    {row}: {reason}
+                  </li>
+                ))}
+                {preview.skipped.length > MAX_SKIPPED_SHOWN && (
+                  <li>and {preview.skipped.length - MAX_SKIPPED_SHOWN} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || preview.sessions.length === 0}>
+            Import sessions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
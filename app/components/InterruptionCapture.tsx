@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { NotebookPen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  INTERRUPTION_DESCRIPTIONS,
+  INTERRUPTION_KINDS,
+  INTERRUPTION_LABELS,
+} from '@/lib/constants/interruptions';
+import type { InterruptionKind, SessionInterruption } from '@/lib/types/timer-history';
+
+/**
+ * Props for InterruptionCapture component.
+ *
+ * @interface InterruptionCaptureProps
+ * @property {number} count - Interruptions logged so far in the current session
+ * @property {(interruption: SessionInterruption) => void} onLog - Callback with each interruption logged
+ */
+interface InterruptionCaptureProps {
+  count: number;
+  onLog: (interruption: SessionInterruption) => void;
+}
+
+/**
+ * Quick capture for interruptions and passing thoughts while a session runs.
+ *
+ * Logs an internal or external interruption, or a note to deal with later,
+ * with the time it happened, so the user can park it and get back to work.
+ *
+ * @component
+ *
+ * @remarks
+ * - Works from the keyboard: pick the kind with the arrow keys, type a note and press Enter
+ * - The note is optional; an empty entry still counts the interruption
+ * - The kind stays selected and the note field keeps focus for the next entry
+ * - The number logged in the session is announced to screen readers
+ *
+ * @example
+ * ```tsx
+ * <InterruptionCapture
+ *   count={interruptions.length}
+ *   onLog={(interruption) => setInterruptions((prev) => [...prev, interruption])}
+ * />
+ * ```
+ *
+ * @param {InterruptionCaptureProps} props - Component props
+ * @returns {React.ReactElement} Interruption log form
+ */
+export default function InterruptionCapture({
+  count,
+  onLog,
+}: InterruptionCaptureProps): React.ReactElement {
+  const [kind, setKind] = useState<InterruptionKind>('later');
+  const [note, setNote] = useState('');
+  const noteRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = note.trim();
+    onLog({ kind, at: new Date().toISOString(), ...(text ? { note: text } : {}) });
+    setNote('');
+    noteRef.current?.focus();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-md space-y-2 text-left"
+      aria-label="Log an interruption"
+    >
+      <fieldset className="flex flex-wrap items-center gap-2">
+        <legend className="sr-only">Kind of interruption</legend>
+        {INTERRUPTION_KINDS.map((value) => (
+          <label
+            key={value}
+            title={INTERRUPTION_DESCRIPTIONS[value]}
+            className={`cursor-pointer rounded-md border px-2 py-1 text-sm has-[:focus-visible]:ring-1 has-[:focus-visible]:ring-ring ${
+              kind === value ? 'border-primary bg-primary/10 font-medium' : 'text-muted-foreground'
+            }`}
+          >
+            <input
+              type="radio"
+              name="interruption-kind"
+              value={value}
+              checked={kind === value}
+              onChange={() => setKind(value)}
+              className="sr-only"
+            />
+            {INTERRUPTION_LABELS[value]}
+          </label>
+        ))}
+        <span className="ml-auto text-sm text-muted-foreground" role="status">
+          {count > 0 && (count === 1 ? '1 logged' : `${count} logged`)}
+        </span>
+      </fieldset>
+      <div className="flex gap-2">
+        <Input
+          ref={noteRef}
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Park a thought, e.g. Reply to Sam"
+          aria-label="Interruption note"
+          maxLength={200}
+        />
+        <Button type="submit" variant="outline" className="gap-2">
+          <NotebookPen className="h-4 w-4" />
+          Log
+        </Button>
+      </div>
+    </form>
+  );
+}
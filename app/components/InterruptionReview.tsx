@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, ListPlus, NotebookPen } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { INTERRUPTION_LABELS } from '@/lib/constants/interruptions';
+import type { SessionInterruption } from '@/lib/types/timer-history';
+
+/**
+ * Props for InterruptionReview component.
+ *
+ * @interface InterruptionReviewProps
+ * @property {SessionInterruption[]} interruptions - Interruptions logged in the session that just ended
+ * @property {(title: string) => void} onAddTask - Callback to add a note to the task list
+ * @property {() => void} onClose - Callback when the user is done with the list
+ */
+interface InterruptionReviewProps {
+  interruptions: SessionInterruption[];
+  onAddTask: (title: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Formats when an interruption was logged, e.g. "14:05".
+ */
+const formatClockTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * What was logged during the session that just ended, so parked thoughts
+ * are not lost.
+ *
+ * Lists the interruptions that have a note, oldest first, each of which can
+ * be turned into a task with one click.
+ *
+ * @component
+ *
+ * @remarks
+ * - Interruptions logged without a note are only counted
+ * - A note added as a task is marked as added and cannot be added twice
+ *
+ * @example
+ * ```tsx
+ * {reviewSession && (
+ *   <InterruptionReview
+ *     interruptions={reviewSession.interruptions ?? []}
+ *     onAddTask={(title) => addTask(title)}
+ *     onClose={() => setReviewSession(null)}
+ *   />
+ * )}
+ * ```
+ *
+ * @param {InterruptionReviewProps} props - Component props
+ * @returns {React.ReactElement} Card with the session's notes
+ */
+export default function InterruptionReview({
+  interruptions,
+  onAddTask,
+  onClose,
+}: InterruptionReviewProps): React.ReactElement {
+  /**
+   * Indexes of the interruptions already added as tasks.
+   * @type {[number[], React.Dispatch<React.SetStateAction<number[]>>]}
+   */
+  const [added, setAdded] = useState<number[]>([]);
+
+  const notes = interruptions.flatMap(({ kind, at, note }, index) =>
+    note ? [{ index, kind, at, note }] : []
+  );
+  const unnoted = interruptions.length - notes.length;
+
+  return (
+    <Card className="mt-8 text-left">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <NotebookPen className="h-5 w-5" />
+          Logged during your session
+        </CardTitle>
+        <CardDescription>
+          {interruptions.length === 1 ? '1 interruption' : `${interruptions.length} interruptions`}
+          {unnoted > 0 && ` · ${unnoted} without a note`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2" aria-label="Logged notes">
+          {notes.map(({ index, kind, at, note }) => (
+            <li key={index} className="flex items-center gap-3 rounded-lg border p-2">
+              <Badge variant="outline" className="shrink-0">
+                {INTERRUPTION_LABELS[kind]}
+              </Badge>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate">{note}</span>
+                <span className="text-sm text-muted-foreground">{formatClockTime(at)}</span>
+              </span>
+              {added.includes(index) ? (
+                <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Check className="h-4 w-4" />
+                  Added
+                </span>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => {
+                    onAddTask(note);
+                    setAdded((prev) => [...prev, index]);
+                  }}
+                  aria-label={`Add ${note} as a task`}
+                >
+                  <ListPlus className="h-4 w-4" />
+                  Add as task
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { memo, useCallback, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ArrowUp,
+  ArrowDown,
+  Copy,
+  Download,
+  Save,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { useIntervalPresets } from "@/lib/hooks/useIntervalPresets";
+import { formatTime } from "@/lib/utils/formatTime";
+import { getProgramDuration, isValidProgram } from "@/lib/utils/intervalProgram";
+import type { IntervalProgram } from "@/lib/types/interval-program";
+
+/**
+ * Props for the IntervalPresetLibrary component.
+ *
+ * @interface IntervalPresetLibraryProps
+ *
+ * @property {IntervalProgram} program - Program currently configured, saved by "Save as preset"
+ * @property {(program: IntervalProgram) => void} onLoad - Callback invoked with the program of a loaded preset
+ */
+interface IntervalPresetLibraryProps {
+  program: IntervalProgram;
+  onLoad: (program: IntervalProgram) => void;
+}
+
+/**
+ * Library of saved interval presets.
+ *
+ * Lists the built-in presets followed by the user's own. Any preset can be
+ * loaded into the configuration or duplicated; the user's presets can also be
+ * reordered, updated with the current configuration (including a new name)
+ * and deleted. The user's presets can be exported to a JSON file and presets
+ * from such a file imported, so they can be shared.
+ *
+ * @component
+ *
+ * @example
+ * ```tsx
+ * <IntervalPresetLibrary program={configuredProgram} onLoad={loadIntoConfiguration} />
+ * ```
+ *
+ * @returns {React.ReactElement} Preset list with save, import and export controls
+ */
+const IntervalPresetLibrary = memo(function IntervalPresetLibrary({
+  program,
+  onLoad,
+}: IntervalPresetLibraryProps) {
+  const {
+    presets,
+    userPresets,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    duplicatePreset,
+    movePreset,
+    importPresets,
+    exportPresets,
+  } = useIntervalPresets();
+  const [name, setName] = useState<string>("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = userPresets.find((preset) => preset.id === selectedId);
+  const canSave = name.trim() !== "" && isValidProgram(program);
+
+  /**
+   * Load a preset into the configuration and select it for updating
+   */
+  const handleLoad = useCallback(
+    (id: string) => {
+      const preset = presets.find((p) => p.id === id);
+      if (!preset) return;
+      onLoad(preset.program);
+      setName(preset.program.name);
+      setSelectedId(preset.id);
+      setStatus(null);
+    },
+    [presets, onLoad]
+  );
+
+  const handleSave = useCallback(() => {
+    if (!canSave) return;
+    const preset = savePreset({ ...program, name: name.trim() });
+    setSelectedId(preset.id);
+    setStatus({ message: `Saved "${preset.program.name}".`, isError: false });
+  }, [canSave, program, name, savePreset]);
+
+  const handleUpdate = useCallback(() => {
+    if (!canSave || !selected) return;
+    updatePreset(selected.id, { ...program, name: name.trim() });
+    setStatus({ message: `Updated "${name.trim()}".`, isError: false });
+  }, [canSave, selected, program, name, updatePreset]);
+
+  const handleDuplicate = useCallback(
+    (id: string) => {
+      const copy = duplicatePreset(id);
+      if (copy) {
+        setStatus({ message: `Created "${copy.program.name}".`, isError: false });
+      }
+    },
+    [duplicatePreset]
+  );
+
+  const handleDelete = useCallback(
+    (id: string) => {
+      deletePreset(id);
+      if (id === selectedId) setSelectedId(null);
+    },
+    [deletePreset, selectedId]
+  );
+
+  /**
+   * Download the user's presets as a JSON file
+   */
+  const handleExport = useCallback(() => {
+    const blob = new Blob([exportPresets()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "zen-focus-interval-presets.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [exportPresets]);
+
+  /**
+   * Read presets from the chosen file and add them to the library
+   */
+  const handleImport = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const { imported, skipped } = importPresets(await file.text());
+        const message = `Imported ${imported} ${imported === 1 ? "preset" : "presets"}.`;
+        setStatus({
+          message: skipped > 0 ? `${message} Skipped ${skipped} invalid.` : message,
+          isError: false,
+        });
+      } catch (error) {
+        setStatus({
+          message: error instanceof Error ? error.message : "Could not import presets.",
+          isError: true,
+        });
+      }
+    },
+    [importPresets]
+  );
+
+  return (
+    <div className="space-y-3 text-left">
+      <h3 className="text-sm font-medium">Presets</h3>
+
+      <ul className="space-y-1" aria-label="Interval presets">
+        {presets.map((preset) => {
+          const userIndex = userPresets.indexOf(preset);
+          const presetName = preset.program.name;
+          return (
+            <li
+              key={preset.id}
+              className={`flex items-center gap-1 rounded-md border px-2 py-1 ${
+                preset.id === selectedId ? "bg-muted" : ""
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => handleLoad(preset.id)}
+                className="flex flex-1 items-center gap-2 truncate text-left text-sm"
+                aria-label={`Load ${presetName}`}
+              >
+                <span className="truncate">{presetName}</span>
+                {preset.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                <span className="ml-auto font-mono text-xs text-muted-foreground">
+                  {formatTime(getProgramDuration(preset.program))}
+                </span>
+              </button>
+              {!preset.builtIn && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => movePreset(preset.id, -1)}
+                    disabled={userIndex === 0}
+                    aria-label={`Move ${presetName} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => movePreset(preset.id, 1)}
+                    disabled={userIndex === userPresets.length - 1}
+                    aria-label={`Move ${presetName} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDuplicate(preset.id)}
+                aria-label={`Duplicate ${presetName}`}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              {!preset.builtIn && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(preset.id)}
+                  aria-label={`Delete ${presetName}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Save the current configuration */}
+      <div className="space-y-2">
+        <Label htmlFor="preset-name">Preset name</Label>
+        <div className="flex gap-2">
+          <Input
+            id="preset-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this configuration"
+          />
+          <Button variant="outline" onClick={handleSave} disabled={!canSave}>
+            <Save className="mr-1 h-4 w-4" />
+            Save as preset
+          </Button>
+        </div>
+        {selected && (
+          <Button variant="outline" size="sm" onClick={handleUpdate} disabled={!canSave}>
+            Update &quot;{selected.program.name}&quot;
+          </Button>
+        )}
+      </div>
+
+      {/* Share presets as a JSON file */}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={userPresets.length === 0}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-1 h-4 w-4" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-label="Import presets file"
+        />
+      </div>
+
+      {status && (
+        <p
+          role={status.isError ? "alert" : "status"}
+          className={`text-sm ${status.isError ? "text-destructive" : "text-muted-foreground"}`}
+        >
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+});
+
+export default IntervalPresetLibrary;
@@ -0,0 +1,213 @@
+"use client";
+
+import { memo, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowUp, ArrowDown, Trash2, Plus } from "lucide-react";
+import {
+  INTERVAL_SEGMENT_CONFIG,
+  INTERVAL_SEGMENT_KINDS,
+} from "@/lib/constants/interval-segments";
+import { createSegment } from "@/lib/utils/intervalProgram";
+import type {
+  IntervalProgram,
+  IntervalSegment,
+  IntervalSegmentKind,
+} from "@/lib/types/interval-program";
+
+/**
+ * Props for the IntervalProgramEditor component.
+ *
+ * @interface IntervalProgramEditorProps
+ *
+ * @property {IntervalProgram} program - Program being edited
+ * @property {(program: IntervalProgram) => void} onChange - Callback invoked with the updated program
+ */
+interface IntervalProgramEditorProps {
+  program: IntervalProgram;
+  onChange: (program: IntervalProgram) => void;
+}
+
+/**
+ * Editor for the segments of an interval program.
+ *
+ * Each segment has a name, a kind, a duration and a repeat count, and can be
+ * moved or removed. Warmup segments always run before the rounds and cooldown
+ * segments after them; work and rest segments run in order in every round.
+ *
+ * @component
+ *
+ * @example
+ * ```tsx
+ * <IntervalProgramEditor program={program} onChange={setProgram} />
+ * ```
+ *
+ * @returns {React.ReactElement} Segment list with add, move and remove controls
+ */
+const IntervalProgramEditor = memo(function IntervalProgramEditor({
+  program,
+  onChange,
+}: IntervalProgramEditorProps) {
+  const updateSegment = useCallback(
+    (id: string, changes: Partial<IntervalSegment>) => {
+      onChange({
+        ...program,
+        segments: program.segments.map((segment) =>
+          segment.id === id ? { ...segment, ...changes } : segment
+        ),
+      });
+    },
+    [program, onChange]
+  );
+
+  const moveSegment = useCallback(
+    (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= program.segments.length) return;
+      const segments = [...program.segments];
+      [segments[index], segments[target]] = [segments[target], segments[index]];
+      onChange({ ...program, segments });
+    },
+    [program, onChange]
+  );
+
+  const removeSegment = useCallback(
+    (id: string) => {
+      onChange({
+        ...program,
+        segments: program.segments.filter((segment) => segment.id !== id),
+      });
+    },
+    [program, onChange]
+  );
+
+  const addSegment = useCallback(
+    (kind: IntervalSegmentKind) => {
+      onChange({ ...program, segments: [...program.segments, createSegment(kind)] });
+    },
+    [program, onChange]
+  );
+
+  return (
+    <div className="space-y-4 text-left">
+      <ol className="space-y-3" aria-label="Program segments">
+        {program.segments.map((segment, index) => {
+          const position = index + 1;
+          return (
+            <li key={segment.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <span
+                  className={`h-2 w-2 shrink-0 rounded-full ${INTERVAL_SEGMENT_CONFIG[segment.kind].color}`}
+                  aria-hidden="true"
+                />
+                <Input
+                  value={segment.name}
+                  onChange={(e) => updateSegment(segment.id, { name: e.target.value })}
+                  aria-label={`Segment ${position} name`}
+                />
+                <select
+                  value={segment.kind}
+                  onChange={(e) =>
+                    updateSegment(segment.id, {
+                      kind: e.target.value as IntervalSegmentKind,
+                    })
+                  }
+                  aria-label={`Segment ${position} type`}
+                  className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                >
+                  {INTERVAL_SEGMENT_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {INTERVAL_SEGMENT_CONFIG[kind].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  max="7200"
+                  value={segment.durationSeconds || ""}
+                  onChange={(e) =>
+                    updateSegment(segment.id, {
+                      durationSeconds: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  aria-label={`Segment ${position} seconds`}
+                  placeholder="Seconds"
+                />
+                <span className="text-sm text-muted-foreground">×</span>
+                <Input
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={segment.repeat || ""}
+                  onChange={(e) =>
+                    updateSegment(segment.id, {
+                      repeat: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  aria-label={`Segment ${position} repeat`}
+                  className="w-20"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveSegment(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move segment ${position} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveSegment(index, 1)}
+                  disabled={index === program.segments.length - 1}
+                  aria-label={`Move segment ${position} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeSegment(segment.id)}
+                  aria-label={`Remove segment ${position}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap gap-2">
+        {INTERVAL_SEGMENT_KINDS.map((kind) => (
+          <Button key={kind} variant="outline" size="sm" onClick={() => addSegment(kind)}>
+            <Plus className="mr-1 h-4 w-4" />
+            {INTERVAL_SEGMENT_CONFIG[kind].label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="program-rounds">Rounds</Label>
+        <Input
+          id="program-rounds"
+          type="number"
+          min="1"
+          max="99"
+          value={program.rounds || ""}
+          onChange={(e) =>
+            onChange({ ...program, rounds: parseInt(e.target.value) || 0 })
+          }
+          placeholder="Times the work and rest segments repeat"
+        />
+      </div>
+    </div>
+  );
+});
+
+export default IntervalProgramEditor;
@@ -0,0 +1,101 @@
+"use client";
+
+import { memo } from "react";
+import { formatTime } from "@/lib/utils/formatTime";
+import { INTERVAL_SEGMENT_CONFIG } from "@/lib/constants/interval-segments";
+import type { IntervalStep } from "@/lib/types/interval-program";
+
+/**
+ * Props for the IntervalTimeline component.
+ *
+ * @interface IntervalTimelineProps
+ *
+ * @property {IntervalStep[]} steps - Expanded steps of the program, in order
+ * @property {number} currentStep - 1-based step in progress, or 0 for a preview before starting
+ * @property {number} [maxUpcoming=5] - Number of steps listed after the current one
+ */
+interface IntervalTimelineProps {
+  steps: IntervalStep[];
+  currentStep: number;
+  maxUpcoming?: number;
+}
+
+/**
+ * Timeline of an interval program: a bar with every step sized by its
+ * duration, and a list of the current and upcoming steps.
+ *
+ * @component
+ *
+ * @example
+ * ```tsx
+ * <IntervalTimeline steps={expandProgram(program)} currentStep={3} />
+ * ```
+ *
+ * @returns {React.ReactElement} Program timeline
+ */
+const IntervalTimeline = memo(function IntervalTimeline({
+  steps,
+  currentStep,
+  maxUpcoming = 5,
+}: IntervalTimelineProps) {
+  const firstListed = Math.max(1, currentStep);
+  const listed = steps.slice(firstListed - 1, firstListed - 1 + maxUpcoming + 1);
+  const remaining = steps.length - (firstListed - 1) - listed.length;
+
+  return (
+    <div className="w-full max-w-md space-y-3">
+      {/* Whole program, each step sized by its duration */}
+      <div className="flex h-2 w-full gap-px overflow-hidden rounded-full" aria-hidden="true">
+        {steps.map((step, index) => {
+          // Finished steps fade out, the current one stands out from upcoming ones
+          let emphasis = "";
+          if (currentStep > 0 && index + 1 < currentStep) emphasis = "opacity-30";
+          else if (currentStep > 0 && index + 1 > currentStep) emphasis = "opacity-70";
+          return (
+            <div
+              key={index}
+              className={`${INTERVAL_SEGMENT_CONFIG[step.kind].color} ${emphasis}`}
+              style={{ flexGrow: step.durationSeconds }}
+            />
+          );
+        })}
+      </div>
+
+      {/* Current and upcoming steps */}
+      <ol className="space-y-1 text-sm" aria-label="Upcoming segments">
+        {listed.map((step, index) => {
+          const stepNumber = firstListed + index;
+          const isCurrent = stepNumber === currentStep;
+          return (
+            <li
+              key={stepNumber}
+              aria-current={isCurrent ? "step" : undefined}
+              className={`flex items-center justify-between rounded-md px-3 py-1.5 ${
+                isCurrent ? "bg-muted font-medium" : "text-muted-foreground"
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <span
+                  className={`h-2 w-2 rounded-full ${INTERVAL_SEGMENT_CONFIG[step.kind].color}`}
+                  aria-hidden="true"
+                />
+                {step.name}
+                {step.round !== null && (
+                  <span className="text-xs text-muted-foreground">Round {step.round}</span>
+                )}
+              </span>
+              <span className="font-mono">{formatTime(step.durationSeconds)}</span>
+            </li>
+          );
+        })}
+      </ol>
+      {remaining > 0 && (
+        <p className="text-xs text-muted-foreground">
+          +{remaining} more {remaining === 1 ? "segment" : "segments"}
+        </p>
+      )}
+    </div>
+  );
+});
+
+export default IntervalTimeline;
@@ -0,0 +1,585 @@
+'use client';
+
+import { useEffect, useRef, useState, memo, useCallback } from 'react';
+import { useTimer } from '@/lib/hooks/useTimer';
+import { useNotification } from '@/lib/hooks/useNotification';
+import { formatTime } from '@/lib/utils/formatTime';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Play, Pause, RotateCcw, SkipForward, Settings } from 'lucide-react';
+import ResumePrompt from './ResumePrompt';
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  POMODORO_PHASE_CONFIG,
+  type PomodoroSettings,
+} from '@/lib/constants/pomodoro';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { SessionPhase } from '@/lib/types/timer-history';
+import type { PomodoroTimerSnapshot } from '@/lib/types/active-timer';
+import type { TimerSessionInput } from '@/lib/utils/timerSession';
+import {
+  INITIAL_POMODORO_CYCLE,
+  getCycleProgress,
+  getNextCycle,
+  getPhaseDuration,
+  isBreakPhase,
+  type PomodoroCycle,
+} from '@/lib/utils/pomodoroCycle';
+import { loadPomodoroSettings, savePomodoroSettings } from '@/lib/utils/pomodoroSettings';
+import {
+  loadActiveTimer,
+  saveActiveTimer,
+  clearActiveTimer,
+  resolveRestoreAction,
+  fastForwardPomodoroTimer,
+  MAX_PAUSED_AGE_MS,
+} from '@/lib/utils/activeTimerStorage';
+import { getEndTime, getRemainingMs } from '@/lib/utils/timerClock';
+
+/**
+ * Props for the PomodoroTimer component.
+ *
+ * @interface PomodoroTimerProps
+ *
+ * @property {FocusMode} [focusMode='study'] - Mode the phases are recorded under
+ * @property {string} [taskId] - Task selected in the task list; focus blocks are attributed to the task selected when they started
+ * @property {(session: TimerSessionInput) => void} [onSessionComplete] - Callback for tracking each finished, skipped or reset phase. Breaks are reported with their break phase so they can be kept out of focus statistics
+ */
+interface PomodoroTimerProps {
+  focusMode?: FocusMode;
+  taskId?: string;
+  onSessionComplete?: (session: TimerSessionInput) => void;
+}
+
+/**
+ * Notification shown when each phase ends, keyed by the phase that ended.
+ */
+const PHASE_END_MESSAGES: Record<SessionPhase, { title: string; body: string }> = {
+  focus: { title: 'Pomodoro Complete!', body: 'Great work! Time for a break.' },
+  shortBreak: { title: 'Break Over', body: 'Ready for the next Pomodoro?' },
+  longBreak: { title: 'Long Break Over', body: 'Ready to start a new set?' },
+};
+
+/**
+ * Pomodoro cycle timer alternating focus blocks and breaks.
+ *
+ * Focus blocks are followed by a short break, and every `longBreakInterval`
+ * focus blocks by a long break instead. Each phase is recorded as a session
+ * of the selected focus mode tagged with its phase, so breaks are kept out of
+ * focus statistics.
+ *
+ * @component
+ *
+ * @remarks
+ * - Shows the current phase and "Pomodoro N of M" progress
+ * - Optionally starts the next phase as soon as one ends
+ * - Skip moves to the next phase, recording the skipped one as incomplete
+ * - Reset restarts the current phase; Restart Cycle goes back to the first Pomodoro
+ * - Durations, long break interval and auto-start are editable while idle and saved
+ * - The cycle in progress is persisted and restored after a reload, like the Focus timer;
+ *   phases that ran out while the page was closed are recorded with the time they ended
+ * - Memoized to prevent unnecessary re-renders
+ *
+ * @param {PomodoroTimerProps} props - Component props
+ *
+ * @example
+ * ```tsx
+ * <PomodoroTimer
+ *   focusMode="study"
+ *   onSessionComplete={(session) => recordSession(session)}
+ * />
+ * ```
+ *
+ * @returns {React.ReactElement} Pomodoro timer with phase progress and controls
+ */
+const PomodoroTimer = memo(function PomodoroTimer({
+  focusMode = 'study',
+  taskId,
+  onSessionComplete,
+}: PomodoroTimerProps) {
+  /**
+   * Phase durations, long break interval and auto-start preference.
+   * @type {[PomodoroSettings, React.Dispatch<React.SetStateAction<PomodoroSettings>>]}
+   */
+  const [settings, setSettings] = useState<PomodoroSettings>(DEFAULT_POMODORO_SETTINGS);
+
+  /**
+   * Current phase and number of focus blocks finished in this cycle.
+   * @type {[PomodoroCycle, React.Dispatch<React.SetStateAction<PomodoroCycle>>]}
+   */
+  const [cycle, setCycle] = useState<PomodoroCycle>(INITIAL_POMODORO_CYCLE);
+
+  /**
+   * Controls visibility of the settings form.
+   * @type {[boolean, React.Dispatch<React.SetStateAction<boolean>>]}
+   */
+  const [showSettings, setShowSettings] = useState(false);
+
+  /**
+   * Paused cycle from a previous visit, awaiting the user's decision.
+   * @type {[PomodoroTimerSnapshot | null, React.Dispatch<React.SetStateAction<PomodoroTimerSnapshot | null>>]}
+   */
+  const [pendingRestore, setPendingRestore] = useState<PomodoroTimerSnapshot | null>(null);
+
+  const phaseDuration = getPhaseDuration(cycle.phase, settings);
+  const {
+    timeLeft,
+    isRunning,
+    isComplete,
+    start,
+    pause,
+    reset,
+    setDuration,
+    getClock,
+    restoreClock,
+  } = useTimer(phaseDuration);
+  const { notify } = useNotification();
+
+  /**
+   * Whether the current phase has not been started yet.
+   * @type {boolean}
+   */
+  const isIdle = !isRunning && getClock().startedAt === null;
+
+  /**
+   * Tracks previous completion state to detect state changes.
+   * @type {React.MutableRefObject<boolean>}
+   */
+  const prevCompleteRef = useRef(false);
+
+  /**
+   * Whether the saved snapshot has been checked, so persistence does not
+   * overwrite it before it is restored.
+   * @type {React.MutableRefObject<boolean>}
+   */
+  const restoreCheckedRef = useRef(false);
+
+  /**
+   * Task the current phase was started for, and when it was started.
+   * @type {React.MutableRefObject<string | undefined>}
+   */
+  const phaseTaskRef = useRef(taskId);
+  const phaseStartedAtRef = useRef<number | null>(null);
+
+  /**
+   * Task of the current phase, recorded on focus blocks only.
+   */
+  const getPhaseTask = useCallback(
+    (phase: SessionPhase) =>
+      phase === 'focus' && phaseTaskRef.current ? { taskId: phaseTaskRef.current } : {},
+    []
+  );
+
+  /**
+   * Whole seconds run so far in the current phase.
+   */
+  const getElapsedSeconds = useCallback((): number => {
+    const clock = getClock();
+    return Math.floor((clock.durationMs - getRemainingMs(clock, Date.now())) / 1000);
+  }, [getClock]);
+
+  /**
+   * Moves to the phase after the current one, starting it if auto-start is on.
+   */
+  const advance = useCallback((autoStart: boolean) => {
+    const next = getNextCycle(cycle, settings);
+    setCycle(next);
+    setDuration(getPhaseDuration(next.phase, settings));
+    if (autoStart) {
+      start();
+    }
+  }, [cycle, settings, setDuration, start]);
+
+  // Load saved settings on mount
+  useEffect(() => {
+    setSettings(loadPomodoroSettings());
+  }, []);
+
+  // Attribute each phase to the task selected when it starts
+  useEffect(() => {
+    if (!isRunning) return;
+    const { startedAt } = getClock();
+    if (startedAt !== phaseStartedAtRef.current) {
+      phaseStartedAtRef.current = startedAt;
+      phaseTaskRef.current = taskId;
+    }
+  }, [isRunning, taskId, getClock]);
+
+  // Apply the phase duration while the timer is idle (phase or settings changed)
+  useEffect(() => {
+    if (getClock().startedAt === null) {
+      setDuration(phaseDuration);
+    }
+  }, [phaseDuration, getClock, setDuration]);
+
+  // Record the finished phase and move on to the next one
+  useEffect(() => {
+    if (isComplete && !prevCompleteRef.current) {
+      const message = PHASE_END_MESSAGES[cycle.phase];
+      notify(message.title, message.body);
+      const clock = getClock();
+      const endTime = getEndTime(clock);
+      onSessionComplete?.({
+        mode: focusMode,
+        actualDuration: clock.durationMs / 1000,
+        completed: true,
+        phase: cycle.phase,
+        ...getPhaseTask(cycle.phase),
+        ...(clock.startedAt !== null && endTime !== null
+          ? { startTime: new Date(clock.startedAt), endTime: new Date(endTime) }
+          : {}),
+      });
+      advance(settings.autoStartNext);
+    }
+    prevCompleteRef.current = isComplete;
+  }, [isComplete, cycle.phase, settings.autoStartNext, focusMode, notify, onSessionComplete, getClock, getPhaseTask, advance]);
+
+  // Restore a cycle saved before the page was reloaded
+  useEffect(() => {
+    if (restoreCheckedRef.current) return;
+    restoreCheckedRef.current = true;
+
+    const snapshot = loadActiveTimer('pomodoro');
+    if (!snapshot) return;
+
+    const savedCycle = { phase: snapshot.phase, completedFocusBlocks: snapshot.completedFocusBlocks };
+    const now = Date.now();
+    phaseTaskRef.current = snapshot.taskId;
+
+    switch (resolveRestoreAction(snapshot, now)) {
+      case 'continue':
+        setCycle(savedCycle);
+        restoreClock(snapshot.clock);
+        phaseStartedAtRef.current = snapshot.clock.startedAt;
+        break;
+      case 'complete': {
+        // Settings are loaded by another effect of this render, read them here
+        const { snapshot: current, completedPhases } = fastForwardPomodoroTimer(
+          snapshot,
+          loadPomodoroSettings(),
+          now
+        );
+        completedPhases.forEach((session) => onSessionComplete?.(session));
+        setCycle({ phase: current.phase, completedFocusBlocks: current.completedFocusBlocks });
+        if (current.clock.startedAt !== null) {
+          restoreClock(current.clock);
+          phaseStartedAtRef.current = current.clock.startedAt;
+        }
+        break;
+      }
+      case 'prompt':
+        setPendingRestore(snapshot);
+        break;
+      default:
+        // Between phases there is no clock to resume, only the cycle position
+        if (snapshot.clock.startedAt === null && now - snapshot.savedAt < MAX_PAUSED_AGE_MS) {
+          setCycle(savedCycle);
+        } else {
+          clearActiveTimer('pomodoro');
+        }
+    }
+  }, [restoreClock, onSessionComplete]);
+
+  // Persist the cycle in progress so it survives reloads
+  useEffect(() => {
+    if (!restoreCheckedRef.current || pendingRestore || isComplete) return;
+
+    const clock = getClock();
+    if (clock.startedAt === null && cycle.completedFocusBlocks === 0 && cycle.phase === 'focus') {
+      clearActiveTimer('pomodoro');
+      return;
+    }
+
+    saveActiveTimer({
+      kind: 'pomodoro',
+      focusMode,
+      clock,
+      phase: cycle.phase,
+      completedFocusBlocks: cycle.completedFocusBlocks,
+      ...(clock.startedAt !== null && phaseTaskRef.current ? { taskId: phaseTaskRef.current } : {}),
+      savedAt: Date.now(),
+    });
+  }, [isRunning, isIdle, isComplete, cycle, focusMode, pendingRestore, getClock]);
+
+  /**
+   * Calculates the progress percentage for the circular progress indicator.
+   * @type {number}
+   */
+  const progress = phaseDuration > 0 ? ((phaseDuration - timeLeft) / phaseDuration) * 100 : 0;
+
+  const { current, total } = getCycleProgress(cycle, settings);
+  const phaseConfig = POMODORO_PHASE_CONFIG[cycle.phase];
+
+  /**
+   * Starts the current phase, replacing any saved cycle that was not resumed.
+   */
+  const handleStart = useCallback(() => {
+    setPendingRestore(null);
+    setShowSettings(false);
+    start();
+  }, [start]);
+
+  /**
+   * Records the time run so far in the current phase as incomplete.
+   */
+  const recordPartialPhase = useCallback(() => {
+    const elapsed = getElapsedSeconds();
+    if (elapsed >= 1) {
+      onSessionComplete?.({
+        mode: focusMode,
+        actualDuration: elapsed,
+        completed: false,
+        phase: cycle.phase,
+        ...getPhaseTask(cycle.phase),
+      });
+    }
+  }, [getElapsedSeconds, focusMode, onSessionComplete, getPhaseTask, cycle.phase]);
+
+  /**
+   * Ends the current phase early and moves on to the next one.
+   */
+  const handleSkip = useCallback(() => {
+    recordPartialPhase();
+    advance(isRunning || settings.autoStartNext);
+  }, [recordPartialPhase, advance, isRunning, settings.autoStartNext]);
+
+  /**
+   * Restarts the current phase.
+   */
+  const handleReset = useCallback(() => {
+    recordPartialPhase();
+    reset();
+  }, [recordPartialPhase, reset]);
+
+  /**
+   * Goes back to the first Pomodoro of the cycle.
+   */
+  const handleRestartCycle = useCallback(() => {
+    setCycle(INITIAL_POMODORO_CYCLE);
+    setDuration(settings.focusDuration);
+    clearActiveTimer('pomodoro');
+  }, [setDuration, settings.focusDuration]);
+
+  /**
+   * Resumes the paused cycle saved before the reload.
+   */
+  const handleResume = useCallback(() => {
+    if (!pendingRestore) return;
+    setCycle({
+      phase: pendingRestore.phase,
+      completedFocusBlocks: pendingRestore.completedFocusBlocks,
+    });
+    restoreClock(pendingRestore.clock);
+    phaseTaskRef.current = pendingRestore.taskId;
+    phaseStartedAtRef.current = pendingRestore.clock.startedAt;
+    setPendingRestore(null);
+    start();
+  }, [pendingRestore, restoreClock, start]);
+
+  /**
+   * Drops the paused cycle saved before the reload.
+   */
+  const handleDiscard = useCallback(() => {
+    setPendingRestore(null);
+    clearActiveTimer('pomodoro');
+  }, []);
+
+  /**
+   * Updates one setting and saves the result.
+   */
+  const updateSettings = useCallback((changes: Partial<PomodoroSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes };
+      savePomodoroSettings(next);
+      return next;
+    });
+  }, []);
+
+  /**
+   * Parses a minutes field, ignoring values that are not whole positive minutes.
+   */
+  const handleMinutesChange = useCallback(
+    (key: 'focusDuration' | 'shortBreakDuration' | 'longBreakDuration', value: string) => {
+      const minutes = parseInt(value, 10);
+      if (minutes > 0) {
+        updateSettings({ [key]: minutes * 60 });
+      }
+    },
+    [updateSettings]
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-8">
+      {/* Resume Prompt */}
+      {pendingRestore && !isRunning && (
+        <ResumePrompt
+          message={`You have a paused ${POMODORO_PHASE_CONFIG[pendingRestore.phase].label.toLowerCase()} with ${formatTime(
+            Math.ceil(getRemainingMs(pendingRestore.clock, Date.now()) / 1000)
+          )} remaining.`}
+          onResume={handleResume}
+          onDiscard={handleDiscard}
+        />
+      )}
+
+      {/* Phase and Cycle Progress */}
+      <div className="flex flex-col items-center gap-2">
+        <Badge variant="secondary" className={phaseConfig.color}>
+          {phaseConfig.label}
+        </Badge>
+        <p className="text-lg text-muted-foreground">
+          Pomodoro {current} of {total}
+        </p>
+      </div>
+
+      {/* Timer Display */}
+      <div className="relative">
+        <svg className="w-64 h-64 transform -rotate-90">
+          {/* Background Circle */}
+          <circle
+            cx="128"
+            cy="128"
+            r="120"
+            stroke="currentColor"
+            strokeWidth="8"
+            fill="none"
+            className="text-muted"
+          />
+          {/* Progress Circle */}
+          <circle
+            cx="128"
+            cy="128"
+            r="120"
+            stroke="currentColor"
+            strokeWidth="8"
+            fill="none"
+            strokeDasharray={`${2 * Math.PI * 120}`}
+            strokeDashoffset={`${2 * Math.PI * 120 * (1 - progress / 100)}`}
+            className="text-primary transition-all duration-300 ease-out"
+            strokeLinecap="round"
+          />
+        </svg>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className="text-6xl font-bold font-mono">{formatTime(timeLeft)}</span>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-col gap-4 items-center">
+        <div className="flex gap-4">
+          {!isRunning ? (
+            <Button size="lg" onClick={handleStart} className="w-32">
+              <Play className="mr-2 h-5 w-5" />
+              Start
+            </Button>
+          ) : (
+            <Button size="lg" onClick={pause} variant="secondary" className="w-32">
+              <Pause className="mr-2 h-5 w-5" />
+              Pause
+            </Button>
+          )}
+          <Button size="lg" onClick={handleReset} variant="outline" className="w-32">
+            <RotateCcw className="mr-2 h-5 w-5" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSkip}>
+            <SkipForward className="mr-2 h-4 w-4" />
+            {isBreakPhase(cycle.phase) ? 'Skip Break' : 'Skip to Break'}
+          </Button>
+          {isIdle && (
+            <Button
+              variant="ghost"
+              onClick={() => setShowSettings((show) => !show)}
+              aria-expanded={showSettings}
+            >
+              <Settings className="mr-2 h-4 w-4" />
+              Settings
+            </Button>
+          )}
+        </div>
+
+        {isIdle && (cycle.completedFocusBlocks > 0 || cycle.phase !== 'focus') && (
+          <Button variant="ghost" onClick={handleRestartCycle} className="text-sm">
+            Restart Cycle
+          </Button>
+        )}
+      </div>
+
+      {/* Settings */}
+      {showSettings && isIdle && (
+        <div className="w-full max-w-md space-y-4 text-left">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="pomodoro-focus">Focus (min)</Label>
+              <Input
+                id="pomodoro-focus"
+                type="number"
+                min="1"
+                max="180"
+                defaultValue={settings.focusDuration / 60}
+                onChange={(e) => handleMinutesChange('focusDuration', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pomodoro-short-break">Short break (min)</Label>
+              <Input
+                id="pomodoro-short-break"
+                type="number"
+                min="1"
+                max="60"
+                defaultValue={settings.shortBreakDuration / 60}
+                onChange={(e) => handleMinutesChange('shortBreakDuration', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pomodoro-long-break">Long break (min)</Label>
+              <Input
+                id="pomodoro-long-break"
+                type="number"
+                min="1"
+                max="120"
+                defaultValue={settings.longBreakDuration / 60}
+                onChange={(e) => handleMinutesChange('longBreakDuration', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pomodoro-interval">Pomodoros before a long break</Label>
+            <Input
+              id="pomodoro-interval"
+              type="number"
+              min="1"
+              max="12"
+              defaultValue={settings.longBreakInterval}
+              onChange={(e) => {
+                const count = parseInt(e.target.value, 10);
+                if (count > 0) {
+                  updateSettings({ longBreakInterval: count });
+                }
+              }}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="pomodoro-auto-start"
+              checked={settings.autoStartNext}
+              onCheckedChange={(checked) => updateSettings({ autoStartNext: checked === true })}
+            />
+            <Label htmlFor="pomodoro-auto-start" className="text-sm font-normal cursor-pointer">
+              Start the next phase automatically
+            </Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default PomodoroTimer;
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Archive, ArchiveRestore, Briefcase, Pencil, Plus } from 'lucide-react';
+import { CUSTOM_FOCUS_MODE_COLORS } from '@/lib/constants/focus-modes';
+import type { ProjectInput } from '@/lib/hooks/useProjects';
+import type { Project } from '@/lib/types/projects';
+import { formatAmount } from '@/lib/utils/projects';
+
+/**
+ * Props for ProjectManager component.
+ *
+ * @interface ProjectManagerProps
+ * @property {Project[]} projects - User's projects, including archived ones
+ * @property {(input: ProjectInput) => void} onAdd - Callback to create a project
+ * @property {(id: string, input: ProjectInput) => void} onUpdate - Callback to save changes to a project
+ * @property {(id: string, archived: boolean) => void} onArchivedChange - Callback to archive or restore a project
+ */
+interface ProjectManagerProps {
+  projects: Project[];
+  onAdd: (input: ProjectInput) => void;
+  onUpdate: (id: string, input: ProjectInput) => void;
+  onArchivedChange: (id: string, archived: boolean) => void;
+}
+
+interface ProjectForm {
+  name: string;
+  color: string;
+  hourlyRate: string;
+}
+
+const EMPTY_FORM: ProjectForm = {
+  name: '',
+  color: CUSTOM_FOCUS_MODE_COLORS[0].color,
+  hourlyRate: '',
+};
+
+/**
+ * Dialog for creating, editing and archiving projects.
+ *
+ * Each project has a name, a color used for its badges and an optional
+ * hourly rate that the project report bills its focus time at.
+ *
+ * @component
+ *
+ * @remarks
+ * - Rates are in whatever currency the user invoices in; amounts are shown without a symbol
+ * - Archiving a project hides it from the task and session pickers but keeps its
+ *   sessions and report rows; archived projects can be restored
+ *
+ * @example
+ * ```tsx
+ * const { projects, addProject, updateProject, setProjectArchived } = useProjects();
+ * return (
+ *   <ProjectManager
+ *     projects={projects}
+ *     onAdd={addProject}
+ *     onUpdate={updateProject}
+ *     onArchivedChange={setProjectArchived}
+ *   />
+ * );
+ * ```
+ *
+ * @param {ProjectManagerProps} props - Component props
+ * @returns {React.ReactElement} Button opening the projects dialog
+ */
+export default function ProjectManager({
+  projects,
+  onAdd,
+  onUpdate,
+  onArchivedChange,
+}: ProjectManagerProps): React.ReactElement {
+  const [open, setOpen] = useState(false);
+
+  /**
+   * Project being edited, or null when the form creates a new project.
+   * @type {[string | null, React.Dispatch<React.SetStateAction<string | null>>]}
+   */
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | undefined>();
+
+  const updateField = (field: keyof ProjectForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }));
+      setError(undefined);
+    };
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(undefined);
+  };
+
+  const handleEdit = (project: Project) => {
+    setEditing(project.id);
+    setForm({
+      name: project.name,
+      color: project.color,
+      hourlyRate: project.hourlyRate?.toString() ?? '',
+    });
+    setError(undefined);
+  };
+
+  const handleArchive = (project: Project, archived: boolean) => {
+    onArchivedChange(project.id, archived);
+    if (editing === project.id) resetForm();
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const name = form.name.trim();
+    if (!name) {
+      setError('Please enter a name for the project');
+      return;
+    }
+    const hourlyRate = form.hourlyRate.trim() ? Number(form.hourlyRate) : undefined;
+    if (hourlyRate !== undefined && (!Number.isFinite(hourlyRate) || hourlyRate < 0)) {
+      setError('Hourly rate must be a positive number');
+      return;
+    }
+
+    const input: ProjectInput = { name, color: form.color, hourlyRate };
+    if (editing) {
+      onUpdate(editing, input);
+    } else {
+      onAdd(input);
+    }
+    resetForm();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Briefcase className="h-4 w-4" />
+          Manage projects
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Group focus time by client or project. Add an hourly rate to bill it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {projects.length > 0 && (
+          <ul className="space-y-2" aria-label="Projects">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className="flex items-center justify-between gap-2 rounded-lg border p-2"
+              >
+                <span
+                  className={`rounded-md px-2 py-0.5 text-sm font-medium ${project.color} ${
+                    project.archived ? 'opacity-50' : ''
+                  }`}
+                >
+                  {project.name}
+                </span>
+                <span className="flex-1 text-sm text-muted-foreground">
+                  {project.archived
+                    ? 'Archived'
+                    : project.hourlyRate === undefined
+                      ? 'No rate'
+                      : `${formatAmount(project.hourlyRate)}/h`}
+                </span>
+                {project.archived ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleArchive(project, false)}
+                    aria-label={`Restore ${project.name}`}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(project)}
+                      aria-label={`Edit ${project.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleArchive(project, true)}
+                      aria-label={`Archive ${project.name}`}
+                    >
+                      <Archive className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3" aria-label="Project details">
+          <div className="space-y-1">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              value={form.name}
+              onChange={updateField('name')}
+              placeholder="Acme Corp website"
+            />
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="project-rate">Hourly rate</Label>
+              <Input
+                id="project-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.hourlyRate}
+                onChange={updateField('hourlyRate')}
+                placeholder="Not billed"
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="project-color">Color</Label>
+              <select
+                id="project-color"
+                value={form.color}
+                onChange={updateField('color')}
+                className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+              >
+                {CUSTOM_FOCUS_MODE_COLORS.map(({ name, color }) => (
+                  <option key={name} value={color}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="gap-2">
+              {editing ? (
+                'Save changes'
+              ) : (
+                <>
+                  <Plus className="h-4 w-4" />
+                  Add project
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
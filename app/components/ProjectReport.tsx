@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Briefcase, Download, Printer } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTimerHistory } from '@/lib/hooks/useTimerHistory';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { useProjects } from '@/lib/hooks/useProjects';
+import { formatDuration } from '@/lib/utils/formatDuration';
+import { downloadFile } from '@/lib/utils/historyExport';
+import {
+  buildProjectReport,
+  exportProjectReport,
+  formatAmount,
+  getMonthToDate,
+} from '@/lib/utils/projects';
+import ProjectManager from './ProjectManager';
+
+/**
+ * Formats a "YYYY-MM-DD" day for the report heading, e.g. "Jan 13, 2025".
+ */
+const formatDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatHours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+/**
+ * Focus time per project over a date range, for timesheets and invoices.
+ *
+ * Sums the focus sessions that ended in the range by project, with decimal
+ * hours and, for projects with an hourly rate, the amount to bill.
+ *
+ * @component
+ *
+ * @remarks
+ * - The range defaults to the month so far; days follow the time zone and
+ *   "day starts at" hour in the user's preferences
+ * - Every focus session run counts, completed or not; Pomodoro breaks are left out
+ * - Sessions without a project are summed in a "No project" row, never billed
+ * - "Print" prints the summary without the page controls
+ * - "Export CSV" downloads one row per project and a total row
+ * - Projects are created, edited and archived in the "Manage projects" dialog
+ *
+ * @example
+ * ```tsx
+ * // app/reports/page.tsx
+ * export default function ReportsPage() {
+ *   return <ProjectReport />;
+ * }
+ * ```
+ *
+ * @returns {React.ReactElement} Date range, project totals and export controls
+ */
+export default function ProjectReport(): React.ReactElement {
+  // Read-only: the views that record and edit sessions sync them
+  const { sessions } = useTimerHistory();
+  const { projects, getProject, addProject, updateProject, setProjectArchived } = useProjects();
+  const {
+    preferences: { timeZone, dayStartHour },
+  } = usePreferences();
+  const dayOptions = useMemo(() => ({ timeZone, dayStartHour }), [timeZone, dayStartHour]);
+
+  const [range, setRange] = useState(() => getMonthToDate(dayOptions));
+
+  // Clearing a date input leaves the range as it was
+  const updateRange = (field: 'from' | 'to') =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const { value } = event.target;
+      if (value) setRange((prev) => ({ ...prev, [field]: value }));
+    };
+
+  const report = useMemo(
+    () => buildProjectReport(sessions, projects, range, dayOptions),
+    [sessions, projects, range, dayOptions]
+  );
+  const sessionCount = report.rows.reduce((sum, row) => sum + row.sessions, 0);
+  const isBilled = report.rows.some((row) => row.amount !== null);
+
+  return (
+    <main className="mx-auto w-full max-w-4xl space-y-6 p-8 sm:p-12">
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <h1 className="text-3xl font-bold">Reports</h1>
+          <p className="text-muted-foreground">Focus time by project, ready for invoicing</p>
+        </div>
+        <Button variant="ghost" asChild>
+          <Link href="/" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to timers
+          </Link>
+        </Button>
+      </div>
+
+      <Card className="print:hidden">
+        <CardContent className="flex flex-wrap items-end gap-3 pt-6">
+          <div className="space-y-1">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={updateRange('from')}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={updateRange('to')}
+            />
+          </div>
+          <div className="ml-auto flex flex-wrap gap-2">
+            <ProjectManager
+              projects={projects}
+              onAdd={addProject}
+              onUpdate={updateProject}
+              onArchivedChange={setProjectArchived}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => window.print()}
+              disabled={report.rows.length === 0}
+            >
+              <Printer className="h-4 w-4" />
+              Print
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => downloadFile(exportProjectReport(report, getProject))}
+              disabled={report.rows.length === 0}
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 print:hidden" />
+            Time by project
+          </CardTitle>
+          <CardDescription>
+            {formatDay(report.from)} – {formatDay(report.to)} ·{' '}
+            {sessionCount === 1 ? '1 session' : `${sessionCount} sessions`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.rows.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              No focus sessions in this range
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" aria-label="Time by project">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th scope="col" className="py-1 pr-4 font-normal">
+                      Project
+                    </th>
+                    <th scope="col" className="py-1 pr-4 text-right font-normal">
+                      Sessions
+                    </th>
+                    <th scope="col" className="py-1 pr-4 text-right font-normal">
+                      Time
+                    </th>
+                    <th scope="col" className="py-1 pr-4 text-right font-normal">
+                      Hours
+                    </th>
+                    {isBilled && (
+                      <>
+                        <th scope="col" className="py-1 pr-4 text-right font-normal">
+                          Rate
+                        </th>
+                        <th scope="col" className="py-1 text-right font-normal">
+                          Amount
+                        </th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => {
+                    const project =
+                      row.projectId === null ? undefined : getProject(row.projectId);
+                    return (
+                      <tr key={row.projectId ?? 'none'} className="border-t">
+                        <th scope="row" className="py-2 pr-4 text-left font-medium">
+                          {row.projectId === null ? (
+                            <span className="text-muted-foreground">No project</span>
+                          ) : (
+                            <span className={`rounded-md px-2 py-0.5 ${project?.color ?? ''}`}>
+                              {project?.name ?? 'Removed project'}
+                            </span>
+                          )}
+                        </th>
+                        <td className="py-2 pr-4 text-right">{row.sessions}</td>
+                        <td className="py-2 pr-4 text-right">{formatDuration(row.totalTime)}</td>
+                        <td className="py-2 pr-4 text-right">{formatHours(row.totalTime)}</td>
+                        {isBilled && (
+                          <>
+                            <td className="py-2 pr-4 text-right">
+                              {project?.hourlyRate === undefined
+                                ? '–'
+                                : formatAmount(project.hourlyRate)}
+                            </td>
+                            <td className="py-2 text-right">
+                              {row.amount === null ? '–' : formatAmount(row.amount)}
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 font-medium">
+                    <th scope="row" className="py-2 pr-4 text-left">
+                      Total
+                    </th>
+                    <td className="py-2 pr-4 text-right">{sessionCount}</td>
+                    <td className="py-2 pr-4 text-right">{formatDuration(report.totalTime)}</td>
+                    <td className="py-2 pr-4 text-right">{formatHours(report.totalTime)}</td>
+                    {isBilled && (
+                      <>
+                        <td className="py-2 pr-4" />
+                        <td className="py-2 text-right">{formatAmount(report.totalAmount)}</td>
+                      </>
+                    )}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
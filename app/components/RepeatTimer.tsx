@@ -1,11 +1,37 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useTimer } from "@/lib/hooks/useTimer";
 import { useNotification } from "@/lib/hooks/useNotification";
+import { usePreferences } from "@/lib/hooks/usePreferences";
+import { useTimerChannel } from "@/lib/hooks/useTimerChannel";
 import { formatTime } from "@/lib/utils/formatTime";
 import { TimerSession } from "@/lib/types/timer-history";
+import type { IntervalTimerSnapshot } from "@/lib/types/active-timer";
+import type { IntervalProgram } from "@/lib/types/interval-program";
+import {
+  loadActiveTimer,
+  saveActiveTimer,
+  clearActiveTimer,
+  resolveRestoreAction,
+  fastForwardIntervalTimer,
+} from "@/lib/utils/activeTimerStorage";
+import { getRemainingMs } from "@/lib/utils/timerClock";
+import {
+  createSegment,
+  createSimpleProgram,
+  expandProgram,
+  getProgramDuration,
+  getSimpleProgramConfig,
+  isValidProgram,
+} from "@/lib/utils/intervalProgram";
+import { INTERVAL_SEGMENT_CONFIG } from "@/lib/constants/interval-segments";
+import ResumePrompt from "./ResumePrompt";
+import IntervalTimeline from "./IntervalTimeline";
+import IntervalProgramEditor from "./IntervalProgramEditor";
+import IntervalPresetLibrary from "./IntervalPresetLibrary";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -16,28 +42,57 @@ import { Play, Pause, RotateCcw, SkipForward } from "lucide-react";
  */
 interface RepeatTimerProps {
   onSessionComplete?: (
-    focusMode: TimerSession["focusMode"],
+    focusMode: TimerSession["mode"],
     duration: number,
     completed: boolean
   ) => void;
 }
 
 /**
- * Repeat/Interval Timer component that runs multiple consecutive timer sessions.
+ * Program shown when switching to the program builder for the first time.
+ */
+const createDefaultProgram = (): IntervalProgram => ({
+  name: "Custom Program",
+  segments: [createSegment("work"), createSegment("rest")],
+  rounds: 4,
+});
+
+/**
+ * Repeat/Interval Timer component that runs an interval program.
+ *
+ * A program is either one duration repeated N times, or ordered segments
+ * (warmup, work, rest, cooldown) with their own durations and repeat counts,
+ * where the work and rest segments are repeated for a number of rounds.
+ * Configurations can be saved to and loaded from a presets library.
+ *
+ * Programs in progress are persisted and restored after a reload. Steps that
+ * finished while the page was closed are recorded as completed.
+ *
+ * When several tabs are open, the tab that starts the intervals owns them;
+ * other tabs mirror the rounds live and forward their controls to it.
  *
  * @component
  */
 export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
   const [durationSeconds, setDurationSeconds] = useState<number>(0);
   const [totalRepetitions, setTotalRepetitions] = useState<number>(0);
-  const [currentRound, setCurrentRound] = useState<number>(0);
+  const [isProgramMode, setIsProgramMode] = useState<boolean>(false);
+  const [customProgram, setCustomProgram] =
+    useState<IntervalProgram>(createDefaultProgram);
+  const [program, setProgram] = useState<IntervalProgram | null>(null);
+  const [currentStep, setCurrentStep] = useState<number>(0);
   const [isConfiguring, setIsConfiguring] = useState<boolean>(true);
   const [allRoundsComplete, setAllRoundsComplete] = useState<boolean>(false);
   const [beepEnabled, setBeepEnabled] = useState<boolean>(false);
   const [accumulatedElapsedTime, setAccumulatedElapsedTime] =
     useState<number>(0);
-  const processedRoundRef = useRef<number>(0);
-  const firstRoundStartedRef = useRef<boolean>(false);
+  const processedStepRef = useRef<number>(0);
+  const firstStepStartedRef = useRef<boolean>(false);
+  const skipStepStartRef = useRef<number>(0);
+  const remoteRef = useRef<boolean>(false);
+  const restoreCheckedRef = useRef<boolean>(false);
+  const [pendingRestore, setPendingRestore] =
+    useState<IntervalTimerSnapshot | null>(null);
 
   const {
     timeLeft,
@@ -47,25 +102,50 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
     pause,
     reset: resetTimer,
     setDuration,
-  } = useTimer(durationSeconds);
+    getClock,
+    restoreClock,
+  } = useTimer(0);
   const { playSound, showNotification } = useNotification();
+  const { preferences } = usePreferences();
+  const intervalDefault = preferences.defaultDuration.interval;
+
+  /**
+   * Start the configuration from the user's default round length
+   */
+  useEffect(() => {
+    if (intervalDefault) {
+      setDurationSeconds((current) => current || intervalDefault);
+    }
+  }, [intervalDefault]);
+
+  // Program being configured, and the steps of the one that is running
+  const configuredProgram = useMemo(
+    () =>
+      isProgramMode
+        ? customProgram
+        : createSimpleProgram(durationSeconds, totalRepetitions),
+    [isProgramMode, customProgram, durationSeconds, totalRepetitions]
+  );
+  const steps = useMemo(() => (program ? expandProgram(program) : []), [program]);
+  const step = currentStep > 0 ? steps[currentStep - 1] : undefined;
+  const stepDuration = step?.durationSeconds ?? 0;
 
   // Validate inputs
-  const isValidConfig = durationSeconds > 0 && totalRepetitions > 0;
+  const isValidConfig = isValidProgram(configuredProgram);
 
   // Calculate elapsed total time
   const calculateElapsedTime = () => {
-    if (currentRound === 0) return 0;
+    if (currentStep === 0) return 0;
 
-    // Accumulated time from completed/skipped rounds + time elapsed in current round
-    const currentRoundElapsed = durationSeconds - timeLeft;
-    return accumulatedElapsedTime + currentRoundElapsed;
+    // Accumulated time from completed/skipped steps + time elapsed in current step
+    const currentStepElapsed = stepDuration - timeLeft;
+    return accumulatedElapsedTime + currentStepElapsed;
   };
 
   const elapsedSeconds = calculateElapsedTime();
 
-  // Calculate and format total time
-  const totalSeconds = durationSeconds * totalRepetitions;
+  // Calculate and format total time of the whole program
+  const totalSeconds = isValidConfig ? getProgramDuration(configuredProgram) : 0;
   const formatTotalTime = () => {
     if (totalSeconds === 0) return null;
 
@@ -88,89 +168,283 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
   };
 
   /**
-   * Handle start button click - begin interval timer
+   * Handle start button click - begin the configured program
    */
   const handleStart = useCallback(() => {
     if (!isValidConfig) return;
 
+    setProgram(configuredProgram);
     setIsConfiguring(false);
-    setCurrentRound(1);
+    setCurrentStep(1);
     setAllRoundsComplete(false);
     setAccumulatedElapsedTime(0);
-    processedRoundRef.current = 0;
-    firstRoundStartedRef.current = false;
-  }, [isValidConfig]);
+    setPendingRestore(null);
+    processedStepRef.current = 0;
+    firstStepStartedRef.current = false;
+    skipStepStartRef.current = 0;
+    remoteRef.current = false;
+  }, [isValidConfig, configuredProgram]);
 
   /**
-   * Auto-start first round when leaving configuration
+   * Show a program in the configuration view, in simple mode if it is one
+   * duration repeated
    */
-  useEffect(() => {
-    if (
-      !isConfiguring &&
-      currentRound === 1 &&
-      !isRunning &&
-      !firstRoundStartedRef.current
-    ) {
-      setDuration(durationSeconds);
-      start();
-      firstRoundStartedRef.current = true;
+  const loadIntoConfiguration = useCallback((loaded: IntervalProgram) => {
+    const simpleConfig = getSimpleProgramConfig(loaded);
+    if (simpleConfig) {
+      setDurationSeconds(simpleConfig.durationSeconds);
+      setTotalRepetitions(simpleConfig.repetitions);
+      setIsProgramMode(false);
+    } else {
+      setCustomProgram(loaded);
+      setIsProgramMode(true);
+    }
+  }, []);
+
+  /**
+   * Bring back a saved interval timer, recording steps that finished
+   * while the page was closed. Mirrored state from another tab is shown
+   * without recording, since the owning tab records it.
+   */
+  const applySnapshot = useCallback(
+    (saved: IntervalTimerSnapshot, resume: boolean, mirrored = false) => {
+      const forwarded = fastForwardIntervalTimer(saved, Date.now());
+      const { snapshot, completedSteps } = forwarded;
+      const finished =
+        forwarded.allRoundsComplete || saved.allRoundsComplete === true;
+
+      remoteRef.current = mirrored;
+      if (onSessionComplete && !mirrored) {
+        completedSteps.forEach((completed) => {
+          onSessionComplete("interval", completed.durationSeconds, true);
+        });
+      }
+
+      // Keep the configuration in sync so a reset returns to this program
+      loadIntoConfiguration(snapshot.program);
+
+      setProgram(snapshot.program);
+      setBeepEnabled(snapshot.beepEnabled);
+      setCurrentStep(snapshot.currentStep);
+      setAccumulatedElapsedTime(snapshot.accumulatedElapsedTime);
+      setIsConfiguring(false);
+      setAllRoundsComplete(finished);
+      processedStepRef.current = finished
+        ? snapshot.currentStep
+        : snapshot.currentStep - 1;
+      firstStepStartedRef.current = true;
+      // The restored step already has its clock; don't restart it
+      skipStepStartRef.current = finished ? 0 : snapshot.currentStep;
+
+      if (finished) {
+        if (!mirrored) {
+          clearActiveTimer("interval");
+        }
+        return;
+      }
+
+      restoreClock(snapshot.clock);
+      if (resume) {
+        start();
+      }
+    },
+    [onSessionComplete, loadIntoConfiguration, restoreClock, start]
+  );
+
+  /**
+   * Snapshot of the program in progress, or null before the first step starts
+   */
+  const buildSnapshot = useCallback((): IntervalTimerSnapshot | null => {
+    const clock = getClock();
+    if (isConfiguring || !program || currentStep === 0 || clock.startedAt === null) {
+      return null;
     }
+    return {
+      kind: "interval",
+      clock,
+      program,
+      currentStep,
+      accumulatedElapsedTime,
+      beepEnabled,
+      savedAt: Date.now(),
+    };
   }, [
+    getClock,
     isConfiguring,
-    currentRound,
-    durationSeconds,
-    isRunning,
-    setDuration,
-    start,
+    program,
+    currentStep,
+    accumulatedElapsedTime,
+    beepEnabled,
   ]);
 
   /**
-   * Handle reset button click - return to configuration
+   * Return to the configuration view
    */
-  const handleReset = useCallback(() => {
+  const resetLocal = useCallback(() => {
     resetTimer();
     setIsConfiguring(true);
-    setCurrentRound(0);
+    setProgram(null);
+    setCurrentStep(0);
     setAllRoundsComplete(false);
     setAccumulatedElapsedTime(0);
   }, [resetTimer]);
 
+  const { role, publish, end, send } = useTimerChannel<IntervalTimerSnapshot>(
+    "zenFocus_timer_interval",
+    {
+      getSnapshot: () => (allRoundsComplete ? null : buildSnapshot()),
+      onState: (snapshot) => {
+        setPendingRestore(null);
+        if (snapshot) {
+          applySnapshot(snapshot, false, true);
+        } else {
+          remoteRef.current = true;
+          resetLocal();
+        }
+      },
+      onCommand: (command) => {
+        if (command === "start") start();
+        else if (command === "pause") pause();
+        else if (command === "reset") handleReset();
+        else if (command === "skip") handleSkip();
+      },
+    }
+  );
+  const isFollower = role === "follower";
+
+  /**
+   * A tab that takes over the rounds from a closed tab now owns them
+   */
+  useEffect(() => {
+    if (role === "leader") {
+      remoteRef.current = false;
+    }
+  }, [role]);
+
+  /**
+   * Restore an interval timer saved before the page was reloaded, once
+   */
+  useEffect(() => {
+    if (restoreCheckedRef.current) return;
+    restoreCheckedRef.current = true;
+
+    const snapshot = loadActiveTimer("interval");
+    if (!snapshot) return;
+
+    switch (resolveRestoreAction(snapshot, Date.now())) {
+      case "continue":
+      case "complete":
+        applySnapshot(snapshot, false);
+        break;
+      case "prompt":
+        setPendingRestore(snapshot);
+        break;
+      default:
+        clearActiveTimer("interval");
+    }
+  }, [applySnapshot]);
+
+  /**
+   * Handle resume prompt - continue the paused program from before the reload
+   */
+  const handleResume = useCallback(() => {
+    if (!pendingRestore) return;
+    setPendingRestore(null);
+    applySnapshot(pendingRestore, true);
+  }, [pendingRestore, applySnapshot]);
+
+  /**
+   * Handle discard prompt - forget the paused program from before the reload
+   */
+  const handleDiscard = useCallback(() => {
+    setPendingRestore(null);
+    clearActiveTimer("interval");
+  }, []);
+
+  /**
+   * Auto-start first step when leaving configuration
+   */
+  useEffect(() => {
+    if (
+      !isConfiguring &&
+      currentStep === 1 &&
+      !isRunning &&
+      !firstStepStartedRef.current
+    ) {
+      setDuration(stepDuration);
+      start();
+      firstStepStartedRef.current = true;
+    }
+  }, [isConfiguring, currentStep, stepDuration, isRunning, setDuration, start]);
+
   /**
-   * Handle skip button click - skip to next round without counting remaining time
+   * Handle reset button click - return to configuration
+   */
+  const handleReset = useCallback(() => {
+    if (isFollower) {
+      send("reset");
+      return;
+    }
+    remoteRef.current = false;
+    resetLocal();
+    clearActiveTimer("interval");
+  }, [isFollower, send, resetLocal]);
+
+  /**
+   * Handle pause/resume button click
+   */
+  const handlePauseResume = useCallback(() => {
+    if (isFollower) {
+      send(isRunning ? "pause" : "start");
+    } else if (isRunning) {
+      pause();
+    } else {
+      start();
+    }
+  }, [isFollower, send, isRunning, pause, start]);
+
+  /**
+   * Handle skip button click - skip to next step without counting remaining time
    */
   const handleSkip = useCallback(() => {
-    if (currentRound === 0 || currentRound > totalRepetitions) return;
+    if (isFollower) {
+      send("skip");
+      return;
+    }
+    if (currentStep === 0 || currentStep > steps.length) return;
 
-    // Calculate elapsed time in current round (only count time actually spent)
-    const currentRoundElapsed = durationSeconds - timeLeft;
+    // Calculate elapsed time in current step (only count time actually spent)
+    const currentStepElapsed = stepDuration - timeLeft;
 
     // Add only the elapsed time to accumulated (not the full duration)
-    setAccumulatedElapsedTime((prev) => prev + currentRoundElapsed);
+    setAccumulatedElapsedTime((prev) => prev + currentStepElapsed);
 
-    // Mark this round as processed (skipped)
-    processedRoundRef.current = currentRound;
+    // Mark this step as processed (skipped)
+    processedStepRef.current = currentStep;
 
-    // Track skipped round (completed = false)
+    // Track skipped step (completed = false)
     if (onSessionComplete) {
-      onSessionComplete("interval", currentRoundElapsed, false);
+      onSessionComplete("interval", currentStepElapsed, false);
     }
 
     // Stop current timer before advancing
     pause();
 
-    // Check if more rounds remaining
-    if (currentRound < totalRepetitions) {
-      // Move to next round (effect will reset timer and start it)
-      setCurrentRound((prev) => prev + 1);
+    // Check if more steps remaining
+    if (currentStep < steps.length) {
+      // Move to next step (effect will reset timer and start it)
+      setCurrentStep((prev) => prev + 1);
     } else {
-      // All rounds complete (last round was skipped)
+      // All rounds complete (last step was skipped)
       setAllRoundsComplete(true);
       showNotification("All rounds completed!", "Great work! 🎉");
     }
   }, [
-    currentRound,
-    totalRepetitions,
-    durationSeconds,
+    isFollower,
+    send,
+    currentStep,
+    steps.length,
+    stepDuration,
     timeLeft,
     onSessionComplete,
     showNotification,
@@ -178,72 +452,127 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
   ]);
 
   /**
-   * Handle round completion and advance to next round
+   * Handle step completion and advance to next step
    */
   useEffect(() => {
     if (
       isComplete &&
-      currentRound > 0 &&
-      currentRound <= totalRepetitions &&
-      processedRoundRef.current !== currentRound
+      step &&
+      processedStepRef.current !== currentStep
     ) {
-      // Mark this round as processed
-      processedRoundRef.current = currentRound;
+      // Mark this step as processed
+      processedStepRef.current = currentStep;
 
-      // Add full round duration to accumulated time (completed normally)
-      setAccumulatedElapsedTime((prev) => prev + durationSeconds);
+      // Add full step duration to accumulated time (completed normally)
+      setAccumulatedElapsedTime((prev) => prev + step.durationSeconds);
 
-      // Track completed round
-      if (onSessionComplete) {
-        onSessionComplete("interval", durationSeconds, true);
+      // Steps mirrored from another tab are tracked and announced there
+      const isOwner = !remoteRef.current;
+
+      // Track completed step
+      if (onSessionComplete && isOwner) {
+        onSessionComplete("interval", step.durationSeconds, true);
       }
 
       // Send notification
-      if (beepEnabled) {
+      if (beepEnabled && isOwner) {
         playSound();
       }
-      showNotification(
-        `Round ${currentRound} of ${totalRepetitions} completed!`,
-        "Keep going!"
-      );
-
-      // Check if more rounds remaining
-      if (currentRound < totalRepetitions) {
-        // Move to next round; dedicated effects will reset and restart timer
-        setCurrentRound((prev) => prev + 1);
+
+      // Check if more steps remaining
+      if (currentStep < steps.length) {
+        if (isOwner) {
+          const next = steps[currentStep];
+          showNotification(
+            step.round !== null && program && program.segments.length === 1
+              ? `Round ${step.round} of ${program.rounds} completed!`
+              : `${step.name} completed!`,
+            `Next: ${next.name} (${formatTime(next.durationSeconds)})`
+          );
+        }
+        // Move to next step; dedicated effects will reset and restart timer
+        setCurrentStep((prev) => prev + 1);
       } else {
         // All rounds complete
         setAllRoundsComplete(true);
-        if (beepEnabled) {
+        if (beepEnabled && isOwner) {
           playSound();
         }
-        showNotification("All rounds completed!", "Great work! 🎉");
+        if (isOwner) {
+          showNotification("All rounds completed!", "Great work! 🎉");
+        }
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isComplete, onSessionComplete]);
 
   /**
-   * Prepare and start next round after advancing currentRound
+   * Prepare and start next step after advancing currentStep
    */
   useEffect(() => {
-    if (
-      currentRound > 1 &&
-      currentRound <= totalRepetitions &&
-      !allRoundsComplete
-    ) {
-      setDuration(durationSeconds);
+    if (currentStep > 1 && currentStep <= steps.length && !allRoundsComplete) {
+      if (skipStepStartRef.current === currentStep) {
+        skipStepStartRef.current = 0;
+        return;
+      }
+      setDuration(stepDuration);
       start();
     }
   }, [
-    currentRound,
-    totalRepetitions,
+    currentStep,
+    steps.length,
     allRoundsComplete,
-    durationSeconds,
+    stepDuration,
     setDuration,
     start,
   ]);
 
+  /**
+   * Persist the program in progress so it survives reloads, and share it
+   * with other tabs
+   */
+  useEffect(() => {
+    if (isFollower) return;
+
+    const snapshot = buildSnapshot();
+    if (allRoundsComplete) {
+      clearActiveTimer("interval");
+      end(snapshot && { ...snapshot, allRoundsComplete: true });
+      return;
+    }
+    if (isConfiguring) {
+      end(null);
+      return;
+    }
+    if (!snapshot) return;
+
+    saveActiveTimer(snapshot);
+    publish(snapshot);
+  }, [
+    isFollower,
+    isConfiguring,
+    allRoundsComplete,
+    isRunning,
+    buildSnapshot,
+    publish,
+    end,
+  ]);
+
+  /**
+   * Describes where a paused program stopped, for the resume prompt
+   */
+  const describePendingStep = (snapshot: IntervalTimerSnapshot) => {
+    const pendingSteps = expandProgram(snapshot.program);
+    const pending = pendingSteps[snapshot.currentStep - 1];
+    if (pending?.round != null) {
+      return `round ${pending.round} of ${snapshot.program.rounds}`;
+    }
+    return `step ${snapshot.currentStep} of ${pendingSteps.length}`;
+  };
+
+  const simpleConfig = program ? getSimpleProgramConfig(program) : null;
+  const showTimeline = program !== null && program.segments.length > 1;
+
   return (
     <div className="flex flex-col items-center justify-center space-y-8">
       {isConfiguring ? (
@@ -256,38 +585,94 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
             </p>
           </div>
 
+          {/* Resume Prompt */}
+          {pendingRestore && (
+            <ResumePrompt
+              message={`You have a paused interval timer on ${describePendingStep(
+                pendingRestore
+              )} with ${formatTime(
+                Math.ceil(getRemainingMs(pendingRestore.clock, Date.now()) / 1000)
+              )} remaining.`}
+              onResume={handleResume}
+              onDiscard={handleDiscard}
+            />
+          )}
+
+          {/* Simple / Program Switch */}
+          <div className="flex justify-center gap-2">
+            <Button
+              variant={isProgramMode ? "outline" : "secondary"}
+              size="sm"
+              aria-pressed={!isProgramMode}
+              onClick={() => setIsProgramMode(false)}
+            >
+              Simple
+            </Button>
+            <Button
+              variant={isProgramMode ? "secondary" : "outline"}
+              size="sm"
+              aria-pressed={isProgramMode}
+              onClick={() => setIsProgramMode(true)}
+            >
+              Program
+            </Button>
+          </div>
+
           <div className="space-y-4">
-            {/* Duration Input */}
-            <div className="space-y-2">
-              <Label htmlFor="duration">Duration (seconds)</Label>
-              <Input
-                id="duration"
-                type="number"
-                min="1"
-                max="7200"
-                value={durationSeconds || ""}
-                onChange={(e) =>
-                  setDurationSeconds(parseInt(e.target.value) || 0)
-                }
-                placeholder="Enter duration in seconds"
-              />
-            </div>
+            {isProgramMode ? (
+              <>
+                <IntervalProgramEditor
+                  program={customProgram}
+                  onChange={setCustomProgram}
+                />
+                {isValidConfig && (
+                  <IntervalTimeline
+                    steps={expandProgram(customProgram)}
+                    currentStep={0}
+                  />
+                )}
+              </>
+            ) : (
+              <>
+                {/* Duration Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="duration">Duration (seconds)</Label>
+                  <Input
+                    id="duration"
+                    type="number"
+                    min="1"
+                    max="7200"
+                    value={durationSeconds || ""}
+                    onChange={(e) =>
+                      setDurationSeconds(parseInt(e.target.value) || 0)
+                    }
+                    placeholder="Enter duration in seconds"
+                  />
+                </div>
+
+                {/* Repetitions Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="repetitions">Repetitions</Label>
+                  <Input
+                    id="repetitions"
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={totalRepetitions || ""}
+                    onChange={(e) =>
+                      setTotalRepetitions(parseInt(e.target.value) || 0)
+                    }
+                    placeholder="Number of rounds"
+                  />
+                </div>
+              </>
+            )}
 
-            {/* Repetitions Input */}
-            <div className="space-y-2">
-              <Label htmlFor="repetitions">Repetitions</Label>
-              <Input
-                id="repetitions"
-                type="number"
-                min="1"
-                max="99"
-                value={totalRepetitions || ""}
-                onChange={(e) =>
-                  setTotalRepetitions(parseInt(e.target.value) || 0)
-                }
-                placeholder="Number of rounds"
-              />
-            </div>
+            {/* Saved Presets */}
+            <IntervalPresetLibrary
+              program={configuredProgram}
+              onLoad={loadIntoConfiguration}
+            />
 
             {/* Beep Sound Checkbox */}
             <div className="flex items-center space-x-2">
@@ -304,6 +689,11 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
                 Beep sound when each round completes
               </Label>
             </div>
+            {beepEnabled && !preferences.soundEnabled && (
+              <p className="text-xs text-muted-foreground">
+                Sounds are turned off in Settings
+              </p>
+            )}
 
             {/* Total Time Display */}
             {formatTotalTime() && (
@@ -329,11 +719,21 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
       ) : (
         /* Timer View */
         <div className="flex flex-col items-center space-y-6">
-          {/* Round Counter */}
-          {!allRoundsComplete && (
+          {/* Step Counter */}
+          {!allRoundsComplete && step && program && (
             <div className="text-center space-y-1">
+              {showTimeline && (
+                <Badge
+                  variant="secondary"
+                  className={`${INTERVAL_SEGMENT_CONFIG[step.kind].color} text-white`}
+                >
+                  {step.name}
+                </Badge>
+              )}
               <p className="text-lg text-muted-foreground">
-                Round {currentRound} of {totalRepetitions}
+                {step.round !== null
+                  ? `Round ${step.round} of ${program.rounds}`
+                  : `Step ${currentStep} of ${steps.length}`}
               </p>
               <p className="text-sm text-muted-foreground/80">
                 Elapsed: {formatTime(elapsedSeconds)}
@@ -349,8 +749,11 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
               </div>
               <h2 className="text-3xl font-bold">All Rounds Completed!</h2>
               <p className="text-lg text-muted-foreground">
-                Great work! You completed {totalRepetitions} rounds of{" "}
-                {formatTime(durationSeconds)} each.
+                {simpleConfig
+                  ? `Great work! You completed ${simpleConfig.repetitions} rounds of ${formatTime(
+                      simpleConfig.durationSeconds
+                    )} each.`
+                  : `Great work! You completed all ${steps.length} segments.`}
               </p>
               <p className="text-md text-muted-foreground/80">
                 Total Elapsed: {formatTime(elapsedSeconds)}
@@ -377,7 +780,7 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
                   fill="none"
                   strokeDasharray={`${2 * Math.PI * 120}`}
                   strokeDashoffset={`${
-                    2 * Math.PI * 120 * (1 - timeLeft / durationSeconds)
+                    2 * Math.PI * 120 * (1 - timeLeft / stepDuration)
                   }`}
                   className="text-primary transition-all duration-300 ease-out"
                 />
@@ -390,12 +793,23 @@ export default function RepeatTimer({ onSessionComplete }: RepeatTimerProps) {
             </div>
           )}
 
+          {/* Timeline of upcoming segments */}
+          {showTimeline && !allRoundsComplete && (
+            <IntervalTimeline steps={steps} currentStep={currentStep} />
+          )}
+
+          {isFollower && (
+            <p className="text-sm text-muted-foreground">
+              This timer is running in another tab
+            </p>
+          )}
+
           {/* Control Buttons */}
           {!allRoundsComplete && (
             <div className="flex flex-col gap-3">
               <div className="flex gap-4">
                 <Button
-                  onClick={isRunning ? pause : start}
+                  onClick={handlePauseResume}
                   size="lg"
                   variant={isRunning ? "secondary" : "default"}
                   aria-label={isRunning ? "Pause" : "Resume"}
@@ -0,0 +1,59 @@
+'use client';
+
+import { memo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play, X } from 'lucide-react';
+
+/**
+ * Props for the ResumePrompt component.
+ *
+ * @interface ResumePromptProps
+ *
+ * @property {string} message - Description of the saved session
+ * @property {() => void} onResume - Callback invoked when the user resumes the saved session
+ * @property {() => void} onDiscard - Callback invoked when the user discards the saved session
+ */
+interface ResumePromptProps {
+  message: string;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Banner offering to resume a paused session restored after a page reload.
+ *
+ * @component
+ *
+ * @example
+ * ```tsx
+ * <ResumePrompt
+ *   message="You have a paused Study session with 12:34 remaining."
+ *   onResume={handleResume}
+ *   onDiscard={handleDiscard}
+ * />
+ * ```
+ *
+ * @returns {React.ReactElement} Resume/discard banner
+ */
+const ResumePrompt = memo(function ResumePrompt({ message, onResume, onDiscard }: ResumePromptProps) {
+  return (
+    <div
+      role="status"
+      className="w-full max-w-md flex flex-col gap-3 p-4 rounded-lg border bg-muted/50 text-sm"
+    >
+      <p>{message}</p>
+      <div className="flex gap-2 justify-center">
+        <Button size="sm" onClick={onResume}>
+          <Play className="mr-2 h-4 w-4" />
+          Resume
+        </Button>
+        <Button size="sm" variant="outline" onClick={onDiscard}>
+          <X className="mr-2 h-4 w-4" />
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+export default ResumePrompt;
@@ -0,0 +1,389 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { FocusMode, FocusModeConfig } from '@/lib/constants/focus-modes';
+import { FOCUS_QUALITY_LABELS, MOOD_LABELS, RATING_VALUES } from '@/lib/constants/reflection';
+import type { Project } from '@/lib/types/projects';
+import type { TimerSession } from '@/lib/types/timer-history';
+import type { TimerSessionChanges } from '@/lib/hooks/useTimerHistory';
+import { parseDurationInput, validateDurationInput } from '@/lib/utils/durationInput';
+import { getPausedDuration } from '@/lib/utils/timerSession';
+import { createReflection } from '@/lib/utils/sessionReflection';
+
+/**
+ * Props for SessionEditDialog component.
+ *
+ * @interface SessionEditDialogProps
+ * @property {TimerSession | null} session - Session being edited; the dialog is open while set
+ * @property {FocusModeConfig[]} modes - Focus modes the session can be moved to
+ * @property {(mode: FocusMode) => FocusModeConfig} getConfig - Looks up the session's mode, even if it was deleted
+ * @property {Project[]} [projects] - User's projects, including archived ones, the session can be reported to
+ * @property {(id: string, changes: TimerSessionChanges) => void} onSave - Callback with the edited fields
+ * @property {() => void} onClose - Callback when the dialog is dismissed or saved
+ */
+interface SessionEditDialogProps {
+  session: TimerSession | null;
+  modes: FocusModeConfig[];
+  getConfig: (mode: FocusMode) => FocusModeConfig;
+  projects?: Project[];
+  onSave: (id: string, changes: TimerSessionChanges) => void;
+  onClose: () => void;
+}
+
+interface SessionForm {
+  mode: FocusMode;
+  projectId: string; // "" when the session has no project
+  duration: string;
+  completed: boolean;
+  endTime: string;
+  intention: string;
+  notes: string;
+  tags: string;
+  focusQuality: string; // "" when not rated
+  mood: string;
+}
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-background px-2 text-sm';
+
+/**
+ * Converts seconds to the text shown in the duration field (minutes or MM:SS).
+ */
+const toDurationText = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes}:${rest.toString().padStart(2, '0')}` : `${minutes}`;
+};
+
+/**
+ * Converts an ISO time to the local "YYYY-MM-DDTHH:mm" value of a datetime-local field.
+ */
+const toDateTimeText = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+const toForm = (session: TimerSession): SessionForm => ({
+  mode: session.mode,
+  projectId: session.projectId ?? '',
+  duration: toDurationText(session.actualDuration),
+  completed: session.completed,
+  endTime: toDateTimeText(session.endTime),
+  intention: session.intention ?? '',
+  notes: session.notes ?? '',
+  tags: session.tags?.join(', ') ?? '',
+  focusQuality: session.focusQuality?.toString() ?? '',
+  mood: session.mood?.toString() ?? '',
+});
+
+/**
+ * Dialog for correcting a recorded session.
+ *
+ * Edits the focus mode and project, the time run, whether the session was completed and
+ * when it ended, and what the session was for with the user's notes, tags
+ * and ratings. The start time is derived from the end time and duration.
+ *
+ * @component
+ *
+ * @remarks
+ * - Durations accept minutes ("45") or MM:SS/HH:MM:SS, like the custom timer input
+ * - The end time is entered in local time, to the minute; the start and end times are
+ *   kept as they were unless the end time or duration is changed
+ * - Marking a session completed also sets its planned duration to the time run
+ * - Sessions recorded in a deleted mode can keep it
+ * - Archived projects are only offered to the sessions already reported to them
+ * - Tags are comma separated and stored in lower case, as in the reflection prompt
+ *
+ * @example
+ * ```tsx
+ * const [editing, setEditing] = useState<TimerSession | null>(null);
+ * return (
+ *   <SessionEditDialog
+ *     session={editing}
+ *     modes={focusModes}
+ *     getConfig={getConfig}
+ *     projects={projects}
+ *     onSave={updateSession}
+ *     onClose={() => setEditing(null)}
+ *   />
+ * );
+ * ```
+ *
+ * @param {SessionEditDialogProps} props - Component props
+ * @returns {React.ReactElement} Session edit dialog
+ */
+export default function SessionEditDialog({
+  session,
+  modes,
+  getConfig,
+  projects = [],
+  onSave,
+  onClose,
+}: SessionEditDialogProps): React.ReactElement {
+  const [form, setForm] = useState<SessionForm | null>(session ? toForm(session) : null);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    setForm(session ? toForm(session) : null);
+    setError(undefined);
+  }, [session]);
+
+  const updateField = (field: Exclude<keyof SessionForm, 'completed'>) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+      const { value } = event.target;
+      setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+      setError(undefined);
+    };
+
+  /**
+   * Modes offered in the selector, keeping a deleted mode the session was recorded in.
+   */
+  const modeOptions =
+    session && !modes.some((mode) => mode.value === session.mode)
+      ? [...modes, getConfig(session.mode)]
+      : modes;
+
+  /**
+   * Projects offered in the selector: active ones and the session's own.
+   */
+  const projectOptions = projects.filter(
+    (project) => !project.archived || project.id === session?.projectId
+  );
+  const hasRemovedProject =
+    session?.projectId !== undefined && !projects.some((project) => project.id === session.projectId);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!session || !form) return;
+
+    const duration = parseDurationInput(form.duration);
+    const validation = validateDurationInput(duration);
+    if (!validation.isValid) {
+      setError(validation.error);
+      return;
+    }
+    // The field has no seconds, so an end time left as it was keeps its own
+    const endChanged = form.endTime !== toDateTimeText(session.endTime);
+    const end = new Date(endChanged ? form.endTime : session.endTime);
+    if (!form.endTime || Number.isNaN(end.getTime())) {
+      setError('Please enter when the session ended');
+      return;
+    }
+
+    // Pauses and interruptions move with the end time and stay within the session's span
+    const shiftMs = end.getTime() - new Date(session.endTime).getTime();
+    const shift = (iso: string) =>
+      shiftMs === 0 ? iso : new Date(new Date(iso).getTime() + shiftMs).toISOString();
+    const pauses = session.pauses?.map((pause) => ({
+      pausedAt: shift(pause.pausedAt),
+      resumedAt: shift(pause.resumedAt),
+    }));
+    const interruptions = session.interruptions?.map((interruption) => ({
+      ...interruption,
+      at: shift(interruption.at),
+    }));
+
+    onSave(session.id, {
+      mode: form.mode,
+      projectId: form.projectId || undefined,
+      startTime:
+        endChanged || duration !== session.actualDuration
+          ? new Date(end.getTime() - (duration + getPausedDuration(session)) * 1000).toISOString()
+          : session.startTime,
+      endTime: endChanged ? end.toISOString() : session.endTime,
+      actualDuration: duration,
+      plannedDuration: form.completed
+        ? duration
+        : Math.max(session.plannedDuration, duration),
+      completed: form.completed,
+      ...(pauses ? { pauses } : {}),
+      ...(interruptions ? { interruptions } : {}),
+      intention: form.intention.trim() || undefined,
+      ...createReflection(
+        form.notes,
+        form.tags,
+        form.focusQuality ? Number(form.focusQuality) : null,
+        form.mood ? Number(form.mood) : null
+      ),
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={session !== null}
+      onOpenChange={(next) => {
+        if (!next) onClose();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Session</DialogTitle>
+          <DialogDescription>Correct the details of a recorded session.</DialogDescription>
+        </DialogHeader>
+
+        {form && (
+          <form onSubmit={handleSubmit} className="space-y-3" aria-label="Session details">
+            <div className="space-y-1">
+              <Label htmlFor="session-mode">Focus mode</Label>
+              <select
+                id="session-mode"
+                value={form.mode}
+                onChange={updateField('mode')}
+                className={SELECT_CLASS_NAME}
+              >
+                {modeOptions.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {(projectOptions.length > 0 || hasRemovedProject) && (
+              <div className="space-y-1">
+                <Label htmlFor="session-project">Project</Label>
+                <select
+                  id="session-project"
+                  value={form.projectId}
+                  onChange={updateField('projectId')}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value="">No project</option>
+                  {projectOptions.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                  {hasRemovedProject && <option value={session?.projectId}>Removed project</option>}
+                </select>
+              </div>
+            )}
+            <div className="flex gap-3">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="session-duration">Duration</Label>
+                <Input
+                  id="session-duration"
+                  value={form.duration}
+                  onChange={updateField('duration')}
+                  placeholder="Minutes or MM:SS"
+                />
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="session-end">Ended at</Label>
+                <Input
+                  id="session-end"
+                  type="datetime-local"
+                  value={form.endTime}
+                  onChange={updateField('endTime')}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="session-completed"
+                checked={form.completed}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => (prev ? { ...prev, completed: checked === true } : prev))
+                }
+              />
+              <Label htmlFor="session-completed" className="font-normal cursor-pointer">
+                Completed
+              </Label>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="session-intention">Focused on</Label>
+              <Input
+                id="session-intention"
+                value={form.intention}
+                onChange={updateField('intention')}
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="session-notes">Notes</Label>
+              <textarea
+                id="session-notes"
+                value={form.notes}
+                onChange={updateField('notes')}
+                rows={2}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="session-tags">Tags</Label>
+              <Input
+                id="session-tags"
+                value={form.tags}
+                onChange={updateField('tags')}
+                placeholder="Comma separated"
+              />
+            </div>
+            <div className="flex gap-3">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="session-focus-quality">Focus quality</Label>
+                <select
+                  id="session-focus-quality"
+                  value={form.focusQuality}
+                  onChange={updateField('focusQuality')}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value="">Not rated</option>
+                  {RATING_VALUES.map((rating) => (
+                    <option key={rating} value={rating}>
+                      {rating} – {FOCUS_QUALITY_LABELS[rating]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="session-mood">Energy and mood</Label>
+                <select
+                  id="session-mood"
+                  value={form.mood}
+                  onChange={updateField('mood')}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value="">Not rated</option>
+                  {RATING_VALUES.map((rating) => (
+                    <option key={rating} value={rating}>
+                      {rating} – {MOOD_LABELS[rating]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit">Save changes</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
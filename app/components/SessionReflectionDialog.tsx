@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FOCUS_QUALITY_LABELS, MOOD_LABELS, RATING_VALUES } from '@/lib/constants/reflection';
+import type { SessionReflection, TimerSession } from '@/lib/types/timer-history';
+import { createReflection } from '@/lib/utils/sessionReflection';
+import { formatDuration } from '@/lib/utils/formatDuration';
+
+/**
+ * Props for SessionReflectionDialog component.
+ *
+ * @interface SessionReflectionDialogProps
+ * @property {TimerSession | null} session - Session just completed; the dialog is open while set
+ * @property {string[]} [suggestedTags] - Tags used before, offered while typing
+ * @property {(id: string, reflection: SessionReflection) => void} onSave - Callback with the reflection to store on the session
+ * @property {() => void} onClose - Callback when the dialog is skipped or saved
+ */
+interface SessionReflectionDialogProps {
+  session: TimerSession | null;
+  suggestedTags?: string[];
+  onSave: (id: string, reflection: SessionReflection) => void;
+  onClose: () => void;
+}
+
+/**
+ * A 1-5 rating as a row of radio buttons, with the meaning of the picked one.
+ */
+function RatingGroup({
+  name,
+  legend,
+  labels,
+  value,
+  onChange,
+}: {
+  name: string;
+  legend: string;
+  labels: Record<number, string>;
+  value: number | null;
+  onChange: (value: number) => void;
+}): React.ReactElement {
+  return (
+    <fieldset className="space-y-1">
+      <legend className="text-sm font-medium">{legend}</legend>
+      <div className="flex items-center gap-3">
+        <div className="flex gap-1">
+          {RATING_VALUES.map((rating) => (
+            <label
+              key={rating}
+              className={`flex h-9 w-9 cursor-pointer items-center justify-center rounded-md border text-sm has-[:focus-visible]:ring-1 has-[:focus-visible]:ring-ring ${
+                value === rating ? 'border-primary bg-primary text-primary-foreground' : 'border-input'
+              }`}
+            >
+              <input
+                type="radio"
+                name={name}
+                value={rating}
+                checked={value === rating}
+                onChange={() => onChange(rating)}
+                aria-label={`${rating}, ${labels[rating]}`}
+                className="sr-only"
+              />
+              {rating}
+            </label>
+          ))}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {value === null ? 'Not rated' : labels[value]}
+        </span>
+      </div>
+    </fieldset>
+  );
+}
+
+/**
+ * Prompt shown when a focus session completes, asking the user to reflect on it.
+ *
+ * Notes, comma separated tags, a focus quality rating and an energy and mood
+ * rating are all optional; the session is already recorded, and skipping
+ * leaves it as it is.
+ *
+ * @component
+ *
+ * @remarks
+ * - Tags are stored in lower case without a leading "#", so "#Thesis" and "thesis" are one tag
+ * - Tags used before are suggested while typing
+ * - Shows the session's intention, if one was set, as a reminder of what it was for
+ *
+ * @example
+ * ```tsx
+ * <SessionReflectionDialog
+ *   session={justCompleted}
+ *   suggestedTags={getSessionTags(sessions)}
+ *   onSave={updateSession}
+ *   onClose={() => setJustCompleted(null)}
+ * />
+ * ```
+ *
+ * @param {SessionReflectionDialogProps} props - Component props
+ * @returns {React.ReactElement} Reflection dialog
+ */
+export default function SessionReflectionDialog({
+  session,
+  suggestedTags = [],
+  onSave,
+  onClose,
+}: SessionReflectionDialogProps): React.ReactElement {
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+  const [focusQuality, setFocusQuality] = useState<number | null>(null);
+  const [mood, setMood] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNotes(session?.notes ?? '');
+    setTags(session?.tags?.join(', ') ?? '');
+    setFocusQuality(session?.focusQuality ?? null);
+    setMood(session?.mood ?? null);
+  }, [session]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!session) return;
+
+    onSave(session.id, createReflection(notes, tags, focusQuality, mood));
+    onClose();
+  };
+
+  // Suggestions complete the tag being typed, after the last comma
+  const typedTags = tags.split(',');
+  const typedPrefix = typedTags.slice(0, -1).map((tag) => `${tag.trim()}, `).join('');
+
+  return (
+    <Dialog
+      open={session !== null}
+      onOpenChange={(next) => {
+        if (!next) onClose();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>How did it go?</DialogTitle>
+          <DialogDescription>
+            {session
+              ? `${formatDuration(session.actualDuration)} of focus${
+                  session.intention ? ` on ${session.intention}` : ''
+                }. Add notes and ratings, or skip.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4" aria-label="Session reflection">
+          <div className="space-y-1">
+            <Label htmlFor="reflection-notes">Notes</Label>
+            <textarea
+              id="reflection-notes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              rows={3}
+              placeholder="What did you get done? What got in the way?"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reflection-tags">Tags</Label>
+            <Input
+              id="reflection-tags"
+              value={tags}
+              onChange={(event) => setTags(event.target.value)}
+              placeholder="Comma separated, e.g. thesis, reading"
+              list="reflection-tag-suggestions"
+              autoComplete="off"
+            />
+            <datalist id="reflection-tag-suggestions">
+              {suggestedTags.map((tag) => (
+                <option key={tag} value={`${typedPrefix}${tag}`} />
+              ))}
+            </datalist>
+          </div>
+          <RatingGroup
+            name="reflection-focus-quality"
+            legend="Focus quality"
+            labels={FOCUS_QUALITY_LABELS}
+            value={focusQuality}
+            onChange={setFocusQuality}
+          />
+          <RatingGroup
+            name="reflection-mood"
+            legend="Energy and mood"
+            labels={MOOD_LABELS}
+            value={mood}
+            onChange={setMood}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Skip
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Pencil, Trash2 } from 'lucide-react';
+import type { FocusModeConfig } from '@/lib/constants/focus-modes';
+import type { Project } from '@/lib/types/projects';
+import type { TimerSession } from '@/lib/types/timer-history';
+import { POMODORO_PHASE_CONFIG } from '@/lib/constants/pomodoro';
+import { FOCUS_QUALITY_LABELS, MOOD_LABELS } from '@/lib/constants/reflection';
+import { formatTime } from '@/lib/utils/formatTime';
+import { getPausedDuration, isFocusSession } from '@/lib/utils/timerSession';
+
+/**
+ * Props for SessionRow component.
+ *
+ * @interface SessionRowProps
+ * @property {TimerSession} session - Session to display
+ * @property {FocusModeConfig} config - Label and color of the session's focus mode
+ * @property {string} timeLabel - When the session ended, e.g. "2 hours ago" or "14:30"
+ * @property {Project} [project] - Project the session is reported to
+ * @property {boolean} [selected] - Whether the row is selected for bulk actions
+ * @property {(selected: boolean) => void} [onSelectedChange] - Shows a selection checkbox when given
+ * @property {() => void} onEdit - Callback to open the session in the edit dialog
+ * @property {() => void} onDelete - Callback to delete the session
+ */
+interface SessionRowProps {
+  session: TimerSession;
+  config: FocusModeConfig;
+  timeLabel: string;
+  project?: Project;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * One recorded session in a history list.
+ *
+ * Shows the focus mode, the Pomodoro phase for breaks, the time run, whether
+ * the session was completed, when it ended, how often and how long it was
+ * paused and how many interruptions were logged, with buttons to edit and delete it. What the session was for, its
+ * project, tags, ratings and notes are shown when the user added them.
+ *
+ * @component
+ *
+ * @example
+ * ```tsx
+ * <SessionRow
+ *   session={session}
+ *   config={getConfig(session.mode)}
+ *   timeLabel={formatRelativeTime(session.endTime)}
+ *   onEdit={() => setEditingSession(session)}
+ *   onDelete={() => deleteSessions([session.id])}
+ * />
+ * ```
+ *
+ * @param {SessionRowProps} props - Component props
+ * @returns {React.ReactElement} Session row
+ */
+export default function SessionRow({
+  session,
+  config,
+  timeLabel,
+  project,
+  selected = false,
+  onSelectedChange,
+  onEdit,
+  onDelete,
+}: SessionRowProps): React.ReactElement {
+  const name = `${config.label} session, ${timeLabel}`;
+  const pauseCount = session.pauses?.length ?? 0;
+  const interruptionCount = session.interruptions?.length ?? 0;
+  const breakPhase = isFocusSession(session) ? undefined : session.phase;
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors">
+      <div className="flex items-center gap-3 flex-1">
+        {onSelectedChange && (
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            aria-label={`Select ${name}`}
+          />
+        )}
+        <Badge variant="secondary" className={config.color}>
+          {config.label}
+        </Badge>
+        {breakPhase && (
+          <Badge variant="secondary" className={POMODORO_PHASE_CONFIG[breakPhase]?.color}>
+            {POMODORO_PHASE_CONFIG[breakPhase]?.label}
+          </Badge>
+        )}
+        {project && (
+          <Badge variant="secondary" className={project.color}>
+            {project.name}
+          </Badge>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{formatTime(session.actualDuration)}</span>
+            <Badge variant={session.completed ? 'default' : 'secondary'} className="text-xs">
+              {session.completed ? 'Completed' : 'Incomplete'}
+            </Badge>
+            {session.intention && (
+              <span className="truncate text-sm" title={session.intention}>
+                {session.intention}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            {timeLabel}
+            {pauseCount > 0 &&
+              ` · ${pauseCount === 1 ? '1 pause' : `${pauseCount} pauses`}, ${formatTime(
+                getPausedDuration(session)
+              )} paused`}
+            {interruptionCount > 0 &&
+              ` · ${interruptionCount === 1 ? '1 interruption' : `${interruptionCount} interruptions`}`}
+          </p>
+          {(session.tags?.length || session.focusQuality || session.mood) && (
+            <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+              {session.tags?.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-xs font-normal">
+                  #{tag}
+                </Badge>
+              ))}
+              {session.focusQuality && (
+                <span title={FOCUS_QUALITY_LABELS[session.focusQuality]}>
+                  Focus {session.focusQuality}/5
+                </span>
+              )}
+              {session.focusQuality && session.mood && <span aria-hidden="true">·</span>}
+              {session.mood && (
+                <span title={MOOD_LABELS[session.mood]}>Energy {session.mood}/5</span>
+              )}
+            </div>
+          )}
+          {session.notes && (
+            <p className="text-sm mt-1 line-clamp-2 whitespace-pre-line">{session.notes}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center">
+        <Button variant="ghost" size="icon" onClick={onEdit} aria-label={`Edit ${name}`}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onDelete} aria-label={`Delete ${name}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,595 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTheme } from 'next-themes';
+import {
+  ArrowLeft,
+  Bell,
+  CalendarDays,
+  Clock,
+  Palette,
+  RotateCcw,
+  Target,
+  Trash2,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useFocusModes } from '@/lib/hooks/useFocusModes';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { parseDurationInput, validateDurationInput } from '@/lib/utils/durationInput';
+import { createGoal, describeGoal } from '@/lib/utils/goals';
+import type { FocusMode, FocusModeConfig } from '@/lib/constants/focus-modes';
+import type { ThemePreference } from '@/lib/types';
+import type { FocusGoal, GoalMetric, GoalPeriod } from '@/lib/types/goals';
+
+const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+/**
+ * Time zones offered in the Days card, or only the device's own where the
+ * browser cannot list them
+ */
+const getTimeZoneOptions = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+};
+
+const DAY_START_OPTIONS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Monday first, as weeks start on Monday for weekly goals
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-background px-2 text-sm';
+
+/**
+ * Converts seconds to the text shown in a duration field (minutes or MM:SS).
+ */
+const toDurationText = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes}:${rest.toString().padStart(2, '0')}` : `${minutes}`;
+};
+
+/**
+ * Props for the DefaultDurationRow component.
+ *
+ * @interface DefaultDurationRowProps
+ * @property {FocusModeConfig} mode - Focus mode the row configures
+ * @property {number | undefined} override - User's duration for the mode in seconds, if set
+ * @property {(mode: FocusMode, seconds: number | null) => void} onChange - Callback with the new duration, or null to use the mode's own
+ */
+interface DefaultDurationRowProps {
+  mode: FocusModeConfig;
+  override: number | undefined;
+  onChange: (mode: FocusMode, seconds: number | null) => void;
+}
+
+/**
+ * Duration field for one focus mode, saved when it loses focus or on Enter.
+ * Clearing the field goes back to the mode's own duration.
+ */
+function DefaultDurationRow({ mode, override, onChange }: DefaultDurationRowProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const inputId = `duration-${mode.value}`;
+  const value = draft ?? (override ? toDurationText(override) : '');
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() === '') {
+      onChange(mode.value, null);
+    } else {
+      const seconds = parseDurationInput(draft);
+      const validation = validateDurationInput(seconds);
+      if (!validation.isValid) {
+        setError(validation.error);
+        return;
+      }
+      onChange(mode.value, seconds);
+    }
+    setDraft(null);
+    setError(undefined);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3">
+        <Label htmlFor={inputId} className="w-40 shrink-0">
+          {mode.label}
+        </Label>
+        <Input
+          id={inputId}
+          value={value}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(undefined);
+          }}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+          placeholder={mode.duration > 0 ? toDurationText(mode.duration) : 'Not set'}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? `${inputId}-error` : undefined}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => {
+            setDraft(null);
+            setError(undefined);
+            onChange(mode.value, null);
+          }}
+          disabled={override === undefined}
+          aria-label={`Use the default duration for ${mode.label}`}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && (
+        <p id={`${inputId}-error`} className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Props for the GoalForm component.
+ *
+ * @interface GoalFormProps
+ * @property {FocusModeConfig[]} modes - Focus modes a goal can be limited to
+ * @property {(goal: FocusGoal) => void} onAdd - Callback with the new goal
+ */
+interface GoalFormProps {
+  modes: FocusModeConfig[];
+  onAdd: (goal: FocusGoal) => void;
+}
+
+/**
+ * Form adding a goal: focus time in hours or a number of completed sessions,
+ * per day on chosen weekdays or per week.
+ */
+function GoalForm({ modes, onAdd }: GoalFormProps) {
+  const [mode, setMode] = useState('');
+  const [metric, setMetric] = useState<GoalMetric>('focusTime');
+  const [target, setTarget] = useState('');
+  const [period, setPeriod] = useState<GoalPeriod>('day');
+  const [weekdays, setWeekdays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const amount = Number(target);
+    const value = metric === 'focusTime' ? Math.round(amount * 3600) : amount;
+    if (!target.trim() || !Number.isInteger(value) || value <= 0) {
+      setError(
+        metric === 'focusTime'
+          ? 'Enter the hours to focus, e.g. 1.5'
+          : 'Enter a whole number of sessions'
+      );
+      return;
+    }
+    if (period === 'day' && weekdays.length === 0) {
+      setError('Pick at least one day');
+      return;
+    }
+
+    onAdd(
+      createGoal({
+        ...(mode ? { mode: mode as FocusMode } : {}),
+        metric,
+        target: value,
+        period,
+        weekdays,
+      })
+    );
+    setTarget('');
+    setError(undefined);
+  };
+
+  const toggleWeekday = (day: number, checked: boolean) => {
+    setWeekdays((prev) => (checked ? [...prev, day] : prev.filter((d) => d !== day)));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" aria-label="New goal">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="goal-mode" className="w-40 shrink-0">
+          Focus mode
+        </Label>
+        <select
+          id="goal-mode"
+          value={mode}
+          onChange={(e) => setMode(e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="">Any mode</option>
+          {modes.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor="goal-metric" className="w-40 shrink-0">
+          Measure
+        </Label>
+        <select
+          id="goal-metric"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as GoalMetric)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="focusTime">Focus time</option>
+          <option value="sessions">Completed sessions</option>
+        </select>
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor="goal-target" className="w-40 shrink-0">
+          Target
+        </Label>
+        <Input
+          id="goal-target"
+          type="number"
+          min="0"
+          step={metric === 'focusTime' ? '0.25' : '1'}
+          value={target}
+          onChange={(e) => {
+            setTarget(e.target.value);
+            setError(undefined);
+          }}
+          aria-invalid={error !== undefined}
+          aria-describedby="goal-target-unit"
+        />
+        <span id="goal-target-unit" className="w-20 shrink-0 text-sm text-muted-foreground">
+          {metric === 'focusTime' ? 'hours' : 'sessions'}
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor="goal-period" className="w-40 shrink-0">
+          Every
+        </Label>
+        <select
+          id="goal-period"
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as GoalPeriod)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="day">Day</option>
+          <option value="week">Week</option>
+        </select>
+      </div>
+      {period === 'day' && (
+        <fieldset className="flex flex-wrap items-center gap-3">
+          <legend className="sr-only">Days</legend>
+          {WEEKDAY_OPTIONS.map(({ day, label }) => (
+            <div key={day} className="flex items-center space-x-1">
+              <Checkbox
+                id={`goal-day-${day}`}
+                checked={weekdays.includes(day)}
+                onCheckedChange={(checked) => toggleWeekday(day, checked === true)}
+              />
+              <Label htmlFor={`goal-day-${day}`} className="font-normal cursor-pointer">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </fieldset>
+      )}
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      <Button type="submit" variant="outline">
+        Add goal
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Settings screen for the user's preferences.
+ *
+ * Lets users override the default duration of each focus mode (built-in and
+ * custom), set daily and weekly focus goals, turn completion sounds and system
+ * notifications on or off, choose the time zone and hour days start at for
+ * streaks and daily totals, and pick a theme. Changes are saved immediately and apply to every timer.
+ *
+ * @component
+ *
+ * @remarks
+ * - Durations accept minutes ("45") or MM:SS/HH:MM:SS; an empty field uses the mode's own duration
+ * - The Interval duration is the round length the interval timer starts with
+ * - Goals apply right away and can make streaks count only days the daily goals were met
+ * - A day start after midnight keeps late-night sessions on the day before, e.g. for streaks
+ * - The theme is applied right away and kept in the user's preferences
+ *
+ * @example
+ * ```tsx
+ * // app/settings/page.tsx
+ * export default function SettingsPage() {
+ *   return <Settings />;
+ * }
+ * ```
+ *
+ * @returns {React.ReactElement} Settings cards for durations, goals, notifications, days and appearance
+ */
+export default function Settings(): React.ReactElement {
+  const { focusModes, getConfig } = useFocusModes();
+  const {
+    preferences,
+    updatePreferences,
+    setDefaultDuration,
+    saveGoal,
+    deleteGoal,
+    resetPreferences,
+  } = usePreferences();
+  const { setTheme } = useTheme();
+  const [timeZones, setTimeZones] = useState<string[]>([]);
+  const [deviceTimeZone, setDeviceTimeZone] = useState('');
+
+  // The server renders in its own time zone, so the choices are read once mounted
+  useEffect(() => {
+    setTimeZones(getTimeZoneOptions());
+    setDeviceTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
+
+  const handleThemeChange = (theme: ThemePreference) => {
+    setTheme(theme);
+    updatePreferences({ theme });
+  };
+
+  const handleReset = () => {
+    resetPreferences();
+    setTheme('system');
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-2xl space-y-6 p-8 sm:p-12">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">Changes are saved automatically</p>
+        </div>
+        <Button variant="ghost" asChild>
+          <Link href="/" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to timers
+          </Link>
+        </Button>
+      </div>
+
+      {/* Default Durations */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Default Durations
+          </CardTitle>
+          <CardDescription>
+            Minutes or MM:SS. Leave a field empty to use the mode&apos;s own duration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {focusModes.map((mode) => (
+            <DefaultDurationRow
+              key={mode.value}
+              mode={mode}
+              override={preferences.defaultDuration[mode.value]}
+              onChange={setDefaultDuration}
+            />
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Goals */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Goals
+          </CardTitle>
+          <CardDescription>
+            Progress shows on the Focus tab and you are notified when a goal is reached
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {preferences.goals.length > 0 ? (
+            <ul className="space-y-2" aria-label="Your goals">
+              {preferences.goals.map((goal) => {
+                const description = describeGoal(
+                  goal,
+                  goal.mode === undefined ? undefined : getConfig(goal.mode).label
+                );
+                return (
+                  <li key={goal.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm">{description}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteGoal(goal.id)}
+                      aria-label={`Delete goal: ${description}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No goals yet</p>
+          )}
+          <GoalForm modes={focusModes} onAdd={saveGoal} />
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="goal-streaks"
+              checked={preferences.goalStreaks}
+              onCheckedChange={(checked) => updatePreferences({ goalStreaks: checked === true })}
+            />
+            <Label htmlFor="goal-streaks" className="font-normal cursor-pointer">
+              Count streak days only when the daily goals were met
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sound & Notifications */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Sound &amp; Notifications
+          </CardTitle>
+          <CardDescription>What happens when a timer completes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="sound-enabled"
+              checked={preferences.soundEnabled}
+              onCheckedChange={(checked) => updatePreferences({ soundEnabled: checked === true })}
+            />
+            <Label htmlFor="sound-enabled" className="font-normal cursor-pointer">
+              Play a sound
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="notifications-enabled"
+              checked={preferences.notificationsEnabled}
+              onCheckedChange={(checked) =>
+                updatePreferences({ notificationsEnabled: checked === true })
+              }
+            />
+            <Label htmlFor="notifications-enabled" className="font-normal cursor-pointer">
+              Show a system notification
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="reflection-prompt"
+              checked={preferences.reflectionPrompt}
+              onCheckedChange={(checked) =>
+                updatePreferences({ reflectionPrompt: checked === true })
+              }
+            />
+            <Label htmlFor="reflection-prompt" className="font-normal cursor-pointer">
+              Ask for notes and ratings after a focus session
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Days */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Days
+          </CardTitle>
+          <CardDescription>How sessions are grouped into days for streaks and totals</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="time-zone" className="w-40 shrink-0">
+              Time zone
+            </Label>
+            <select
+              id="time-zone"
+              value={preferences.timeZone ?? ''}
+              onChange={(e) => updatePreferences({ timeZone: e.target.value || undefined })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">
+                This device{deviceTimeZone ? ` (${deviceTimeZone.replace(/_/g, ' ')})` : ''}
+              </option>
+              {preferences.timeZone && !timeZones.includes(preferences.timeZone) && (
+                <option value={preferences.timeZone}>{preferences.timeZone}</option>
+              )}
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="day-start-hour" className="w-40 shrink-0">
+              Day starts at
+            </Label>
+            <select
+              id="day-start-hour"
+              value={preferences.dayStartHour}
+              onChange={(e) => updatePreferences({ dayStartHour: Number(e.target.value) })}
+              className={SELECT_CLASS_NAME}
+            >
+              {DAY_START_OPTIONS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {hour.toString().padStart(2, '0')}:00{hour === 0 ? ' (midnight)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Appearance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            Appearance
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="theme" className="w-40 shrink-0">
+              Theme
+            </Label>
+            <select
+              id="theme"
+              value={preferences.theme}
+              onChange={(e) => handleThemeChange(e.target.value as ThemePreference)}
+              className={SELECT_CLASS_NAME}
+            >
+              {THEME_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleReset}>
+          Restore Defaults
+        </Button>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, ListTodo, Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { FocusTaskChanges } from '@/lib/hooks/useFocusTasks';
+import type { Project } from '@/lib/types/projects';
+import type { FocusTask, TaskProgress } from '@/lib/types/tasks';
+import { formatDuration } from '@/lib/utils/formatDuration';
+
+/**
+ * Props for TaskList component.
+ *
+ * @interface TaskListProps
+ * @property {FocusTask[]} tasks - User's tasks in their order, including archived ones
+ * @property {string | null} activeTaskId - Task new sessions are attributed to, or null for none
+ * @property {Record<string, TaskProgress>} progress - Focus recorded for each task, from `getTaskProgress`
+ * @property {Project[]} [projects] - User's projects, including archived ones, tasks can belong to
+ * @property {(title: string, estimatedPomodoros?: number, projectId?: string) => void} onAdd - Callback to create a task
+ * @property {(id: string, changes: FocusTaskChanges) => void} onUpdate - Callback to rename a task or change its estimate or project
+ * @property {(id: string | null) => void} onSelect - Callback to pick the task to work on
+ * @property {(id: string, completed: boolean) => void} onCompletedChange - Callback to complete or reopen a task
+ * @property {(id: string, archived: boolean) => void} onArchivedChange - Callback to archive or restore a task
+ * @property {(id: string, offset: -1 | 1) => void} onMove - Callback to move a task up or down
+ */
+interface TaskListProps {
+  tasks: FocusTask[];
+  activeTaskId: string | null;
+  progress: Record<string, TaskProgress>;
+  projects?: Project[];
+  onAdd: (title: string, estimatedPomodoros?: number, projectId?: string) => void;
+  onUpdate: (id: string, changes: FocusTaskChanges) => void;
+  onSelect: (id: string | null) => void;
+  onCompletedChange: (id: string, completed: boolean) => void;
+  onArchivedChange: (id: string, archived: boolean) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+}
+
+interface TaskForm {
+  title: string;
+  estimate: string;
+  projectId: string; // "" for no project
+}
+
+const EMPTY_FORM: TaskForm = { title: '', estimate: '', projectId: '' };
+
+const NO_PROGRESS: TaskProgress = { pomodoros: 0, totalTime: 0 };
+
+/**
+ * Describes the focus recorded for a task, e.g. "2 of 4 Pomodoros · 50m".
+ */
+const describeProgress = (task: FocusTask, { pomodoros, totalTime }: TaskProgress) => {
+  const count =
+    task.estimatedPomodoros === undefined
+      ? `${pomodoros} ${pomodoros === 1 ? 'Pomodoro' : 'Pomodoros'}`
+      : `${pomodoros} of ${task.estimatedPomodoros} Pomodoros`;
+  return `${count} · ${formatDuration(totalTime)}`;
+};
+
+/**
+ * Task list of the Focus tab. The selected task is the one the next focus
+ * sessions are attributed to; each task shows the Pomodoros done against its
+ * estimate and the focus time spent on it.
+ *
+ * @component
+ *
+ * @remarks
+ * - A Pomodoro is a completed Focus timer session; focus time also counts sessions
+ *   stopped early
+ * - Only open tasks can be selected; completing or archiving the selected task
+ *   leaves no task selected
+ * - Completed tasks stay in the list, struck through, until they are archived
+ * - Archived tasks are listed under "Archived", where they can be restored; their
+ *   sessions keep pointing at them
+ * - Tasks are reordered with the move up and down buttons
+ * - A task can belong to a project; its sessions are then reported to that project.
+ *   The project picker appears once the user has projects
+ *
+ * @example
+ * ```tsx
+ * const { tasks, activeTaskId, addTask, updateTask, selectTask, setTaskCompleted, setTaskArchived, moveTask } =
+ *   useFocusTasks();
+ * return (
+ *   <TaskList
+ *     tasks={tasks}
+ *     activeTaskId={activeTaskId}
+ *     progress={getTaskProgress(sessions)}
+ *     projects={projects}
+ *     onAdd={addTask}
+ *     onUpdate={updateTask}
+ *     onSelect={selectTask}
+ *     onCompletedChange={setTaskCompleted}
+ *     onArchivedChange={setTaskArchived}
+ *     onMove={moveTask}
+ *   />
+ * );
+ * ```
+ *
+ * @param {TaskListProps} props - Component props
+ * @returns {React.ReactElement} Card with the task form and list
+ */
+export default function TaskList({
+  tasks,
+  activeTaskId,
+  progress,
+  projects = [],
+  onAdd,
+  onUpdate,
+  onSelect,
+  onCompletedChange,
+  onArchivedChange,
+  onMove,
+}: TaskListProps): React.ReactElement {
+  /**
+   * Task being edited, or null when the form adds a new task.
+   * @type {[string | null, React.Dispatch<React.SetStateAction<string | null>>]}
+   */
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<TaskForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | undefined>();
+
+  const openTasks = tasks.filter((task) => !task.archived);
+  const archivedTasks = tasks.filter((task) => task.archived);
+  const getProject = (id: string | undefined) => projects.find((project) => project.id === id);
+
+  /**
+   * Projects offered in the form: active ones and the edited task's own.
+   */
+  const editedProjectId = tasks.find((task) => task.id === editing)?.projectId;
+  const projectOptions = projects.filter(
+    (project) => !project.archived || project.id === editedProjectId
+  );
+
+  const updateField = (field: keyof TaskForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }));
+      setError(undefined);
+    };
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(undefined);
+  };
+
+  const handleEdit = (task: FocusTask) => {
+    setEditing(task.id);
+    setForm({
+      title: task.title,
+      estimate: task.estimatedPomodoros?.toString() ?? '',
+      projectId: task.projectId ?? '',
+    });
+    setError(undefined);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const title = form.title.trim();
+    if (!title) {
+      setError('Please enter a task');
+      return;
+    }
+    const estimate = form.estimate.trim() ? Number(form.estimate) : undefined;
+    if (estimate !== undefined && (!Number.isInteger(estimate) || estimate < 1)) {
+      setError('Estimate must be a whole number of Pomodoros');
+      return;
+    }
+
+    const projectId = form.projectId || undefined;
+    if (editing) {
+      onUpdate(editing, { title, estimatedPomodoros: estimate, projectId });
+    } else {
+      onAdd(title, estimate, projectId);
+    }
+    resetForm();
+  };
+
+  return (
+    <Card className="mt-8 text-left">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListTodo className="h-5 w-5" />
+          Tasks
+        </CardTitle>
+        <CardDescription>Pick a task before starting; sessions count toward it</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-wrap items-end gap-2"
+          aria-label={editing ? 'Edit task' : 'Add a task'}
+        >
+          <div className="min-w-48 flex-1 space-y-1">
+            <Label htmlFor="task-title">Task</Label>
+            <Input
+              id="task-title"
+              value={form.title}
+              onChange={updateField('title')}
+              placeholder="e.g. Write the report intro"
+              maxLength={200}
+            />
+          </div>
+          <div className="w-28 space-y-1">
+            <Label htmlFor="task-estimate">Pomodoros</Label>
+            <Input
+              id="task-estimate"
+              type="number"
+              min="1"
+              max="99"
+              value={form.estimate}
+              onChange={updateField('estimate')}
+              placeholder="Estimate"
+            />
+          </div>
+          {projectOptions.length > 0 && (
+            <div className="w-40 space-y-1">
+              <Label htmlFor="task-project">Project</Label>
+              <select
+                id="task-project"
+                value={form.projectId}
+                onChange={updateField('projectId')}
+                className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+              >
+                <option value="">No project</option>
+                {projectOptions.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {editing && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" className="gap-2">
+            {editing ? (
+              'Save changes'
+            ) : (
+              <>
+                <Plus className="h-4 w-4" />
+                Add task
+              </>
+            )}
+          </Button>
+        </form>
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {openTasks.length > 0 && (
+          <fieldset>
+            <legend className="sr-only">Task to work on</legend>
+            <ol className="space-y-2" aria-label="Tasks">
+              <li className="flex items-center gap-3 rounded-lg border p-2">
+                <input
+                  type="radio"
+                  id="task-none"
+                  name="active-task"
+                  checked={activeTaskId === null}
+                  onChange={() => onSelect(null)}
+                  className="h-4 w-4 accent-primary"
+                />
+                <label htmlFor="task-none" className="flex-1 text-sm text-muted-foreground">
+                  No task
+                </label>
+              </li>
+              {openTasks.map((task, index) => {
+                const project = getProject(task.projectId);
+                return (
+                  <li
+                    key={task.id}
+                    className={`flex items-center gap-3 rounded-lg border p-2 ${
+                      task.id === activeTaskId ? 'border-primary bg-primary/5' : ''
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      id={`task-${task.id}`}
+                      name="active-task"
+                      checked={task.id === activeTaskId}
+                      onChange={() => onSelect(task.id)}
+                      disabled={task.completed}
+                      className="h-4 w-4 accent-primary"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <label
+                        htmlFor={`task-${task.id}`}
+                        className={`block truncate font-medium ${
+                          task.completed ? 'text-muted-foreground line-through' : ''
+                        }`}
+                      >
+                        {task.title}
+                      </label>
+                      <p className="text-sm text-muted-foreground">
+                        {project && (
+                          <span className={`mr-2 rounded-md px-1.5 py-0.5 text-xs ${project.color}`}>
+                            {project.name}
+                          </span>
+                        )}
+                        {describeProgress(task, progress[task.id] ?? NO_PROGRESS)}
+                      </p>
+                    </div>
+                    <Checkbox
+                      checked={task.completed}
+                      onCheckedChange={(checked) => onCompletedChange(task.id, checked === true)}
+                      aria-label={`Mark ${task.title} as done`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(task)}
+                      aria-label={`Edit ${task.title}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onMove(task.id, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${task.title} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onMove(task.id, 1)}
+                      disabled={index === openTasks.length - 1}
+                      aria-label={`Move ${task.title} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        onArchivedChange(task.id, true);
+                        if (editing === task.id) resetForm();
+                      }}
+                      aria-label={`Archive ${task.title}`}
+                    >
+                      <Archive className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ol>
+          </fieldset>
+        )}
+
+        {archivedTasks.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-sm text-muted-foreground">
+              Archived ({archivedTasks.length})
+            </summary>
+            <ul className="mt-2 space-y-2" aria-label="Archived tasks">
+              {archivedTasks.map((task) => (
+                <li key={task.id} className="flex items-center gap-3 rounded-lg border p-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{task.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {describeProgress(task, progress[task.id] ?? NO_PROGRESS)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onArchivedChange(task.id, false)}
+                    aria-label={`Restore ${task.title}`}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
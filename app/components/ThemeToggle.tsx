@@ -4,6 +4,7 @@ import * as React from "react";
 import { Moon, Sun } from "lucide-react";
 import { useTheme } from "next-themes";
 import { Button } from "@/components/ui/button";
+import { usePreferences } from "@/lib/hooks/usePreferences";
 
 /**
  * Theme toggle button component that switches between light and dark modes.
@@ -20,6 +21,7 @@ import { Button } from "@/components/ui/button";
  * - Uses a mounted state to avoid hydration mismatches between server and client
  * - Displays a Sun icon in dark mode and Moon icon in light mode
  * - Automatically handles system theme preferences
+ * - Keeps the theme in the user's preferences in sync
  * - Includes smooth transitions between theme changes
  *
  * @example
@@ -31,6 +33,7 @@ import { Button } from "@/components/ui/button";
  */
 export const ThemeToggle = React.memo(function ThemeToggle() {
   const { theme, setTheme, systemTheme } = useTheme();
+  const { updatePreferences } = usePreferences();
   const [mounted, setMounted] = React.useState(false);
 
   // useEffect only runs on the client, so now we can safely show the UI
@@ -61,10 +64,13 @@ export const ThemeToggle = React.memo(function ThemeToggle() {
 
   /**
    * Toggles between light and dark theme modes.
-   * Sets theme to 'light' if currently dark, or 'dark' if currently light.
+   * Sets theme to 'light' if currently dark, or 'dark' if currently light,
+   * and remembers the choice in the user's preferences.
    */
   const toggleTheme = () => {
-    setTheme(isDark ? "light" : "dark");
+    const nextTheme = isDark ? "light" : "dark";
+    setTheme(nextTheme);
+    updatePreferences({ theme: nextTheme });
   };
 
   return (
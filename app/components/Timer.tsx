@@ -3,48 +3,88 @@
 import { useEffect, useRef, useState, memo, useCallback } from 'react';
 import { useTimer } from '@/lib/hooks/useTimer';
 import { useNotification } from '@/lib/hooks/useNotification';
+import { useTimerChannel, type TimerCommand } from '@/lib/hooks/useTimerChannel';
 import { formatTime } from '@/lib/utils/formatTime';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, RotateCcw, Clock } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Play, Pause, RotateCcw, Clock, Flag, Square } from 'lucide-react';
 import DurationInput from './DurationInput';
+import ResumePrompt from './ResumePrompt';
+import InterruptionCapture from './InterruptionCapture';
+import { useFocusModes } from '@/lib/hooks/useFocusModes';
 import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { FocusTimerSnapshot } from '@/lib/types/active-timer';
+import type { SessionInterruption, SessionPause } from '@/lib/types/timer-history';
+import {
+  loadActiveTimer,
+  saveActiveTimer,
+  clearActiveTimer,
+  getSnapshotSession,
+  resolveRestoreAction,
+} from '@/lib/utils/activeTimerStorage';
+import { getElapsedMs, getRemainingMs, type TimerClock } from '@/lib/utils/timerClock';
+import type { TimerSessionInput } from '@/lib/utils/timerSession';
 
 /**
  * Props for the Timer component.
  *
  * @interface TimerProps
  *
- * @property {number} duration - Initial timer duration in seconds
+ * @property {number} duration - Initial timer duration in seconds, or target of the stopwatch; 0 starts an open-ended stopwatch
  * @property {string} [title='Focus Session'] - Title displayed in completion notification
  * @property {() => void} [onComplete] - Optional callback invoked when timer completes
  * @property {FocusMode} [focusMode='study'] - Type of focus session
- * @property {(focusMode: FocusMode, duration: number, completed: boolean) => void} [onSessionComplete] - Callback for tracking session completion with mode, duration, and completion status
+ * @property {(session: TimerSessionInput) => void} [onSessionComplete] - Callback with the session to record once it completes or is abandoned: its mode, time run, start and end time, pauses and interruptions
+ * @property {(focusMode: FocusMode) => void} [onFocusModeChange] - Callback invoked when a timer running in another tab uses a different focus mode, so the parent can follow it
+ * @property {string} [taskId] - Task selected in the task list; sessions are attributed to the task selected when they started
  */
 interface TimerProps {
   duration: number;
   title?: string;
   onComplete?: () => void;
   focusMode?: FocusMode;
-  onSessionComplete?: (focusMode: FocusMode, duration: number, completed: boolean) => void;
+  onSessionComplete?: (session: TimerSessionInput) => void;
+  onFocusModeChange?: (focusMode: FocusMode) => void;
+  taskId?: string;
 }
 
 /**
- * Countdown timer component with customizable duration and focus modes.
+ * Countdown timer and stopwatch component with customizable duration and focus modes.
  *
  * This component provides a visual countdown timer with start/pause/reset controls,
  * progress visualization, and session tracking. It supports custom durations and
- * tracks both completed and incomplete sessions.
+ * tracks both completed and incomplete sessions. As a stopwatch it counts up from
+ * zero instead, for sessions without a fixed length.
  *
  * @component
  *
  * @remarks
  * - Displays circular progress indicator with remaining time
  * - Supports custom duration input during idle state
+ * - Switches between countdown and stopwatch before a session starts. The stopwatch
+ *   notifies once when it reaches its optional target and keeps running, takes laps,
+ *   and records the time it ran when it is finished: as completed if it reached its
+ *   target or had none. Modes without a duration, like Interval, start as a stopwatch
  * - Tracks session start and completion for analytics
+ * - Asks what the user is focusing on while the timer is not running; the intention is
+ *   shown while it runs and recorded with the session, then cleared for the next one
+ * - Records the session with the task selected when it started, even if another task
+ *   is selected before it ends
+ * - While the timer runs, interruptions and notes for later can be logged without
+ *   leaving the timer; they are recorded with the session
  * - Sends browser notifications on completion
- * - Records incomplete sessions when paused after running for at least 1 second
+ * - Keeps a paused session open, tracking each pause until it is resumed, and records
+ *   the session once: when it completes, or as incomplete when it is reset or replaced
+ *   by a custom duration after running for at least 1 second
+ * - Persists the running session and restores it after a reload: it continues,
+ *   completes retroactively if it ran out meanwhile, or offers to resume if paused.
+ *   A paused session that is discarded is recorded as incomplete
+ * - Coordinates with other open tabs: the tab that starts the timer owns it, other
+ *   tabs mirror it live and send their start/pause/reset commands to the owner.
+ *   Only the owning tab notifies and records sessions
  * - Memoized to prevent unnecessary re-renders
- * - Automatically resets when duration prop changes (only when timer is idle)
+ * - Automatically resets when duration prop changes, once no session is in progress
  *
  * @param {TimerProps} props - Component props
  *
@@ -55,17 +95,39 @@ interface TimerProps {
  *   title="Study Session"
  *   focusMode="study"
  *   onComplete={() => console.log('Timer complete!')}
- *   onSessionComplete={(mode, duration, completed) => {
- *     console.log(`${mode} session: ${duration}s, completed: ${completed}`);
+ *   onSessionComplete={(session) => {
+ *     console.log(`${session.mode} session: ${session.actualDuration}s, paused ${session.pauses?.length} times`);
  *   }}
  * />
  * ```
  *
  * @returns {React.ReactElement} Timer component with controls and progress display
  */
-const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplete, focusMode = 'study', onSessionComplete }: TimerProps) {
-  const { timeLeft, isRunning, isComplete, start, pause, reset, setDuration } = useTimer(duration);
+const Timer = memo(function Timer({
+  duration,
+  title = 'Focus Session',
+  onComplete,
+  focusMode = 'study',
+  onSessionComplete,
+  onFocusModeChange,
+  taskId,
+}: TimerProps) {
+  const {
+    timeLeft,
+    elapsed,
+    isRunning,
+    isComplete,
+    isCountUp: isStopwatch,
+    start,
+    pause,
+    reset,
+    setDuration,
+    setStopwatch,
+    getClock,
+    restoreClock,
+  } = useTimer(duration, duration === 0);
   const { notify } = useNotification();
+  const { getConfig: getFocusModeConfig } = useFocusModes();
 
   /**
    * Tracks previous completion state to detect state changes.
@@ -91,69 +153,423 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
    */
   const startTimeRef = useRef<number | null>(null);
 
+  /**
+   * Focus mode the current session was started in.
+   * @type {React.MutableRefObject<FocusMode>}
+   */
+  const sessionModeRef = useRef(focusMode);
+
+  /**
+   * Pauses of the current session that have been resumed.
+   * @type {React.MutableRefObject<SessionPause[]>}
+   */
+  const pausesRef = useRef<SessionPause[]>([]);
+
+  /**
+   * Task the current session was started for.
+   * @type {React.MutableRefObject<string | undefined>}
+   */
+  const sessionTaskRef = useRef(taskId);
+
+  /**
+   * Interruptions logged in the current session, oldest first.
+   * @type {[SessionInterruption[], React.Dispatch<React.SetStateAction<SessionInterruption[]>>]}
+   */
+  const [interruptions, setInterruptions] = useState<SessionInterruption[]>([]);
+
+  /**
+   * Latest interruptions, read when the session is saved or recorded.
+   * @type {React.MutableRefObject<SessionInterruption[]>}
+   */
+  const interruptionsRef = useRef<SessionInterruption[]>([]);
+
+  /**
+   * Seconds elapsed at each lap of the current stopwatch session.
+   * @type {[number[], React.Dispatch<React.SetStateAction<number[]>>]}
+   */
+  const [laps, setLaps] = useState<number[]>([]);
+
+  /**
+   * Latest laps, read when the session is saved.
+   * @type {React.MutableRefObject<number[]>}
+   */
+  const lapsRef = useRef<number[]>([]);
+
+  /**
+   * Soft target of the stopwatch in seconds, 0 for none.
+   * @type {[number, React.Dispatch<React.SetStateAction<number>>]}
+   */
+  const [target, setTarget] = useState(duration);
+
+  /**
+   * Whether the current stopwatch session has reached its target and been notified.
+   * @type {React.MutableRefObject<boolean>}
+   */
+  const targetReachedRef = useRef(false);
+
+  /**
+   * What the user is focusing on, as typed before starting.
+   * @type {[string, React.Dispatch<React.SetStateAction<string>>]}
+   */
+  const [intention, setIntention] = useState('');
+
+  /**
+   * Latest intention, read when the session is saved or recorded.
+   * @type {React.MutableRefObject<string>}
+   */
+  const intentionRef = useRef('');
+
   /**
    * Stores the initial duration for the current session.
    * @type {React.MutableRefObject<number>}
    */
   const initialDurationRef = useRef(duration);
 
-  // Update duration when prop changes (not when custom duration is set)
+  /**
+   * Whether the saved snapshot has been checked, so persistence does not
+   * overwrite it before it is restored.
+   * @type {React.MutableRefObject<boolean>}
+   */
+  const restoreCheckedRef = useRef(false);
+
+  /**
+   * Paused session from a previous visit, awaiting the user's decision.
+   * @type {[FocusTimerSnapshot | null, React.Dispatch<React.SetStateAction<FocusTimerSnapshot | null>>]}
+   */
+  const [pendingRestore, setPendingRestore] = useState<FocusTimerSnapshot | null>(null);
+
+  /**
+   * Whether the current timer state is mirrored from another tab.
+   * Mirrored sessions are notified and recorded by the tab that owns them.
+   * @type {React.MutableRefObject<boolean>}
+   */
+  const remoteRef = useRef(false);
+
+  /**
+   * State from another tab waiting for the parent to switch to its focus mode.
+   * @type {[FocusTimerSnapshot | null, React.Dispatch<React.SetStateAction<FocusTimerSnapshot | null>>]}
+   */
+  const [remoteSnapshot, setRemoteSnapshot] = useState<FocusTimerSnapshot | null>(null);
+
+  /**
+   * Sets the intention of the current session.
+   * @param {string} value - What the user is focusing on
+   */
+  const updateIntention = useCallback((value: string) => {
+    intentionRef.current = value;
+    setIntention(value);
+  }, []);
+
+  /**
+   * Sets the interruptions logged in the current session.
+   * @param {SessionInterruption[]} value - Interruptions, oldest first
+   */
+  const updateInterruptions = useCallback((value: SessionInterruption[]) => {
+    interruptionsRef.current = value;
+    setInterruptions(value);
+  }, []);
+
+  /**
+   * Sets the laps of the current stopwatch session.
+   * @param {number[]} value - Seconds elapsed at each lap
+   */
+  const updateLaps = useCallback((value: number[]) => {
+    lapsRef.current = value;
+    setLaps(value);
+  }, []);
+
+  /**
+   * Restores the clock of a saved or mirrored session. A stopwatch that already
+   * passed its target is not notified again.
+   * @param {TimerClock} clock - Clock of the session
+   */
+  const restoreSessionClock = useCallback((clock: TimerClock) => {
+    if (clock.countUp) {
+      setTarget(clock.durationMs / 1000);
+      targetReachedRef.current =
+        clock.durationMs > 0 && getElapsedMs(clock, Date.now()) >= clock.durationMs;
+    }
+    restoreClock(clock);
+  }, [restoreClock]);
+
+  /**
+   * Builds a snapshot of the current session, or null if the timer is idle.
+   */
+  const buildSnapshot = useCallback((): FocusTimerSnapshot | null => {
+    const clock = getClock();
+    if (clock.startedAt === null) return null;
+    return {
+      kind: 'focus',
+      focusMode,
+      clock,
+      sessionStartRemaining: startTimeRef.current,
+      pauses: pausesRef.current,
+      ...(interruptionsRef.current.length > 0 ? { interruptions: interruptionsRef.current } : {}),
+      ...(lapsRef.current.length > 0 ? { laps: lapsRef.current } : {}),
+      ...(intentionRef.current.trim() ? { intention: intentionRef.current.trim() } : {}),
+      ...(sessionTaskRef.current ? { taskId: sessionTaskRef.current } : {}),
+      savedAt: Date.now(),
+    };
+  }, [focusMode, getClock]);
+
+  /**
+   * Shows a session owned by another tab.
+   */
+  const mirrorSnapshot = useCallback((snapshot: FocusTimerSnapshot) => {
+    remoteRef.current = true;
+    startTimeRef.current = snapshot.sessionStartRemaining;
+    sessionModeRef.current = snapshot.focusMode;
+    pausesRef.current = snapshot.pauses ?? [];
+    sessionTaskRef.current = snapshot.taskId;
+    updateIntention(snapshot.intention ?? '');
+    updateInterruptions(snapshot.interruptions ?? []);
+    updateLaps(snapshot.laps ?? []);
+    restoreSessionClock(snapshot.clock);
+  }, [restoreSessionClock, updateIntention, updateInterruptions, updateLaps]);
+
+  /**
+   * Records a session once, when it completes or is abandoned, and forgets it.
+   * Sessions owned by another tab are recorded by that tab.
+   * @param {boolean} completed - Whether the timer ran out, or the stopwatch was finished
+   * @param {FocusTimerSnapshot | null} [snapshot] - Session to record, defaults to the current one
+   */
+  const recordSession = useCallback((
+    completed: boolean,
+    snapshot: FocusTimerSnapshot | null = buildSnapshot()
+  ) => {
+    startTimeRef.current = null;
+    pausesRef.current = [];
+    targetReachedRef.current = false;
+    if (!snapshot) return;
+    updateIntention('');
+    updateInterruptions([]);
+    updateLaps([]);
+    if (remoteRef.current || !onSessionComplete) return;
+
+    const session = getSnapshotSession(
+      { ...snapshot, focusMode: sessionModeRef.current },
+      completed,
+      Date.now()
+    );
+    if (session) {
+      onSessionComplete(session);
+    }
+  }, [buildSnapshot, onSessionComplete, updateIntention, updateInterruptions, updateLaps]);
+
+  const { role, publish, end, send } = useTimerChannel<FocusTimerSnapshot>('zenFocus_timer_focus', {
+    getSnapshot: () => (isComplete ? null : buildSnapshot()),
+    onState: (snapshot) => {
+      restoreCheckedRef.current = true;
+      setPendingRestore(null);
+      if (!snapshot) {
+        remoteRef.current = true;
+        startTimeRef.current = null;
+        pausesRef.current = [];
+        targetReachedRef.current = false;
+        updateIntention('');
+        updateInterruptions([]);
+        updateLaps([]);
+        reset();
+      } else if (snapshot.focusMode !== focusMode) {
+        setRemoteSnapshot(snapshot);
+        onFocusModeChange?.(snapshot.focusMode);
+      } else {
+        mirrorSnapshot(snapshot);
+      }
+    },
+    onCommand: (command: TimerCommand) => {
+      if (command === 'start') handleStart();
+      else if (command === 'pause') handlePause();
+      else if (command === 'reset') handleReset();
+    },
+  });
+
+  /**
+   * Whether another tab owns the running timer.
+   * @type {boolean}
+   */
+  const isFollower = role === 'follower';
+
+  // Update duration when prop changes (not when custom duration is set). A
+  // session in progress keeps its clock; the new duration applies once it ends
   useEffect(() => {
-    if (duration !== prevDurationRef.current && !isRunning && !isComplete) {
-      setDuration(duration);
+    if (
+      duration !== prevDurationRef.current &&
+      !isRunning &&
+      !isComplete &&
+      getClock().startedAt === null
+    ) {
+      if (isStopwatch || duration === 0) {
+        setTarget(duration);
+        setStopwatch(duration);
+      } else {
+        setDuration(duration);
+      }
       prevDurationRef.current = duration;
       initialDurationRef.current = duration;
     }
-  }, [duration, isRunning, isComplete, setDuration]);
+  }, [duration, isRunning, isComplete, elapsed, isStopwatch, getClock, setDuration, setStopwatch]);
 
-  // Track when timer starts running
+  // Track when a session starts running
   useEffect(() => {
     if (isRunning && startTimeRef.current === null) {
       startTimeRef.current = timeLeft;
       initialDurationRef.current = timeLeft;
+      sessionModeRef.current = focusMode;
+      sessionTaskRef.current = taskId;
     }
-  }, [isRunning, timeLeft]);
-
-  // Handle session tracking when timer stops (paused or completed)
-  useEffect(() => {
-    if (!isRunning && startTimeRef.current !== null && !isComplete) {
-      // Timer was paused - check if it ran for at least 1 second
-      const timeElapsed = startTimeRef.current - timeLeft;
-      if (timeElapsed >= 1 && onSessionComplete) {
-        const sessionDuration = startTimeRef.current - timeLeft;
-        onSessionComplete(focusMode, sessionDuration, false);
-      }
-      startTimeRef.current = null;
-    }
-  }, [isRunning, timeLeft, isComplete, focusMode, onSessionComplete]);
+  }, [isRunning, timeLeft, focusMode, taskId]);
 
   // Handle completion
   useEffect(() => {
     if (isComplete && !prevCompleteRef.current) {
-      notify(
-        `${title} Complete!`,
-        'Great work! Take a break and recharge.'
-      );
+      if (!remoteRef.current) {
+        notify(
+          `${title} Complete!`,
+          'Great work! Take a break and recharge.'
+        );
+      }
       if (onComplete) {
         onComplete();
       }
       // Track completed session
-      if (startTimeRef.current !== null && onSessionComplete) {
-        const sessionDuration = startTimeRef.current - timeLeft;
-        if (sessionDuration >= 1) {
-          onSessionComplete(focusMode, sessionDuration, true);
-        }
-        startTimeRef.current = null;
+      if (startTimeRef.current !== null) {
+        recordSession(true);
       }
     }
     prevCompleteRef.current = isComplete;
-  }, [isComplete, title, notify, onComplete, timeLeft, focusMode, onSessionComplete]);
+  }, [isComplete, title, notify, onComplete, recordSession]);
+
+  // Notify once when the stopwatch reaches its target, and keep it running
+  useEffect(() => {
+    if (!isStopwatch || target === 0 || elapsed < target || targetReachedRef.current) return;
+    targetReachedRef.current = true;
+    if (!remoteRef.current) {
+      notify(
+        `${title} target reached`,
+        `You have focused for ${formatTime(target)}. Keep going or finish when you're ready.`
+      );
+    }
+  }, [isStopwatch, target, elapsed, title, notify]);
+
+  // Restore a session saved before the page was reloaded
+  useEffect(() => {
+    if (restoreCheckedRef.current) return;
+
+    const snapshot = loadActiveTimer('focus');
+    // Wait until the parent has selected the saved mode
+    if (snapshot && snapshot.focusMode !== focusMode) return;
+    restoreCheckedRef.current = true;
+    if (!snapshot) return;
+
+    switch (resolveRestoreAction(snapshot, Date.now())) {
+      case 'continue':
+      case 'complete':
+        // A restored run that already ran out is recorded by the completion effect
+        startTimeRef.current = snapshot.sessionStartRemaining;
+        sessionModeRef.current = snapshot.focusMode;
+        pausesRef.current = snapshot.pauses ?? [];
+        sessionTaskRef.current = snapshot.taskId;
+        updateIntention(snapshot.intention ?? '');
+        updateInterruptions(snapshot.interruptions ?? []);
+        updateLaps(snapshot.laps ?? []);
+        restoreSessionClock(snapshot.clock);
+        // The restored clock, not the prop, is the duration of this session
+        prevDurationRef.current = snapshot.clock.durationMs / 1000;
+        initialDurationRef.current = snapshot.clock.durationMs / 1000;
+        break;
+      case 'prompt':
+        setPendingRestore(snapshot);
+        break;
+      default:
+        // Paused too long ago to resume: the session was abandoned
+        sessionModeRef.current = snapshot.focusMode;
+        recordSession(false, snapshot);
+        clearActiveTimer('focus');
+    }
+  }, [focusMode, restoreSessionClock, recordSession, updateIntention, updateInterruptions, updateLaps]);
+
+  // Show another tab's session once the parent has switched to its mode
+  useEffect(() => {
+    if (remoteSnapshot && remoteSnapshot.focusMode === focusMode) {
+      mirrorSnapshot(remoteSnapshot);
+      setRemoteSnapshot(null);
+    }
+  }, [remoteSnapshot, focusMode, mirrorSnapshot]);
+
+  // A tab that takes over the timer from a closed tab now owns the session
+  useEffect(() => {
+    if (role === 'leader') {
+      remoteRef.current = false;
+    }
+  }, [role]);
+
+  // Persist the session in progress so it survives reloads, and share it with other tabs
+  useEffect(() => {
+    if (!restoreCheckedRef.current || pendingRestore || role === 'follower') return;
+
+    const snapshot = buildSnapshot();
+    if (!snapshot || isComplete) {
+      clearActiveTimer('focus');
+      end(snapshot);
+      return;
+    }
+
+    saveActiveTimer(snapshot);
+    publish(snapshot);
+  }, [isRunning, isComplete, interruptions, laps, intention, pendingRestore, role, buildSnapshot, publish, end]);
 
   /**
    * Calculates the progress percentage for the circular progress indicator.
+   * A stopwatch fills it towards its target, or once a minute without one.
    * @type {number}
    */
-  const progress = ((duration - timeLeft) / duration) * 100;
+  const progress = !isStopwatch
+    ? ((duration - timeLeft) / duration) * 100
+    : target > 0
+      ? Math.min(elapsed / target, 1) * 100
+      : ((elapsed % 60) / 60) * 100;
+
+  /**
+   * Whether the timer type and stopwatch target can be changed: only before a
+   * session starts.
+   * @type {boolean}
+   */
+  const canChangeType = !isRunning && !isFollower && !isComplete && elapsed === 0;
+
+  /**
+   * Switches between counting down and the stopwatch, starting from the
+   * duration of the focus mode.
+   * @param {boolean} stopwatch - Whether to use the stopwatch
+   */
+  const handleTypeChange = useCallback((stopwatch: boolean) => {
+    setShowCustomInput(false);
+    if (stopwatch) {
+      setTarget(duration);
+      setStopwatch(duration);
+    } else {
+      setDuration(duration);
+    }
+  }, [duration, setDuration, setStopwatch]);
+
+  /**
+   * Sets the stopwatch target from the minutes typed; empty for none.
+   * @param {string} value - Target in minutes
+   */
+  const handleTargetChange = useCallback((value: string) => {
+    const minutes = Number(value);
+    const seconds = Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60) : 0;
+    setTarget(seconds);
+    setStopwatch(seconds);
+  }, [setStopwatch]);
+
+  /**
+   * Takes a lap at the time the stopwatch has run so far.
+   */
+  const handleLap = useCallback(() => {
+    const seconds = Math.floor(getElapsedMs(getClock(), Date.now()) / 1000);
+    updateLaps([...lapsRef.current, seconds]);
+  }, [getClock, updateLaps]);
 
   /**
    * Handles setting a custom duration from the DurationInput component.
@@ -162,14 +578,173 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
    * @param {number} newDuration - New duration in seconds to set for the timer
    */
   const handleCustomDuration = useCallback((newDuration: number) => {
+    // A paused session ends here
+    recordSession(false);
     setDuration(newDuration);
     setShowCustomInput(false);
-  }, [setDuration]);
+    clearActiveTimer('focus');
+    end(null);
+  }, [setDuration, end, recordSession]);
+
+  /**
+   * Starts the timer, or resumes it and ends the pause it was in.
+   */
+  const resume = useCallback(() => {
+    const { pausedAt } = getClock();
+    if (pausedAt !== null) {
+      pausesRef.current = [
+        ...pausesRef.current,
+        { pausedAt: new Date(pausedAt).toISOString(), resumedAt: new Date().toISOString() },
+      ];
+    }
+    start();
+  }, [getClock, start]);
+
+  /**
+   * Starts the timer, replacing any saved session that was not resumed.
+   * When another tab owns the timer, asks that tab to start it instead.
+   */
+  const handleStart = useCallback(() => {
+    if (isFollower) {
+      send('start');
+      return;
+    }
+    restoreCheckedRef.current = true;
+    remoteRef.current = false;
+    setPendingRestore(null);
+    resume();
+  }, [isFollower, send, resume]);
+
+  /**
+   * Pauses the timer, or asks the owning tab to pause it.
+   */
+  const handlePause = useCallback(() => {
+    if (isFollower) {
+      send('pause');
+      return;
+    }
+    pause();
+  }, [isFollower, send, pause]);
+
+  /**
+   * Records the session so far as incomplete and resets the timer, or asks the
+   * owning tab to reset it.
+   */
+  const handleReset = useCallback(() => {
+    if (isFollower) {
+      send('reset');
+      return;
+    }
+    if (isStopwatch) {
+      // Finishing a stopwatch completes it once it reached its target, if it had one
+      const clock = getClock();
+      recordSession(clock.durationMs === 0 || getElapsedMs(clock, Date.now()) >= clock.durationMs);
+    } else if (!isComplete) {
+      // A completed session was recorded when it ran out
+      recordSession(false);
+    }
+    remoteRef.current = false;
+    reset();
+    clearActiveTimer('focus');
+  }, [isFollower, send, isStopwatch, isComplete, getClock, recordSession, reset]);
+
+  /**
+   * Resumes the paused session saved before the reload.
+   * Time spent away counts as paused time.
+   */
+  const handleResume = useCallback(() => {
+    if (!pendingRestore) return;
+    remoteRef.current = false;
+    startTimeRef.current =
+      pendingRestore.sessionStartRemaining ?? pendingRestore.clock.durationMs / 1000;
+    sessionModeRef.current = pendingRestore.focusMode;
+    pausesRef.current = pendingRestore.pauses ?? [];
+    sessionTaskRef.current = pendingRestore.taskId;
+    updateIntention(pendingRestore.intention ?? '');
+    updateInterruptions(pendingRestore.interruptions ?? []);
+    updateLaps(pendingRestore.laps ?? []);
+    restoreSessionClock(pendingRestore.clock);
+    setPendingRestore(null);
+    resume();
+  }, [pendingRestore, restoreSessionClock, resume, updateIntention, updateInterruptions, updateLaps]);
+
+  /**
+   * Drops the paused session saved before the reload, recording it as incomplete.
+   */
+  const handleDiscard = useCallback(() => {
+    if (pendingRestore) {
+      sessionModeRef.current = pendingRestore.focusMode;
+      recordSession(false, pendingRestore);
+    }
+    setPendingRestore(null);
+    clearActiveTimer('focus');
+  }, [pendingRestore, recordSession]);
 
   return (
     <div className="flex flex-col items-center gap-8">
+      {/* Resume Prompt */}
+      {pendingRestore && !isRunning && (
+        <ResumePrompt
+          message={
+            pendingRestore.clock.countUp
+              ? `You have a paused ${getFocusModeConfig(pendingRestore.focusMode).label} stopwatch at ${formatTime(
+                  Math.floor(getElapsedMs(pendingRestore.clock, Date.now()) / 1000)
+                )}.`
+              : `You have a paused ${getFocusModeConfig(pendingRestore.focusMode).label} session with ${formatTime(
+                  Math.ceil(getRemainingMs(pendingRestore.clock, Date.now()) / 1000)
+                )} remaining.`
+          }
+          onResume={handleResume}
+          onDiscard={handleDiscard}
+        />
+      )}
+
+      {/* Timer Type */}
+      {canChangeType && (
+        <div className="w-full max-w-md space-y-3 text-left">
+          <fieldset className="flex justify-center gap-2">
+            <legend className="sr-only">Timer type</legend>
+            {[
+              { value: false, label: 'Countdown' },
+              { value: true, label: 'Stopwatch' },
+            ].map((option) => (
+              <label
+                key={option.label}
+                className={`cursor-pointer rounded-md border px-3 py-1 text-sm has-[:focus-visible]:ring-1 has-[:focus-visible]:ring-ring ${
+                  isStopwatch === option.value
+                    ? 'border-primary bg-primary/10 font-medium'
+                    : 'text-muted-foreground'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="timer-type"
+                  checked={isStopwatch === option.value}
+                  onChange={() => handleTypeChange(option.value)}
+                  className="sr-only"
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+          {isStopwatch && (
+            <div className="space-y-1">
+              <Label htmlFor="stopwatch-target">Notify me after (minutes)</Label>
+              <Input
+                id="stopwatch-target"
+                type="number"
+                min={1}
+                value={target > 0 ? target / 60 : ''}
+                onChange={(event) => handleTargetChange(event.target.value)}
+                placeholder="Optional, keeps running either way"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Custom Duration Input */}
-      {showCustomInput && !isRunning && (
+      {showCustomInput && !isRunning && !isStopwatch && (
         <div className="w-full max-w-md">
           <DurationInput
             onDurationSet={handleCustomDuration}
@@ -179,6 +754,26 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
         </div>
       )}
 
+      {/* Intention */}
+      {!isRunning && !isFollower ? (
+        <div className="w-full max-w-md space-y-1 text-left">
+          <Label htmlFor="focus-intention">What are you focusing on?</Label>
+          <Input
+            id="focus-intention"
+            value={intention}
+            onChange={(event) => updateIntention(event.target.value)}
+            placeholder="Optional, e.g. Outline chapter 3"
+            maxLength={200}
+          />
+        </div>
+      ) : (
+        intention.trim() && (
+          <p className="text-muted-foreground">
+            Focusing on <span className="font-medium text-foreground">{intention.trim()}</span>
+          </p>
+        )
+      )}
+
       {/* Timer Display */}
       <div className="relative">
         <svg className="w-64 h-64 transform -rotate-90">
@@ -206,8 +801,15 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
             strokeLinecap="round"
           />
         </svg>
-        <div className="absolute inset-0 flex items-center justify-center">
-          <span className="text-6xl font-bold font-mono">{formatTime(timeLeft)}</span>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <span className="text-6xl font-bold font-mono">
+            {formatTime(isStopwatch ? elapsed : timeLeft)}
+          </span>
+          {isStopwatch && target > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {elapsed >= target ? 'Target reached' : `Target ${formatTime(target)}`}
+            </span>
+          )}
         </div>
       </div>
 
@@ -217,8 +819,8 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
           {!isRunning ? (
             <Button
               size="lg"
-              onClick={start}
-              disabled={timeLeft === 0}
+              onClick={handleStart}
+              disabled={timeLeft === 0 && !isStopwatch}
               className="w-32"
             >
               <Play className="mr-2 h-5 w-5" />
@@ -227,7 +829,7 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
           ) : (
             <Button
               size="lg"
-              onClick={pause}
+              onClick={handlePause}
               variant="secondary"
               className="w-32"
             >
@@ -235,19 +837,60 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
               Pause
             </Button>
           )}
-          <Button
-            size="lg"
-            onClick={reset}
-            variant="outline"
-            className="w-32"
-          >
-            <RotateCcw className="mr-2 h-5 w-5" />
-            Reset
-          </Button>
+          {isStopwatch && elapsed > 0 ? (
+            <Button
+              size="lg"
+              onClick={handleReset}
+              variant="outline"
+              className="w-32"
+            >
+              <Square className="mr-2 h-5 w-5" />
+              Finish
+            </Button>
+          ) : (
+            <Button
+              size="lg"
+              onClick={handleReset}
+              variant="outline"
+              className="w-32"
+            >
+              <RotateCcw className="mr-2 h-5 w-5" />
+              Reset
+            </Button>
+          )}
         </div>
 
+        {/* Laps */}
+        {isStopwatch && isRunning && !isFollower && (
+          <Button variant="ghost" onClick={handleLap} className="text-sm">
+            <Flag className="mr-2 h-4 w-4" />
+            Lap
+          </Button>
+        )}
+        {laps.length > 0 && (
+          <ol className="w-full max-w-xs space-y-1 text-sm" aria-label="Laps">
+            {laps.map((lapEnd, index) => (
+              <li key={index} className="flex justify-between font-mono">
+                <span className="font-sans text-muted-foreground">Lap {index + 1}</span>
+                <span>{formatTime(lapEnd - (index > 0 ? laps[index - 1] : 0))}</span>
+                <span className="text-muted-foreground">{formatTime(lapEnd)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Interruption Log */}
+        {isRunning && !isFollower && (
+          <InterruptionCapture
+            count={interruptions.length}
+            onLog={(interruption) =>
+              updateInterruptions([...interruptionsRef.current, interruption])
+            }
+          />
+        )}
+
         {/* Custom Duration Button */}
-        {!isRunning && !showCustomInput && (
+        {!isRunning && !showCustomInput && !isFollower && !isStopwatch && (
           <Button
             variant="ghost"
             onClick={() => setShowCustomInput(true)}
@@ -259,6 +902,12 @@ const Timer = memo(function Timer({ duration, title = 'Focus Session', onComplet
         )}
       </div>
 
+      {isFollower && (
+        <p className="text-sm text-muted-foreground">
+          This timer is running in another tab
+        </p>
+      )}
+
       {/* Status Message */}
       {isComplete && (
         <p className="text-lg font-medium text-primary animate-pulse">
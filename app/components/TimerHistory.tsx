@@ -1,7 +1,12 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
 import { useTimerHistory } from '@/lib/hooks/useTimerHistory';
+import { useHistorySyncClient } from '@/lib/hooks/useHistorySyncClient';
+import { useFocusModes } from '@/lib/hooks/useFocusModes';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { useProjects } from '@/lib/hooks/useProjects';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -14,12 +19,57 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { formatTime } from '@/lib/utils/formatTime';
 import { formatDuration } from '@/lib/utils/formatDuration';
 import { formatRelativeTime } from '@/lib/utils/formatRelativeTime';
-import { Trash2, TrendingUp, Calendar, Clock, Target, Flame } from 'lucide-react';
-import { FOCUS_MODE_CONFIG, type FocusMode } from '@/lib/constants/focus-modes';
+import { getDayKey } from '@/lib/utils/calendarDay';
+import { getDailyTotals } from '@/lib/utils/historyFilter';
+import { summarizeInterruptions } from '@/lib/utils/focusStatistics';
+import { INTERRUPTION_KINDS, INTERRUPTION_LABELS } from '@/lib/constants/interruptions';
+import {
+  Briefcase,
+  Trash2,
+  TrendingUp,
+  Calendar,
+  Clock,
+  Target,
+  Flame,
+  Coffee,
+  Zap,
+  History,
+  CalendarDays,
+  ChartColumnStacked,
+  X,
+} from 'lucide-react';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+import FocusCharts from './FocusCharts';
+import FocusHeatmap from './FocusHeatmap';
+import HistoryExportButton from './HistoryExportButton';
+import HistoryImportDialog from './HistoryImportDialog';
+import SessionEditDialog from './SessionEditDialog';
+import SessionRow from './SessionRow';
+import UndoToast from './UndoToast';
 
+/**
+ * Sessions removed since the undo toast appeared, kept so they can be restored.
+ */
+interface PendingUndo {
+  message: string;
+  sessions: TimerSession[];
+}
+
+/**
+ * Formats a "YYYY-MM-DD" day as a heading, e.g. "Monday, January 13, 2025".
+ */
+const formatDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
 
 /**
  * Timer history and statistics display component.
@@ -35,10 +85,20 @@ import { FOCUS_MODE_CONFIG, type FocusMode } from '@/lib/constants/focus-modes';
  *   - Total sessions count
  *   - Completed sessions count
  *   - Total time spent across all sessions
+ *   - Pomodoro break time, kept separate from focus time
+ *   - Interruptions logged per hour of focus, by kind
  *   - Current and longest streaks
- *   - Sessions breakdown by focus mode
- * - Shows 10 most recent sessions with details
+ *   - Sessions breakdown by focus mode, including custom and deleted modes
+ * - Trend charts of focus time by mode, week over week and by time of day, with
+ *   average session length and completion rate per mode
+ * - Year heatmap of daily focus time; clicking a day lists that day's sessions
+ * - Shows 10 most recent sessions with details, linking to the full history browser
+ *   and the project time report
+ * - Each session can be edited or deleted, and several can be selected and deleted together
+ * - Exports the whole history as CSV, a JSON backup or an iCalendar file
+ * - Imports a JSON backup or another app's CSV export, with a preview of skipped rows
  * - Includes confirmation dialog for clearing history
+ * - Deleting sessions or clearing history can be undone from a toast for a few seconds
  * - Uses memoization for performance optimization
  * - Responsive design with grid layout
  * - Empty state when no sessions exist
@@ -52,7 +112,42 @@ import { FOCUS_MODE_CONFIG, type FocusMode } from '@/lib/constants/focus-modes';
  * @returns {React.ReactElement} Statistics dashboard and recent sessions list
  */
 function TimerHistory() {
-  const { sessions, clearHistory, getStatistics } = useTimerHistory();
+  /**
+   * Amplify data client while a user is signed in, so clearing history also clears it remotely.
+   */
+  const syncClient = useHistorySyncClient();
+  const {
+    sessions,
+    clearHistory,
+    getStatistics,
+    updateSession,
+    deleteSessions,
+    restoreSessions,
+  } = useTimerHistory({ syncClient });
+
+  /**
+   * Looks up labels and colors, including for custom and deleted focus modes.
+   */
+  const { focusModes, getConfig } = useFocusModes();
+
+  /**
+   * Names and colors the projects sessions are reported to.
+   */
+  const { projects, getProject } = useProjects();
+
+  /**
+   * Time zone and day start the charts, heatmap and day filter count days in.
+   */
+  const {
+    preferences: { timeZone, dayStartHour },
+  } = usePreferences();
+  const dayOptions = useMemo(() => ({ timeZone, dayStartHour }), [timeZone, dayStartHour]);
+
+  /**
+   * Day picked in the heatmap to list its sessions, or null for the recent sessions.
+   * @type {[string | null, React.Dispatch<React.SetStateAction<string | null>>]}
+   */
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
 
   /**
    * Controls the visibility of the clear history confirmation dialog.
@@ -60,29 +155,103 @@ function TimerHistory() {
    */
   const [dialogOpen, setDialogOpen] = useState(false);
 
+  /**
+   * Session open in the edit dialog, or null when it is closed.
+   * @type {[TimerSession | null, React.Dispatch<React.SetStateAction<TimerSession | null>>]}
+   */
+  const [editingSession, setEditingSession] = useState<TimerSession | null>(null);
+
+  /**
+   * Ids of the sessions selected for bulk deletion.
+   * @type {[string[], React.Dispatch<React.SetStateAction<string[]>>]}
+   */
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  /**
+   * Deletions offered for undo until the toast closes.
+   * @type {[PendingUndo | null, React.Dispatch<React.SetStateAction<PendingUndo | null>>]}
+   */
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null);
+
   /**
    * Computed statistics from all timer sessions.
    * @type {object}
    */
   const statistics = getStatistics();
+  const interruptionSummary = useMemo(() => summarizeInterruptions(sessions), [sessions]);
 
   /**
-   * Memoized list of the 10 most recent sessions.
-   * Updates only when sessions array changes.
+   * Memoized list of the sessions of the day picked in the heatmap, or else
+   * the 10 most recent sessions.
+   * Updates only when sessions array or the picked day changes.
    *
    * @type {Array}
    */
-  const recentSessions = useMemo(() => sessions.slice(0, 10), [sessions]);
+  const listedSessions = useMemo(
+    () =>
+      selectedDay
+        ? sessions.filter((session) => getDayKey(session.endTime, dayOptions) === selectedDay)
+        : sessions.slice(0, 10),
+    [sessions, selectedDay, dayOptions]
+  );
+
+  /**
+   * Session count and focus time of the day picked in the heatmap.
+   */
+  const selectedDayTotal = selectedDay
+    ? getDailyTotals(listedSessions, dayOptions).get(selectedDay)
+    : undefined;
+
+  /**
+   * Selected sessions that are still listed.
+   */
+  const selectedSessions = listedSessions.filter((session) => selectedIds.includes(session.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  /**
+   * Adds removed sessions to the pending undo, so Undo also restores the
+   * deletions made earlier while the toast was up.
+   * @param {TimerSession[]} removed - Sessions just removed
+   * @param {(count: number) => string} getMessage - Toast message for the sessions pending
+   */
+  const offerUndo = (removed: TimerSession[], getMessage: (count: number) => string) => {
+    setPendingUndo((prev) => {
+      const pending = [...(prev?.sessions ?? []), ...removed];
+      return { message: getMessage(pending.length), sessions: pending };
+    });
+  };
+
+  /**
+   * Deletes sessions and offers to undo it.
+   * @param {TimerSession[]} removed - Sessions to delete
+   */
+  const handleDelete = (removed: TimerSession[]) => {
+    deleteSessions(removed.map((session) => session.id));
+    setSelectedIds((prev) => prev.filter((id) => !removed.some((session) => session.id === id)));
+    offerUndo(removed, (count) => (count === 1 ? 'Session deleted' : `${count} sessions deleted`));
+  };
 
   /**
    * Handles clearing all timer history.
-   * Confirms deletion and closes the dialog.
+   * Confirms deletion, closes the dialog and offers to undo it.
    */
   const handleClearHistory = () => {
+    offerUndo(sessions, () => 'History cleared');
     clearHistory();
+    setSelectedIds([]);
     setDialogOpen(false);
   };
 
+  const handleUndo = () => {
+    if (pendingUndo) restoreSessions(pendingUndo.sessions);
+    setPendingUndo(null);
+  };
+
   return (
     <div className="space-y-6">
       {/* Statistics Section */}
@@ -140,6 +309,35 @@ function TimerHistory() {
               </div>
               <p className="text-2xl font-bold">{statistics.longestStreak} days</p>
             </div>
+
+            {/* Break Time */}
+            {statistics.totalBreakTime > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Coffee className="h-4 w-4" />
+                  <span>Break Time</span>
+                </div>
+                <p className="text-2xl font-bold">{formatDuration(statistics.totalBreakTime)}</p>
+              </div>
+            )}
+
+            {/* Interruptions */}
+            {interruptionSummary.perHour !== null && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Zap className="h-4 w-4" />
+                  <span>Interruptions</span>
+                </div>
+                <p className="text-2xl font-bold">
+                  {interruptionSummary.perHour.toFixed(1)} per hour
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {INTERRUPTION_KINDS.map(
+                    (kind) => `${interruptionSummary.byKind[kind]} ${INTERRUPTION_LABELS[kind].toLowerCase()}`
+                  ).join(' · ')}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Sessions by Mode */}
@@ -151,9 +349,9 @@ function TimerHistory() {
                   <Badge
                     key={mode}
                     variant="secondary"
-                    className={FOCUS_MODE_CONFIG[mode as FocusMode]?.color}
+                    className={getConfig(mode as FocusMode).color}
                   >
-                    {FOCUS_MODE_CONFIG[mode as FocusMode]?.label || mode}: {count}
+                    {getConfig(mode as FocusMode).label}: {count}
                   </Badge>
                 ))}
               </div>
@@ -162,88 +360,189 @@ function TimerHistory() {
         </CardContent>
       </Card>
 
+      {/* Trends Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ChartColumnStacked className="h-5 w-5" />
+            Trends
+          </CardTitle>
+          <CardDescription>Where your focus time goes and how it changes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FocusCharts sessions={sessions} getConfig={getConfig} dayOptions={dayOptions} />
+        </CardContent>
+      </Card>
+
+      {/* Focus Activity Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Focus Activity
+          </CardTitle>
+          <CardDescription>
+            Daily focus time over the past year. Pick a day to see its sessions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FocusHeatmap
+            sessions={sessions}
+            getModeLabel={(mode) => getConfig(mode).label}
+            dayOptions={dayOptions}
+            selectedDay={selectedDay}
+            onSelectDay={setSelectedDay}
+          />
+        </CardContent>
+      </Card>
+
       {/* Recent Sessions Section */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Recent Sessions</CardTitle>
-              <CardDescription>Your 10 most recent timer sessions</CardDescription>
-            </div>
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-              <DialogTrigger asChild>
+            {selectedDay ? (
+              <div>
+                <CardTitle>Sessions on {formatDay(selectedDay)}</CardTitle>
+                <CardDescription>
+                  {listedSessions.length === 1 ? '1 session' : `${listedSessions.length} sessions`}
+                  {' · '}
+                  {formatDuration(selectedDayTotal?.totalTime ?? 0)} of focus
+                </CardDescription>
+              </div>
+            ) : (
+              <div>
+                <CardTitle>Recent Sessions</CardTitle>
+                <CardDescription>Your 10 most recent timer sessions</CardDescription>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              {selectedDay && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setSelectedDay(null)}
+                >
+                  <X className="h-4 w-4" />
+                  Show recent
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/history" className="gap-2">
+                  <History className="h-4 w-4" />
+                  View all
+                </Link>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/reports" className="gap-2">
+                  <Briefcase className="h-4 w-4" />
+                  Reports
+                </Link>
+              </Button>
+              <HistoryImportDialog
+                sessions={sessions}
+                modes={focusModes}
+                onImport={restoreSessions}
+              />
+              <HistoryExportButton
+                sessions={sessions}
+                getModeLabel={(mode) => getConfig(mode).label}
+              />
+              {selectedSessions.length > 0 && (
                 <Button
                   variant="outline"
                   size="sm"
                   className="gap-2"
-                  disabled={sessions.length === 0}
+                  onClick={() => handleDelete(selectedSessions)}
                 >
                   <Trash2 className="h-4 w-4" />
-                  Clear History
+                  Delete selected ({selectedSessions.length})
                 </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Clear Timer History?</DialogTitle>
-                  <DialogDescription>
-                    This will permanently delete all your timer sessions and statistics. This
-                    action cannot be undone.
-                  </DialogDescription>
-                </DialogHeader>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button variant="destructive" onClick={handleClearHistory}>
+              )}
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={sessions.length === 0}
+                  >
+                    <Trash2 className="h-4 w-4" />
                     Clear History
                   </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Clear Timer History?</DialogTitle>
+                    <DialogDescription>
+                      This will delete all your timer sessions and statistics. You can undo this
+                      for a few seconds.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button variant="destructive" onClick={handleClearHistory}>
+                      Clear History
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
-          {recentSessions.length === 0 ? (
+          {listedSessions.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Clock className="h-12 w-12 mx-auto mb-3 opacity-20" />
-              <p>No timer sessions yet</p>
-              <p className="text-sm mt-1">Start a timer to see your history here</p>
+              {selectedDay ? (
+                <p>No timer sessions on this day</p>
+              ) : (
+                <>
+                  <p>No timer sessions yet</p>
+                  <p className="text-sm mt-1">Start a timer to see your history here</p>
+                </>
+              )}
             </div>
           ) : (
             <div className="space-y-3">
-              {recentSessions.map((session) => (
-                <div
+              {listedSessions.map((session) => (
+                <SessionRow
                   key={session.id}
-                  className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
-                >
-                  <div className="flex items-center gap-3 flex-1">
-                    <Badge
-                      variant="secondary"
-                      className={FOCUS_MODE_CONFIG[session.focusMode]?.color}
-                    >
-                      {FOCUS_MODE_CONFIG[session.focusMode]?.label}
-                    </Badge>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium">{formatTime(session.duration)}</span>
-                        <Badge
-                          variant={session.completed ? 'default' : 'secondary'}
-                          className="text-xs"
-                        >
-                          {session.completed ? 'Completed' : 'Incomplete'}
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-muted-foreground mt-0.5">
-                        {formatRelativeTime(session.completedAt)}
-                      </p>
-                    </div>
-                  </div>
-                </div>
+                  session={session}
+                  config={getConfig(session.mode)}
+                  timeLabel={formatRelativeTime(session.endTime)}
+                  project={getProject(session.projectId)}
+                  selected={selectedIds.includes(session.id)}
+                  onSelectedChange={(checked) => toggleSelected(session.id, checked)}
+                  onEdit={() => setEditingSession(session)}
+                  onDelete={() => handleDelete([session])}
+                />
               ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <SessionEditDialog
+        session={editingSession}
+        modes={focusModes}
+        getConfig={getConfig}
+        projects={projects}
+        onSave={updateSession}
+        onClose={() => setEditingSession(null)}
+      />
+
+      {pendingUndo && (
+        // Every deletion adds sessions, so each one restarts the toast's timer
+        <UndoToast
+          key={pendingUndo.sessions.length}
+          message={pendingUndo.message}
+          onUndo={handleUndo}
+          onDismiss={() => setPendingUndo(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+/**
+ * How long the toast stays up before the change becomes final (milliseconds)
+ */
+export const UNDO_TOAST_DURATION = 8000;
+
+/**
+ * Props for UndoToast component.
+ *
+ * @interface UndoToastProps
+ * @property {string} message - Describes the change that can be undone
+ * @property {() => void} onUndo - Callback to revert the change
+ * @property {() => void} onDismiss - Callback when the toast closes without undoing
+ */
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Toast offering to undo a change for a few seconds.
+ *
+ * @component
+ *
+ * @remarks
+ * - Announced politely to screen readers
+ * - Dismisses itself after {@link UNDO_TOAST_DURATION}; the timer restarts when the message changes
+ *
+ * @example
+ * ```tsx
+ * {pendingUndo && (
+ *   <UndoToast
+ *     message="Session deleted"
+ *     onUndo={() => restoreSessions(pendingUndo.sessions)}
+ *     onDismiss={() => setPendingUndo(null)}
+ *   />
+ * )}
+ * ```
+ *
+ * @param {UndoToastProps} props - Component props
+ * @returns {React.ReactElement} Fixed toast with an Undo button
+ */
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+}: UndoToastProps): React.ReactElement {
+  /**
+   * Latest dismiss callback, so a parent re-rendering with a new one does not
+   * restart the timer.
+   */
+  const onDismissRef = useRef(onDismiss);
+
+  useEffect(() => {
+    onDismissRef.current = onDismiss;
+  }, [onDismiss]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismissRef.current(), UNDO_TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [message]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg border bg-background px-4 py-2 shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      <Button variant="outline" size="sm" onClick={onUndo}>
+        Undo
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
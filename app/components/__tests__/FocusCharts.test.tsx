@@ -0,0 +1,121 @@
+import React from 'react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import FocusCharts from '../FocusCharts';
+import { getFocusModeConfig } from '@/lib/constants/focus-modes';
+import { createTimerSession } from '@/lib/utils/timerSession';
+
+const UTC = { timeZone: 'UTC' };
+
+// January 6, 2025 is a Monday
+const sessions = [
+  createTimerSession({
+    mode: 'study',
+    actualDuration: 1800,
+    completed: true,
+    endTime: new Date('2024-12-30T09:30:00.000Z'),
+  }),
+  createTimerSession({
+    mode: 'study',
+    actualDuration: 1800,
+    completed: true,
+    endTime: new Date('2025-01-06T09:30:00.000Z'),
+  }),
+  createTimerSession({
+    mode: 'work',
+    actualDuration: 3600,
+    completed: false,
+    endTime: new Date('2025-01-07T10:00:00.000Z'),
+  }),
+];
+
+const renderCharts = (chartSessions = sessions) =>
+  render(
+    <FocusCharts
+      sessions={chartSessions}
+      getConfig={(mode) => getFocusModeConfig(mode)}
+      dayOptions={UTC}
+    />
+  );
+
+describe('FocusCharts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-08T18:00:00.000Z'));
+  });
+
+  it('should chart focus time by mode per day, week or month', async () => {
+    const user = userEvent.setup();
+    renderCharts();
+
+    const daily = screen.getByRole('table', { name: 'Focus time by mode' });
+    expect(
+      within(daily).getByRole('row', { name: 'Tue, Jan 7, 2025 0m 1h 1h' })
+    ).toBeInTheDocument();
+    expect(within(daily).getAllByRole('row')).toHaveLength(15);
+
+    await user.selectOptions(screen.getByLabelText('Show by'), 'week');
+
+    const weekly = screen.getByRole('table', { name: 'Focus time by mode' });
+    expect(
+      within(weekly).getByRole('row', { name: 'Week of Jan 6, 2025 30m 1h 1h 30m' })
+    ).toBeInTheDocument();
+    expect(within(weekly).getAllByRole('row')).toHaveLength(13);
+  });
+
+  it('should compare this week with last week', () => {
+    renderCharts();
+
+    expect(screen.getByText('1h 30m so far this week, up 200% on last week')).toBeInTheDocument();
+    const table = screen.getByRole('table', { name: 'This week vs last week' });
+    expect(within(table).getByRole('row', { name: 'Monday 30m 30m' })).toBeInTheDocument();
+    expect(within(table).getByRole('row', { name: 'Thursday 0m To come' })).toBeInTheDocument();
+  });
+
+  it('should name the hour with the most focus time', () => {
+    renderCharts();
+
+    expect(
+      screen.getByText('You focus most in sessions started around 9 AM, completing 67% of them')
+    ).toBeInTheDocument();
+    expect(
+      within(screen.getByRole('table', { name: 'Focus time by starting hour' })).getByRole('row', {
+        name: '9 AM 3 2h 67%',
+      })
+    ).toBeInTheDocument();
+  });
+
+  it('should summarize each mode', () => {
+    renderCharts();
+
+    const table = screen.getByRole('table', { name: 'By mode' });
+    expect(within(table).getByRole('row', { name: 'Work 1 1h 1h 0%' })).toBeInTheDocument();
+    expect(within(table).getByRole('row', { name: 'Study 2 1h 30m 100%' })).toBeInTheDocument();
+  });
+
+  it('should summarize each tag', () => {
+    renderCharts([
+      { ...sessions[0], tags: ['thesis', 'reading'], focusQuality: 4 },
+      { ...sessions[1], tags: ['thesis'], focusQuality: 2 },
+      sessions[2],
+    ]);
+
+    const table = screen.getByRole('table', { name: 'By tag' });
+    expect(within(table).getByRole('row', { name: '#thesis 2 1h 3.0/5' })).toBeInTheDocument();
+    expect(within(table).getByRole('row', { name: '#reading 1 30m 4.0/5' })).toBeInTheDocument();
+  });
+
+  it('should leave out the tag summary without tags', () => {
+    renderCharts();
+
+    expect(screen.queryByRole('table', { name: 'By tag' })).not.toBeInTheDocument();
+  });
+
+  it('should show an empty state without focus sessions', () => {
+    renderCharts([]);
+
+    expect(screen.getByText(/No focus sessions yet/)).toBeInTheDocument();
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,109 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import FocusHeatmap from '../FocusHeatmap';
+import { createTimerSession } from '@/lib/utils/timerSession';
+
+const UTC = { timeZone: 'UTC' };
+const labels: Record<string, string> = { study: 'Study', work: 'Work' };
+
+const sessions = [
+  createTimerSession({
+    mode: 'study',
+    actualDuration: 1800,
+    completed: true,
+    endTime: new Date('2025-01-07T09:00:00.000Z'),
+  }),
+  createTimerSession({
+    mode: 'work',
+    actualDuration: 3600,
+    completed: true,
+    endTime: new Date('2025-01-07T12:00:00.000Z'),
+  }),
+];
+
+const renderHeatmap = (selectedDay: string | null = null, onSelectDay = vi.fn()) =>
+  render(
+    <FocusHeatmap
+      sessions={sessions}
+      getModeLabel={(mode) => labels[mode]}
+      dayOptions={UTC}
+      selectedDay={selectedDay}
+      onSelectDay={onSelectDay}
+    />
+  );
+
+describe('FocusHeatmap', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-08T18:00:00.000Z'));
+  });
+
+  it('should label each day with its focus time', () => {
+    renderHeatmap();
+
+    expect(
+      screen.getByRole('button', { name: 'Tue, Jan 7, 2025: 1h 30m of focus' })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Wed, Jan 8, 2025: No focus time' })
+    ).toHaveAttribute('tabindex', '0');
+    expect(screen.queryByRole('button', { name: /Jan 9, 2025/ })).not.toBeInTheDocument();
+  });
+
+  it('should show the focus time by mode in a tooltip on hover and focus', () => {
+    renderHeatmap();
+    const tuesday = screen.getByRole('button', { name: /Jan 7, 2025/ });
+
+    fireEvent.mouseEnter(tuesday);
+
+    const tooltip = screen.getByRole('tooltip');
+    expect(tooltip).toHaveTextContent('Tue, Jan 7, 2025');
+    expect(tooltip).toHaveTextContent('Work: 1h');
+    expect(tooltip).toHaveTextContent('Study: 30m');
+    expect(tuesday).toHaveAttribute('aria-describedby', tooltip.id);
+
+    fireEvent.mouseLeave(tuesday);
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+
+    fireEvent.focus(tuesday);
+    expect(screen.getByRole('tooltip')).toHaveTextContent('1h 30m of focus');
+
+    fireEvent.keyDown(tuesday, { key: 'Escape' });
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+  });
+
+  it('should move between days with the arrow keys', () => {
+    renderHeatmap();
+    const wednesday = screen.getByRole('button', { name: /Jan 8, 2025/ });
+    wednesday.focus();
+
+    fireEvent.keyDown(wednesday, { key: 'ArrowUp' });
+    expect(screen.getByRole('button', { name: /Jan 7, 2025/ })).toHaveFocus();
+
+    fireEvent.keyDown(document.activeElement!, { key: 'ArrowLeft' });
+    expect(screen.getByRole('button', { name: /Dec 31, 2024/ })).toHaveFocus();
+    expect(screen.getByRole('button', { name: /Dec 31, 2024/ })).toHaveAttribute('tabindex', '0');
+
+    // Tomorrow is not in the heatmap
+    fireEvent.keyDown(document.activeElement!, { key: 'End' });
+    fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+    expect(wednesday).toHaveFocus();
+  });
+
+  it('should select a day when clicked and clear it when clicked again', () => {
+    const onSelectDay = vi.fn();
+    const { unmount } = renderHeatmap(null, onSelectDay);
+
+    fireEvent.click(screen.getByRole('button', { name: /Jan 7, 2025/ }));
+    expect(onSelectDay).toHaveBeenLastCalledWith('2025-01-07');
+    unmount();
+
+    renderHeatmap('2025-01-07', onSelectDay);
+    const tuesday = screen.getByRole('button', { name: /Jan 7, 2025/ });
+    expect(tuesday).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(tuesday);
+    expect(onSelectDay).toHaveBeenLastCalledWith(null);
+  });
+});
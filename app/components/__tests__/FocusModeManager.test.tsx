@@ -0,0 +1,79 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import FocusModeManager from '../FocusModeManager';
+import type { CustomFocusMode } from '@/lib/constants/focus-modes';
+
+const reading: CustomFocusMode = {
+  value: 'custom-reading',
+  label: 'Reading',
+  title: 'Reading Timer',
+  description: 'Quiet time with a book',
+  duration: 2700,
+  color: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+};
+
+const renderManager = (customModes: CustomFocusMode[] = []) => {
+  const handlers = { onAdd: vi.fn(), onUpdate: vi.fn(), onDelete: vi.fn() };
+  render(<FocusModeManager customModes={customModes} {...handlers} />);
+  fireEvent.click(screen.getByRole('button', { name: /manage modes/i }));
+  return handlers;
+};
+
+describe('FocusModeManager', () => {
+  it('should create a mode with a default title', () => {
+    const { onAdd } = renderManager();
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Writing' } });
+    fireEvent.change(screen.getByLabelText('Default duration'), { target: { value: '45' } });
+    fireEvent.click(screen.getByRole('button', { name: /add mode/i }));
+
+    expect(onAdd).toHaveBeenCalledWith({
+      label: 'Writing',
+      title: 'Writing Timer',
+      description: '',
+      duration: 2700,
+      color: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+    });
+  });
+
+  it('should not create a mode without a name or with an invalid duration', () => {
+    const { onAdd } = renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: /add mode/i }));
+    expect(screen.getByRole('alert')).toHaveTextContent(/enter a name/i);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Writing' } });
+    fireEvent.change(screen.getByLabelText('Default duration'), { target: { value: '0' } });
+    fireEvent.click(screen.getByRole('button', { name: /add mode/i }));
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+
+    expect(onAdd).not.toHaveBeenCalled();
+  });
+
+  it('should edit an existing mode', () => {
+    const { onUpdate } = renderManager([reading]);
+
+    fireEvent.click(screen.getByRole('button', { name: /edit reading/i }));
+    expect(screen.getByLabelText('Default duration')).toHaveValue('45');
+
+    fireEvent.change(screen.getByLabelText('Default duration'), { target: { value: '30' } });
+    fireEvent.click(screen.getByRole('button', { name: /save changes/i }));
+
+    expect(onUpdate).toHaveBeenCalledWith('custom-reading', {
+      label: 'Reading',
+      title: 'Reading Timer',
+      description: 'Quiet time with a book',
+      duration: 1800,
+      color: reading.color,
+    });
+  });
+
+  it('should delete a mode', () => {
+    const { onDelete } = renderManager([reading]);
+
+    fireEvent.click(screen.getByRole('button', { name: /delete reading/i }));
+
+    expect(onDelete).toHaveBeenCalledWith('custom-reading');
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import FocusModeSelector from '../FocusModeSelector';
+import { getFocusModeList } from '@/lib/constants/focus-modes';
 
 describe('FocusModeSelector', () => {
   describe('Rendering', () => {
@@ -36,6 +37,29 @@ describe('FocusModeSelector', () => {
       expect(screen.getByLabelText(/yoga/i)).not.toBeChecked();
       expect(screen.getByLabelText(/meditation/i)).not.toBeChecked();
     });
+
+    it('should render the modes it is given, including custom modes', () => {
+      render(
+        <FocusModeSelector
+          selectedMode="custom-reading"
+          onModeChange={vi.fn()}
+          modes={[
+            ...getFocusModeList(),
+            {
+              value: 'custom-reading',
+              label: 'Reading',
+              title: 'Reading Timer',
+              description: '',
+              duration: 2700,
+              color: '',
+            },
+          ]}
+        />
+      );
+
+      expect(screen.getByLabelText(/reading/i)).toBeChecked();
+      expect(screen.getByLabelText(/study/i)).not.toBeChecked();
+    });
   });
 
   describe('User Interaction', () => {
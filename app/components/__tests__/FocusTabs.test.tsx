@@ -15,13 +15,58 @@ vi.mock('framer-motion', () => ({
 
 // Mock the Timer component to avoid testing its internal logic
 vi.mock('../Timer', () => ({
-  default: ({ duration, title }: { duration: number; title: string }) => (
+  default: ({
+    duration,
+    title,
+    taskId,
+    onSessionComplete,
+  }: {
+    duration: number;
+    title: string;
+    taskId?: string;
+    onSessionComplete: (session: {
+      mode: string;
+      actualDuration: number;
+      completed: boolean;
+      intention?: string;
+      taskId?: string;
+      interruptions?: { kind: string; at: string; note?: string }[];
+    }) => void;
+  }) => (
     <div data-testid="timer-component" data-duration={duration} data-title={title}>
       Mock Timer - {title} - {duration}s
+      <button
+        onClick={() =>
+          onSessionComplete({ mode: 'study', actualDuration: 1500, completed: true, intention: 'Chapter 3', taskId })
+        }
+      >
+        Finish session
+      </button>
+      <button
+        onClick={() =>
+          onSessionComplete({
+            mode: 'study',
+            actualDuration: 600,
+            completed: false,
+            taskId,
+            interruptions: [
+              { kind: 'later', at: '2025-01-10T09:40:00.000Z', note: 'Book flights' },
+              { kind: 'external', at: '2025-01-10T09:42:00.000Z' },
+            ],
+          })
+        }
+      >
+        Stop session with notes
+      </button>
     </div>
   ),
 }));
 
+// Mock the PomodoroTimer component
+vi.mock('../PomodoroTimer', () => ({
+  default: () => <div data-testid="pomodoro-timer">Pomodoro Timer</div>,
+}));
+
 // Mock the TimerHistory component
 vi.mock('../TimerHistory', () => ({
   default: () => <div data-testid="timer-history">Timer History</div>,
@@ -46,10 +91,25 @@ vi.mock('@/lib/hooks/useNotification', () => ({
   }),
 }));
 
+const mockUpdateSession = vi.fn();
+
+const mockRecordSession = vi.fn(
+  (input: { mode: string; actualDuration: number; completed: boolean; intention?: string }) => ({
+    schemaVersion: 2,
+    id: 'recorded',
+    startTime: '2025-01-10T09:35:00.000Z',
+    endTime: '2025-01-10T10:00:00.000Z',
+    plannedDuration: input.actualDuration,
+    ...input,
+  })
+);
+
 vi.mock('@/lib/hooks/useTimerHistory', () => ({
   useTimerHistory: () => ({
     sessions: [],
     addSession: vi.fn(),
+    recordSession: mockRecordSession,
+    updateSession: mockUpdateSession,
     clearHistory: vi.fn(),
     getStatistics: vi.fn(() => ({
       totalSessions: 0,
@@ -62,6 +122,10 @@ vi.mock('@/lib/hooks/useTimerHistory', () => ({
   }),
 }));
 
+vi.mock('@/lib/hooks/useHistorySyncClient', () => ({
+  useHistorySyncClient: () => null,
+}));
+
 // Mock FocusModeSelector component
 vi.mock('../FocusModeSelector', () => ({
   default: ({ selectedMode, onModeChange }: { selectedMode: string; onModeChange: (mode: string) => void }) => (
@@ -80,12 +144,13 @@ describe('FocusTabs', () => {
   });
 
   describe('Tab Rendering', () => {
-    it('should render only 3 tabs: Focus, Intervals and History', () => {
+    it('should render only 4 tabs: Focus, Pomodoro, Intervals and History', () => {
       render(<FocusTabs />);
 
       const tabs = screen.getAllByRole('tab');
-      expect(tabs).toHaveLength(3);
+      expect(tabs).toHaveLength(4);
       expect(screen.getByRole('tab', { name: /focus/i })).toBeInTheDocument();
+      expect(screen.getByRole('tab', { name: /pomodoro/i })).toBeInTheDocument();
       expect(screen.getByRole('tab', { name: /intervals/i })).toBeInTheDocument();
       expect(screen.getByRole('tab', { name: /history/i })).toBeInTheDocument();
     });
@@ -333,6 +398,23 @@ describe('FocusTabs', () => {
         expect(timer).toHaveAttribute('data-duration', '600');
       });
     });
+
+    it('should use the default durations set in preferences', async () => {
+      localStorage.setItem(
+        'zenFocus_preferences',
+        JSON.stringify({ defaultDuration: { study: 3000 } })
+      );
+      const user = userEvent.setup();
+      render(<FocusTabs />);
+
+      expect(screen.getByTestId('timer-component')).toHaveAttribute('data-duration', '3000');
+
+      // Modes without an override keep their own duration
+      await user.click(screen.getByText('Work'));
+      await waitFor(() => {
+        expect(screen.getByTestId('timer-component')).toHaveAttribute('data-duration', '3600');
+      });
+    });
   });
 
   describe('Timer Component Rendering', () => {
@@ -437,21 +519,22 @@ describe('FocusTabs', () => {
   });
 
   describe('Tabs Layout', () => {
-    it('should render tabs list with grid layout for 3 columns', () => {
+    it('should render tabs list with grid layout for 4 columns', () => {
       const { container } = render(<FocusTabs />);
 
       const tabsList = container.querySelector('[role="tablist"]');
-      expect(tabsList).toHaveClass('grid', 'w-full', 'grid-cols-3', 'mb-12');
+      expect(tabsList).toHaveClass('grid', 'w-full', 'grid-cols-4', 'mb-12');
     });
 
     it('should render tabs in the correct order', () => {
       render(<FocusTabs />);
 
       const tabs = screen.getAllByRole('tab');
-      expect(tabs).toHaveLength(3);
+      expect(tabs).toHaveLength(4);
       expect(tabs[0]).toHaveTextContent('Focus');
-      expect(tabs[1]).toHaveTextContent('Intervals');
-      expect(tabs[2]).toHaveTextContent('History');
+      expect(tabs[1]).toHaveTextContent('Pomodoro');
+      expect(tabs[2]).toHaveTextContent('Intervals');
+      expect(tabs[3]).toHaveTextContent('History');
     });
 
     it('should render main container with correct layout classes', () => {
@@ -497,4 +580,106 @@ describe('FocusTabs', () => {
       });
     });
   });
+
+  describe('Goals', () => {
+    it('should show the goals of the selected mode and of any mode', async () => {
+      const user = userEvent.setup();
+      localStorage.setItem(
+        'zenFocus_preferences',
+        JSON.stringify({
+          goals: [
+            { id: 'work', mode: 'work', metric: 'focusTime', target: 10800, period: 'day' },
+            { id: 'any', metric: 'sessions', target: 10, period: 'week' },
+          ],
+        })
+      );
+      render(<FocusTabs />);
+
+      const weekly = await screen.findByRole('progressbar', { name: '10 sessions a week' });
+      expect(weekly).toHaveAttribute('aria-valuenow', '0');
+      expect(screen.queryByRole('progressbar', { name: /Work/ })).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Work' }));
+
+      expect(screen.getByRole('progressbar', { name: '3h of Work a day' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Projects', () => {
+    it('should report a session to the project of its task', async () => {
+      localStorage.setItem(
+        'zenFocus_projects',
+        JSON.stringify([
+          { id: 'acme', name: 'Acme', color: 'bg-blue-100', archived: false, createdAt: '2025-01-01T00:00:00.000Z' },
+        ])
+      );
+      localStorage.setItem(
+        'zenFocus_tasks',
+        JSON.stringify([
+          { id: 'task-1', title: 'Invoice', projectId: 'acme', completed: false, archived: false, createdAt: '2025-01-01T00:00:00.000Z' },
+        ])
+      );
+      localStorage.setItem('zenFocus_activeTask', 'task-1');
+      const user = userEvent.setup();
+      render(<FocusTabs />);
+
+      expect(await screen.findByRole('radio', { name: 'Invoice' })).toBeChecked();
+      await user.click(screen.getByRole('button', { name: 'Finish session' }));
+
+      expect(mockRecordSession).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: 'task-1', projectId: 'acme' })
+      );
+    });
+  });
+
+  describe('Interruptions', () => {
+    it('should list the notes logged during a session and add them as tasks', async () => {
+      const user = userEvent.setup();
+      render(<FocusTabs />);
+
+      await user.click(screen.getByRole('button', { name: 'Stop session with notes' }));
+
+      expect(screen.getByText('2 interruptions · 1 without a note')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Add Book flights as a task' }));
+
+      expect(await screen.findByRole('radio', { name: 'Book flights' })).toBeInTheDocument();
+      expect(screen.getByText('Added')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Done' }));
+
+      expect(screen.queryByText('Logged during your session')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Reflection', () => {
+    it('should ask for a reflection on a completed session and save it', async () => {
+      const user = userEvent.setup();
+      render(<FocusTabs />);
+
+      await user.click(screen.getByRole('button', { name: 'Finish session' }));
+
+      const dialog = await screen.findByRole('dialog', { name: 'How did it go?' });
+      expect(dialog).toHaveTextContent('25m of focus on Chapter 3');
+
+      await user.type(screen.getByLabelText('Tags'), '#Thesis, reading');
+      await user.click(screen.getByRole('radio', { name: '4, Focused' }));
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(mockUpdateSession).toHaveBeenCalledWith('recorded', {
+        tags: ['thesis', 'reading'],
+        focusQuality: 4,
+      });
+      await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    });
+
+    it('should not ask when the reflection prompt is turned off', async () => {
+      localStorage.setItem('zenFocus_preferences', JSON.stringify({ reflectionPrompt: false }));
+      const user = userEvent.setup();
+      render(<FocusTabs />);
+
+      await user.click(screen.getByRole('button', { name: 'Finish session' }));
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
 });
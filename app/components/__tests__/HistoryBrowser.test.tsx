@@ -0,0 +1,177 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import HistoryBrowser, { HISTORY_PAGE_SIZE } from '../HistoryBrowser';
+import { getAllSessions, putSessions } from '@/lib/utils/sessionStore';
+import { createTimerSession } from '@/lib/utils/timerSession';
+import { downloadFile } from '@/lib/utils/historyExport';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+vi.mock('@/lib/hooks/useHistorySyncClient', () => ({
+  useHistorySyncClient: () => null,
+}));
+
+vi.mock('@/lib/utils/historyExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils/historyExport')>()),
+  downloadFile: vi.fn(),
+}));
+
+// Local times, so day groups hold in any time zone
+const session = (
+  id: string,
+  end: Date,
+  extra: Partial<TimerSession> = {}
+): TimerSession => ({
+  ...createTimerSession({ mode: 'study', actualDuration: 1500, completed: true, endTime: end }),
+  id,
+  ...extra,
+});
+
+const dayHeading = (day: number) =>
+  new Date(2025, 0, day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+const renderWithSessions = async (sessions: TimerSession[]) => {
+  await putSessions(sessions);
+  render(<HistoryBrowser />);
+  await screen.findByText(sessions.length === 1 ? '1 session' : `${sessions.length} sessions`);
+};
+
+describe('HistoryBrowser', () => {
+  it('should group sessions by day with daily totals', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9)),
+      session('b', new Date(2025, 0, 10, 18), { mode: 'work', actualDuration: 3600 }),
+      session('c', new Date(2025, 0, 12, 8)),
+    ]);
+
+    const tenth = screen.getByRole('region', { name: dayHeading(10) });
+    expect(within(tenth).getByText('2 sessions · 1h 25m')).toBeInTheDocument();
+    expect(within(tenth).getAllByRole('button', { name: /^edit/i })).toHaveLength(2);
+    expect(screen.getByRole('region', { name: dayHeading(12) })).toBeInTheDocument();
+  });
+
+  it('should filter by mode, status and search text', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9)),
+      session('b', new Date(2025, 0, 10, 18), { mode: 'work', completed: false }),
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Focus mode'), { target: { value: 'work' } });
+    expect(screen.getByText('1 session')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^edit work session/i })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'completed' } });
+    expect(screen.getByText('No sessions match')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset filters' }));
+    fireEvent.change(screen.getByLabelText('Search'), { target: { value: 'stud' } });
+    expect(screen.getByRole('button', { name: /^edit study session/i })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^edit work session/i })).not.toBeInTheDocument();
+  });
+
+  it('should filter by tag and search notes', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9), { tags: ['thesis'], intention: 'Chapter 3' }),
+      session('b', new Date(2025, 0, 10, 18), { mode: 'work', notes: 'Inbox zero' }),
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Tag'), { target: { value: 'thesis' } });
+    expect(screen.getByText('1 session')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^edit study session/i })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset filters' }));
+    fireEvent.change(screen.getByLabelText('Search'), { target: { value: 'inbox' } });
+    expect(screen.getByRole('button', { name: /^edit work session/i })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^edit study session/i })).not.toBeInTheDocument();
+  });
+
+  it('should filter by date range', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9)),
+      session('b', new Date(2025, 0, 11, 9)),
+      session('c', new Date(2025, 0, 12, 9)),
+    ]);
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-01-11' } });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2025-01-11' } });
+
+    expect(screen.getByText('1 session')).toBeInTheDocument();
+    expect(screen.getByRole('region', { name: dayHeading(11) })).toBeInTheDocument();
+  });
+
+  it('should paginate long histories', async () => {
+    const count = HISTORY_PAGE_SIZE + 5;
+    await renderWithSessions(
+      Array.from({ length: count }, (_, i) => session(`s${i}`, new Date(2025, 0, 1, 0, i)))
+    );
+
+    expect(screen.getAllByRole('button', { name: /^edit/i })).toHaveLength(HISTORY_PAGE_SIZE);
+    expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /previous/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /next/i }));
+
+    expect(screen.getAllByRole('button', { name: /^edit/i })).toHaveLength(5);
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+    // The day total still covers the sessions on the first page
+    expect(screen.getByText(`${count} sessions · 22h 55m`)).toBeInTheDocument();
+  });
+
+  it('should list sessions without day groups when sorted by duration', async () => {
+    await renderWithSessions([
+      session('short', new Date(2025, 0, 10, 9), { actualDuration: 300 }),
+      session('long', new Date(2025, 0, 11, 9), { mode: 'work', actualDuration: 3600 }),
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Sort'), { target: { value: 'shortest' } });
+
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+    const buttons = screen.getAllByRole('button', { name: /^edit/i });
+    expect(buttons[0]).toHaveAccessibleName(/^edit study session/i);
+    expect(buttons[1]).toHaveAccessibleName(/^edit work session/i);
+  });
+
+  it('should export the sessions matching the filters', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9)),
+      session('b', new Date(2025, 0, 10, 18), { mode: 'work' }),
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Focus mode'), { target: { value: 'work' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+
+    expect(screen.getByText('Download 1 session matching the filters.')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /^csv/i }));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      expect.objectContaining({ mimeType: 'text/csv' })
+    );
+    const [{ content }] = vi.mocked(downloadFile).mock.calls[0];
+    expect(content).toContain('b,work,Work');
+    expect(content).not.toContain('a,study');
+  });
+
+  it('should delete a session and undo it', async () => {
+    await renderWithSessions([
+      session('a', new Date(2025, 0, 10, 9)),
+      session('b', new Date(2025, 0, 10, 18), { mode: 'work' }),
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: /^delete work session/i }));
+
+    expect(screen.getByText('1 session')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('Session deleted');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(screen.getByText('2 sessions')).toBeInTheDocument();
+    await waitFor(async () => {
+      expect(await getAllSessions()).toHaveLength(2);
+    });
+  });
+});
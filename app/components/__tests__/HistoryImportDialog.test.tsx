@@ -0,0 +1,98 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import HistoryImportDialog from '../HistoryImportDialog';
+import { getFocusModeList } from '@/lib/constants/focus-modes';
+import { createHistoryBackup } from '@/lib/utils/historyExport';
+import { createTimerSession } from '@/lib/utils/timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const existing: TimerSession = {
+  ...createTimerSession({
+    mode: 'study',
+    actualDuration: 1500,
+    completed: true,
+    endTime: new Date('2025-01-10T10:00:00.000Z'),
+  }),
+  id: 'existing',
+};
+
+const onImport = vi.fn();
+
+const openWithFile = async (name: string, content: string) => {
+  const user = userEvent.setup();
+  render(
+    <HistoryImportDialog sessions={[existing]} modes={getFocusModeList()} onImport={onImport} />
+  );
+  await user.click(screen.getByRole('button', { name: 'Import' }));
+  await user.upload(screen.getByLabelText('File'), new File([content], name));
+  return user;
+};
+
+describe('HistoryImportDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restore a backup, skipping sessions already in the history', async () => {
+    const added: TimerSession = {
+      ...existing,
+      id: 'added',
+      startTime: '2025-01-11T09:35:00.000Z',
+      endTime: '2025-01-11T10:00:00.000Z',
+    };
+    const user = await openWithFile(
+      'backup.json',
+      JSON.stringify(createHistoryBackup([existing, added]))
+    );
+
+    expect(await screen.findByText('1 session ready to import, 1 skipped')).toBeInTheDocument();
+    expect(screen.getByText('Session 1: Already in your history (same id)')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Import sessions' }));
+
+    expect(onImport).toHaveBeenCalledWith([added]);
+    await waitFor(() => {
+      expect(screen.queryByText('Import History')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should show why a backup cannot be read', async () => {
+    await openWithFile('backup.json', '{"format":"other"}');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'The file is not a zenFocus history backup'
+    );
+    expect(screen.getByRole('button', { name: 'Import sessions' })).toBeDisabled();
+  });
+
+  it('should map CSV columns and update the preview when the mapping changes', async () => {
+    const user = await openWithFile(
+      'toggl.csv',
+      [
+        'Project,Start,Length',
+        'Work,2025-01-12T09:00:00Z,25',
+        'Gardening,2025-01-12T10:00:00Z,50',
+      ].join('\n')
+    );
+
+    expect(await screen.findByLabelText('Start time')).toHaveValue('1');
+    expect(screen.getByLabelText('Duration')).toHaveValue('');
+    expect(screen.getByText('0 sessions ready to import, 2 skipped')).toBeInTheDocument();
+    expect(screen.getByText('Row 2: No duration')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Duration'), { target: { value: '2' } });
+    fireEvent.change(screen.getByLabelText('Durations in'), { target: { value: 'minutes' } });
+    fireEvent.change(screen.getByLabelText('Other modes as'), { target: { value: 'yoga' } });
+
+    expect(screen.getByText('2 sessions ready to import')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Import sessions' }));
+
+    const [[sessions]] = onImport.mock.calls;
+    expect(sessions).toMatchObject([
+      { mode: 'work', actualDuration: 1500, endTime: '2025-01-12T09:25:00.000Z' },
+      { mode: 'yoga', actualDuration: 3000 },
+    ]);
+  });
+});
@@ -0,0 +1,292 @@
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import PomodoroTimer from '../PomodoroTimer';
+import { loadActiveTimer } from '@/lib/utils/activeTimerStorage';
+
+const mockNotify = vi.fn();
+
+// Mock useNotification hook
+vi.mock('@/lib/hooks/useNotification', () => ({
+  useNotification: () => ({
+    notify: mockNotify,
+    playSound: vi.fn(),
+    showNotification: vi.fn(),
+  }),
+}));
+
+const SETTINGS = {
+  focusDuration: 10,
+  shortBreakDuration: 3,
+  longBreakDuration: 5,
+  longBreakInterval: 2,
+  autoStartNext: false,
+};
+
+const saveSettings = (overrides: Partial<typeof SETTINGS> = {}) => {
+  localStorage.setItem('zenFocus_pomodoroSettings', JSON.stringify({ ...SETTINGS, ...overrides }));
+};
+
+const clickButton = (name: RegExp) => {
+  act(() => {
+    fireEvent.click(screen.getByRole('button', { name }));
+  });
+};
+
+// Advance a second at a time so React handles each phase change as it happens
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(Math.min(1000, ms - elapsed));
+    });
+  }
+};
+
+describe('PomodoroTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockNotify.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start with the first focus block', () => {
+    saveSettings();
+    render(<PomodoroTimer />);
+
+    expect(screen.getByText('Focus')).toBeInTheDocument();
+    expect(screen.getByText('Pomodoro 1 of 2')).toBeInTheDocument();
+    expect(screen.getByText('00:10')).toBeInTheDocument();
+  });
+
+  it('should move to a short break when a focus block completes', async () => {
+    saveSettings();
+    const onSessionComplete = vi.fn();
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    clickButton(/^start$/i);
+    await advance(10000);
+
+    expect(onSessionComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'study', actualDuration: 10, completed: true, phase: 'focus' })
+    );
+    expect(mockNotify).toHaveBeenCalledWith('Pomodoro Complete!', expect.any(String));
+    expect(screen.getByText('Short Break')).toBeInTheDocument();
+    expect(screen.getByText('Pomodoro 1 of 2')).toBeInTheDocument();
+    expect(screen.getByText('00:03')).toBeInTheDocument();
+    // Without auto-start the break waits for the user
+    expect(screen.getByRole('button', { name: /^start$/i })).toBeInTheDocument();
+  });
+
+  it('should record breaks with their phase', async () => {
+    saveSettings();
+    const onSessionComplete = vi.fn();
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    clickButton(/^start$/i);
+    await advance(10000);
+    clickButton(/^start$/i);
+    await advance(3000);
+
+    expect(onSessionComplete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mode: 'study', actualDuration: 3, completed: true, phase: 'shortBreak' })
+    );
+    expect(screen.getByText('Focus')).toBeInTheDocument();
+    expect(screen.getByText('Pomodoro 2 of 2')).toBeInTheDocument();
+  });
+
+  it('should take a long break after the last Pomodoro of a set and auto-start phases', async () => {
+    saveSettings({ autoStartNext: true });
+    const onSessionComplete = vi.fn();
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    clickButton(/^start$/i);
+    // focus 10s, short break 3s, focus 10s
+    await advance(23000);
+
+    expect(onSessionComplete.mock.calls.map(([session]) => session.phase)).toEqual([
+      'focus',
+      'shortBreak',
+      'focus',
+    ]);
+    expect(screen.getByText('Long Break')).toBeInTheDocument();
+    expect(screen.getByText('Pomodoro 2 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+
+    await advance(5000);
+    expect(onSessionComplete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mode: 'study', actualDuration: 5, completed: true, phase: 'longBreak' })
+    );
+    expect(screen.getByText('Pomodoro 1 of 2')).toBeInTheDocument();
+  });
+
+  it('should record a skipped phase as incomplete', async () => {
+    saveSettings();
+    const onSessionComplete = vi.fn();
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    clickButton(/^start$/i);
+    await advance(4000);
+    clickButton(/skip to break/i);
+
+    expect(onSessionComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'study', actualDuration: 4, completed: false, phase: 'focus' })
+    );
+    expect(screen.getByText('Short Break')).toBeInTheDocument();
+  });
+
+  it('should record phases under the selected focus mode', async () => {
+    saveSettings();
+    const onSessionComplete = vi.fn();
+    render(<PomodoroTimer focusMode="work" onSessionComplete={onSessionComplete} />);
+
+    clickButton(/^start$/i);
+    await advance(10000);
+    clickButton(/^start$/i);
+    await advance(1000);
+    clickButton(/skip break/i);
+
+    expect(onSessionComplete.mock.calls.map(([session]) => session.mode)).toEqual([
+      'work',
+      'work',
+    ]);
+    expect(loadActiveTimer('pomodoro')?.focusMode).toBe('work');
+  });
+
+  it('should attribute focus blocks to the task selected when they start', async () => {
+    saveSettings();
+    const onSessionComplete = vi.fn();
+    const { rerender } = render(
+      <PomodoroTimer taskId="task-1" onSessionComplete={onSessionComplete} />
+    );
+
+    clickButton(/^start$/i);
+    // Selecting another task does not move the block already running
+    rerender(<PomodoroTimer taskId="task-2" onSessionComplete={onSessionComplete} />);
+    await advance(10000);
+    clickButton(/^start$/i);
+    await advance(3000);
+
+    const [focusBlock, shortBreak] = onSessionComplete.mock.calls.map(([session]) => session);
+    expect(focusBlock).toMatchObject({ phase: 'focus', taskId: 'task-1' });
+    expect(shortBreak.phase).toBe('shortBreak');
+    expect(shortBreak.taskId).toBeUndefined();
+  });
+
+  it('should restart the cycle from the first Pomodoro', async () => {
+    saveSettings();
+    render(<PomodoroTimer />);
+
+    clickButton(/skip to break/i);
+    clickButton(/skip break/i);
+    expect(screen.getByText('Pomodoro 2 of 2')).toBeInTheDocument();
+
+    clickButton(/restart cycle/i);
+    expect(screen.getByText('Pomodoro 1 of 2')).toBeInTheDocument();
+    expect(screen.getByText('00:10')).toBeInTheDocument();
+  });
+
+  it('should save edited settings', () => {
+    saveSettings();
+    render(<PomodoroTimer />);
+
+    clickButton(/settings/i);
+    act(() => {
+      fireEvent.change(screen.getByLabelText(/short break/i), { target: { value: '7' } });
+    });
+
+    const stored = JSON.parse(localStorage.getItem('zenFocus_pomodoroSettings')!);
+    expect(stored.shortBreakDuration).toBe(420);
+  });
+
+  it('should persist the cycle position and restore it after a reload', async () => {
+    saveSettings();
+    const { unmount } = render(<PomodoroTimer />);
+
+    clickButton(/^start$/i);
+    await advance(10000);
+    clickButton(/^start$/i);
+    await advance(1000);
+
+    expect(loadActiveTimer('pomodoro')).toMatchObject({
+      phase: 'shortBreak',
+      completedFocusBlocks: 1,
+    });
+
+    unmount();
+    render(<PomodoroTimer />);
+
+    expect(screen.getByText('Short Break')).toBeInTheDocument();
+    expect(screen.getByText('00:02')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+  });
+
+  it('should record every phase that ran out while the page was closed with its end time', () => {
+    saveSettings({ autoStartNext: true });
+    const startedAt = Date.now() - 15000;
+    localStorage.setItem(
+      'zenFocus_activeTimer_pomodoro',
+      JSON.stringify({
+        kind: 'pomodoro',
+        focusMode: 'work',
+        clock: { durationMs: 10000, startedAt, pausedAt: null, pausedMs: 0 },
+        phase: 'focus',
+        completedFocusBlocks: 0,
+        savedAt: startedAt,
+      })
+    );
+    const onSessionComplete = vi.fn();
+
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    // focus 10s and short break 3s ran out, the second focus block has 8s left
+    expect(onSessionComplete.mock.calls.map(([session]) => session)).toEqual([
+      expect.objectContaining({
+        mode: 'work',
+        phase: 'focus',
+        completed: true,
+        startTime: new Date(startedAt),
+        endTime: new Date(startedAt + 10000),
+      }),
+      expect.objectContaining({
+        mode: 'work',
+        phase: 'shortBreak',
+        completed: true,
+        startTime: new Date(startedAt + 10000),
+        endTime: new Date(startedAt + 13000),
+      }),
+    ]);
+    expect(screen.getByText('Focus')).toBeInTheDocument();
+    expect(screen.getByText('Pomodoro 2 of 2')).toBeInTheDocument();
+    expect(screen.getByText('00:08')).toBeInTheDocument();
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('should wait at the next phase when a restored phase ran out without auto-start', () => {
+    saveSettings();
+    const startedAt = Date.now() - 60000;
+    localStorage.setItem(
+      'zenFocus_activeTimer_pomodoro',
+      JSON.stringify({
+        kind: 'pomodoro',
+        clock: { durationMs: 10000, startedAt, pausedAt: null, pausedMs: 0 },
+        phase: 'focus',
+        completedFocusBlocks: 0,
+        savedAt: startedAt,
+      })
+    );
+    const onSessionComplete = vi.fn();
+
+    render(<PomodoroTimer onSessionComplete={onSessionComplete} />);
+
+    expect(onSessionComplete).toHaveBeenCalledTimes(1);
+    expect(onSessionComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'study', phase: 'focus', endTime: new Date(startedAt + 10000) })
+    );
+    expect(screen.getByText('Short Break')).toBeInTheDocument();
+    expect(screen.getByText('00:03')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^start$/i })).toBeInTheDocument();
+  });
+});
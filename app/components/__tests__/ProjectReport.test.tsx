@@ -0,0 +1,82 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ProjectReport from '../ProjectReport';
+import { putSessions } from '@/lib/utils/sessionStore';
+import { createTimerSession } from '@/lib/utils/timerSession';
+import { downloadFile } from '@/lib/utils/historyExport';
+import { saveProjects } from '@/lib/utils/projects';
+import type { Project } from '@/lib/types/projects';
+
+vi.mock('@/lib/utils/historyExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils/historyExport')>()),
+  downloadFile: vi.fn(),
+}));
+
+const acme: Project = {
+  id: 'acme',
+  name: 'Acme',
+  color: 'bg-blue-100',
+  hourlyRate: 80,
+  archived: false,
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+// Local times, so the date range holds in any time zone
+const session = (projectId: string | undefined, actualDuration: number, end: Date) =>
+  createTimerSession({ mode: 'work', actualDuration, completed: true, projectId, endTime: end });
+
+const renderReport = async () => {
+  saveProjects([acme]);
+  await putSessions([
+    session('acme', 5400, new Date(2025, 0, 10, 9)),
+    session(undefined, 1800, new Date(2025, 0, 11, 9)),
+    session('acme', 3600, new Date(2025, 1, 3, 9)),
+  ]);
+  render(<ProjectReport />);
+  fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-01-01' } });
+  fireEvent.change(screen.getByLabelText('To'), { target: { value: '2025-01-31' } });
+  return screen.findByRole('table', { name: 'Time by project' });
+};
+
+describe('ProjectReport', () => {
+  it('should sum time per project in the chosen range and bill it', async () => {
+    const table = await renderReport();
+
+    const acmeRow = within(table).getByRole('row', { name: /^acme/i });
+    expect(within(acmeRow).getAllByRole('cell').map((cell) => cell.textContent)).toEqual([
+      '1',
+      '1h 30m',
+      '1.50',
+      (80).toLocaleString(undefined, { minimumFractionDigits: 2 }),
+      (120).toLocaleString(undefined, { minimumFractionDigits: 2 }),
+    ]);
+    expect(within(table).getByRole('row', { name: /^no project/i })).toHaveTextContent('0.50');
+    expect(within(table).getByRole('row', { name: /^total/i })).toHaveTextContent('2.00');
+  });
+
+  it('should export the report as CSV and print it', async () => {
+    const print = vi.spyOn(window, 'print').mockImplementation(() => {});
+    await renderReport();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Print' }));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      expect.objectContaining({ filename: 'zenfocus-report-2025-01-01-to-2025-01-31.csv' })
+    );
+    const [{ content }] = vi.mocked(downloadFile).mock.calls[0];
+    expect(content).toContain('Acme,1,1.50,80.00,120.00');
+    expect(print).toHaveBeenCalled();
+  });
+
+  it('should show an empty state for a range without focus time', async () => {
+    await renderReport();
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-03-01' } });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2025-03-31' } });
+
+    expect(screen.getByText('No focus sessions in this range')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export CSV' })).toBeDisabled();
+  });
+});
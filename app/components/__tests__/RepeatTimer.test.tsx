@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { render, screen, waitFor, act } from "@testing-library/react";
+import { render, screen, waitFor, act, fireEvent } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import RepeatTimer from "../RepeatTimer";
+import { createSimpleProgram } from "@/lib/utils/intervalProgram";
 
 describe("RepeatTimer", () => {
   beforeEach(() => {
@@ -789,4 +790,178 @@ describe("RepeatTimer", () => {
       vi.useRealTimers();
     });
   });
+
+  describe("Persistence", () => {
+    const saveSnapshot = (overrides: Record<string, unknown> = {}) => {
+      localStorage.setItem(
+        "zenFocus_activeTimer_interval",
+        JSON.stringify({
+          kind: "interval",
+          clock: {
+            durationMs: 30000,
+            startedAt: Date.now() - 10000,
+            pausedAt: null,
+            pausedMs: 0,
+          },
+          program: createSimpleProgram(30, 4),
+          currentStep: 1,
+          accumulatedElapsedTime: 0,
+          beepEnabled: false,
+          savedAt: Date.now(),
+          ...overrides,
+        })
+      );
+    };
+
+    it("should save rounds in progress to storage", async () => {
+      const user = userEvent.setup();
+      render(<RepeatTimer />);
+
+      await user.type(screen.getByLabelText(/duration/i), "30");
+      await user.type(screen.getByLabelText(/repetitions/i), "2");
+      await user.click(screen.getByRole("button", { name: /start/i }));
+
+      const saved = JSON.parse(
+        localStorage.getItem("zenFocus_activeTimer_interval")!
+      );
+      expect(saved).toMatchObject({
+        program: createSimpleProgram(30, 2),
+        currentStep: 1,
+      });
+    });
+
+    it("should record rounds that finished while the page was closed", () => {
+      const onSessionComplete = vi.fn();
+      // Round 1 started 70s ago: rounds 1 and 2 are done, round 3 is 10s in
+      saveSnapshot({
+        clock: {
+          durationMs: 30000,
+          startedAt: Date.now() - 70000,
+          pausedAt: null,
+          pausedMs: 0,
+        },
+      });
+
+      render(<RepeatTimer onSessionComplete={onSessionComplete} />);
+
+      expect(screen.getByText(/round 3 of 4/i)).toBeInTheDocument();
+      expect(screen.getByText("00:20")).toBeInTheDocument();
+      expect(onSessionComplete).toHaveBeenCalledTimes(2);
+      expect(onSessionComplete).toHaveBeenCalledWith("interval", 30, true);
+    });
+
+    it("should offer to resume paused rounds", async () => {
+      const user = userEvent.setup();
+      saveSnapshot({
+        currentStep: 2,
+        clock: {
+          durationMs: 30000,
+          startedAt: Date.now() - 10000,
+          pausedAt: Date.now() - 5000,
+          pausedMs: 0,
+        },
+      });
+
+      render(<RepeatTimer />);
+
+      expect(
+        screen.getByText(/paused interval timer on round 2 of 4/i)
+      ).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: /resume/i }));
+
+      expect(screen.getByText(/round 2 of 4/i)).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: /pause/i })).toBeInTheDocument();
+    });
+  });
+
+  describe("Interval Programs", () => {
+    const setUpProgram = () => {
+      fireEvent.click(screen.getByRole("button", { name: /^program$/i }));
+      // Default program: work 30s, rest 15s, 4 rounds
+      fireEvent.change(screen.getByLabelText(/segment 1 seconds/i), {
+        target: { value: "20" },
+      });
+      fireEvent.change(screen.getByLabelText(/segment 2 seconds/i), {
+        target: { value: "10" },
+      });
+      fireEvent.change(screen.getByLabelText(/^rounds$/i), {
+        target: { value: "2" },
+      });
+      fireEvent.click(screen.getByRole("button", { name: /\+?\s*warmup/i }));
+      fireEvent.change(screen.getByLabelText(/segment 3 seconds/i), {
+        target: { value: "5" },
+      });
+    };
+
+    it("should compute the total from the whole program", () => {
+      render(<RepeatTimer />);
+      setUpProgram();
+
+      // 5 + 2 × (20 + 10)
+      expect(screen.getByText(/total: 1 minute 5 seconds/i)).toBeInTheDocument();
+      expect(
+        screen.getByRole("list", { name: /upcoming segments/i })
+      ).toBeInTheDocument();
+    });
+
+    it("should run segments in program order and record each one", async () => {
+      vi.useFakeTimers();
+      const onSessionComplete = vi.fn();
+      render(<RepeatTimer onSessionComplete={onSessionComplete} />);
+      setUpProgram();
+
+      fireEvent.click(screen.getByRole("button", { name: /start/i }));
+      expect(screen.getByText(/step 1 of 5/i)).toBeInTheDocument();
+
+      // Warmup, then the first work segment of round 1
+      for (let i = 0; i < 5; i++) {
+        await act(async () => {
+          await vi.advanceTimersByTimeAsync(1000);
+        });
+      }
+      expect(screen.getByText(/round 1 of 2/i)).toBeInTheDocument();
+      expect(screen.getAllByText("00:20").length).toBeGreaterThan(0);
+      expect(onSessionComplete).toHaveBeenCalledWith("interval", 5, true);
+
+      const current = screen
+        .getByRole("list", { name: /upcoming segments/i })
+        .querySelector('[aria-current="step"]');
+      expect(current).toHaveTextContent(/work/i);
+    });
+  });
+
+  describe("Presets", () => {
+    it("should load a built-in preset into the program builder", () => {
+      render(<RepeatTimer />);
+
+      fireEvent.click(screen.getByRole("button", { name: /load tabata/i }));
+
+      expect(screen.getByRole("button", { name: /^program$/i })).toHaveAttribute(
+        "aria-pressed",
+        "true"
+      );
+      expect(screen.getByLabelText(/segment 1 seconds/i)).toHaveValue(20);
+      expect(screen.getByLabelText(/segment 2 seconds/i)).toHaveValue(10);
+      // 8 × (20 + 10)
+      expect(screen.getByText(/total: 4 minutes/i)).toBeInTheDocument();
+    });
+
+    it("should save the simple configuration and load it back", () => {
+      render(<RepeatTimer />);
+
+      fireEvent.change(screen.getByLabelText(/duration/i), { target: { value: "45" } });
+      fireEvent.change(screen.getByLabelText(/repetitions/i), { target: { value: "3" } });
+      fireEvent.change(screen.getByLabelText(/preset name/i), {
+        target: { value: "Planks" },
+      });
+      fireEvent.click(screen.getByRole("button", { name: /save as preset/i }));
+
+      fireEvent.change(screen.getByLabelText(/duration/i), { target: { value: "10" } });
+      fireEvent.click(screen.getByRole("button", { name: /load planks/i }));
+
+      expect(screen.getByLabelText(/duration/i)).toHaveValue(45);
+      expect(screen.getByLabelText(/repetitions/i)).toHaveValue(3);
+    });
+  });
 });
@@ -0,0 +1,166 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import Settings from '../Settings';
+
+const mockSetTheme = vi.fn();
+
+vi.mock('next-themes', () => ({
+  useTheme: () => ({ setTheme: mockSetTheme }),
+}));
+
+const storedPreferences = () =>
+  JSON.parse(localStorage.getItem('zenFocus_preferences') ?? '{}');
+
+describe('Settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list a default duration for every focus mode, including custom modes', () => {
+    localStorage.setItem(
+      'zenFocus_customFocusModes',
+      JSON.stringify([
+        {
+          value: 'custom-reading',
+          label: 'Reading',
+          title: 'Reading Timer',
+          description: '',
+          duration: 2700,
+          color: '',
+        },
+      ])
+    );
+
+    render(<Settings />);
+
+    expect(screen.getByLabelText('Study')).toHaveAttribute('placeholder', '25');
+    expect(screen.getByLabelText('Reading')).toHaveAttribute('placeholder', '45');
+  });
+
+  it('should save a duration override when the field loses focus', () => {
+    render(<Settings />);
+
+    const study = screen.getByLabelText('Study');
+    fireEvent.change(study, { target: { value: '50' } });
+    fireEvent.blur(study);
+
+    expect(storedPreferences().defaultDuration).toEqual({ study: 3000 });
+    expect(study).toHaveValue('50');
+  });
+
+  it('should reject invalid durations', () => {
+    render(<Settings />);
+
+    const work = screen.getByLabelText('Work');
+    fireEvent.change(work, { target: { value: '0' } });
+    fireEvent.keyDown(work, { key: 'Enter' });
+
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(localStorage.getItem('zenFocus_preferences')).toBeNull();
+  });
+
+  it('should go back to the mode duration when reset', () => {
+    localStorage.setItem(
+      'zenFocus_preferences',
+      JSON.stringify({ defaultDuration: { yoga: 900 } })
+    );
+    render(<Settings />);
+
+    expect(screen.getByLabelText('Yoga')).toHaveValue('15');
+    fireEvent.click(screen.getByRole('button', { name: /default duration for yoga/i }));
+
+    expect(screen.getByLabelText('Yoga')).toHaveValue('');
+    expect(storedPreferences().defaultDuration).toEqual({});
+  });
+
+  it('should toggle sound, notifications and the reflection prompt', () => {
+    render(<Settings />);
+
+    fireEvent.click(screen.getByLabelText(/play a sound/i));
+    fireEvent.click(screen.getByLabelText(/system notification/i));
+    fireEvent.click(screen.getByLabelText(/notes and ratings/i));
+
+    expect(storedPreferences()).toMatchObject({
+      soundEnabled: false,
+      notificationsEnabled: false,
+      reflectionPrompt: false,
+    });
+  });
+
+  it('should add and delete goals', () => {
+    render(<Settings />);
+
+    fireEvent.change(screen.getByLabelText('Focus mode'), { target: { value: 'work' } });
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '3' } });
+    fireEvent.click(screen.getByLabelText('Sat'));
+    fireEvent.click(screen.getByLabelText('Sun'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add goal' }));
+
+    expect(storedPreferences().goals).toEqual([
+      {
+        id: expect.any(String),
+        mode: 'work',
+        metric: 'focusTime',
+        target: 10800,
+        period: 'day',
+        weekdays: [1, 2, 3, 4, 5],
+      },
+    ]);
+    expect(screen.getByText('3h of Work every weekday')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Measure'), { target: { value: 'sessions' } });
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '10' } });
+    fireEvent.change(screen.getByLabelText('Every'), { target: { value: 'week' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add goal' }));
+
+    expect(screen.getByText('10 Work sessions a week')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete goal: 3h of Work every weekday' }));
+
+    expect(storedPreferences().goals).toEqual([
+      expect.objectContaining({ metric: 'sessions', target: 10, period: 'week' }),
+    ]);
+  });
+
+  it('should reject goals without a target', () => {
+    render(<Settings />);
+
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '0' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add goal' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter the hours to focus');
+    expect(storedPreferences().goals).toBeUndefined();
+  });
+
+  it('should count streaks by goals when chosen', () => {
+    render(<Settings />);
+
+    fireEvent.click(screen.getByLabelText(/daily goals were met/i));
+
+    expect(storedPreferences().goalStreaks).toBe(true);
+  });
+
+  it('should save the time zone and the hour days start at', () => {
+    render(<Settings />);
+
+    fireEvent.change(screen.getByLabelText('Time zone'), { target: { value: 'Europe/Berlin' } });
+    fireEvent.change(screen.getByLabelText('Day starts at'), { target: { value: '4' } });
+
+    expect(storedPreferences()).toMatchObject({ timeZone: 'Europe/Berlin', dayStartHour: 4 });
+
+    fireEvent.change(screen.getByLabelText('Time zone'), { target: { value: '' } });
+
+    expect(storedPreferences().timeZone).toBeUndefined();
+    expect(screen.getByLabelText('Day starts at')).toHaveValue('4');
+  });
+
+  it('should apply and remember the theme', () => {
+    render(<Settings />);
+
+    fireEvent.change(screen.getByLabelText('Theme'), { target: { value: 'dark' } });
+
+    expect(mockSetTheme).toHaveBeenCalledWith('dark');
+    expect(storedPreferences().theme).toBe('dark');
+  });
+});
@@ -0,0 +1,172 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TaskList from '../TaskList';
+import type { Project } from '@/lib/types/projects';
+import type { FocusTask } from '@/lib/types/tasks';
+
+const task = (id: string, title: string, extra: Partial<FocusTask> = {}): FocusTask => ({
+  id,
+  title,
+  completed: false,
+  archived: false,
+  createdAt: '2025-01-10T09:00:00.000Z',
+  ...extra,
+});
+
+const project = (id: string, name: string, extra: Partial<Project> = {}): Project => ({
+  id,
+  name,
+  color: 'bg-blue-100',
+  archived: false,
+  createdAt: '2025-01-10T09:00:00.000Z',
+  ...extra,
+});
+
+const renderList = (
+  tasks: FocusTask[],
+  activeTaskId: string | null = null,
+  projects: Project[] = []
+) => {
+  const handlers = {
+    onAdd: vi.fn(),
+    onUpdate: vi.fn(),
+    onSelect: vi.fn(),
+    onCompletedChange: vi.fn(),
+    onArchivedChange: vi.fn(),
+    onMove: vi.fn(),
+  };
+  render(
+    <TaskList
+      tasks={tasks}
+      activeTaskId={activeTaskId}
+      progress={{ report: { pomodoros: 2, totalTime: 3000 } }}
+      projects={projects}
+      {...handlers}
+    />
+  );
+  return handlers;
+};
+
+describe('TaskList', () => {
+  it('should add a task with an estimate', async () => {
+    const user = userEvent.setup();
+    const { onAdd } = renderList([]);
+
+    await user.type(screen.getByLabelText('Task'), ' Write report ');
+    await user.type(screen.getByLabelText('Pomodoros'), '4');
+    await user.click(screen.getByRole('button', { name: 'Add task' }));
+
+    expect(onAdd).toHaveBeenCalledWith('Write report', 4, undefined);
+    expect(screen.queryByLabelText('Project')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Task')).toHaveValue('');
+  });
+
+  it('should ask for a title', async () => {
+    const user = userEvent.setup();
+    const { onAdd } = renderList([]);
+
+    await user.click(screen.getByRole('button', { name: 'Add task' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please enter a task');
+    expect(onAdd).not.toHaveBeenCalled();
+  });
+
+  it('should show estimated and actual Pomodoros with the focus time', () => {
+    renderList([task('report', 'Write report', { estimatedPomodoros: 4 }), task('email', 'Email')]);
+
+    const list = screen.getByRole('list', { name: 'Tasks' });
+    expect(within(list).getByText('2 of 4 Pomodoros · 50m')).toBeInTheDocument();
+    expect(within(list).getByText('0 Pomodoros · 0m')).toBeInTheDocument();
+  });
+
+  it('should select an open task to work on', async () => {
+    const user = userEvent.setup();
+    const { onSelect } = renderList(
+      [task('report', 'Write report'), task('email', 'Email', { completed: true })],
+      'report'
+    );
+
+    expect(screen.getByRole('radio', { name: 'Write report' })).toBeChecked();
+    expect(screen.getByRole('radio', { name: 'Email' })).toBeDisabled();
+
+    await user.click(screen.getByRole('radio', { name: 'No task' }));
+
+    expect(onSelect).toHaveBeenCalledWith(null);
+  });
+
+  it('should complete, reorder and archive tasks', async () => {
+    const user = userEvent.setup();
+    const { onCompletedChange, onMove, onArchivedChange } = renderList([
+      task('report', 'Write report'),
+      task('email', 'Email'),
+    ]);
+
+    expect(screen.getByRole('button', { name: 'Move Write report up' })).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: 'Move Email up' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Mark Write report as done' }));
+    await user.click(screen.getByRole('button', { name: 'Archive Email' }));
+
+    expect(onMove).toHaveBeenCalledWith('email', -1);
+    expect(onCompletedChange).toHaveBeenCalledWith('report', true);
+    expect(onArchivedChange).toHaveBeenCalledWith('email', true);
+  });
+
+  it('should edit a task', async () => {
+    const user = userEvent.setup();
+    const { onUpdate } = renderList([task('report', 'Write report', { estimatedPomodoros: 4 })]);
+
+    await user.click(screen.getByRole('button', { name: 'Edit Write report' }));
+    await user.clear(screen.getByLabelText('Pomodoros'));
+    await user.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    expect(onUpdate).toHaveBeenCalledWith('report', {
+      title: 'Write report',
+      estimatedPomodoros: undefined,
+    });
+  });
+
+  it('should put tasks in active projects', async () => {
+    const user = userEvent.setup();
+    const { onAdd, onUpdate } = renderList(
+      [task('report', 'Write report', { projectId: 'old' })],
+      null,
+      [project('acme', 'Acme'), project('old', 'Old client', { archived: true })]
+    );
+
+    const list = screen.getByRole('list', { name: 'Tasks' });
+    expect(within(list).getByText('Old client')).toBeInTheDocument();
+    expect(
+      within(screen.getByLabelText('Project')).queryByText('Old client')
+    ).not.toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Task'), 'Invoice');
+    await user.selectOptions(screen.getByLabelText('Project'), 'Acme');
+    await user.click(screen.getByRole('button', { name: 'Add task' }));
+
+    expect(onAdd).toHaveBeenCalledWith('Invoice', undefined, 'acme');
+
+    await user.click(screen.getByRole('button', { name: 'Edit Write report' }));
+    expect(screen.getByLabelText('Project')).toHaveValue('old');
+    await user.selectOptions(screen.getByLabelText('Project'), 'No project');
+    await user.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    expect(onUpdate).toHaveBeenCalledWith('report', {
+      title: 'Write report',
+      estimatedPomodoros: undefined,
+      projectId: undefined,
+    });
+  });
+
+  it('should restore archived tasks', async () => {
+    const user = userEvent.setup();
+    const { onArchivedChange } = renderList([task('report', 'Write report', { archived: true })]);
+
+    expect(screen.queryByRole('list', { name: 'Tasks' })).not.toBeInTheDocument();
+    await user.click(screen.getByText('Archived (1)'));
+    await user.click(screen.getByRole('button', { name: 'Restore Write report' }));
+
+    expect(onArchivedChange).toHaveBeenCalledWith('report', false);
+  });
+});
@@ -1,6 +1,6 @@
 import React from 'react';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { render, screen, act, fireEvent } from '@testing-library/react';
+import { render, screen, act, fireEvent, waitFor } from '@testing-library/react';
 import Timer from '../Timer';
 
 // Mock DurationInput component
@@ -9,9 +9,10 @@ vi.mock('../DurationInput', () => ({
 }));
 
 // Mock useNotification hook
+const mockNotify = vi.fn();
 vi.mock('@/lib/hooks/useNotification', () => ({
   useNotification: () => ({
-    notify: vi.fn(),
+    notify: mockNotify,
     playSound: vi.fn(),
     showNotification: vi.fn(),
   }),
@@ -207,30 +208,177 @@ describe('Timer Integration Tests', () => {
         await vi.runAllTimersAsync();
       });
 
-      expect(onSessionComplete).toHaveBeenCalledWith('study', 3, true);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'study', actualDuration: 3, completed: true })
+      );
     });
 
-    it('should call onSessionComplete with completed=false when timer is paused', async () => {
+    it('should record the intention with the session and clear it afterwards', async () => {
       const onSessionComplete = vi.fn();
-      render(<Timer duration={10} focusMode="work" onSessionComplete={onSessionComplete} />);
+      render(<Timer duration={3} focusMode="study" onSessionComplete={onSessionComplete} />);
 
+      fireEvent.change(screen.getByLabelText('What are you focusing on?'), {
+        target: { value: ' Outline chapter 3 ' },
+      });
       act(() => {
         fireEvent.click(screen.getByRole('button', { name: /start/i }));
       });
 
+      expect(screen.getByText(/Outline chapter 3/)).toBeInTheDocument();
+      expect(screen.queryByLabelText('What are you focusing on?')).not.toBeInTheDocument();
+
       await act(async () => {
-        await vi.advanceTimersByTimeAsync(5000);
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
       });
 
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ completed: true, intention: 'Outline chapter 3' })
+      );
+      expect(screen.getByLabelText('What are you focusing on?')).toHaveValue('');
+    });
+
+    it('should attribute the session to the task selected when it started', async () => {
+      const onSessionComplete = vi.fn();
+      const { rerender } = render(
+        <Timer duration={3} focusMode="study" taskId="task-1" onSessionComplete={onSessionComplete} />
+      );
+
       act(() => {
-        fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
       });
+      rerender(
+        <Timer duration={3} focusMode="study" taskId="task-2" onSessionComplete={onSessionComplete} />
+      );
 
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
       await act(async () => {
         await vi.runAllTimersAsync();
       });
 
-      expect(onSessionComplete).toHaveBeenCalledWith('work', 5, false);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ completed: true, taskId: 'task-1' })
+      );
+    });
+
+    it('should record the interruptions logged while it ran', async () => {
+      const onSessionComplete = vi.fn();
+      render(<Timer duration={3} focusMode="study" onSessionComplete={onSessionComplete} />);
+
+      expect(screen.queryByRole('form', { name: 'Log an interruption' })).not.toBeInTheDocument();
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+
+      fireEvent.change(screen.getByLabelText('Interruption note'), {
+        target: { value: ' Book flights ' },
+      });
+      fireEvent.submit(screen.getByRole('form', { name: 'Log an interruption' }));
+      fireEvent.click(screen.getByRole('radio', { name: 'External' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Log' }));
+
+      expect(screen.getByRole('status')).toHaveTextContent('2 logged');
+      expect(screen.getByLabelText('Interruption note')).toHaveValue('');
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          completed: true,
+          interruptions: [
+            { kind: 'later', at: expect.any(String), note: 'Book flights' },
+            { kind: 'external', at: expect.any(String) },
+          ],
+        })
+      );
+    });
+
+    it('should record a paused session once, with its pauses, when it is reset', async () => {
+      const onSessionComplete = vi.fn();
+      render(<Timer duration={10} focusMode="work" onSessionComplete={onSessionComplete} />);
+      const startedAt = Date.now();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(4000);
+      });
+
+      expect(onSessionComplete).not.toHaveBeenCalled();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledTimes(1);
+      expect(onSessionComplete).toHaveBeenCalledWith({
+        mode: 'work',
+        actualDuration: 7,
+        plannedDuration: 10,
+        completed: false,
+        startTime: new Date(startedAt),
+        endTime: new Date(startedAt + 11000),
+        pauses: [
+          {
+            pausedAt: new Date(startedAt + 5000).toISOString(),
+            resumedAt: new Date(startedAt + 9000).toISOString(),
+          },
+        ],
+      });
+    });
+
+    it('should end a session reset while paused where it was paused', async () => {
+      const onSessionComplete = vi.fn();
+      render(<Timer duration={10} focusMode="work" onSessionComplete={onSessionComplete} />);
+      const startedAt = Date.now();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(60000);
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledTimes(1);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actualDuration: 5,
+          completed: false,
+          endTime: new Date(startedAt + 5000),
+          pauses: [],
+        })
+      );
     });
 
     it('should not call onSessionComplete if timer runs for less than 1 second', async () => {
@@ -248,6 +396,9 @@ describe('Timer Integration Tests', () => {
       act(() => {
         fireEvent.click(screen.getByRole('button', { name: /pause/i }));
       });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
 
       await act(async () => {
         await vi.runAllTimersAsync();
@@ -272,7 +423,9 @@ describe('Timer Integration Tests', () => {
         await vi.runAllTimersAsync();
       });
 
-      expect(onSessionComplete).toHaveBeenCalledWith('meditation', 2, true);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'meditation', actualDuration: 2, completed: true })
+      );
     });
   });
 
@@ -425,4 +578,365 @@ describe('Timer Integration Tests', () => {
       expect(screen.getByText('00:00')).toBeInTheDocument();
     });
   });
+
+  describe('Stopwatch', () => {
+    it('should count up past its target, notify once and record the time it ran', async () => {
+      const onSessionComplete = vi.fn();
+      render(
+        <Timer duration={600} title="Study Timer" focusMode="study" onSessionComplete={onSessionComplete} />
+      );
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Stopwatch' }));
+      fireEvent.change(screen.getByLabelText('Notify me after (minutes)'), {
+        target: { value: '0.05' },
+      });
+      expect(screen.getByText('00:00')).toBeInTheDocument();
+      expect(screen.getByText('Target 00:03')).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+      });
+
+      expect(screen.getByText('00:05')).toBeInTheDocument();
+      expect(screen.getByText('Target reached')).toBeInTheDocument();
+      expect(mockNotify).toHaveBeenCalledTimes(1);
+      expect(mockNotify).toHaveBeenCalledWith('Study Timer target reached', expect.any(String));
+      expect(onSessionComplete).not.toHaveBeenCalled();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /finish/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledTimes(1);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: 'study',
+          actualDuration: 5,
+          plannedDuration: 3,
+          completed: true,
+          endTime: new Date(),
+        })
+      );
+      expect(screen.getByText('00:00')).toBeInTheDocument();
+      expect(screen.getByRole('radio', { name: 'Stopwatch' })).toBeChecked();
+    });
+
+    it('should record a session finished before its target as incomplete', async () => {
+      const onSessionComplete = vi.fn();
+      render(<Timer duration={600} onSessionComplete={onSessionComplete} />);
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Stopwatch' }));
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /finish/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ actualDuration: 2, plannedDuration: 600, completed: false })
+      );
+    });
+
+    it('should start open-ended for a mode without a duration and take laps', async () => {
+      const onSessionComplete = vi.fn();
+      render(<Timer duration={0} focusMode="interval" onSessionComplete={onSessionComplete} />);
+
+      expect(screen.getByRole('radio', { name: 'Stopwatch' })).toBeChecked();
+      expect(screen.getByLabelText('Notify me after (minutes)')).toHaveValue(null);
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Lap' }));
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Lap' }));
+
+      const laps = screen.getByRole('list', { name: 'Laps' });
+      expect(Array.from(laps.children).map((lap) => lap.textContent)).toEqual([
+        'Lap 100:0300:03',
+        'Lap 200:0200:05',
+      ]);
+      expect(JSON.parse(localStorage.getItem('zenFocus_activeTimer_focus')!).laps).toEqual([3, 5]);
+      expect(mockNotify).not.toHaveBeenCalled();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /finish/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'interval', actualDuration: 5, completed: true })
+      );
+      expect(onSessionComplete.mock.calls[0][0].plannedDuration).toBeUndefined();
+      expect(screen.queryByRole('list', { name: 'Laps' })).not.toBeInTheDocument();
+    });
+
+    it('should keep a stopwatch running after reload', () => {
+      localStorage.setItem(
+        'zenFocus_activeTimer_focus',
+        JSON.stringify({
+          kind: 'focus',
+          focusMode: 'study',
+          clock: {
+            durationMs: 10000,
+            startedAt: Date.now() - 75000,
+            pausedAt: null,
+            pausedMs: 0,
+            countUp: true,
+          },
+          sessionStartRemaining: 10,
+          laps: [30],
+          savedAt: Date.now(),
+        })
+      );
+
+      render(<Timer duration={10} focusMode="study" />);
+
+      expect(screen.getByText('01:15')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+      expect(screen.getByRole('list', { name: 'Laps' })).toHaveTextContent('Lap 100:3000:30');
+      expect(mockNotify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Session persistence', () => {
+    const saveSnapshot = (clock: object, sessionStartRemaining: number | null = 10) => {
+      localStorage.setItem(
+        'zenFocus_activeTimer_focus',
+        JSON.stringify({
+          kind: 'focus',
+          focusMode: 'study',
+          clock,
+          sessionStartRemaining,
+          savedAt: Date.now(),
+        })
+      );
+    };
+
+    it('should save the running session to storage', () => {
+      render(<Timer duration={10} focusMode="work" />);
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+
+      const saved = JSON.parse(localStorage.getItem('zenFocus_activeTimer_focus')!);
+      expect(saved.focusMode).toBe('work');
+      expect(saved.clock.startedAt).toBe(Date.now());
+      expect(saved.sessionStartRemaining).toBe(10);
+    });
+
+    it('should save an intention changed while paused', () => {
+      render(<Timer duration={10} />);
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+      });
+      act(() => {
+        fireEvent.change(screen.getByLabelText(/what are you focusing on/i), {
+          target: { value: 'Outline chapter 3' },
+        });
+      });
+
+      const saved = JSON.parse(localStorage.getItem('zenFocus_activeTimer_focus')!);
+      expect(saved.intention).toBe('Outline chapter 3');
+    });
+
+    it('should clear the saved session on reset', () => {
+      render(<Timer duration={10} />);
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /start/i }));
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
+
+      expect(localStorage.getItem('zenFocus_activeTimer_focus')).toBeNull();
+    });
+
+    it('should continue a running session after reload', () => {
+      saveSnapshot({ durationMs: 10000, startedAt: Date.now() - 3000, pausedAt: null, pausedMs: 0 });
+
+      render(<Timer duration={10} focusMode="study" />);
+
+      expect(screen.getByText('00:07')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+    });
+
+    it('should record a session that ran out while the page was closed as completed', () => {
+      const onSessionComplete = vi.fn();
+      saveSnapshot({ durationMs: 10000, startedAt: Date.now() - 60000, pausedAt: null, pausedMs: 0 });
+
+      render(<Timer duration={10} focusMode="study" onSessionComplete={onSessionComplete} />);
+
+      expect(onSessionComplete).toHaveBeenCalledTimes(1);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: 'study',
+          actualDuration: 10,
+          completed: true,
+          endTime: new Date(Date.now() - 50000),
+        })
+      );
+      expect(screen.getByText(/time's up/i)).toBeInTheDocument();
+      expect(localStorage.getItem('zenFocus_activeTimer_focus')).toBeNull();
+    });
+
+    it('should offer to resume a paused session', () => {
+      saveSnapshot(
+        { durationMs: 10000, startedAt: Date.now() - 6000, pausedAt: Date.now() - 2000, pausedMs: 0 },
+        null
+      );
+
+      render(<Timer duration={10} focusMode="study" />);
+
+      expect(screen.getByText(/paused study session with 00:06 remaining/i)).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /resume/i }));
+      });
+
+      expect(screen.getByText('00:06')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+    });
+
+    it('should count time away from a resumed session as a pause', () => {
+      const onSessionComplete = vi.fn();
+      const pausedAt = Date.now() - 2000;
+      saveSnapshot({ durationMs: 10000, startedAt: Date.now() - 6000, pausedAt, pausedMs: 0 });
+
+      render(<Timer duration={10} focusMode="study" onSessionComplete={onSessionComplete} />);
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /resume/i }));
+      });
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actualDuration: 4,
+          pauses: [
+            { pausedAt: new Date(pausedAt).toISOString(), resumedAt: new Date().toISOString() },
+          ],
+        })
+      );
+    });
+
+    it('should record a discarded paused session as incomplete', () => {
+      const onSessionComplete = vi.fn();
+      saveSnapshot({
+        durationMs: 10000,
+        startedAt: Date.now() - 6000,
+        pausedAt: Date.now() - 2000,
+        pausedMs: 0,
+      });
+
+      render(<Timer duration={10} focusMode="study" onSessionComplete={onSessionComplete} />);
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /discard/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'study', actualDuration: 4, completed: false })
+      );
+      expect(localStorage.getItem('zenFocus_activeTimer_focus')).toBeNull();
+    });
+
+    it('should keep a restored session when the duration prop changes while it runs', () => {
+      const onSessionComplete = vi.fn();
+      saveSnapshot({ durationMs: 10000, startedAt: Date.now() - 3000, pausedAt: null, pausedMs: 0 });
+
+      const { rerender } = render(
+        <Timer duration={10} focusMode="study" onSessionComplete={onSessionComplete} />
+      );
+      // e.g. a duration preference loaded after the session was restored
+      rerender(<Timer duration={20} focusMode="study" onSessionComplete={onSessionComplete} />);
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+      });
+
+      expect(onSessionComplete).not.toHaveBeenCalled();
+      expect(screen.getByText('00:07')).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByRole('button', { name: /reset/i }));
+      });
+
+      expect(onSessionComplete).toHaveBeenCalledTimes(1);
+      expect(onSessionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ actualDuration: 3, plannedDuration: 10, completed: false })
+      );
+      expect(screen.getByText('00:20')).toBeInTheDocument();
+    });
+
+    it('should wait for the saved mode before restoring', () => {
+      saveSnapshot({ durationMs: 10000, startedAt: Date.now() - 3000, pausedAt: null, pausedMs: 0 });
+
+      const { rerender } = render(<Timer duration={20} focusMode="work" />);
+      expect(screen.getByText('00:20')).toBeInTheDocument();
+
+      rerender(<Timer duration={10} focusMode="study" />);
+      expect(screen.getByText('00:07')).toBeInTheDocument();
+    });
+  });
+
+  describe('Multi-tab coordination', () => {
+    beforeEach(() => {
+      // Channel messages are delivered by the event loop, not by timers
+      vi.useRealTimers();
+    });
+
+    it('should mirror a timer owned by another tab and forward controls to it', async () => {
+      const onSessionComplete = vi.fn();
+      const otherTab = new BroadcastChannel('zenFocus_timer_focus');
+      const received: Array<{ type: string; command?: string }> = [];
+      otherTab.onmessage = (event) => received.push(event.data);
+
+      render(<Timer duration={10} focusMode="study" onSessionComplete={onSessionComplete} />);
+
+      otherTab.postMessage({
+        type: 'state',
+        tabId: '0',
+        snapshot: {
+          kind: 'focus',
+          focusMode: 'study',
+          clock: { durationMs: 10000, startedAt: Date.now() - 4000, pausedAt: null, pausedMs: 0 },
+          sessionStartRemaining: 10,
+          savedAt: Date.now(),
+        },
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText(/running in another tab/i)).toBeInTheDocument();
+      });
+      expect(screen.getByText('00:06')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /pause/i }));
+
+      await waitFor(() => {
+        expect(received).toContainEqual(expect.objectContaining({ type: 'command', command: 'pause' }));
+      });
+      // The owning tab records the session, not the mirror
+      expect(onSessionComplete).not.toHaveBeenCalled();
+      expect(localStorage.getItem('zenFocus_activeTimer_focus')).toBeNull();
+
+      otherTab.close();
+    });
+  });
 });
@@ -1,14 +1,19 @@
 import React from "react";
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { render, screen, waitFor } from "@testing-library/react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import TimerHistory from "../TimerHistory";
+import { UNDO_TOAST_DURATION } from "../UndoToast";
+import { downloadFile } from "@/lib/utils/historyExport";
 import type { TimerSession } from "@/lib/types/timer-history";
 
 // Mock the useTimerHistory hook
 const mockSessions: TimerSession[] = [];
 const mockClearHistory = vi.fn();
 const mockGetStatistics = vi.fn();
+const mockUpdateSession = vi.fn();
+const mockDeleteSessions = vi.fn();
+const mockRestoreSessions = vi.fn();
 
 vi.mock("@/lib/hooks/useTimerHistory", () => ({
   useTimerHistory: () => ({
@@ -16,9 +21,37 @@ vi.mock("@/lib/hooks/useTimerHistory", () => ({
     clearHistory: mockClearHistory,
     getStatistics: mockGetStatistics,
     addSession: vi.fn(),
+    recordSession: vi.fn(),
+    updateSession: mockUpdateSession,
+    deleteSessions: mockDeleteSessions,
+    restoreSessions: mockRestoreSessions,
   }),
 }));
 
+vi.mock("@/lib/hooks/useHistorySyncClient", () => ({
+  useHistorySyncClient: () => null,
+}));
+
+// Charts are covered by their own tests and repeat the mode labels
+vi.mock("../FocusCharts", () => ({
+  default: ({
+    sessions,
+    dayOptions,
+  }: {
+    sessions: TimerSession[];
+    dayOptions?: { dayStartHour?: number };
+  }) => (
+    <div data-testid="focus-charts">
+      {sessions.length} sessions, day starts at {dayOptions?.dayStartHour}
+    </div>
+  ),
+}));
+
+vi.mock("@/lib/utils/historyExport", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/utils/historyExport")>()),
+  downloadFile: vi.fn(),
+}));
+
 // Mock utility functions
 vi.mock("@/lib/utils/formatTime", () => ({
   formatTime: (seconds: number) => {
@@ -207,6 +240,37 @@ describe("TimerHistory", () => {
 
       expect(screen.queryByText("Sessions by Mode")).not.toBeInTheDocument();
     });
+
+    it("should display interruptions per hour of focus", () => {
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 1800,
+        currentStreak: 1,
+        longestStreak: 1,
+        sessionsByMode: {},
+      });
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "work",
+        startTime: "2025-01-10T09:30:00.000Z",
+        endTime: "2025-01-10T10:00:00.000Z",
+        plannedDuration: 1800,
+        actualDuration: 1800,
+        completed: true,
+        interruptions: [
+          { kind: "external", at: "2025-01-10T09:40:00.000Z" },
+          { kind: "later", at: "2025-01-10T09:50:00.000Z", note: "Reply to Sam" },
+        ],
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByText("Interruptions")).toBeInTheDocument();
+      expect(screen.getByText("4.0 per hour")).toBeInTheDocument();
+      expect(screen.getByText("0 internal · 1 external · 1 later")).toBeInTheDocument();
+    });
   });
 
   describe("Rendering Session List", () => {
@@ -250,16 +314,22 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: new Date(Date.now() - 3600000).toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date(Date.now() - 3600000).toISOString(),
+          endTime: new Date(Date.now() - 3600000).toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: false,
         },
       ];
@@ -285,9 +355,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500, // 25:00
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500, // 25:00
           completed: true,
         },
       ];
@@ -308,13 +381,46 @@ describe("TimerHistory", () => {
       expect(screen.getByText("25:00")).toBeInTheDocument();
     });
 
+    it("should display how often and how long a session was paused", () => {
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "study",
+        startTime: "2025-01-10T09:25:00.000Z",
+        endTime: "2025-01-10T10:00:00.000Z",
+        plannedDuration: 1500,
+        actualDuration: 1500,
+        completed: true,
+        pauses: [
+          { pausedAt: "2025-01-10T09:30:00.000Z", resumedAt: "2025-01-10T09:33:00.000Z" },
+          { pausedAt: "2025-01-10T09:40:00.000Z", resumedAt: "2025-01-10T09:42:00.000Z" },
+        ],
+      });
+
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 1500,
+        currentStreak: 0,
+        longestStreak: 1,
+        sessionsByMode: { study: 1 },
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByText(/· 2 pauses, 05:00 paused$/)).toBeInTheDocument();
+    });
+
     it("should display completed badge for completed sessions", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
       ];
@@ -346,9 +452,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "work",
-          duration: 1800,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: false,
         },
       ];
@@ -373,9 +482,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date(Date.now() - 1800000).toISOString(), // 30 minutes ago
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date(Date.now() - 1800000).toISOString(),
+          endTime: new Date(Date.now() - 1800000).toISOString(), // 30 minutes ago
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
       ];
@@ -399,9 +511,12 @@ describe("TimerHistory", () => {
     it("should display only 10 most recent sessions", () => {
       const sessions: TimerSession[] = Array.from({ length: 15 }, (_, i) => ({
         id: `session-${i}`,
-        focusMode: "study" as const,
-        duration: 1500,
-        completedAt: new Date(Date.now() - i * 3600000).toISOString(),
+        schemaVersion: 2,
+        mode: "study" as const,
+        startTime: new Date(Date.now() - i * 3600000).toISOString(),
+        endTime: new Date(Date.now() - i * 3600000).toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       }));
 
@@ -439,9 +554,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -484,9 +602,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -501,7 +622,7 @@ describe("TimerHistory", () => {
         expect(screen.getByText("Clear Timer History?")).toBeInTheDocument();
         expect(
           screen.getByText(
-            /This will permanently delete all your timer sessions/
+            /This will delete all your timer sessions/
           )
         ).toBeInTheDocument();
       });
@@ -521,9 +642,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -558,9 +682,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -599,9 +726,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -638,9 +768,12 @@ describe("TimerHistory", () => {
 
       mockSessions.push({
         id: "1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: new Date().toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
 
@@ -668,14 +801,402 @@ describe("TimerHistory", () => {
     });
   });
 
+  describe("Focus Activity", () => {
+    const session = (id: string, day: number, hour: number, duration: number): TimerSession => ({
+      id,
+      schemaVersion: 2,
+      mode: "study",
+      startTime: new Date(2025, 0, day, hour, 0).toISOString(),
+      endTime: new Date(2025, 0, day, hour, 0).toISOString(),
+      plannedDuration: duration,
+      actualDuration: duration,
+      completed: true,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2025, 0, 8, 18, 0));
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 3,
+        completedSessions: 3,
+        totalTimeSpent: 6300,
+        currentStreak: 2,
+        longestStreak: 2,
+        sessionsByMode: { study: 3 },
+      });
+      mockSessions.push(
+        session("today", 8, 9, 1800),
+        session("yesterday-late", 7, 20, 3600),
+        session("yesterday-early", 7, 9, 900)
+      );
+    });
+
+    it("should list the sessions of a day picked in the heatmap", () => {
+      render(<TimerHistory />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Tue, Jan 7, 2025: 1h 15m of focus" }));
+
+      expect(screen.getByText("Sessions on Tuesday, January 7, 2025")).toBeInTheDocument();
+      expect(screen.getByText(/2 sessions · 1h 15m of focus/)).toBeInTheDocument();
+      expect(screen.getAllByRole("button", { name: /^Edit / })).toHaveLength(2);
+
+      fireEvent.click(screen.getByRole("button", { name: /show recent/i }));
+
+      expect(screen.getByText("Recent Sessions")).toBeInTheDocument();
+      expect(screen.getAllByRole("button", { name: /^Edit / })).toHaveLength(3);
+    });
+
+    it("should say when a picked day has no sessions", () => {
+      render(<TimerHistory />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Mon, Jan 6, 2025: No focus time" }));
+
+      expect(screen.getByText("No timer sessions on this day")).toBeInTheDocument();
+    });
+  });
+
+  describe("Trends", () => {
+    it("should chart the recorded sessions in the user's days", () => {
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 1800,
+        currentStreak: 1,
+        longestStreak: 1,
+        sessionsByMode: { study: 1 },
+      });
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "study",
+        startTime: new Date(Date.now() - 3600000).toISOString(),
+        endTime: new Date(Date.now() - 1800000).toISOString(),
+        plannedDuration: 1800,
+        actualDuration: 1800,
+        completed: true,
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByText("Trends")).toBeInTheDocument();
+      expect(screen.getByTestId("focus-charts")).toHaveTextContent("1 sessions, day starts at 0");
+    });
+  });
+
+  describe("Full History Link", () => {
+    it("should link to the history browser", () => {
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 0,
+        completedSessions: 0,
+        totalTimeSpent: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        sessionsByMode: {},
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByRole("link", { name: /view all/i })).toHaveAttribute(
+        "href",
+        "/history"
+      );
+    });
+  });
+
+  describe("Export", () => {
+    beforeEach(() => {
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 1500,
+        currentStreak: 1,
+        longestStreak: 1,
+        sessionsByMode: { study: 1 },
+      });
+    });
+
+    it("should disable export without sessions", () => {
+      render(<TimerHistory />);
+
+      expect(screen.getByRole("button", { name: "Export" })).toBeDisabled();
+    });
+
+    it("should download the whole history in the chosen format", async () => {
+      const user = userEvent.setup();
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "study",
+        startTime: "2025-01-10T09:35:00.000Z",
+        endTime: "2025-01-10T10:00:00.000Z",
+        plannedDuration: 1500,
+        actualDuration: 1500,
+        completed: true,
+      });
+
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: "Export" }));
+      expect(screen.getByText("Download 1 session.")).toBeInTheDocument();
+      await user.click(screen.getByRole("button", { name: /^calendar/i }));
+
+      expect(downloadFile).toHaveBeenCalledWith(
+        expect.objectContaining({ mimeType: "text/calendar" })
+      );
+      await waitFor(() => {
+        expect(screen.queryByText("Export History")).not.toBeInTheDocument();
+      });
+    });
+  });
+
+  describe("Editing and Deleting Sessions", () => {
+    const statistics = {
+      totalSessions: 2,
+      completedSessions: 2,
+      totalTimeSpent: 5100,
+      currentStreak: 1,
+      longestStreak: 1,
+      sessionsByMode: { study: 1, work: 1 },
+    };
+
+    const study: TimerSession = {
+      id: "1",
+      schemaVersion: 2,
+      mode: "study",
+      startTime: new Date(Date.now() - 1500000).toISOString(),
+      endTime: new Date().toISOString(),
+      plannedDuration: 1500,
+      actualDuration: 1500,
+      completed: true,
+    };
+
+    const work: TimerSession = {
+      id: "2",
+      schemaVersion: 2,
+      mode: "work",
+      startTime: new Date(Date.now() - 7200000).toISOString(),
+      endTime: new Date(Date.now() - 3600000).toISOString(),
+      plannedDuration: 3600,
+      actualDuration: 3600,
+      completed: true,
+    };
+
+    beforeEach(() => {
+      mockGetStatistics.mockReturnValue(statistics);
+      mockSessions.push(study, work);
+    });
+
+    it("should save changes made in the edit dialog", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^edit study session/i }));
+
+      expect(screen.getByText("Edit Session")).toBeInTheDocument();
+      await user.selectOptions(screen.getByLabelText("Focus mode"), "work");
+      await user.clear(screen.getByLabelText("Duration"));
+      await user.type(screen.getByLabelText("Duration"), "10");
+      await user.click(screen.getByLabelText("Completed"));
+      await user.click(screen.getByRole("button", { name: "Save changes" }));
+
+      expect(mockUpdateSession).toHaveBeenCalledWith(
+        "1",
+        expect.objectContaining({
+          mode: "work",
+          actualDuration: 600,
+          plannedDuration: 1500,
+          completed: false,
+        })
+      );
+      await waitFor(() => {
+        expect(screen.queryByText("Edit Session")).not.toBeInTheDocument();
+      });
+    });
+
+    it("should keep the session's times when they are not edited", async () => {
+      const user = userEvent.setup();
+      mockSessions[0] = {
+        ...study,
+        startTime: "2025-01-10T09:24:17.250Z",
+        endTime: "2025-01-10T09:52:43.900Z",
+        pauses: [{ pausedAt: "2025-01-10T09:30:05.100Z", resumedAt: "2025-01-10T09:31:09.700Z" }],
+        interruptions: [{ kind: "external", at: "2025-01-10T09:40:31.400Z" }],
+      };
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^edit study session/i }));
+      fireEvent.change(screen.getByLabelText("Tags"), { target: { value: "review" } });
+      await user.click(screen.getByRole("button", { name: "Save changes" }));
+
+      expect(mockUpdateSession).toHaveBeenCalledWith(
+        "1",
+        expect.objectContaining({
+          startTime: "2025-01-10T09:24:17.250Z",
+          endTime: "2025-01-10T09:52:43.900Z",
+          pauses: mockSessions[0].pauses,
+          interruptions: mockSessions[0].interruptions,
+        })
+      );
+    });
+
+    it("should show and edit the reflection on a session", async () => {
+      mockSessions[0] = {
+        ...study,
+        intention: "Chapter 3",
+        tags: ["thesis"],
+        notes: "Slow start",
+        focusQuality: 4,
+      };
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      expect(screen.getByText("Chapter 3")).toBeInTheDocument();
+      expect(screen.getByText("#thesis")).toBeInTheDocument();
+      expect(screen.getByText("Focus 4/5")).toBeInTheDocument();
+      expect(screen.getByText("Slow start")).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: /^edit study session/i }));
+      await user.clear(screen.getByLabelText("Tags"));
+      await user.type(screen.getByLabelText("Tags"), "Thesis, #Reading");
+      await user.selectOptions(screen.getByLabelText("Focus quality"), "");
+      await user.selectOptions(screen.getByLabelText("Energy and mood"), "2");
+      await user.click(screen.getByRole("button", { name: "Save changes" }));
+
+      expect(mockUpdateSession).toHaveBeenCalledWith(
+        "1",
+        expect.objectContaining({
+          intention: "Chapter 3",
+          notes: "Slow start",
+          tags: ["thesis", "reading"],
+          focusQuality: undefined,
+          mood: 2,
+        })
+      );
+    });
+
+    it("should reject an invalid duration", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^edit study session/i }));
+      await user.clear(screen.getByLabelText("Duration"));
+      await user.click(screen.getByRole("button", { name: "Save changes" }));
+
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Duration must be at least 1 second"
+      );
+      expect(mockUpdateSession).not.toHaveBeenCalled();
+    });
+
+    it("should delete a single session", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^delete work session/i }));
+
+      expect(mockDeleteSessions).toHaveBeenCalledWith(["2"]);
+      expect(screen.getByRole("status")).toHaveTextContent("Session deleted");
+    });
+
+    it("should delete the selected sessions together", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      expect(
+        screen.queryByRole("button", { name: /delete selected/i })
+      ).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("checkbox", { name: /^select study session/i }));
+      await user.click(screen.getByRole("checkbox", { name: /^select work session/i }));
+      await user.click(screen.getByRole("button", { name: "Delete selected (2)" }));
+
+      expect(mockDeleteSessions).toHaveBeenCalledWith(["1", "2"]);
+      expect(screen.getByRole("status")).toHaveTextContent("2 sessions deleted");
+    });
+
+    it("should restore deleted sessions on undo", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^delete study session/i }));
+      await user.click(screen.getByRole("button", { name: "Undo" }));
+
+      expect(mockRestoreSessions).toHaveBeenCalledWith([study]);
+      expect(screen.queryByRole("status")).not.toBeInTheDocument();
+    });
+
+    it("should restore every deletion made while undo is offered", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /^delete study session/i }));
+      await user.click(screen.getByRole("button", { name: /^delete work session/i }));
+      expect(screen.getByRole("status")).toHaveTextContent("2 sessions deleted");
+
+      await user.click(screen.getByRole("button", { name: "Undo" }));
+
+      expect(mockRestoreSessions).toHaveBeenCalledTimes(1);
+      expect(mockRestoreSessions).toHaveBeenCalledWith([study, work]);
+    });
+
+    it("should offer undo for a few seconds after the last deletion", () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      render(<TimerHistory />);
+
+      fireEvent.click(screen.getByRole("button", { name: /^delete study session/i }));
+      act(() => {
+        vi.advanceTimersByTime(UNDO_TOAST_DURATION - 1000);
+      });
+      fireEvent.click(screen.getByRole("button", { name: /^delete work session/i }));
+      act(() => {
+        vi.advanceTimersByTime(UNDO_TOAST_DURATION - 1000);
+      });
+
+      expect(screen.getByRole("status")).toHaveTextContent("2 sessions deleted");
+    });
+
+    it("should restore the whole history when a clear is undone", async () => {
+      const user = userEvent.setup();
+      render(<TimerHistory />);
+
+      await user.click(screen.getByRole("button", { name: /clear history/i }));
+      await user.click(
+        await screen.findByRole("button", { name: /^clear history$/i })
+      );
+      expect(screen.getByRole("status")).toHaveTextContent("History cleared");
+
+      await user.click(screen.getByRole("button", { name: "Undo" }));
+
+      expect(mockRestoreSessions).toHaveBeenCalledWith([study, work]);
+    });
+
+    it("should stop offering undo after a few seconds", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      render(<TimerHistory />);
+
+      fireEvent.click(screen.getByRole("button", { name: /^delete study session/i }));
+      expect(screen.getByRole("status")).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(UNDO_TOAST_DURATION);
+      });
+
+      expect(screen.queryByRole("status")).not.toBeInTheDocument();
+      expect(mockRestoreSessions).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Focus Mode Badges", () => {
     it("should display Study badge with correct styling", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
       ];
@@ -700,9 +1221,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
       ];
@@ -727,9 +1251,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "yoga",
-          duration: 1800,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "yoga",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: true,
         },
       ];
@@ -754,9 +1281,12 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "meditation",
-          duration: 600,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "meditation",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 600,
+          actualDuration: 600,
           completed: true,
         },
       ];
@@ -776,6 +1306,74 @@ describe("TimerHistory", () => {
 
       expect(screen.getByText("Meditation")).toBeInTheDocument();
     });
+
+    it("should display custom mode badges, including for deleted modes", () => {
+      localStorage.setItem(
+        "zenFocus_customFocusModes",
+        JSON.stringify([
+          {
+            value: "custom-reading",
+            label: "Reading",
+            title: "Reading Timer",
+            description: "",
+            duration: 2700,
+            color: "bg-rose-500/10 text-rose-600 dark:text-rose-400",
+            deleted: true,
+          },
+        ])
+      );
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "custom-reading",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 2700,
+        actualDuration: 2700,
+        completed: true,
+      });
+
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 2700,
+        currentStreak: 1,
+        longestStreak: 1,
+        sessionsByMode: { "custom-reading": 1 },
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByText("Reading")).toHaveClass("bg-rose-500/10");
+      expect(screen.getByText("Reading: 1")).toBeInTheDocument();
+    });
+
+    it("should show a placeholder for modes that no longer exist", () => {
+      mockSessions.push({
+        id: "1",
+        schemaVersion: 2,
+        mode: "custom-unknown",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 600,
+        actualDuration: 600,
+        completed: true,
+      });
+
+      mockGetStatistics.mockReturnValue({
+        totalSessions: 1,
+        completedSessions: 1,
+        totalTimeSpent: 600,
+        currentStreak: 1,
+        longestStreak: 1,
+        sessionsByMode: { "custom-unknown": 1 },
+      });
+
+      render(<TimerHistory />);
+
+      expect(screen.getByText("Removed mode")).toBeInTheDocument();
+      expect(screen.getByText("Removed mode: 1")).toBeInTheDocument();
+    });
   });
 
   describe("Integration Tests", () => {
@@ -811,30 +1409,42 @@ describe("TimerHistory", () => {
       const sessions: TimerSession[] = [
         {
           id: "1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: new Date(Date.now() - 3600000).toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date(Date.now() - 3600000).toISOString(),
+          endTime: new Date(Date.now() - 3600000).toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
         {
           id: "3",
-          focusMode: "yoga",
-          duration: 1800,
-          completedAt: new Date(Date.now() - 7200000).toISOString(),
+          schemaVersion: 2,
+          mode: "yoga",
+          startTime: new Date(Date.now() - 7200000).toISOString(),
+          endTime: new Date(Date.now() - 7200000).toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: false,
         },
         {
           id: "4",
-          focusMode: "meditation",
-          duration: 600,
-          completedAt: new Date(Date.now() - 10800000).toISOString(),
+          schemaVersion: 2,
+          mode: "meditation",
+          startTime: new Date(Date.now() - 10800000).toISOString(),
+          endTime: new Date(Date.now() - 10800000).toISOString(),
+          plannedDuration: 600,
+          actualDuration: 600,
           completed: true,
         },
       ];
@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import HistoryBrowser from '../components/HistoryBrowser';
+
+export const metadata: Metadata = {
+  title: 'History',
+  description: 'Browse, filter and search every focus session you have recorded.',
+};
+
+export default function HistoryPage() {
+  return <HistoryBrowser />;
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import ProjectReport from '../components/ProjectReport';
+
+export const metadata: Metadata = {
+  title: 'Reports',
+  description: 'Focus time by project over any date range, printable and ready to export for invoicing.',
+};
+
+export default function ReportsPage() {
+  return <ProjectReport />;
+}
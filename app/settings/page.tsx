@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import Settings from '../components/Settings';
+
+export const metadata: Metadata = {
+  title: 'Settings',
+  description: 'Default durations, sounds, notifications and theme for your focus timers.',
+};
+
+export default function SettingsPage() {
+  return <Settings />;
+}
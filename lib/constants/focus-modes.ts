@@ -11,7 +11,14 @@ export const FOCUS_MODES = [
   "interval",
 ] as const;
 
-export type FocusMode = (typeof FOCUS_MODES)[number];
+export type BuiltInFocusMode = (typeof FOCUS_MODES)[number];
+
+/**
+ * Id of a focus mode created by the user.
+ */
+export type CustomFocusModeId = `custom-${string}`;
+
+export type FocusMode = BuiltInFocusMode | CustomFocusModeId;
 
 export interface FocusModeConfig {
   value: FocusMode;
@@ -22,8 +29,17 @@ export interface FocusModeConfig {
   color: string;
 }
 
+/**
+ * Focus mode created by the user. Deleted modes are kept, hidden, so past
+ * sessions recorded in them still show their label.
+ */
+export interface CustomFocusMode extends FocusModeConfig {
+  value: CustomFocusModeId;
+  deleted?: boolean;
+}
+
 export const FOCUS_MODE_CONFIG: Record<
-  FocusMode,
+  BuiltInFocusMode,
   Omit<FocusModeConfig, "value">
 > = {
   study: {
@@ -64,24 +80,71 @@ export const FOCUS_MODE_CONFIG: Record<
 };
 
 /**
- * Get a list of all focus modes with their complete configuration.
+ * Colors users can pick for their own focus modes.
+ */
+export const CUSTOM_FOCUS_MODE_COLORS = [
+  { name: "Rose", color: "bg-rose-500/10 text-rose-600 dark:text-rose-400" },
+  { name: "Teal", color: "bg-teal-500/10 text-teal-600 dark:text-teal-400" },
+  { name: "Sky", color: "bg-sky-500/10 text-sky-600 dark:text-sky-400" },
+  { name: "Indigo", color: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400" },
+  { name: "Pink", color: "bg-pink-500/10 text-pink-600 dark:text-pink-400" },
+  { name: "Lime", color: "bg-lime-500/10 text-lime-600 dark:text-lime-400" },
+  { name: "Slate", color: "bg-slate-500/10 text-slate-600 dark:text-slate-400" },
+] as const;
+
+/**
+ * Shown for sessions recorded in a mode that no longer exists.
+ */
+const UNKNOWN_FOCUS_MODE: Omit<FocusModeConfig, "value"> = {
+  label: "Removed mode",
+  title: "Focus Timer",
+  description: "This focus mode is no longer available",
+  duration: FOCUS_MODE_CONFIG.study.duration,
+  color: "bg-muted text-muted-foreground",
+};
+
+/**
+ * Type guard to check if a mode is one of the built-in modes.
  */
-export const getFocusModeList = (): FocusModeConfig[] =>
-  FOCUS_MODES.map((mode) => ({
+export const isBuiltInFocusMode = (value: string): value is BuiltInFocusMode =>
+  FOCUS_MODES.includes(value as BuiltInFocusMode);
+
+/**
+ * Get a list of all focus modes with their complete configuration:
+ * the built-in modes followed by the user's modes that are not deleted.
+ */
+export const getFocusModeList = (
+  customModes: CustomFocusMode[] = []
+): FocusModeConfig[] => [
+  ...FOCUS_MODES.map((mode) => ({
     value: mode,
     ...FOCUS_MODE_CONFIG[mode],
-  }));
+  })),
+  ...customModes.filter((mode) => !mode.deleted),
+];
 
 /**
- * Get configuration for a specific focus mode.
+ * Get configuration for a specific focus mode. Deleted custom modes keep
+ * their configuration; unknown modes get a neutral placeholder.
  */
-export const getFocusModeConfig = (mode: FocusMode): FocusModeConfig => ({
-  value: mode,
-  ...FOCUS_MODE_CONFIG[mode],
-});
+export const getFocusModeConfig = (
+  mode: FocusMode,
+  customModes: CustomFocusMode[] = []
+): FocusModeConfig => {
+  if (isBuiltInFocusMode(mode)) {
+    return { value: mode, ...FOCUS_MODE_CONFIG[mode] };
+  }
+  const custom = customModes.find((m) => m.value === mode);
+  return custom ?? { value: mode, ...UNKNOWN_FOCUS_MODE };
+};
 
 /**
- * Type guard to check if a string is a valid FocusMode.
+ * Type guard to check if a string is a valid FocusMode: a built-in mode or
+ * one of the user's modes that is not deleted.
  */
-export const isFocusMode = (value: string): value is FocusMode =>
-  FOCUS_MODES.includes(value as FocusMode);
+export const isFocusMode = (
+  value: string,
+  customModes: CustomFocusMode[] = []
+): value is FocusMode =>
+  isBuiltInFocusMode(value) ||
+  customModes.some((mode) => mode.value === value && !mode.deleted);
@@ -0,0 +1,19 @@
+import type { InterruptionKind } from "../types/timer-history";
+
+/**
+ * Kinds of interruption the quick capture logs, in the order they are offered.
+ */
+
+export const INTERRUPTION_KINDS: InterruptionKind[] = ["internal", "external", "later"];
+
+export const INTERRUPTION_LABELS: Record<InterruptionKind, string> = {
+  internal: "Internal",
+  external: "External",
+  later: "Later",
+};
+
+export const INTERRUPTION_DESCRIPTIONS: Record<InterruptionKind, string> = {
+  internal: "A thought or urge of your own",
+  external: "Someone or something else",
+  later: "An idea to come back to",
+};
@@ -0,0 +1,45 @@
+/**
+ * Interval presets shipped with the app. They cannot be edited or deleted,
+ * but can be duplicated into the user's own presets.
+ */
+
+import type { IntervalPreset } from "../types/interval-program";
+
+export const BUILT_IN_INTERVAL_PRESETS: IntervalPreset[] = [
+  {
+    id: "builtin-tabata",
+    builtIn: true,
+    program: {
+      name: "Tabata 20/10 × 8",
+      segments: [
+        { id: "tabata-work", name: "Work", kind: "work", durationSeconds: 20, repeat: 1 },
+        { id: "tabata-rest", name: "Rest", kind: "rest", durationSeconds: 10, repeat: 1 },
+      ],
+      rounds: 8,
+    },
+  },
+  {
+    id: "builtin-emom",
+    builtIn: true,
+    program: {
+      name: "EMOM 10 min",
+      segments: [
+        { id: "emom-minute", name: "Minute", kind: "work", durationSeconds: 60, repeat: 1 },
+      ],
+      rounds: 10,
+    },
+  },
+  {
+    id: "builtin-breathing-478",
+    builtIn: true,
+    program: {
+      name: "4-7-8 Breathing",
+      segments: [
+        { id: "breathing-inhale", name: "Inhale", kind: "work", durationSeconds: 4, repeat: 1 },
+        { id: "breathing-hold", name: "Hold", kind: "work", durationSeconds: 7, repeat: 1 },
+        { id: "breathing-exhale", name: "Exhale", kind: "rest", durationSeconds: 8, repeat: 1 },
+      ],
+      rounds: 4,
+    },
+  },
+];
@@ -0,0 +1,38 @@
+/**
+ * Interval segment kinds configuration: labels, colors and defaults.
+ */
+
+import type { IntervalSegmentKind } from "../types/interval-program";
+
+export const INTERVAL_SEGMENT_KINDS = [
+  "warmup",
+  "work",
+  "rest",
+  "cooldown",
+] as const satisfies readonly IntervalSegmentKind[];
+
+export const INTERVAL_SEGMENT_CONFIG: Record<
+  IntervalSegmentKind,
+  { label: string; defaultDuration: number; color: string }
+> = {
+  warmup: {
+    label: "Warmup",
+    defaultDuration: 300, // 5 minutes
+    color: "bg-amber-500",
+  },
+  work: {
+    label: "Work",
+    defaultDuration: 30,
+    color: "bg-orange-500",
+  },
+  rest: {
+    label: "Rest",
+    defaultDuration: 15,
+    color: "bg-sky-500",
+  },
+  cooldown: {
+    label: "Cooldown",
+    defaultDuration: 300, // 5 minutes
+    color: "bg-green-500",
+  },
+};
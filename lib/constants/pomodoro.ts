@@ -0,0 +1,40 @@
+/**
+ * Pomodoro cycle configuration: phase labels and default durations.
+ */
+
+import type { SessionPhase } from "../types/timer-history";
+import { FOCUS_MODE_CONFIG } from "./focus-modes";
+
+export interface PomodoroSettings {
+  focusDuration: number; // seconds
+  shortBreakDuration: number; // seconds
+  longBreakDuration: number; // seconds
+  longBreakInterval: number; // focus blocks per long break
+  autoStartNext: boolean; // start the next phase as soon as one ends
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusDuration: FOCUS_MODE_CONFIG.study.duration, // 25 minutes
+  shortBreakDuration: 300, // 5 minutes
+  longBreakDuration: 900, // 15 minutes
+  longBreakInterval: 4,
+  autoStartNext: false,
+};
+
+export const POMODORO_PHASE_CONFIG: Record<
+  SessionPhase,
+  { label: string; color: string }
+> = {
+  focus: {
+    label: "Focus",
+    color: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  },
+  shortBreak: {
+    label: "Short Break",
+    color: "bg-teal-500/10 text-teal-600 dark:text-teal-400",
+  },
+  longBreak: {
+    label: "Long Break",
+    color: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400",
+  },
+};
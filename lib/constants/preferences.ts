@@ -0,0 +1,17 @@
+/**
+ * Defaults for the user's preferences. Focus mode durations are not listed:
+ * without an override each mode uses its own duration.
+ */
+
+import type { UserPreferences } from "../types";
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultDuration: {},
+  theme: "system",
+  soundEnabled: true,
+  notificationsEnabled: true,
+  dayStartHour: 0,
+  goals: [],
+  goalStreaks: false,
+  reflectionPrompt: true,
+};
@@ -0,0 +1,21 @@
+/**
+ * Ratings asked for after a session: what each point of the 1-5 scales means.
+ */
+
+export const RATING_VALUES = [1, 2, 3, 4, 5] as const;
+
+export const FOCUS_QUALITY_LABELS: Record<number, string> = {
+  1: "Very distracted",
+  2: "Distracted",
+  3: "Okay",
+  4: "Focused",
+  5: "Deep focus",
+};
+
+export const MOOD_LABELS: Record<number, string> = {
+  1: "Drained",
+  2: "Tired",
+  3: "Okay",
+  4: "Good",
+  5: "Energized",
+};
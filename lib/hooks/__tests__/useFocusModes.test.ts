@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useFocusModes } from "../useFocusModes";
+
+const reading = {
+  label: "Reading",
+  title: "Reading Timer",
+  description: "Quiet time with a book",
+  duration: 2700,
+  color: "bg-rose-500/10 text-rose-600 dark:text-rose-400",
+};
+
+describe("useFocusModes", () => {
+  it("should list the built-in modes when there are no custom modes", () => {
+    const { result } = renderHook(() => useFocusModes());
+
+    expect(result.current.focusModes.map((mode) => mode.value)).toEqual([
+      "study",
+      "work",
+      "yoga",
+      "meditation",
+      "interval",
+    ]);
+    expect(result.current.customModes).toEqual([]);
+  });
+
+  it("should add custom modes after the built-in modes", () => {
+    const { result } = renderHook(() => useFocusModes());
+
+    let value = "";
+    act(() => {
+      value = result.current.addMode(reading).value;
+    });
+
+    expect(value).toMatch(/^custom-/);
+    expect(result.current.focusModes.at(-1)).toEqual({ ...reading, value });
+    expect(result.current.isFocusMode(value)).toBe(true);
+    expect(result.current.getConfig(value as `custom-${string}`).title).toBe("Reading Timer");
+  });
+
+  it("should update a custom mode", () => {
+    const { result } = renderHook(() => useFocusModes());
+    let value: `custom-${string}` = "custom-";
+    act(() => {
+      value = result.current.addMode(reading).value;
+    });
+
+    act(() => result.current.updateMode(value, { ...reading, duration: 1800 }));
+
+    expect(result.current.getConfig(value).duration).toBe(1800);
+  });
+
+  it("should hide deleted modes but keep their configuration for history", () => {
+    const { result } = renderHook(() => useFocusModes());
+    let value: `custom-${string}` = "custom-";
+    act(() => {
+      value = result.current.addMode(reading).value;
+    });
+
+    act(() => result.current.deleteMode(value));
+
+    expect(result.current.customModes).toEqual([]);
+    expect(result.current.focusModes.map((mode) => mode.value)).not.toContain(value);
+    expect(result.current.isFocusMode(value)).toBe(false);
+    expect(result.current.getConfig(value).label).toBe("Reading");
+  });
+
+  it("should fall back to a placeholder for unknown modes", () => {
+    const { result } = renderHook(() => useFocusModes());
+
+    expect(result.current.getConfig("custom-missing").label).toBe("Removed mode");
+    expect(result.current.isFocusMode("custom-missing")).toBe(false);
+  });
+
+  it("should share changes with other components in the same tab", () => {
+    const editor = renderHook(() => useFocusModes());
+    const reader = renderHook(() => useFocusModes());
+
+    act(() => {
+      editor.result.current.addMode(reading);
+    });
+
+    expect(reader.result.current.customModes.map((mode) => mode.label)).toEqual(["Reading"]);
+  });
+
+  it("should ignore malformed stored modes", () => {
+    localStorage.setItem(
+      "zenFocus_customFocusModes",
+      JSON.stringify([{ value: "custom-1", label: "No fields" }, { ...reading, value: "custom-2" }])
+    );
+
+    const { result } = renderHook(() => useFocusModes());
+
+    expect(result.current.customModes.map((mode) => mode.value)).toEqual(["custom-2"]);
+  });
+});
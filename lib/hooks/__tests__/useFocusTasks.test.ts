@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useFocusTasks } from "../useFocusTasks";
+
+describe("useFocusTasks", () => {
+  it("should add tasks at the end of the list", () => {
+    const { result } = renderHook(() => useFocusTasks());
+
+    act(() => {
+      result.current.addTask("Outline", 2);
+      result.current.addTask("Draft");
+    });
+
+    expect(result.current.tasks.map((task) => task.title)).toEqual(["Outline", "Draft"]);
+    expect(result.current.tasks[0].estimatedPomodoros).toBe(2);
+  });
+
+  it("should update, reorder and archive tasks", () => {
+    const { result } = renderHook(() => useFocusTasks());
+    let id = "";
+    act(() => {
+      result.current.addTask("Outline");
+      id = result.current.addTask("Draft", 3).id;
+    });
+
+    act(() => result.current.updateTask(id, { title: "First draft", estimatedPomodoros: undefined }));
+    act(() => result.current.moveTask(id, -1));
+
+    expect(result.current.tasks[0]).not.toHaveProperty("estimatedPomodoros");
+    expect(result.current.tasks.map((task) => task.title)).toEqual(["First draft", "Outline"]);
+
+    act(() => result.current.setTaskArchived(id, true));
+
+    expect(result.current.tasks[0].archived).toBe(true);
+  });
+
+  it("should keep the selected task across reloads", () => {
+    const { result, unmount } = renderHook(() => useFocusTasks());
+    let id = "";
+    act(() => {
+      id = result.current.addTask("Outline").id;
+    });
+    act(() => result.current.selectTask(id));
+    unmount();
+
+    expect(renderHook(() => useFocusTasks()).result.current.activeTaskId).toBe(id);
+  });
+
+  it("should clear the selection when the selected task is completed or archived", () => {
+    const { result } = renderHook(() => useFocusTasks());
+    let id = "";
+    act(() => {
+      id = result.current.addTask("Outline").id;
+    });
+
+    act(() => result.current.selectTask(id));
+    act(() => result.current.setTaskCompleted(id, true));
+    expect(result.current.activeTaskId).toBeNull();
+
+    act(() => result.current.setTaskCompleted(id, false));
+    act(() => result.current.selectTask(id));
+    act(() => result.current.setTaskArchived(id, true));
+    expect(result.current.activeTaskId).toBeNull();
+  });
+
+  it("should share changes with other components in the same tab", () => {
+    const editor = renderHook(() => useFocusTasks());
+    const reader = renderHook(() => useFocusTasks());
+
+    act(() => {
+      const { id } = editor.result.current.addTask("Outline");
+      editor.result.current.selectTask(id);
+    });
+
+    expect(reader.result.current.tasks.map((task) => task.title)).toEqual(["Outline"]);
+    expect(reader.result.current.activeTaskId).toBe(editor.result.current.activeTaskId);
+  });
+});
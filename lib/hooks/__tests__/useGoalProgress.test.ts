@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useGoalProgress } from "../useGoalProgress";
+import { createTimerSession } from "@/lib/utils/timerSession";
+import type { TimerSession } from "@/lib/types/timer-history";
+
+const mockNotify = vi.fn();
+
+vi.mock("../useNotification", () => ({
+  useNotification: () => ({ notify: mockNotify }),
+}));
+
+const getModeLabel = (mode: string) => (mode === "work" ? "Work" : "Study");
+
+const storeGoals = (goals: unknown[]) =>
+  localStorage.setItem("zenFocus_preferences", JSON.stringify({ goals }));
+
+const workSession = () =>
+  createTimerSession({ mode: "work", actualDuration: 1800, completed: true });
+
+describe("useGoalProgress", () => {
+  beforeEach(() => {
+    mockNotify.mockClear();
+    storeGoals([
+      { id: "work", mode: "work", metric: "focusTime", target: 3600, period: "day" },
+      { id: "weekly", metric: "sessions", target: 20, period: "week" },
+    ]);
+  });
+
+  it("should measure the goals due today", () => {
+    const { result } = renderHook(() => useGoalProgress([workSession()], getModeLabel));
+
+    expect(result.current).toMatchObject([
+      { goal: { id: "work" }, value: 1800, met: false },
+      { goal: { id: "weekly" }, value: 1, met: false },
+    ]);
+  });
+
+  it("should announce a goal once when it is reached", () => {
+    const { rerender } = renderHook(
+      ({ sessions }: { sessions: TimerSession[] }) => useGoalProgress(sessions, getModeLabel),
+      { initialProps: { sessions: [workSession()] } }
+    );
+    expect(mockNotify).not.toHaveBeenCalled();
+
+    const reached = [workSession(), workSession()];
+    rerender({ sessions: reached });
+
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+    expect(mockNotify).toHaveBeenCalledWith("Goal reached", "1h of Work a day");
+
+    rerender({ sessions: [...reached, workSession()] });
+    renderHook(() => useGoalProgress(reached, getModeLabel));
+
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+  });
+});
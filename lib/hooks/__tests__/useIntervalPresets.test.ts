@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useIntervalPresets } from "../useIntervalPresets";
+import { BUILT_IN_INTERVAL_PRESETS } from "@/lib/constants/interval-presets";
+import { createSimpleProgram } from "@/lib/utils/intervalProgram";
+
+const quick = { ...createSimpleProgram(30, 4), name: "Quick" };
+const long = { ...createSimpleProgram(60, 10), name: "Long" };
+
+describe("useIntervalPresets", () => {
+  it("should list the built-in presets first", () => {
+    const { result } = renderHook(() => useIntervalPresets());
+
+    expect(result.current.presets.map((p) => p.program.name)).toEqual([
+      "Tabata 20/10 × 8",
+      "EMOM 10 min",
+      "4-7-8 Breathing",
+    ]);
+    expect(result.current.userPresets).toEqual([]);
+  });
+
+  it("should save, update and delete presets", () => {
+    const { result } = renderHook(() => useIntervalPresets());
+
+    let id = "";
+    act(() => {
+      id = result.current.savePreset(quick).id;
+    });
+    expect(result.current.userPresets[0].program).toEqual(quick);
+
+    act(() => result.current.updatePreset(id, { ...quick, name: "Quicker" }));
+    expect(result.current.userPresets[0].program.name).toBe("Quicker");
+
+    act(() => result.current.deletePreset(id));
+    expect(result.current.userPresets).toEqual([]);
+  });
+
+  it("should persist presets across mounts", () => {
+    const first = renderHook(() => useIntervalPresets());
+    act(() => {
+      first.result.current.savePreset(quick);
+    });
+    first.unmount();
+
+    const { result } = renderHook(() => useIntervalPresets());
+    expect(result.current.userPresets.map((p) => p.program.name)).toEqual(["Quick"]);
+  });
+
+  it("should reorder presets", () => {
+    const { result } = renderHook(() => useIntervalPresets());
+    act(() => {
+      result.current.savePreset(quick);
+      result.current.savePreset(long);
+    });
+
+    const [, second] = result.current.userPresets;
+    act(() => result.current.movePreset(second.id, -1));
+    expect(result.current.userPresets.map((p) => p.program.name)).toEqual(["Long", "Quick"]);
+
+    // Moving past either end does nothing
+    act(() => result.current.movePreset(second.id, -1));
+    expect(result.current.userPresets.map((p) => p.program.name)).toEqual(["Long", "Quick"]);
+  });
+
+  it("should duplicate built-in presets into the user's presets", () => {
+    const { result } = renderHook(() => useIntervalPresets());
+
+    act(() => {
+      result.current.duplicatePreset(BUILT_IN_INTERVAL_PRESETS[0].id);
+    });
+
+    const [copy] = result.current.userPresets;
+    expect(copy.builtIn).toBeUndefined();
+    expect(copy.program.name).toBe("Tabata 20/10 × 8 (copy)");
+    expect(copy.program.segments).toEqual(BUILT_IN_INTERVAL_PRESETS[0].program.segments);
+  });
+
+  it("should place a duplicate right after its original", () => {
+    const { result } = renderHook(() => useIntervalPresets());
+    act(() => {
+      result.current.savePreset(quick);
+      result.current.savePreset(long);
+    });
+
+    act(() => {
+      result.current.duplicatePreset(result.current.userPresets[0].id);
+    });
+
+    expect(result.current.userPresets.map((p) => p.program.name)).toEqual([
+      "Quick",
+      "Quick (copy)",
+      "Long",
+    ]);
+  });
+
+  it("should import exported presets after the existing ones", () => {
+    const source = renderHook(() => useIntervalPresets());
+    act(() => {
+      source.result.current.savePreset(quick);
+      source.result.current.savePreset(long);
+    });
+    const file = source.result.current.exportPresets();
+    source.unmount();
+    localStorage.clear();
+
+    const { result } = renderHook(() => useIntervalPresets());
+    act(() => {
+      result.current.savePreset({ ...quick, name: "Mine" });
+    });
+
+    let summary = { imported: 0, skipped: 0 };
+    act(() => {
+      summary = result.current.importPresets(file);
+    });
+
+    expect(summary).toEqual({ imported: 2, skipped: 0 });
+    expect(result.current.userPresets.map((p) => p.program.name)).toEqual([
+      "Mine",
+      "Quick",
+      "Long",
+    ]);
+  });
+});
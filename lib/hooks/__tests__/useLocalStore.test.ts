@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { createLocalStore, useLocalStore } from "../useLocalStore";
+
+const KEY = "test_localStore";
+
+const createCounterStore = () => {
+  const load = vi.fn(() => ({ count: Number(localStorage.getItem(KEY) ?? 0) }));
+  return { store: createLocalStore([KEY], load, { count: 0 }), load };
+};
+
+describe("useLocalStore", () => {
+  it("should read the stored value", () => {
+    localStorage.setItem(KEY, "3");
+    const { store } = createCounterStore();
+
+    const { result } = renderHook(() => useLocalStore(store));
+
+    expect(result.current).toEqual({ count: 3 });
+  });
+
+  it("should keep the same value until the storage changes", () => {
+    const { store, load } = createCounterStore();
+    const { result, rerender } = renderHook(() => useLocalStore(store));
+    const first = result.current;
+
+    rerender();
+
+    expect(result.current).toBe(first);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("should update every reader when this tab notifies a change", () => {
+    const { store } = createCounterStore();
+    const first = renderHook(() => useLocalStore(store));
+    const second = renderHook(() => useLocalStore(store));
+
+    act(() => {
+      localStorage.setItem(KEY, "1");
+      store.notify();
+    });
+
+    expect(first.result.current).toEqual({ count: 1 });
+    expect(second.result.current).toEqual({ count: 1 });
+  });
+
+  it("should follow changes made in other tabs", () => {
+    const { store } = createCounterStore();
+    const { result } = renderHook(() => useLocalStore(store));
+
+    act(() => {
+      localStorage.setItem(KEY, "2");
+      window.dispatchEvent(new StorageEvent("storage", { key: KEY }));
+    });
+
+    expect(result.current).toEqual({ count: 2 });
+  });
+
+  it("should ignore storage events for other keys", () => {
+    const { store, load } = createCounterStore();
+    renderHook(() => useLocalStore(store));
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent("storage", { key: "other" }));
+    });
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { usePreferences } from "../usePreferences";
+import { DEFAULT_PREFERENCES } from "@/lib/constants/preferences";
+
+describe("usePreferences", () => {
+  it("should start with the defaults", () => {
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+    expect(result.current.getDefaultDuration("study", 1500)).toBe(1500);
+  });
+
+  it("should override and reset the default duration of a mode", () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => result.current.setDefaultDuration("study", 3000));
+    expect(result.current.getDefaultDuration("study", 1500)).toBe(3000);
+    expect(result.current.getDefaultDuration("work", 3600)).toBe(3600);
+
+    act(() => result.current.setDefaultDuration("study", null));
+    expect(result.current.getDefaultDuration("study", 1500)).toBe(1500);
+  });
+
+  it("should persist preferences across mounts", () => {
+    const first = renderHook(() => usePreferences());
+    act(() => first.result.current.updatePreferences({ soundEnabled: false, theme: "dark" }));
+    first.unmount();
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toMatchObject({ soundEnabled: false, theme: "dark" });
+  });
+
+  it("should share changes with other components in the same tab", () => {
+    const settings = renderHook(() => usePreferences());
+    const timer = renderHook(() => usePreferences());
+
+    act(() => settings.result.current.updatePreferences({ notificationsEnabled: false }));
+
+    expect(timer.result.current.preferences.notificationsEnabled).toBe(false);
+  });
+
+  it("should restore the defaults", () => {
+    const { result } = renderHook(() => usePreferences());
+    act(() => {
+      result.current.setDefaultDuration("yoga", 900);
+      result.current.updatePreferences({ soundEnabled: false });
+    });
+
+    act(() => result.current.resetPreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it("should fall back to the defaults for invalid stored values", () => {
+    localStorage.setItem(
+      "zenFocus_preferences",
+      JSON.stringify({
+        defaultDuration: { study: 2400, work: -5, yoga: "long" },
+        theme: "purple",
+        soundEnabled: false,
+        timeZone: "Mars/Olympus_Mons",
+        dayStartHour: 24,
+      })
+    );
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual({
+      ...DEFAULT_PREFERENCES,
+      defaultDuration: { study: 2400 },
+      soundEnabled: false,
+    });
+  });
+
+  it("should keep the time zone and day start hour", () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => result.current.updatePreferences({ timeZone: "Asia/Tokyo", dayStartHour: 5 }));
+
+    const { result: remounted } = renderHook(() => usePreferences());
+    expect(remounted.current.preferences).toMatchObject({
+      timeZone: "Asia/Tokyo",
+      dayStartHour: 5,
+    });
+  });
+
+  it("should save and delete goals, and keep them on reset", () => {
+    const { result } = renderHook(() => usePreferences());
+    const goal = { id: "daily", metric: "sessions" as const, target: 4, period: "day" as const };
+
+    act(() => result.current.saveGoal(goal));
+    act(() => result.current.saveGoal({ ...goal, id: "weekly", period: "week" }));
+    act(() => result.current.saveGoal({ ...goal, target: 6 }));
+    act(() => result.current.resetPreferences());
+
+    expect(result.current.preferences.goals).toEqual([
+      { ...goal, target: 6 },
+      { ...goal, id: "weekly", period: "week" },
+    ]);
+
+    act(() => result.current.deleteGoal("daily"));
+
+    expect(result.current.preferences.goals.map((g) => g.id)).toEqual(["weekly"]);
+  });
+
+  it("should ignore corrupted storage", () => {
+    localStorage.setItem("zenFocus_preferences", "{not json");
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+    consoleSpy.mockRestore();
+  });
+});
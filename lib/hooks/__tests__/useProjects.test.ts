@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useProjects } from "../useProjects";
+
+describe("useProjects", () => {
+  it("should add and update projects", () => {
+    const { result } = renderHook(() => useProjects());
+    let id = "";
+    act(() => {
+      id = result.current.addProject({ name: "Acme", color: "bg-blue-100", hourlyRate: 60 }).id;
+    });
+
+    act(() =>
+      result.current.updateProject(id, { name: " Acme Corp ", color: "bg-red-100", hourlyRate: undefined })
+    );
+
+    expect(result.current.projects).toHaveLength(1);
+    expect(result.current.getProject(id)).toMatchObject({ name: "Acme Corp", color: "bg-red-100" });
+    expect(result.current.getProject(id)).not.toHaveProperty("hourlyRate");
+  });
+
+  it("should keep archived projects out of the active list but still find them", () => {
+    const { result } = renderHook(() => useProjects());
+    let id = "";
+    act(() => {
+      id = result.current.addProject({ name: "Acme", color: "bg-blue-100" }).id;
+    });
+
+    act(() => result.current.setProjectArchived(id, true));
+
+    expect(result.current.activeProjects).toEqual([]);
+    expect(result.current.getProject(id)?.archived).toBe(true);
+  });
+
+  it("should share changes between components using the hook", () => {
+    const first = renderHook(() => useProjects());
+    const second = renderHook(() => useProjects());
+
+    act(() => {
+      first.result.current.addProject({ name: "Acme", color: "bg-blue-100" });
+    });
+
+    expect(second.result.current.projects.map((project) => project.name)).toEqual(["Acme"]);
+  });
+});
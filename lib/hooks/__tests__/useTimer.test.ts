@@ -115,4 +115,203 @@ describe('useTimer', () => {
     expect(result.current.isRunning).toBe(false);
     expect(result.current.isComplete).toBe(false);
   });
+
+  describe('wall-clock countdown', () => {
+    it('should derive timeLeft from the real clock when ticks are skipped', () => {
+      const { result } = renderHook(() => useTimer(60));
+
+      act(() => {
+        result.current.start();
+      });
+
+      // Simulate a throttled tab: the clock moves but no timers fire
+      act(() => {
+        vi.setSystemTime(Date.now() + 20000);
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+
+      expect(result.current.timeLeft).toBe(40);
+      expect(result.current.isRunning).toBe(true);
+    });
+
+    it('should complete on time when the end passes while suspended', () => {
+      const { result } = renderHook(() => useTimer(10));
+
+      act(() => {
+        result.current.start();
+      });
+
+      act(() => {
+        vi.setSystemTime(Date.now() + 60000);
+        window.dispatchEvent(new Event('focus'));
+      });
+
+      expect(result.current.timeLeft).toBe(0);
+      expect(result.current.isComplete).toBe(true);
+      expect(result.current.isRunning).toBe(false);
+    });
+
+    it('should not count paused time against the countdown', () => {
+      const { result } = renderHook(() => useTimer(10));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(4000);
+      });
+      act(() => {
+        result.current.pause();
+      });
+      act(() => {
+        vi.setSystemTime(Date.now() + 30000);
+      });
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(2000);
+      });
+
+      expect(result.current.timeLeft).toBe(4);
+      expect(result.current.isComplete).toBe(false);
+    });
+
+    it('should keep sub-second progress across pause and resume', () => {
+      const { result } = renderHook(() => useTimer(10));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      act(() => {
+        result.current.pause();
+      });
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+
+      expect(result.current.timeLeft).toBe(8);
+    });
+
+    it('should restart from the new duration after completion', () => {
+      const { result } = renderHook(() => useTimer(2));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(2000);
+      });
+      expect(result.current.isComplete).toBe(true);
+
+      act(() => {
+        result.current.setDuration(5);
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(result.current.timeLeft).toBe(4);
+      expect(result.current.isRunning).toBe(true);
+    });
+  });
+
+  describe('stopwatch', () => {
+    it('should count up from zero and keep running past its target', () => {
+      const { result } = renderHook(() => useTimer(1500));
+
+      act(() => {
+        result.current.setStopwatch(2);
+      });
+      expect(result.current.isCountUp).toBe(true);
+      expect(result.current.elapsed).toBe(0);
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(result.current.elapsed).toBe(5);
+      expect(result.current.timeLeft).toBe(0);
+      expect(result.current.isRunning).toBe(true);
+      expect(result.current.isComplete).toBe(false);
+    });
+
+    it('should start without a target', () => {
+      const { result } = renderHook(() => useTimer(0, true));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      act(() => {
+        result.current.pause();
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+
+      expect(result.current.elapsed).toBe(1);
+      expect(result.current.isRunning).toBe(false);
+    });
+
+    it('should reset to zero and stay a stopwatch', () => {
+      const { result } = renderHook(() => useTimer(0, true));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.elapsed).toBe(0);
+      expect(result.current.isCountUp).toBe(true);
+      expect(result.current.getClock().countUp).toBe(true);
+    });
+
+    it('should go back to counting down when a duration is set', () => {
+      const { result } = renderHook(() => useTimer(0, true));
+
+      act(() => {
+        result.current.setDuration(10);
+      });
+
+      expect(result.current.isCountUp).toBe(false);
+      expect(result.current.getClock()).not.toHaveProperty('countUp');
+    });
+
+    it('should restore a running stopwatch without completing it', () => {
+      const { result } = renderHook(() => useTimer(10));
+
+      act(() => {
+        result.current.restoreClock({
+          durationMs: 10000,
+          startedAt: Date.now() - 20000,
+          pausedAt: null,
+          pausedMs: 0,
+          countUp: true,
+        });
+      });
+
+      expect(result.current.elapsed).toBe(20);
+      expect(result.current.isRunning).toBe(true);
+      expect(result.current.isComplete).toBe(false);
+      expect(result.current.isCountUp).toBe(true);
+    });
+  });
 });
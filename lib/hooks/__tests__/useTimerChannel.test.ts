@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useTimerChannel } from '../useTimerChannel';
+
+interface Snapshot {
+  remaining: number;
+}
+
+let channelCount = 0;
+
+/**
+ * Renders two hooks on the same channel, standing in for two browser tabs.
+ */
+function renderTabs() {
+  const name = `test-channel-${++channelCount}`;
+  const createTab = (snapshot: Snapshot | null) => {
+    const tab = {
+      snapshot,
+      onState: vi.fn(),
+      onCommand: vi.fn(),
+    };
+    const hook = renderHook(() =>
+      useTimerChannel<Snapshot>(name, {
+        getSnapshot: () => tab.snapshot,
+        onState: tab.onState,
+        onCommand: tab.onCommand,
+      })
+    );
+    return Object.assign(tab, { hook });
+  };
+
+  return { first: createTab({ remaining: 60 }), second: createTab(null) };
+}
+
+describe('useTimerChannel', () => {
+  it('should start idle', () => {
+    const { first } = renderTabs();
+
+    expect(first.hook.result.current.role).toBe('idle');
+  });
+
+  it('should make the publishing tab the leader and others followers', async () => {
+    const { first, second } = renderTabs();
+
+    act(() => {
+      first.hook.result.current.publish({ remaining: 60 });
+    });
+
+    expect(first.hook.result.current.role).toBe('leader');
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('follower');
+    });
+    expect(second.onState).toHaveBeenCalledWith({ remaining: 60 });
+  });
+
+  it('should forward follower commands to the leader', async () => {
+    const { first, second } = renderTabs();
+
+    act(() => {
+      first.hook.result.current.publish({ remaining: 60 });
+    });
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('follower');
+    });
+
+    act(() => {
+      second.hook.result.current.send('pause');
+    });
+
+    await waitFor(() => {
+      expect(first.onCommand).toHaveBeenCalledWith('pause');
+    });
+    expect(second.onCommand).not.toHaveBeenCalled();
+  });
+
+  it('should return followers to idle when the leader ends the timer', async () => {
+    const { first, second } = renderTabs();
+
+    act(() => {
+      first.hook.result.current.publish({ remaining: 60 });
+    });
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('follower');
+    });
+
+    act(() => {
+      first.hook.result.current.end(null);
+    });
+
+    expect(first.hook.result.current.role).toBe('idle');
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('idle');
+    });
+    expect(second.onState).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should not let a follower publish over the leader', async () => {
+    const { first, second } = renderTabs();
+
+    act(() => {
+      first.hook.result.current.publish({ remaining: 60 });
+    });
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('follower');
+    });
+
+    act(() => {
+      second.hook.result.current.publish({ remaining: 10 });
+    });
+
+    expect(second.hook.result.current.role).toBe('follower');
+    expect(first.onState).not.toHaveBeenCalled();
+  });
+
+  it('should hand the timer to a follower when the leader tab closes', async () => {
+    const { first, second } = renderTabs();
+
+    act(() => {
+      first.hook.result.current.publish({ remaining: 60 });
+    });
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('follower');
+    });
+
+    first.snapshot = { remaining: 42 };
+    first.hook.unmount();
+
+    await waitFor(() => {
+      expect(second.hook.result.current.role).toBe('leader');
+    });
+    expect(second.onState).toHaveBeenLastCalledWith({ remaining: 42 });
+  });
+
+  it('should send its state to a tab that opens later', async () => {
+    const name = `test-channel-${++channelCount}`;
+    const leader = renderHook(() =>
+      useTimerChannel<Snapshot>(name, {
+        getSnapshot: () => ({ remaining: 30 }),
+        onState: vi.fn(),
+        onCommand: vi.fn(),
+      })
+    );
+
+    act(() => {
+      leader.result.current.publish({ remaining: 30 });
+    });
+
+    const onState = vi.fn();
+    const latecomer = renderHook(() =>
+      useTimerChannel<Snapshot>(name, {
+        getSnapshot: () => null,
+        onState,
+        onCommand: vi.fn(),
+      })
+    );
+
+    await waitFor(() => {
+      expect(latecomer.result.current.role).toBe('follower');
+    });
+    expect(onState).toHaveBeenCalledWith({ remaining: 30 });
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { renderHook, act, waitFor } from "@testing-library/react";
 import { useTimerHistory } from "../useTimerHistory";
+import { getAllSessions, putSessions } from "@/lib/utils/sessionStore";
 import type { TimerSession } from "@/lib/types/timer-history";
+import type { HistorySyncClient, RemoteTimerSession } from "@/lib/types/history-sync";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -25,6 +27,14 @@ Object.defineProperty(window, "localStorage", {
   value: localStorageMock,
 });
 
+// Stores sessions as an earlier visit would have, then waits for the hook to load them
+const renderWithSessions = async (sessions: TimerSession[]) => {
+  await putSessions(sessions);
+  const hook = renderHook(() => useTimerHistory());
+  await waitFor(() => expect(hook.result.current.sessions).toHaveLength(sessions.length));
+  return hook;
+};
+
 describe("useTimerHistory", () => {
   beforeEach(() => {
     localStorageMock.clear();
@@ -45,12 +55,13 @@ describe("useTimerHistory", () => {
 
       expect(result.current.sessions).toHaveLength(1);
       expect(result.current.sessions[0]).toMatchObject({
-        focusMode: "study",
-        duration: 1500,
+        mode: "study",
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       });
       expect(result.current.sessions[0].id).toBeDefined();
-      expect(result.current.sessions[0].completedAt).toBeDefined();
+      expect(result.current.sessions[0].endTime).toBeDefined();
     });
 
     it("should add multiple sessions", () => {
@@ -63,9 +74,9 @@ describe("useTimerHistory", () => {
       });
 
       expect(result.current.sessions).toHaveLength(3);
-      expect(result.current.sessions[0].focusMode).toBe("yoga"); // Most recent first
-      expect(result.current.sessions[1].focusMode).toBe("work");
-      expect(result.current.sessions[2].focusMode).toBe("study");
+      expect(result.current.sessions[0].mode).toBe("yoga"); // Most recent first
+      expect(result.current.sessions[1].mode).toBe("work");
+      expect(result.current.sessions[2].mode).toBe("study");
     });
 
     it("should add sessions with unique IDs", () => {
@@ -92,121 +103,176 @@ describe("useTimerHistory", () => {
       expect(result.current.sessions[0].completed).toBe(false);
     });
 
-    it("should generate valid ISO date string for completedAt", () => {
+    it("should generate valid ISO date string for endTime", () => {
       const { result } = renderHook(() => useTimerHistory());
 
       act(() => {
         result.current.addSession("study", 1500, true);
       });
 
-      const completedAt = result.current.sessions[0].completedAt;
-      expect(() => new Date(completedAt)).not.toThrow();
-      expect(new Date(completedAt).toISOString()).toBe(completedAt);
+      const endTime = result.current.sessions[0].endTime;
+      expect(() => new Date(endTime)).not.toThrow();
+      expect(new Date(endTime).toISOString()).toBe(endTime);
+    });
+
+    it("should record a session with its start time and pauses", () => {
+      const { result } = renderHook(() => useTimerHistory());
+      const pauses = [
+        { pausedAt: "2025-01-10T09:10:00.000Z", resumedAt: "2025-01-10T09:15:00.000Z" },
+      ];
+
+      act(() => {
+        result.current.recordSession({
+          mode: "work",
+          actualDuration: 1200,
+          plannedDuration: 1500,
+          completed: false,
+          startTime: new Date("2025-01-10T09:00:00.000Z"),
+          endTime: new Date("2025-01-10T09:25:00.000Z"),
+          pauses,
+        });
+      });
+
+      expect(result.current.sessions[0]).toMatchObject({
+        mode: "work",
+        startTime: "2025-01-10T09:00:00.000Z",
+        endTime: "2025-01-10T09:25:00.000Z",
+        actualDuration: 1200,
+        completed: false,
+        pauses,
+      });
     });
   });
 
-  describe("LocalStorage Persistence - Save", () => {
-    it("should save sessions to localStorage when adding", async () => {
+  describe("Persistence - Save", () => {
+    it("should save sessions to IndexedDB when adding", async () => {
       const { result } = renderHook(() => useTimerHistory());
 
       act(() => {
         result.current.addSession("study", 1500, true);
       });
 
-      await waitFor(() => {
-        const stored = localStorageMock.getItem("zenFocus_timerHistory");
-        expect(stored).toBeDefined();
-
-        const parsed = JSON.parse(stored!);
-        expect(parsed).toHaveLength(1);
-        expect(parsed[0].focusMode).toBe("study");
+      await waitFor(async () => {
+        const stored = await getAllSessions();
+        expect(stored).toHaveLength(1);
+        expect(stored[0].mode).toBe("study");
       });
+      expect(localStorageMock.getItem("zenFocus_timerHistory")).toBeNull();
     });
 
-    it("should update localStorage when adding multiple sessions", async () => {
+    it("should update the store when adding multiple sessions", async () => {
       const { result } = renderHook(() => useTimerHistory());
 
       act(() => {
         result.current.addSession("study", 1500, true);
       });
 
-      await waitFor(() => {
-        const stored = localStorageMock.getItem("zenFocus_timerHistory");
-        const parsed = JSON.parse(stored!);
-        expect(parsed).toHaveLength(1);
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(1);
       });
 
       act(() => {
         result.current.addSession("work", 3600, true);
       });
 
-      await waitFor(() => {
-        const stored = localStorageMock.getItem("zenFocus_timerHistory");
-        const parsed = JSON.parse(stored!);
-        expect(parsed).toHaveLength(2);
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(2);
       });
     });
 
-    it("should persist all session data to localStorage", async () => {
+    it("should persist all session data", async () => {
       const { result } = renderHook(() => useTimerHistory());
 
       act(() => {
         result.current.addSession("yoga", 1800, true);
       });
 
-      await waitFor(() => {
-        const stored = localStorageMock.getItem("zenFocus_timerHistory");
-        const parsed = JSON.parse(stored!);
+      await waitFor(async () => {
+        const [stored] = await getAllSessions();
 
-        expect(parsed[0]).toMatchObject({
-          focusMode: "yoga",
-          duration: 1800,
+        expect(stored).toMatchObject({
+          schemaVersion: 2,
+          mode: "yoga",
+          actualDuration: 1800,
           completed: true,
         });
-        expect(parsed[0].id).toBeDefined();
-        expect(parsed[0].completedAt).toBeDefined();
+        expect(stored.id).toBeDefined();
+        expect(stored.endTime).toBeDefined();
       });
     });
   });
 
-  describe("LocalStorage Persistence - Load", () => {
-    it("should load sessions from localStorage on mount", () => {
+  describe("Persistence - Load", () => {
+    it("should load stored sessions on mount", async () => {
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date(Date.now() - 7200000).toISOString(),
+          endTime: new Date(Date.now() - 3600000).toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
       ];
 
+      const { result } = await renderWithSessions(testSessions);
+
+      expect(result.current.sessions).toHaveLength(2);
+      expect(result.current.sessions[0].mode).toBe("study");
+      expect(result.current.sessions[1].mode).toBe("work");
+    });
+
+    it("should move history kept in localStorage to IndexedDB, upgrading old sessions", async () => {
       localStorageMock.setItem(
         "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
+        JSON.stringify([
+          {
+            id: "legacy",
+            focusMode: "work",
+            duration: 1800,
+            completedAt: "2025-01-10T10:00:00.000Z",
+            completed: true,
+          },
+        ])
       );
 
       const { result } = renderHook(() => useTimerHistory());
 
-      expect(result.current.sessions).toHaveLength(2);
-      expect(result.current.sessions[0].focusMode).toBe("study");
-      expect(result.current.sessions[1].focusMode).toBe("work");
+      const expected = {
+        schemaVersion: 2,
+        id: "legacy",
+        mode: "work",
+        startTime: "2025-01-10T09:30:00.000Z",
+        endTime: "2025-01-10T10:00:00.000Z",
+        plannedDuration: 1800,
+        actualDuration: 1800,
+        completed: true,
+      };
+      await waitFor(() => expect(result.current.sessions).toEqual([expected]));
+      expect(await getAllSessions()).toEqual([expected]);
+      expect(localStorageMock.getItem("zenFocus_timerHistory")).toBeNull();
     });
 
-    it("should handle empty localStorage gracefully", () => {
+    it("should handle an empty store gracefully", async () => {
       const { result } = renderHook(() => useTimerHistory());
+      await act(async () => {});
 
       expect(result.current.sessions).toHaveLength(0);
     });
 
-    it("should handle corrupted localStorage data", () => {
+    it("should handle corrupted localStorage data", async () => {
       const consoleErrorSpy = vi
         .spyOn(console, "error")
         .mockImplementation(() => {});
@@ -214,16 +280,469 @@ describe("useTimerHistory", () => {
 
       const { result } = renderHook(() => useTimerHistory());
 
+      await waitFor(() => expect(consoleErrorSpy).toHaveBeenCalled());
       expect(result.current.sessions).toHaveLength(0);
-      expect(consoleErrorSpy).toHaveBeenCalled();
 
       consoleErrorSpy.mockRestore();
     });
 
-    it("should not load sessions if localStorage is null", () => {
+    it("should keep sessions recorded before loading finished", async () => {
+      await putSessions([
+        {
+          id: "stored",
+          schemaVersion: 2,
+          mode: "work",
+          startTime: "2025-01-10T09:30:00.000Z",
+          endTime: "2025-01-10T10:00:00.000Z",
+          plannedDuration: 1800,
+          actualDuration: 1800,
+          completed: true,
+        },
+      ]);
+      const { result } = renderHook(() => useTimerHistory());
+
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
+
+      await waitFor(() => expect(result.current.sessions).toHaveLength(2));
+      expect(result.current.sessions[1].id).toBe("stored");
+    });
+  });
+
+  describe("Multiple Tabs", () => {
+    it("should write only the new session, keeping sessions stored by another tab", async () => {
       const { result } = renderHook(() => useTimerHistory());
+      await act(async () => {});
+
+      // Another tab records a session after this one loaded
+      const otherTabSession: TimerSession = {
+        id: "other-tab",
+        schemaVersion: 2,
+        mode: "work",
+        startTime: new Date(Date.now() - 7200000).toISOString(),
+        endTime: new Date(Date.now() - 3600000).toISOString(),
+        plannedDuration: 3600,
+        actualDuration: 3600,
+        completed: true,
+      };
+      await putSessions([otherTabSession]);
+
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
+
+      await waitFor(async () => {
+        const stored = await getAllSessions();
+        expect(stored).toHaveLength(2);
+        expect(stored[1].id).toBe("other-tab");
+      });
+    });
+
+    it("should reload sessions when another tab changes the history", async () => {
+      const { result } = renderHook(() => useTimerHistory());
+      await act(async () => {});
+
+      const otherTabSession: TimerSession = {
+        id: "other-tab",
+        schemaVersion: 2,
+        mode: "yoga",
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        plannedDuration: 1800,
+        actualDuration: 1800,
+        completed: true,
+      };
+      await putSessions([otherTabSession]);
+
+      const otherTab = new BroadcastChannel("zenFocus_timerHistory");
+      otherTab.postMessage("changed");
+      otherTab.close();
+
+      await waitFor(() => expect(result.current.sessions).toEqual([otherTabSession]));
+    });
+
+    it("should share new sessions with other instances of the hook", async () => {
+      const { result: recorder } = renderHook(() => useTimerHistory());
+      const { result: viewer } = renderHook(() => useTimerHistory());
+
+      act(() => {
+        recorder.current.addSession("study", 1500, true);
+      });
+
+      await waitFor(() => expect(viewer.current.sessions).toHaveLength(1));
+    });
+  });
+
+  describe("Remote Sync", () => {
+    const remoteRecord = (id: string, mode = "work"): RemoteTimerSession => ({
+      id,
+      mode,
+      duration: 1800,
+      startTime: "2025-01-10T09:30:00.000Z",
+      endTime: "2025-01-10T10:00:00.000Z",
+      completed: true,
+      phase: null,
+    });
+
+    // In-memory stand-in for the Amplify TimerSession data client
+    const createMockClient = (initial: RemoteTimerSession[] = [], ownerId = "user-1") => {
+      const records = new Map(initial.map((r) => [r.id, r]));
+      const client = {
+        ownerId,
+        list: vi.fn(async () => ({ data: [...records.values()], nextToken: null })),
+        create: vi.fn(async (record: RemoteTimerSession) => {
+          records.set(record.id, record);
+          return { data: record };
+        }),
+        update: vi.fn(async (record: RemoteTimerSession) => {
+          records.set(record.id, record);
+          return { data: record };
+        }),
+        delete: vi.fn(async ({ id }: { id: string }) => {
+          records.delete(id);
+          return { data: null };
+        }),
+      } satisfies HistorySyncClient;
+      return { client, records };
+    };
+
+    const setOnline = (online: boolean) => {
+      Object.defineProperty(navigator, "onLine", { value: online, configurable: true });
+    };
+
+    afterEach(() => {
+      setOnline(true);
+    });
+
+    it("should not sync without a client", () => {
+      const { result } = renderHook(() => useTimerHistory());
+
+      expect(result.current.syncStatus).toBe("disabled");
+    });
+
+    it("should upload local sessions and merge remote ones by id", async () => {
+      const local: TimerSession = {
+        id: "local",
+        schemaVersion: 2,
+        mode: "study",
+        startTime: "2025-01-11T09:35:00.000Z",
+        endTime: "2025-01-11T10:00:00.000Z",
+        plannedDuration: 1500,
+        actualDuration: 1500,
+        completed: true,
+      };
+      localStorageMock.setItem("zenFocus_timerHistory", JSON.stringify([local]));
+      const { client, records } = createMockClient([remoteRecord("remote")]);
+
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+      expect(records.has("local")).toBe(true);
+      expect(result.current.sessions.map((s) => s.id)).toEqual(["local", "remote"]);
+      expect(await getAllSessions()).toHaveLength(2);
+    });
+
+    it("should not duplicate sessions already in both stores", async () => {
+      const { client } = createMockClient([remoteRecord("shared")]);
+      localStorageMock.setItem(
+        "zenFocus_timerHistory",
+        JSON.stringify([
+          {
+            id: "shared",
+            schemaVersion: 2,
+            mode: "work",
+            startTime: "2025-01-10T09:30:00.000Z",
+            endTime: "2025-01-10T10:00:00.000Z",
+            plannedDuration: 1800,
+            actualDuration: 1800,
+            completed: true,
+          },
+        ])
+      );
+
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+      expect(client.create).not.toHaveBeenCalled();
+      expect(result.current.sessions).toHaveLength(1);
+    });
+
+    it("should share one sync between instances mounted together", async () => {
+      const { client } = createMockClient([remoteRecord("remote")]);
+
+      const first = renderHook(() => useTimerHistory({ syncClient: client }));
+      const second = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      await waitFor(() => expect(first.result.current.syncStatus).toBe("synced"));
+      await waitFor(() => expect(second.result.current.syncStatus).toBe("synced"));
+      expect(client.list).toHaveBeenCalledTimes(1);
+      expect(second.result.current.sessions.map((s) => s.id)).toEqual(["remote"]);
+    });
+
+    it("should sync again after a change made while a sync runs", async () => {
+      const { client, records } = createMockClient();
+      const first = renderHook(() => useTimerHistory({ syncClient: client }));
+      const second = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      act(() => {
+        second.result.current.addSession("yoga", 600, true);
+      });
+
+      await waitFor(() => expect(records.size).toBe(1));
+      await waitFor(() => expect(first.result.current.syncStatus).toBe("synced"));
+      expect(client.list).toHaveBeenCalledTimes(2);
+      expect(client.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should upload new sessions as they are recorded", async () => {
+      const { client, records } = createMockClient();
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+
+      act(() => {
+        result.current.addSession("yoga", 1800, true);
+      });
+
+      await waitFor(() => expect(records.size).toBe(1));
+      expect([...records.values()][0].mode).toBe("yoga");
+    });
+
+    it("should keep recording locally while offline and sync when back online", async () => {
+      setOnline(false);
+      const { client, records } = createMockClient([remoteRecord("remote")]);
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
 
+      expect(result.current.syncStatus).toBe("offline");
+      expect(client.list).not.toHaveBeenCalled();
+      expect(result.current.sessions).toHaveLength(1);
+
+      setOnline(true);
+      act(() => {
+        window.dispatchEvent(new Event("online"));
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+      expect(records.size).toBe(2);
+      expect(result.current.sessions).toHaveLength(2);
+    });
+
+    it("should remove cleared sessions from the remote store", async () => {
+      const { client, records } = createMockClient([remoteRecord("remote")]);
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+      await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+      act(() => {
+        result.current.clearHistory();
+      });
+
+      await waitFor(() => expect(records.size).toBe(0));
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
       expect(result.current.sessions).toHaveLength(0);
+      expect(localStorageMock.getItem("zenFocus_deletedSessionIds")).toBeNull();
+    });
+
+    it("should update the remote copy of edited sessions", async () => {
+      const { client, records } = createMockClient([remoteRecord("remote")]);
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+
+      act(() => {
+        result.current.updateSession("remote", { mode: "yoga" });
+      });
+
+      await waitFor(() => expect(records.get("remote")?.mode).toBe("yoga"));
+      await waitFor(() =>
+        expect(localStorageMock.getItem("zenFocus_updatedSessionIds")).toBeNull()
+      );
+    });
+
+    it("should apply deletions and edits made on other devices", async () => {
+      const { client, records } = createMockClient([remoteRecord("deleted"), remoteRecord("edited")]);
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+      await waitFor(() => expect(result.current.sessions).toHaveLength(2));
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+
+      records.delete("deleted");
+      records.set("edited", {
+        ...remoteRecord("edited", "yoga"),
+        editedAt: "2025-01-12T08:00:00.000Z",
+      });
+      act(() => {
+        window.dispatchEvent(new Event("online"));
+      });
+
+      await waitFor(() => expect(result.current.sessions.map((s) => s.id)).toEqual(["edited"]));
+      expect(result.current.sessions[0].mode).toBe("yoga");
+      expect(client.create).not.toHaveBeenCalled();
+      expect((await getAllSessions()).map((s) => s.id)).toEqual(["edited"]);
+    });
+
+    it("should keep restored sessions in the remote store", async () => {
+      const { client, records } = createMockClient([remoteRecord("remote")]);
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+      await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+      const [session] = result.current.sessions;
+
+      act(() => {
+        result.current.deleteSessions(["remote"]);
+      });
+      await waitFor(() => expect(records.size).toBe(0));
+
+      act(() => {
+        result.current.restoreSessions([session]);
+      });
+
+      await waitFor(() => expect(records.has("remote")).toBe(true));
+    });
+
+    it("should keep each account's history apart when another account signs in", async () => {
+      const alice = createMockClient([remoteRecord("alice-remote")], "alice");
+      const bob = createMockClient([remoteRecord("bob-remote")], "bob");
+      const { result, rerender } = renderHook(
+        ({ syncClient }) => useTimerHistory({ syncClient }),
+        { initialProps: { syncClient: alice.client as HistorySyncClient | null } }
+      );
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
+      await waitFor(() => expect(alice.records.size).toBe(2));
+
+      // Signed out, then recorded before the next account signs in
+      rerender({ syncClient: null });
+      act(() => {
+        result.current.addSession("yoga", 600, true);
+      });
+      rerender({ syncClient: bob.client });
+
+      await waitFor(() =>
+        expect(result.current.sessions.map((s) => s.id)).toEqual(["bob-remote"])
+      );
+      await waitFor(() => expect(result.current.syncStatus).toBe("synced"));
+      expect(bob.client.create).not.toHaveBeenCalled();
+      expect([...bob.records.keys()]).toEqual(["bob-remote"]);
+
+      rerender({ syncClient: alice.client });
+
+      await waitFor(() => expect(result.current.sessions).toHaveLength(3));
+      await waitFor(() => expect(alice.records.size).toBe(3));
+      expect(result.current.sessions.map((s) => s.mode).sort()).toEqual(["study", "work", "yoga"]);
+    });
+
+    it("should keep local history when syncing fails", async () => {
+      const { client } = createMockClient();
+      client.list.mockRejectedValue(new Error("Network error"));
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const { result } = renderHook(() => useTimerHistory({ syncClient: client }));
+
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toBe("error"));
+      expect(result.current.sessions).toHaveLength(1);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("Editing and Deleting", () => {
+    it("should update a session and keep the list ordered", async () => {
+      const { result } = await renderWithSessions([
+        {
+          id: "later",
+          schemaVersion: 2,
+          mode: "study",
+          startTime: "2025-01-11T09:35:00.000Z",
+          endTime: "2025-01-11T10:00:00.000Z",
+          plannedDuration: 1500,
+          actualDuration: 1500,
+          completed: true,
+        },
+        {
+          id: "earlier",
+          schemaVersion: 2,
+          mode: "study",
+          startTime: "2025-01-10T09:35:00.000Z",
+          endTime: "2025-01-10T10:00:00.000Z",
+          plannedDuration: 1500,
+          actualDuration: 1500,
+          completed: true,
+        },
+      ]);
+
+      act(() => {
+        result.current.updateSession("earlier", {
+          mode: "work",
+          startTime: "2025-01-12T09:50:00.000Z",
+          endTime: "2025-01-12T10:00:00.000Z",
+          actualDuration: 600,
+          completed: false,
+        });
+      });
+
+      expect(result.current.sessions.map((s) => s.id)).toEqual(["earlier", "later"]);
+      expect(result.current.sessions[0]).toMatchObject({
+        mode: "work",
+        actualDuration: 600,
+        plannedDuration: 1500,
+        completed: false,
+      });
+      await waitFor(async () => {
+        const [stored] = await getAllSessions();
+        expect(stored).toMatchObject({ id: "earlier", mode: "work" });
+      });
+    });
+
+    it("should delete selected sessions and restore them", async () => {
+      const { result } = renderHook(() => useTimerHistory());
+      act(() => {
+        result.current.addSession("study", 1500, true);
+        result.current.addSession("work", 3600, true);
+      });
+      const [work, study] = result.current.sessions;
+
+      act(() => {
+        result.current.deleteSessions([work.id]);
+      });
+
+      expect(result.current.sessions).toEqual([study]);
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(1);
+      });
+
+      act(() => {
+        result.current.restoreSessions([work]);
+      });
+
+      expect(result.current.sessions.map((s) => s.id)).toContain(work.id);
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(2);
+      });
+    });
+
+    it("should undo clearing the history", async () => {
+      const { result } = renderHook(() => useTimerHistory());
+      act(() => {
+        result.current.addSession("study", 1500, true);
+      });
+      const cleared = result.current.sessions;
+
+      act(() => {
+        result.current.clearHistory();
+        result.current.restoreSessions(cleared);
+      });
+
+      expect(result.current.sessions).toEqual(cleared);
+      await waitFor(async () => {
+        expect(await getAllSessions()).toEqual(cleared);
+      });
     });
   });
 
@@ -245,19 +764,23 @@ describe("useTimerHistory", () => {
       expect(result.current.sessions).toHaveLength(0);
     });
 
-    it("should remove data from localStorage when clearing", () => {
+    it("should remove sessions from the store when clearing", async () => {
       const { result } = renderHook(() => useTimerHistory());
 
       act(() => {
         result.current.addSession("study", 1500, true);
       });
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(1);
+      });
 
       act(() => {
         result.current.clearHistory();
       });
 
-      const stored = localStorageMock.getItem("zenFocus_timerHistory");
-      expect(stored).toBeNull();
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(0);
+      });
     });
 
     it("should handle clearing when already empty", () => {
@@ -332,6 +855,26 @@ describe("useTimerHistory", () => {
       });
     });
 
+    it("should record Pomodoro breaks separately from focus time", () => {
+      const { result } = renderHook(() => useTimerHistory());
+
+      act(() => {
+        result.current.addSession("study", 1500, true, "focus");
+        result.current.addSession("study", 300, true, "shortBreak");
+        result.current.addSession("study", 900, true, "longBreak");
+      });
+
+      expect(result.current.sessions[0].phase).toBe("longBreak");
+      expect(result.current.sessions[2].phase).toBeUndefined();
+
+      const stats = result.current.getStatistics();
+      expect(stats.totalSessions).toBe(1);
+      expect(stats.completedSessions).toBe(1);
+      expect(stats.totalTimeSpent).toBe(1500);
+      expect(stats.totalBreakTime).toBe(1200);
+      expect(stats.sessionsByMode).toEqual({ study: 1 });
+    });
+
     it("should return zero statistics for empty sessions", () => {
       const { result } = renderHook(() => useTimerHistory());
 
@@ -357,93 +900,93 @@ describe("useTimerHistory", () => {
       expect(stats.currentStreak).toBe(1);
     });
 
-    it("should calculate current streak when sessions are from yesterday", () => {
+    it("should calculate current streak when sessions are from yesterday", async () => {
       renderHook(() => useTimerHistory());
 
       const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
       const testSession: TimerSession = {
         id: "test-1",
-        focusMode: "study",
-        duration: 1500,
-        completedAt: yesterday.toISOString(),
+        schemaVersion: 2,
+        mode: "study",
+        startTime: yesterday.toISOString(),
+        endTime: yesterday.toISOString(),
+        plannedDuration: 1500,
+        actualDuration: 1500,
         completed: true,
       };
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify([testSession])
-      );
-
-      const { result: newResult } = renderHook(() => useTimerHistory());
+      const { result: newResult } = await renderWithSessions([testSession]);
       const stats = newResult.current.getStatistics();
 
       expect(stats.currentStreak).toBe(1);
     });
 
-    it("should calculate consecutive day streak", () => {
+    it("should calculate consecutive day streak", async () => {
       const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
       const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
 
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: yesterday.toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: yesterday.toISOString(),
+          endTime: yesterday.toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
         {
           id: "test-3",
-          focusMode: "yoga",
-          duration: 1800,
-          completedAt: twoDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "yoga",
+          startTime: twoDaysAgo.toISOString(),
+          endTime: twoDaysAgo.toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: true,
         },
       ];
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
-      );
-
-      const { result } = renderHook(() => useTimerHistory());
+      const { result } = await renderWithSessions(testSessions);
       const stats = result.current.getStatistics();
 
       expect(stats.currentStreak).toBe(3);
     });
 
-    it("should reset current streak when gap in days", () => {
+    it("should reset current streak when gap in days", async () => {
       const threeDaysAgo = new Date(Date.now() - 72 * 60 * 60 * 1000);
 
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: threeDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: threeDaysAgo.toISOString(),
+          endTime: threeDaysAgo.toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
       ];
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
-      );
-
-      const { result } = renderHook(() => useTimerHistory());
+      const { result } = await renderWithSessions(testSessions);
       const stats = result.current.getStatistics();
 
       expect(stats.currentStreak).toBe(0);
     });
 
-    it("should calculate longest streak correctly", () => {
+    it("should calculate longest streak correctly", async () => {
       const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
       const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
       const fiveDaysAgo = new Date(Date.now() - 120 * 60 * 60 * 1000);
@@ -453,123 +996,141 @@ describe("useTimerHistory", () => {
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: yesterday.toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: yesterday.toISOString(),
+          endTime: yesterday.toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
         {
           id: "test-3",
-          focusMode: "yoga",
-          duration: 1800,
-          completedAt: twoDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "yoga",
+          startTime: twoDaysAgo.toISOString(),
+          endTime: twoDaysAgo.toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: true,
         },
         // Gap here
         {
           id: "test-4",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: fiveDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: fiveDaysAgo.toISOString(),
+          endTime: fiveDaysAgo.toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-5",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: sixDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: sixDaysAgo.toISOString(),
+          endTime: sixDaysAgo.toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
         {
           id: "test-6",
-          focusMode: "meditation",
-          duration: 600,
-          completedAt: sevenDaysAgo.toISOString(),
+          schemaVersion: 2,
+          mode: "meditation",
+          startTime: sevenDaysAgo.toISOString(),
+          endTime: sevenDaysAgo.toISOString(),
+          plannedDuration: 600,
+          actualDuration: 600,
           completed: true,
         },
       ];
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
-      );
-
-      const { result } = renderHook(() => useTimerHistory());
+      const { result } = await renderWithSessions(testSessions);
       const stats = result.current.getStatistics();
 
       expect(stats.currentStreak).toBe(3);
       expect(stats.longestStreak).toBe(3);
     });
 
-    it("should only count completed sessions in streak", () => {
+    it("should only count completed sessions in streak", async () => {
       const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
 
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: yesterday.toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: yesterday.toISOString(),
+          endTime: yesterday.toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: false, // Not completed
         },
       ];
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
-      );
-
-      const { result } = renderHook(() => useTimerHistory());
+      const { result } = await renderWithSessions(testSessions);
       const stats = result.current.getStatistics();
 
       expect(stats.currentStreak).toBe(1);
     });
 
-    it("should handle multiple sessions on same day for streak", () => {
+    it("should handle multiple sessions on same day for streak", async () => {
       const testSessions: TimerSession[] = [
         {
           id: "test-1",
-          focusMode: "study",
-          duration: 1500,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "study",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1500,
+          actualDuration: 1500,
           completed: true,
         },
         {
           id: "test-2",
-          focusMode: "work",
-          duration: 3600,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "work",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 3600,
+          actualDuration: 3600,
           completed: true,
         },
         {
           id: "test-3",
-          focusMode: "yoga",
-          duration: 1800,
-          completedAt: new Date().toISOString(),
+          schemaVersion: 2,
+          mode: "yoga",
+          startTime: new Date().toISOString(),
+          endTime: new Date().toISOString(),
+          plannedDuration: 1800,
+          actualDuration: 1800,
           completed: true,
         },
       ];
 
-      localStorageMock.setItem(
-        "zenFocus_timerHistory",
-        JSON.stringify(testSessions)
-      );
-
-      const { result } = renderHook(() => useTimerHistory());
+      const { result } = await renderWithSessions(testSessions);
       const stats = result.current.getStatistics();
 
       expect(stats.currentStreak).toBe(1);
@@ -587,28 +1148,104 @@ describe("useTimerHistory", () => {
       expect(stats.currentStreak).toBe(0);
       expect(stats.longestStreak).toBe(0);
     });
+
+    it("should count days in the preferred time zone and day start hour", async () => {
+      const session = (id: string, endTime: string): TimerSession => ({
+        id,
+        schemaVersion: 2,
+        mode: "study",
+        startTime: endTime,
+        endTime,
+        plannedDuration: 1500,
+        actualDuration: 1500,
+        completed: true,
+      });
+      // 23:00 on the 10th and 01:00 on the 12th in UTC
+      const sessions = [
+        session("evening", "2025-01-10T23:00:00.000Z"),
+        session("night", "2025-01-12T01:00:00.000Z"),
+      ];
+      localStorage.setItem("zenFocus_preferences", JSON.stringify({ timeZone: "UTC" }));
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-12T10:00:00.000Z"));
+      const { result } = await renderWithSessions(sessions);
+
+      expect(result.current.getStatistics().currentStreak).toBe(1);
+
+      act(() => {
+        localStorage.setItem(
+          "zenFocus_preferences",
+          JSON.stringify({ timeZone: "UTC", dayStartHour: 3 })
+        );
+        window.dispatchEvent(new StorageEvent("storage", { key: "zenFocus_preferences" }));
+      });
+
+      expect(result.current.getStatistics()).toMatchObject({
+        currentStreak: 2,
+        longestStreak: 2,
+      });
+    });
+
+    it("should count only days the daily goals were met with goal streaks", async () => {
+      const session = (id: string, endTime: string, actualDuration: number): TimerSession => ({
+        id,
+        schemaVersion: 2,
+        mode: "work",
+        startTime: endTime,
+        endTime,
+        plannedDuration: actualDuration,
+        actualDuration,
+        completed: true,
+      });
+      localStorage.setItem(
+        "zenFocus_preferences",
+        JSON.stringify({
+          timeZone: "UTC",
+          goalStreaks: true,
+          goals: [{ id: "hour", metric: "focusTime", target: 3600, period: "day" }],
+        })
+      );
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-12T18:00:00.000Z"));
+      const { result } = await renderWithSessions([
+        session("short", "2025-01-10T09:00:00.000Z", 1800),
+        session("day-1", "2025-01-11T09:00:00.000Z", 3600),
+        session("day-2", "2025-01-12T09:00:00.000Z", 3600),
+      ]);
+
+      expect(result.current.getStatistics()).toMatchObject({
+        currentStreak: 2,
+        longestStreak: 2,
+      });
+    });
   });
 
   describe("Integration Tests", () => {
     it("should persist sessions across hook remounts", async () => {
       const { result, unmount } = renderHook(() => useTimerHistory());
 
+      vi.useFakeTimers({ toFake: ["Date"] });
       act(() => {
+        vi.setSystemTime(new Date("2025-01-10T10:00:00.000Z"));
         result.current.addSession("study", 1500, true);
+        vi.setSystemTime(new Date("2025-01-10T11:00:00.000Z"));
         result.current.addSession("work", 3600, true);
       });
+      vi.useRealTimers();
 
-      await waitFor(() => {
-        expect(localStorageMock.getItem("zenFocus_timerHistory")).toBeDefined();
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(2);
       });
 
       unmount();
 
       const { result: newResult } = renderHook(() => useTimerHistory());
 
-      expect(newResult.current.sessions).toHaveLength(2);
-      expect(newResult.current.sessions[0].focusMode).toBe("work");
-      expect(newResult.current.sessions[1].focusMode).toBe("study");
+      await waitFor(() => expect(newResult.current.sessions).toHaveLength(2));
+      expect(newResult.current.sessions[0].mode).toBe("work");
+      expect(newResult.current.sessions[1].mode).toBe("study");
     });
 
     it("should handle complete workflow: add, stats, clear", async () => {
@@ -635,7 +1272,9 @@ describe("useTimerHistory", () => {
       // Verify cleared
       stats = result.current.getStatistics();
       expect(stats.totalSessions).toBe(0);
-      expect(localStorageMock.getItem("zenFocus_timerHistory")).toBeNull();
+      await waitFor(async () => {
+        expect(await getAllSessions()).toHaveLength(0);
+      });
     });
 
     it("should update statistics reactively when sessions change", () => {
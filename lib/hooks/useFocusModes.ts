@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import {
+  getFocusModeConfig,
+  getFocusModeList,
+  isFocusMode,
+  type CustomFocusMode,
+  type FocusMode,
+  type FocusModeConfig,
+} from '../constants/focus-modes';
+import {
+  CUSTOM_FOCUS_MODES_STORAGE_KEY,
+  createCustomFocusModeId,
+  loadCustomFocusModes,
+  saveCustomFocusModes,
+} from '../utils/customFocusModes';
+import { createLocalStore, useLocalStore } from './useLocalStore';
+
+export type CustomFocusModeInput = Omit<FocusModeConfig, 'value'>;
+
+const store = createLocalStore<CustomFocusMode[]>(
+  [CUSTOM_FOCUS_MODES_STORAGE_KEY],
+  loadCustomFocusModes,
+  []
+);
+
+/**
+ * Built-in focus modes merged with the ones created by the user.
+ *
+ * Deleting a mode hides it from `focusModes` but keeps its configuration, so
+ * `getConfig` still labels sessions recorded in it. Changes are shared with
+ * every component using the hook, in this tab and in others.
+ */
+export function useFocusModes() {
+  const customModes = useLocalStore(store);
+
+  const update = useCallback((change: (stored: CustomFocusMode[]) => CustomFocusMode[]) => {
+    saveCustomFocusModes(change(loadCustomFocusModes()));
+    store.notify();
+  }, []);
+
+  const addMode = useCallback((input: CustomFocusModeInput): CustomFocusMode => {
+    const mode: CustomFocusMode = { ...input, value: createCustomFocusModeId() };
+    update((stored) => [...stored, mode]);
+    return mode;
+  }, [update]);
+
+  const updateMode = useCallback((value: FocusMode, input: CustomFocusModeInput) => {
+    update((stored) =>
+      stored.map((mode) => (mode.value === value ? { ...mode, ...input } : mode))
+    );
+  }, [update]);
+
+  const deleteMode = useCallback((value: FocusMode) => {
+    update((stored) =>
+      stored.map((mode) => (mode.value === value ? { ...mode, deleted: true } : mode))
+    );
+  }, [update]);
+
+  const focusModes = useMemo(() => getFocusModeList(customModes), [customModes]);
+  const activeCustomModes = useMemo(
+    () => customModes.filter((mode) => !mode.deleted),
+    [customModes]
+  );
+
+  const getConfig = useCallback(
+    (mode: FocusMode) => getFocusModeConfig(mode, customModes),
+    [customModes]
+  );
+
+  const isAvailable = useCallback(
+    (value: string): value is FocusMode => isFocusMode(value, customModes),
+    [customModes]
+  );
+
+  return {
+    focusModes,
+    customModes: activeCustomModes,
+    getConfig,
+    isFocusMode: isAvailable,
+    addMode,
+    updateMode,
+    deleteMode,
+  };
+}
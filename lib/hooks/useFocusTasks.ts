@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { FocusTask } from '../types/tasks';
+import {
+  ACTIVE_TASK_STORAGE_KEY,
+  FOCUS_TASKS_STORAGE_KEY,
+  createFocusTask,
+  loadActiveTaskId,
+  loadFocusTasks,
+  moveFocusTask,
+  saveActiveTaskId,
+  saveFocusTasks,
+} from '../utils/focusTasks';
+import { createLocalStore, useLocalStore } from './useLocalStore';
+
+export type FocusTaskChanges = Partial<Pick<FocusTask, 'title' | 'estimatedPomodoros' | 'projectId'>>;
+
+const store = createLocalStore<{ tasks: FocusTask[]; activeTaskId: string | null }>(
+  [FOCUS_TASKS_STORAGE_KEY, ACTIVE_TASK_STORAGE_KEY],
+  () => ({ tasks: loadFocusTasks(), activeTaskId: loadActiveTaskId() }),
+  { tasks: [], activeTaskId: null }
+);
+
+/**
+ * The user's task list and the task Focus tab sessions are attributed to.
+ *
+ * Only open tasks can be active: completing or archiving the active task
+ * clears it. Changes are shared with every component using the hook, in this
+ * tab and in others.
+ */
+export function useFocusTasks() {
+  const { tasks, activeTaskId } = useLocalStore(store);
+
+  const update = useCallback((change: (stored: FocusTask[]) => FocusTask[]) => {
+    const next = change(loadFocusTasks());
+    saveFocusTasks(next);
+
+    const activeId = loadActiveTaskId();
+    const active = next.find((task) => task.id === activeId);
+    if (activeId !== null && (!active || active.completed || active.archived)) {
+      saveActiveTaskId(null);
+    }
+    store.notify();
+  }, []);
+
+  const changeTask = useCallback((id: string, changes: Partial<FocusTask>) => {
+    update((stored) => stored.map((task) => (task.id === id ? { ...task, ...changes } : task)));
+  }, [update]);
+
+  const addTask = useCallback((
+    title: string,
+    estimatedPomodoros?: number,
+    projectId?: string
+  ): FocusTask => {
+    const task = createFocusTask(title, estimatedPomodoros, projectId);
+    update((stored) => [...stored, task]);
+    return task;
+  }, [update]);
+
+  const updateTask = useCallback((id: string, changes: FocusTaskChanges) => {
+    changeTask(id, changes);
+  }, [changeTask]);
+
+  const setTaskCompleted = useCallback((id: string, completed: boolean) => {
+    changeTask(id, { completed });
+  }, [changeTask]);
+
+  const setTaskArchived = useCallback((id: string, archived: boolean) => {
+    changeTask(id, { archived });
+  }, [changeTask]);
+
+  const moveTask = useCallback((id: string, offset: -1 | 1) => {
+    update((stored) => moveFocusTask(stored, id, offset));
+  }, [update]);
+
+  const selectTask = useCallback((id: string | null) => {
+    saveActiveTaskId(id);
+    store.notify();
+  }, []);
+
+  return {
+    tasks,
+    activeTaskId,
+    addTask,
+    updateTask,
+    setTaskCompleted,
+    setTaskArchived,
+    moveTask,
+    selectTask,
+  };
+}
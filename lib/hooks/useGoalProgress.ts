@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import type { FocusMode } from '../constants/focus-modes';
+import type { GoalProgress } from '../types/goals';
+import type { TimerSession } from '../types/timer-history';
+import {
+  claimGoalAnnouncements,
+  describeGoal,
+  getGoalPeriodKey,
+  getGoalProgress,
+} from '../utils/goals';
+import { useNotification } from './useNotification';
+import { usePreferences } from './usePreferences';
+
+// Progress is measured again this often, so a new day or week starts on time
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Progress of the user's goals due today, announced with a sound and a
+ * system notification when a goal is reached.
+ *
+ * Each goal is announced once per day or week, even with the app open in
+ * several tabs or reloaded.
+ *
+ * @param sessions - Recorded sessions, from `useTimerHistory`
+ * @param getModeLabel - Looks up mode labels for the notification
+ */
+export function useGoalProgress(
+  sessions: TimerSession[],
+  getModeLabel: (mode: FocusMode) => string
+): GoalProgress[] {
+  const {
+    preferences: { goals, timeZone, dayStartHour },
+  } = usePreferences();
+  const { notify } = useNotification();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const progress = useMemo(
+    () => getGoalProgress(goals, sessions, { timeZone, dayStartHour }, now),
+    [goals, sessions, timeZone, dayStartHour, now]
+  );
+
+  useEffect(() => {
+    // Nothing to measure yet, e.g. while preferences load: keep what was announced
+    if (progress.length === 0) return;
+
+    const claimed = new Set(
+      claimGoalAnnouncements(
+        progress.filter((p) => p.met).map((p) => getGoalPeriodKey(p.goal, p.periodStart)),
+        progress.map((p) => getGoalPeriodKey(p.goal, p.periodStart))
+      )
+    );
+    progress
+      .filter((p) => claimed.has(getGoalPeriodKey(p.goal, p.periodStart)))
+      .forEach(({ goal }) => {
+        notify(
+          'Goal reached',
+          describeGoal(goal, goal.mode === undefined ? undefined : getModeLabel(goal.mode))
+        );
+      });
+  }, [progress, notify, getModeLabel]);
+
+  return progress;
+}
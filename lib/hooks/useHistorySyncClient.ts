@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Amplify } from 'aws-amplify';
+import { Hub } from 'aws-amplify/utils';
+import { getCurrentUser } from 'aws-amplify/auth';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '@/amplify/data/resource';
+import type { HistorySyncClient } from '../types/history-sync';
+
+// Client of the signed-in user, shared by every component on the page so
+// they can share a sync
+let sharedClient: HistorySyncClient | null = null;
+
+/**
+ * Wraps the Amplify data client of the `TimerSession` model, once per user
+ */
+function getHistorySyncClient(ownerId: string): HistorySyncClient {
+  if (sharedClient?.ownerId === ownerId) return sharedClient;
+
+  const model = generateClient<Schema>().models.TimerSession;
+  sharedClient = {
+    ownerId,
+    list: (options) => model.list(options),
+    create: (session) => model.create(session),
+    update: (session) => model.update(session),
+    delete: (key) => model.delete(key),
+  };
+  return sharedClient;
+}
+
+/**
+ * Amplify data client for syncing timer history, available while a user is
+ * signed in. Returns null when Amplify is not configured or nobody is signed
+ * in, so history stays on this device.
+ */
+export function useHistorySyncClient(): HistorySyncClient | null {
+  const [client, setClient] = useState<HistorySyncClient | null>(null);
+
+  useEffect(() => {
+    // The app configures Amplify only when it is connected to a backend
+    if (!Amplify.getConfig().API?.GraphQL) return;
+
+    let cancelled = false;
+    const resolveUser = async () => {
+      try {
+        const { userId } = await getCurrentUser();
+        if (!cancelled) setClient(getHistorySyncClient(userId));
+      } catch {
+        if (!cancelled) setClient(null);
+      }
+    };
+
+    void resolveUser();
+    const stopListening = Hub.listen('auth', ({ payload }) => {
+      if (payload.event === 'signedIn') {
+        void resolveUser();
+      } else if (payload.event === 'signedOut') {
+        setClient(null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, []);
+
+  return client;
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { BUILT_IN_INTERVAL_PRESETS } from '../constants/interval-presets';
+import type { IntervalPreset, IntervalProgram } from '../types/interval-program';
+import {
+  INTERVAL_PRESETS_STORAGE_KEY,
+  createIntervalPreset,
+  loadIntervalPresets,
+  parseIntervalPresets,
+  saveIntervalPresets,
+  serializeIntervalPresets,
+} from '../utils/intervalPresets';
+
+/**
+ * Library of interval presets: the built-ins followed by the user's own.
+ *
+ * Built-in presets are read-only; they can be loaded and duplicated. Every
+ * change to the user's presets is written on top of what is stored at that
+ * moment, so edits made in other tabs are not lost.
+ */
+export function useIntervalPresets() {
+  const [userPresets, setUserPresets] = useState<IntervalPreset[]>([]);
+
+  // Load presets from localStorage on mount
+  useEffect(() => {
+    setUserPresets(loadIntervalPresets());
+  }, []);
+
+  // Pick up presets changed in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === INTERVAL_PRESETS_STORAGE_KEY || event.key === null) {
+        setUserPresets(loadIntervalPresets());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const presets = useMemo(
+    () => [...BUILT_IN_INTERVAL_PRESETS, ...userPresets],
+    [userPresets]
+  );
+
+  const update = useCallback((change: (stored: IntervalPreset[]) => IntervalPreset[]) => {
+    const next = change(loadIntervalPresets());
+    saveIntervalPresets(next);
+    setUserPresets(next);
+  }, []);
+
+  const savePreset = useCallback((program: IntervalProgram): IntervalPreset => {
+    const preset = createIntervalPreset(program);
+    update((stored) => [...stored, preset]);
+    return preset;
+  }, [update]);
+
+  const updatePreset = useCallback((id: string, program: IntervalProgram) => {
+    update((stored) =>
+      stored.map((preset) => (preset.id === id ? { ...preset, program } : preset))
+    );
+  }, [update]);
+
+  const deletePreset = useCallback((id: string) => {
+    update((stored) => stored.filter((preset) => preset.id !== id));
+  }, [update]);
+
+  /**
+   * Copies a preset, built-in or not, into the user's presets right after it
+   */
+  const duplicatePreset = useCallback((id: string): IntervalPreset | null => {
+    const source = presets.find((preset) => preset.id === id);
+    if (!source) return null;
+
+    const copy = createIntervalPreset({
+      ...source.program,
+      name: `${source.program.name} (copy)`,
+    });
+    update((stored) => {
+      const index = stored.findIndex((preset) => preset.id === id);
+      if (index === -1) return [...stored, copy];
+      return [...stored.slice(0, index + 1), copy, ...stored.slice(index + 1)];
+    });
+    return copy;
+  }, [presets, update]);
+
+  /**
+   * Moves one of the user's presets up (negative offset) or down the list
+   */
+  const movePreset = useCallback((id: string, offset: number) => {
+    update((stored) => {
+      const index = stored.findIndex((preset) => preset.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= stored.length) return stored;
+      const next = [...stored];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [update]);
+
+  /**
+   * Adds the presets from an exported file after the user's presets
+   * @throws {Error} If the file is not a presets export
+   */
+  const importPresets = useCallback((text: string) => {
+    const { presets: imported, skipped } = parseIntervalPresets(text);
+    if (imported.length > 0) {
+      update((stored) => [...stored, ...imported]);
+    }
+    return { imported: imported.length, skipped };
+  }, [update]);
+
+  /**
+   * Serializes the user's presets for sharing
+   */
+  const exportPresets = useCallback(
+    () => serializeIntervalPresets(userPresets),
+    [userPresets]
+  );
+
+  return {
+    presets,
+    userPresets,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    duplicatePreset,
+    movePreset,
+    importPresets,
+    exportPresets,
+  };
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+/**
+ * A value kept in localStorage, shared by every component reading it
+ */
+export interface LocalStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+  getServerSnapshot: () => T;
+  /** Tells the components reading the store that this tab changed it */
+  notify: () => void;
+}
+
+/**
+ * Creates a store for a value kept under the given localStorage keys.
+ *
+ * Changes made in other tabs arrive as storage events, but those never reach
+ * the tab that made the change, so every write in this tab must be followed
+ * by `notify`. The value is only loaded again once one of the keys holds
+ * something else, so readers get the same object until then.
+ * @param keys - localStorage keys the value is read from
+ * @param load - Reads the value from localStorage
+ * @param initial - Value used while rendering on the server and hydrating
+ * @returns Store to read with `useLocalStore`
+ */
+export function createLocalStore<T>(
+  keys: string[],
+  load: () => T,
+  initial: T
+): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  let stored: string | undefined;
+  let value = initial;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || keys.includes(event.key)) {
+      notify();
+    }
+  };
+
+  return {
+    subscribe: (listener) => {
+      if (listeners.size === 0) {
+        window.addEventListener('storage', handleStorage);
+      }
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          window.removeEventListener('storage', handleStorage);
+        }
+      };
+    },
+    getSnapshot: () => {
+      const current = JSON.stringify(keys.map((key) => localStorage.getItem(key)));
+      if (current !== stored) {
+        stored = current;
+        value = load();
+      }
+      return value;
+    },
+    getServerSnapshot: () => initial,
+    notify,
+  };
+}
+
+/**
+ * Reads a localStorage store and re-renders when it changes, in this tab or
+ * in others
+ * @param store - Store created with `createLocalStore`
+ * @returns Current value of the store
+ */
+export function useLocalStore<T>(store: LocalStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+}
@@ -1,9 +1,16 @@
 "use client";
 
 import { useEffect, useRef, useCallback } from "react";
+import { usePreferences } from "./usePreferences";
 
+/**
+ * Sound and system notifications for finished timers, each silenced when the
+ * user turned it off in their preferences.
+ */
 export function useNotification() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const { preferences } = usePreferences();
+  const { soundEnabled, notificationsEnabled } = preferences;
 
   useEffect(() => {
     // Create audio element for beep sound
@@ -11,6 +18,8 @@ export function useNotification() {
   }, []);
 
   const playSound = useCallback(() => {
+    if (!soundEnabled) return;
+
     if (!audioRef.current) {
       audioRef.current = new Audio("/beep.mp3");
     }
@@ -21,9 +30,11 @@ export function useNotification() {
         console.warn("Failed to play beep sound:", error);
       });
     }
-  }, []);
+  }, [soundEnabled]);
 
   const showNotification = useCallback((title: string, body: string) => {
+    if (!notificationsEnabled) return;
+
     if ("Notification" in window) {
       if (Notification.permission === "granted") {
         new Notification(title, { body, icon: "/icon.png" });
@@ -35,7 +46,7 @@ export function useNotification() {
         });
       }
     }
-  }, []);
+  }, [notificationsEnabled]);
 
   const notify = useCallback((title: string, body: string) => {
     playSound();
@@ -0,0 +1,105 @@
+'use client';
+
+import { useCallback } from 'react';
+import { DEFAULT_PREFERENCES } from '../constants/preferences';
+import type { FocusMode } from '../constants/focus-modes';
+import type { UserPreferences } from '../types';
+import type { FocusGoal } from '../types/goals';
+import {
+  PREFERENCES_STORAGE_KEY,
+  loadPreferences,
+  savePreferences,
+} from '../utils/preferences';
+import { createLocalStore, useLocalStore } from './useLocalStore';
+
+const store = createLocalStore<UserPreferences>(
+  [PREFERENCES_STORAGE_KEY],
+  loadPreferences,
+  DEFAULT_PREFERENCES
+);
+
+/**
+ * The user's preferences: default durations per focus mode, theme, sound,
+ * notifications, how sessions are grouped into days, and focus goals.
+ *
+ * Preferences are persisted locally and shared with every component using the
+ * hook, in this tab and in others. Until they are loaded, the defaults apply.
+ */
+export function usePreferences() {
+  const preferences = useLocalStore(store);
+
+  const update = useCallback((change: (stored: UserPreferences) => UserPreferences) => {
+    savePreferences(change(loadPreferences()));
+    store.notify();
+  }, []);
+
+  const updatePreferences = useCallback(
+    (changes: Partial<Omit<UserPreferences, 'defaultDuration' | 'goals'>>) => {
+      update((stored) => ({ ...stored, ...changes }));
+    },
+    [update]
+  );
+
+  /**
+   * Overrides the default duration of a focus mode, or with null goes back
+   * to the mode's own duration
+   */
+  const setDefaultDuration = useCallback((mode: FocusMode, seconds: number | null) => {
+    update((stored) => {
+      const defaultDuration = { ...stored.defaultDuration };
+      if (seconds === null) {
+        delete defaultDuration[mode];
+      } else {
+        defaultDuration[mode] = seconds;
+      }
+      return { ...stored, defaultDuration };
+    });
+  }, [update]);
+
+  /**
+   * Adds a goal, or replaces the goal with the same id
+   */
+  const saveGoal = useCallback((goal: FocusGoal) => {
+    update((stored) => ({
+      ...stored,
+      goals: stored.goals.some((g) => g.id === goal.id)
+        ? stored.goals.map((g) => (g.id === goal.id ? goal : g))
+        : [...stored.goals, goal],
+    }));
+  }, [update]);
+
+  const deleteGoal = useCallback((id: string) => {
+    update((stored) => ({ ...stored, goals: stored.goals.filter((g) => g.id !== id) }));
+  }, [update]);
+
+  /**
+   * Restores the default settings. Goals are the user's own and are kept.
+   */
+  const resetPreferences = useCallback(() => {
+    update((stored) => ({
+      ...DEFAULT_PREFERENCES,
+      ...(stored.userId ? { userId: stored.userId } : {}),
+      goals: stored.goals,
+    }));
+  }, [update]);
+
+  /**
+   * Duration a focus mode starts with: the user's override, or the given
+   * duration of the mode itself
+   */
+  const getDefaultDuration = useCallback(
+    (mode: FocusMode, modeDuration: number) =>
+      preferences.defaultDuration[mode] ?? modeDuration,
+    [preferences.defaultDuration]
+  );
+
+  return {
+    preferences,
+    updatePreferences,
+    setDefaultDuration,
+    saveGoal,
+    deleteGoal,
+    resetPreferences,
+    getDefaultDuration,
+  };
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import type { Project } from '../types/projects';
+import {
+  PROJECTS_STORAGE_KEY,
+  createProject,
+  loadProjects,
+  saveProjects,
+} from '../utils/projects';
+import { createLocalStore, useLocalStore } from './useLocalStore';
+
+export type ProjectInput = Pick<Project, 'name' | 'color' | 'hourlyRate'>;
+
+const store = createLocalStore<Project[]>([PROJECTS_STORAGE_KEY], loadProjects, []);
+
+/**
+ * The user's projects, which sessions and tasks are reported to.
+ *
+ * Archiving a project hides it from `activeProjects` but keeps it, so
+ * `getProject` still names the sessions and tasks that belong to it. Changes
+ * are shared with every component using the hook, in this tab and in others.
+ */
+export function useProjects() {
+  const projects = useLocalStore(store);
+
+  const update = useCallback((change: (stored: Project[]) => Project[]) => {
+    saveProjects(change(loadProjects()));
+    store.notify();
+  }, []);
+
+  const addProject = useCallback((input: ProjectInput): Project => {
+    const project = createProject(input);
+    update((stored) => [...stored, project]);
+    return project;
+  }, [update]);
+
+  const updateProject = useCallback((id: string, input: ProjectInput) => {
+    update((stored) =>
+      stored.map((project) =>
+        project.id === id ? { ...project, ...input, name: input.name.trim() } : project
+      )
+    );
+  }, [update]);
+
+  const setProjectArchived = useCallback((id: string, archived: boolean) => {
+    update((stored) =>
+      stored.map((project) => (project.id === id ? { ...project, archived } : project))
+    );
+  }, [update]);
+
+  const activeProjects = useMemo(
+    () => projects.filter((project) => !project.archived),
+    [projects]
+  );
+
+  const getProject = useCallback(
+    (id: string | undefined) =>
+      id === undefined ? undefined : projects.find((project) => project.id === id),
+    [projects]
+  );
+
+  return {
+    projects,
+    activeProjects,
+    getProject,
+    addProject,
+    updateProject,
+    setProjectArchived,
+  };
+}
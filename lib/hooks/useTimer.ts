@@ -1,79 +1,202 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  createClock,
+  getElapsedMs,
+  getRemainingMs,
+  isClockRunning,
+  type TimerClock,
+} from "@/lib/utils/timerClock";
 
 export interface UseTimerReturn {
-  timeLeft: number;
+  timeLeft: number; // for a stopwatch, seconds left to its target
+  elapsed: number; // seconds run, not counting pauses
   isRunning: boolean;
-  isComplete: boolean;
+  isComplete: boolean; // never set on a stopwatch
+  isCountUp: boolean;
   start: () => void;
   pause: () => void;
   reset: () => void;
   setDuration: (seconds: number) => void;
+  setStopwatch: (targetSeconds: number) => void;
+  getClock: () => TimerClock;
+  restoreClock: (clock: TimerClock) => void;
 }
 
-export function useTimer(initialDuration: number = 1500): UseTimerReturn {
+/**
+ * Whole seconds a clock has run, matching the countdown's rounded-up time left.
+ */
+const getElapsedSeconds = (clock: TimerClock, now: number): number =>
+  clock.countUp
+    ? Math.floor(getElapsedMs(clock, now) / 1000)
+    : clock.durationMs / 1000 - Math.ceil(getRemainingMs(clock, now) / 1000);
+
+export function useTimer(
+  initialDuration: number = 1500,
+  countUp: boolean = false
+): UseTimerReturn {
   const [timeLeft, setTimeLeft] = useState(initialDuration);
+  const [elapsed, setElapsed] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
-  const [duration, setDurationState] = useState(initialDuration);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [isCountUp, setIsCountUp] = useState(countUp);
+  const clockRef = useRef<TimerClock>(createClock(initialDuration, countUp));
+
+  /**
+   * Re-derives `timeLeft` and `elapsed` from the clock and completes a
+   * countdown once the end timestamp has passed. Returns the milliseconds
+   * until the next whole second, or null once the countdown is over.
+   */
+  const sync = useCallback((): number | null => {
+    const clock = clockRef.current;
+    const now = Date.now();
+    const remainingMs = getRemainingMs(clock, now);
+    setTimeLeft(Math.ceil(remainingMs / 1000));
+    setElapsed(getElapsedSeconds(clock, now));
+
+    if (clock.countUp) {
+      return 1000 - (getElapsedMs(clock, now) % 1000);
+    }
+
+    if (remainingMs === 0 && clock.startedAt !== null) {
+      setIsRunning(false);
+      setIsComplete(true);
+    }
+
+    return remainingMs > 0 ? remainingMs % 1000 || 1000 : null;
+  }, []);
 
   const start = useCallback(() => {
+    const clock = clockRef.current;
+    const now = Date.now();
+
+    if (!clock.countUp && getRemainingMs(clock, now) === 0) {
+      return;
+    }
+
+    if (clock.startedAt === null) {
+      clock.startedAt = now;
+    } else if (clock.pausedAt !== null) {
+      clock.pausedMs += now - clock.pausedAt;
+      clock.pausedAt = null;
+    }
+
     setIsRunning(true);
     setIsComplete(false);
   }, []);
 
   const pause = useCallback(() => {
+    const clock = clockRef.current;
+    if (isClockRunning(clock)) {
+      clock.pausedAt = Date.now();
+      sync();
+    }
     setIsRunning(false);
-  }, []);
+  }, [sync]);
 
   const reset = useCallback(() => {
+    const { durationMs, countUp: isStopwatch } = clockRef.current;
+    clockRef.current = createClock(durationMs / 1000, isStopwatch);
     setIsRunning(false);
     setIsComplete(false);
-    setTimeLeft(duration);
-  }, [duration]);
+    setTimeLeft(durationMs / 1000);
+    setElapsed(0);
+  }, []);
 
   const setDuration = useCallback((seconds: number) => {
-    setDurationState(seconds);
+    clockRef.current = createClock(seconds);
     setTimeLeft(seconds);
+    setElapsed(0);
+    setIsRunning(false);
+    setIsComplete(false);
+    setIsCountUp(false);
+  }, []);
+
+  /**
+   * Turns the timer into a stopwatch that counts up from zero and keeps
+   * running past its target.
+   * @param targetSeconds - Soft target in seconds, 0 for none
+   */
+  const setStopwatch = useCallback((targetSeconds: number) => {
+    clockRef.current = createClock(targetSeconds, true);
+    setTimeLeft(targetSeconds);
+    setElapsed(0);
     setIsRunning(false);
     setIsComplete(false);
+    setIsCountUp(true);
+  }, []);
+
+  const getClock = useCallback((): TimerClock => ({ ...clockRef.current }), []);
+
+  /**
+   * Replaces the clock with a previously saved one, e.g. after a page reload.
+   * A running countdown whose end time has already passed completes immediately.
+   */
+  const restoreClock = useCallback((clock: TimerClock) => {
+    clockRef.current = { ...clock };
+    const now = Date.now();
+    const remainingMs = getRemainingMs(clock, now);
+    const finished = !clock.countUp && clock.startedAt !== null && remainingMs === 0;
+
+    setTimeLeft(Math.ceil(remainingMs / 1000));
+    setElapsed(getElapsedSeconds(clock, now));
+    setIsRunning(isClockRunning(clock) && !finished);
+    setIsComplete(finished);
+    setIsCountUp(Boolean(clock.countUp));
   }, []);
 
   useEffect(() => {
-    if (isRunning && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setIsRunning(false);
-            setIsComplete(true);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+    if (!isRunning) {
+      return;
     }
 
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    // Schedule each tick on the next whole-second boundary of the clock
+    const tick = () => {
+      const delay = sync();
+      if (delay !== null) {
+        timeoutId = setTimeout(tick, delay);
+      }
+    };
+
+    // Catch up immediately when a throttled or suspended tab comes back
+    const handleWake = () => {
+      if (document.visibilityState === "hidden") {
+        return;
+      }
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      tick();
+    };
+
+    tick();
+    document.addEventListener("visibilitychange", handleWake);
+    window.addEventListener("focus", handleWake);
+
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+      if (timeoutId) {
+        clearTimeout(timeoutId);
       }
+      document.removeEventListener("visibilitychange", handleWake);
+      window.removeEventListener("focus", handleWake);
     };
-  }, [isRunning, timeLeft]);
+  }, [isRunning, sync]);
 
   return {
     timeLeft,
+    elapsed,
     isRunning,
     isComplete,
+    isCountUp,
     start,
     pause,
     reset,
     setDuration,
+    setStopwatch,
+    getClock,
+    restoreClock,
   };
 }
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+/**
+ * Role of this tab for a shared timer:
+ * - `idle`: no tab owns a running timer
+ * - `leader`: this tab owns the timer and broadcasts its state
+ * - `follower`: another tab owns the timer; this tab mirrors it
+ */
+export type TabRole = 'idle' | 'leader' | 'follower';
+
+export type TimerCommand = 'start' | 'pause' | 'reset' | 'skip';
+
+type ChannelMessage<T> =
+  | { type: 'hello'; tabId: string }
+  | { type: 'state'; tabId: string; snapshot: T }
+  | { type: 'end'; tabId: string; snapshot: T | null }
+  | { type: 'release'; tabId: string; snapshot: T }
+  | { type: 'command'; tabId: string; command: TimerCommand };
+
+interface UseTimerChannelOptions<T> {
+  /** Current state of the local timer, or null when idle */
+  getSnapshot: () => T | null;
+  /** Mirror state from the leader; null means the leader reset its timer */
+  onState: (snapshot: T | null) => void;
+  /** Run a command sent by a follower (only called on the leader) */
+  onCommand: (command: TimerCommand) => void;
+}
+
+export interface UseTimerChannelReturn<T> {
+  role: TabRole;
+  publish: (snapshot: T) => void;
+  end: (snapshot: T | null) => void;
+  send: (command: TimerCommand) => void;
+}
+
+const createTabId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Coordinates one timer across browser tabs over a BroadcastChannel.
+ *
+ * The tab that starts the timer becomes the leader and publishes every state
+ * change. Other tabs become followers: they mirror the leader's state and
+ * send their start/pause/reset commands to it instead of running their own
+ * timer. When the leader tab closes, a follower takes over. If two tabs claim
+ * the timer at once, the one with the lower tab id keeps it.
+ *
+ * Without BroadcastChannel support the tab simply stays `idle`.
+ *
+ * @param name - Channel name, one per timer
+ * @param options - Snapshot accessor and handlers for incoming messages
+ */
+export function useTimerChannel<T>(
+  name: string,
+  options: UseTimerChannelOptions<T>
+): UseTimerChannelReturn<T> {
+  const [role, setRoleState] = useState<TabRole>('idle');
+  const [tabId] = useState(createTabId);
+  const roleRef = useRef<TabRole>('idle');
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const setRole = useCallback((next: TabRole) => {
+    roleRef.current = next;
+    setRoleState(next);
+  }, []);
+
+  const post = useCallback((message: ChannelMessage<T>) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  /**
+   * Broadcast the local timer state, claiming the timer unless another tab owns it.
+   */
+  const publish = useCallback((snapshot: T) => {
+    if (roleRef.current === 'follower') return;
+    setRole('leader');
+    post({ type: 'state', tabId, snapshot });
+  }, [tabId, post, setRole]);
+
+  /**
+   * Give up the timer once it has finished (or with null, was reset).
+   */
+  const end = useCallback((snapshot: T | null) => {
+    if (roleRef.current !== 'leader') return;
+    setRole('idle');
+    post({ type: 'end', tabId, snapshot });
+  }, [tabId, post, setRole]);
+
+  /**
+   * Ask the leader to run a command.
+   */
+  const send = useCallback((command: TimerCommand) => {
+    post({ type: 'command', tabId, command });
+  }, [tabId, post]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(name);
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<ChannelMessage<T>>) => {
+      const message = event.data;
+      const { getSnapshot, onState, onCommand } = optionsRef.current;
+
+      switch (message.type) {
+        case 'hello': {
+          const snapshot = roleRef.current === 'leader' ? getSnapshot() : null;
+          if (snapshot) {
+            post({ type: 'state', tabId, snapshot });
+          }
+          break;
+        }
+        case 'state': {
+          // Two tabs claimed the timer at once: the lower tab id keeps it
+          const snapshot = roleRef.current === 'leader' ? getSnapshot() : null;
+          if (snapshot && tabId < message.tabId) {
+            post({ type: 'state', tabId, snapshot });
+            break;
+          }
+          setRole('follower');
+          onState(message.snapshot);
+          break;
+        }
+        case 'end':
+          if (roleRef.current === 'follower') {
+            setRole('idle');
+            onState(message.snapshot);
+          }
+          break;
+        case 'release':
+          // The owning tab went away; take over its timer
+          if (roleRef.current === 'follower') {
+            onState(message.snapshot);
+            setRole('leader');
+            post({ type: 'state', tabId, snapshot: message.snapshot });
+          }
+          break;
+        case 'command':
+          if (roleRef.current === 'leader') {
+            onCommand(message.command);
+          }
+          break;
+      }
+    };
+
+    const release = () => {
+      if (roleRef.current !== 'leader') return;
+      const snapshot = optionsRef.current.getSnapshot();
+      roleRef.current = 'idle';
+      if (snapshot) {
+        channel.postMessage({ type: 'release', tabId, snapshot });
+      }
+    };
+
+    // A page restored from the back/forward cache may have missed updates
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) {
+        setRole('idle');
+        channel.postMessage({ type: 'hello', tabId });
+      }
+    };
+
+    window.addEventListener('pagehide', release);
+    window.addEventListener('pageshow', handlePageShow);
+    channel.postMessage({ type: 'hello', tabId });
+
+    return () => {
+      release();
+      window.removeEventListener('pagehide', release);
+      window.removeEventListener('pageshow', handlePageShow);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [name, tabId, post, setRole]);
+
+  return { role, publish, end, send };
+}
@@ -1,153 +1,527 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import type { TimerSession, TimerStatistics } from '../types/timer-history';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { SessionPhase, TimerSession, TimerStatistics } from '../types/timer-history';
+import type { HistorySyncClient, SyncStatus } from '../types/history-sync';
+import { mergeSessions, syncTimerHistory } from '../utils/historySync';
+import { createTimerSession, isFocusSession, type TimerSessionInput } from '../utils/timerSession';
+import { calculateStreaks } from '../utils/calendarDay';
+import { calculateGoalStreaks } from '../utils/goals';
+import { TIMER_HISTORY_STORAGE_KEY } from '../utils/timerHistory';
+import {
+  clearSessions,
+  deleteSessions as deleteStoredSessions,
+  getAllSessions,
+  putSessions,
+} from '../utils/sessionStore';
+import { usePreferences } from './usePreferences';
 
-const STORAGE_KEY = 'zenFocus_timerHistory';
+// Tells other tabs, and other instances of this hook, that stored history changed
+const HISTORY_CHANNEL = 'zenFocus_timerHistory';
 
-export function useTimerHistory() {
+// Sessions deleted locally that may still exist in the remote store
+const DELETED_IDS_KEY = 'zenFocus_deletedSessionIds';
+// Sessions edited locally whose remote copy is out of date
+const UPDATED_IDS_KEY = 'zenFocus_updatedSessionIds';
+// Sessions in the remote store after the last sync; those missing from it
+// later were deleted by another device
+const SYNCED_IDS_KEY = 'zenFocus_syncedSessionIds';
+// Account local history was last synced with
+const HISTORY_OWNER_KEY = 'zenFocus_historyOwner';
+// Local changes of an account not yet synced, kept while another account
+// uses this browser (followed by the account's id)
+const ACCOUNT_HISTORY_KEY_PREFIX = 'zenFocus_accountHistory_';
+
+function readPendingIds(key: string): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePendingIds(key: string, ids: string[]) {
+  if (ids.length === 0) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(ids));
+  }
+}
+
+function addPendingIds(key: string, ids: string[]) {
+  writePendingIds(key, [...new Set([...readPendingIds(key), ...ids])]);
+}
+
+function removePendingIds(key: string, ids: string[]) {
+  const removed = new Set(ids);
+  writePendingIds(key, readPendingIds(key).filter((id) => !removed.has(id)));
+}
+
+/**
+ * Local changes of an account set aside while another account is signed in
+ */
+interface AccountHistory {
+  sessions: TimerSession[]; // never synced, or edited since
+  deletedIds: string[];
+  updatedIds: string[];
+}
+
+function readAccountHistory(ownerId: string): AccountHistory {
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(ACCOUNT_HISTORY_KEY_PREFIX + ownerId) ?? 'null'
+    );
+    return {
+      sessions: Array.isArray(parsed?.sessions) ? parsed.sessions : [],
+      deletedIds: Array.isArray(parsed?.deletedIds) ? parsed.deletedIds : [],
+      updatedIds: Array.isArray(parsed?.updatedIds) ? parsed.updatedIds : [],
+    };
+  } catch {
+    return { sessions: [], deletedIds: [], updatedIds: [] };
+  }
+}
+
+/**
+ * Makes local history that of the account about to sync. Local history
+ * belongs to the account it last synced with; history recorded before any
+ * account synced is adopted by the first one. When another account signs in,
+ * the previous account's changes that are not synced yet are set aside until
+ * it signs in again, and its synced sessions are dropped from this device,
+ * as they are kept in its remote store.
+ * @param ownerId - Id of the signed-in user
+ * @returns Whether local history was replaced
+ */
+async function switchHistoryOwner(ownerId: string): Promise<boolean> {
+  const previousOwner = localStorage.getItem(HISTORY_OWNER_KEY);
+  if (previousOwner === ownerId) return false;
+
+  if (previousOwner === null) {
+    localStorage.setItem(HISTORY_OWNER_KEY, ownerId);
+    return false;
+  }
+
+  const synced = new Set(readPendingIds(SYNCED_IDS_KEY));
+  const updatedIds = readPendingIds(UPDATED_IDS_KEY);
+  const updated = new Set(updatedIds);
+  const previous: AccountHistory = {
+    sessions: (await getAllSessions()).filter((s) => !synced.has(s.id) || updated.has(s.id)),
+    deletedIds: readPendingIds(DELETED_IDS_KEY),
+    updatedIds,
+  };
+  localStorage.setItem(ACCOUNT_HISTORY_KEY_PREFIX + previousOwner, JSON.stringify(previous));
+
+  const restored = readAccountHistory(ownerId);
+  await clearSessions();
+  await putSessions(restored.sessions);
+  writePendingIds(DELETED_IDS_KEY, restored.deletedIds);
+  writePendingIds(UPDATED_IDS_KEY, restored.updatedIds);
+  writePendingIds(SYNCED_IDS_KEY, []);
+  localStorage.removeItem(ACCOUNT_HISTORY_KEY_PREFIX + ownerId);
+  localStorage.setItem(HISTORY_OWNER_KEY, ownerId);
+  return true;
+}
+
+/**
+ * Tells every instance of the hook, and other tabs, that stored history changed
+ */
+function broadcastHistoryChanged() {
+  if (typeof BroadcastChannel === 'undefined') return;
+  const channel = new BroadcastChannel(HISTORY_CHANNEL);
+  channel.postMessage('changed');
+  channel.close();
+}
+
+/**
+ * What a sync changed in local history
+ */
+interface SyncChanges {
+  replaced: boolean; // local history is now another account's, see `switchHistoryOwner`
+  downloaded: TimerSession[];
+  removedIds: string[];
+}
+
+/**
+ * Syncs stored history with the remote store of the client's account and
+ * writes the result to the store
+ */
+async function runSync(client: HistorySyncClient): Promise<SyncChanges> {
+  const replaced = await switchHistoryOwner(client.ownerId);
+  const { downloaded, removedIds, deletedIds, updatedIds, syncedIds } = await syncTimerHistory(
+    client,
+    await getAllSessions(),
+    readPendingIds(DELETED_IDS_KEY),
+    readPendingIds(UPDATED_IDS_KEY),
+    readPendingIds(SYNCED_IDS_KEY)
+  );
+
+  await putSessions(downloaded);
+  await deleteStoredSessions(removedIds);
+  removePendingIds(DELETED_IDS_KEY, deletedIds);
+  removePendingIds(UPDATED_IDS_KEY, updatedIds);
+  writePendingIds(SYNCED_IDS_KEY, syncedIds);
+  if (replaced || downloaded.length > 0 || removedIds.length > 0) {
+    broadcastHistoryChanged();
+  }
+  return { replaced, downloaded, removedIds };
+}
+
+// Sync in progress. Every instance of the hook shares it, so views mounted
+// together list the remote store once and never upload the same session twice.
+let runningSync: {
+  client: HistorySyncClient;
+  changes: number;
+  done: Promise<SyncChanges>;
+} | null = null;
+// Sync to run once the one in progress is done, and the client to run it with
+let queuedSync: Promise<SyncChanges> | null = null;
+let queuedClient: HistorySyncClient | null = null;
+// Writes to local history made on this page, so a sync that started before
+// the latest one is not joined
+let localChanges = 0;
+
+/**
+ * Starts a sync, or joins the one in progress if it runs for the same account
+ * and nothing changed locally since it started. Otherwise the sync runs again
+ * once the one in progress is done.
+ * @param client - Client of the signed-in user
+ * @returns What the sync changed in local history
+ */
+function requestSync(client: HistorySyncClient): Promise<SyncChanges> {
+  if (runningSync?.client === client && runningSync.changes === localChanges) {
+    return runningSync.done;
+  }
+  if (runningSync) {
+    queuedClient = client;
+    queuedSync ??= runningSync.done
+      .catch(() => undefined)
+      .then(() => {
+        const next = queuedClient ?? client;
+        queuedSync = null;
+        queuedClient = null;
+        return requestSync(next);
+      });
+    return queuedSync;
+  }
+
+  const done = runSync(client).finally(() => {
+    runningSync = null;
+  });
+  runningSync = { client, changes: localChanges, done };
+  return done;
+}
+
+/**
+ * Fields of a recorded session that can be edited
+ */
+export type TimerSessionChanges = Partial<
+  Pick<
+    TimerSession,
+    | 'mode'
+    | 'startTime'
+    | 'endTime'
+    | 'plannedDuration'
+    | 'actualDuration'
+    | 'completed'
+    | 'pauses'
+    | 'interruptions'
+    | 'intention'
+    | 'projectId'
+    | 'notes'
+    | 'tags'
+    | 'focusQuality'
+    | 'mood'
+  >
+>;
+
+interface UseTimerHistoryOptions {
+  /** Amplify data client of the signed-in user; without one, history stays local */
+  syncClient?: HistorySyncClient | null;
+}
+
+/**
+ * Timer session history, stored in IndexedDB (localStorage where IndexedDB
+ * is unavailable). Each change writes only the sessions it touches.
+ *
+ * With a `syncClient`, sessions are also uploaded to the remote store and
+ * sessions recorded on other devices are downloaded and merged, matched by
+ * id. Deletions and edits made on other devices are applied too; the most
+ * recent edit of a session wins. Local history stays the source of truth:
+ * sessions are recorded locally first, and syncing resumes when the
+ * connection comes back. Each account on a shared browser keeps its own
+ * history; see `switchHistoryOwner`.
+ *
+ * Streaks count days in the user's time zone preference, starting at their
+ * "day starts at" hour. With goal streaks turned on, only days on which the
+ * daily goals were met count.
+ */
+export function useTimerHistory({ syncClient = null }: UseTimerHistoryOptions = {}) {
   const [sessions, setSessions] = useState<TimerSession[]>([]);
+  const {
+    preferences: { timeZone, dayStartHour, goals, goalStreaks },
+  } = usePreferences();
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('disabled');
+  const syncClientRef = useRef(syncClient);
+
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const notifyHistoryChanged = useCallback(() => {
+    channelRef.current?.postMessage('changed');
+  }, []);
+
+  const reload = useCallback(async () => {
+    try {
+      setSessions(await getAllSessions());
+    } catch (error) {
+      console.error('Failed to load timer history:', error);
+    }
+  }, []);
+
+  // Load stored sessions on mount; sessions kept in localStorage by earlier
+  // versions are moved to IndexedDB first
+  useEffect(() => {
+    let cancelled = false;
+    getAllSessions()
+      .then((stored) => {
+        if (cancelled) return;
+        // Keep sessions recorded before loading finished (e.g. restored timers)
+        setSessions((prev) => mergeSessions(prev, stored));
+      })
+      .catch((error) => console.error('Failed to load timer history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  // Load sessions from localStorage on mount
+  // Pick up sessions written by other tabs and other instances of the hook
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        setSessions(parsed);
-      } catch (error) {
-        console.error('Failed to parse timer history:', error);
-        setSessions([]);
+    const handleStorage = (event: StorageEvent) => {
+      // Without IndexedDB history stays in localStorage; key is null when
+      // another tab cleared all of localStorage
+      if (event.key === TIMER_HISTORY_STORAGE_KEY || event.key === null) {
+        void reload();
       }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(HISTORY_CHANNEL);
+      channel.onmessage = () => void reload();
+      channelRef.current = channel;
+    }
+
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, [reload]);
+
+  /**
+   * Upload local changes and merge in sessions from other devices. Joins the
+   * sync in progress when nothing changed since it started.
+   */
+  const sync = useCallback(async () => {
+    const client = syncClientRef.current;
+    if (!client) {
+      setSyncStatus('disabled');
+      return;
+    }
+    if (!navigator.onLine) {
+      setSyncStatus('offline');
+      return;
+    }
+
+    setSyncStatus('syncing');
+    try {
+      const { replaced, downloaded, removedIds } = await requestSync(client);
+      // Client changed (e.g. signed out) while syncing: drop the result
+      if (syncClientRef.current !== client) return;
+
+      if (replaced) {
+        setSessions(await getAllSessions());
+      } else {
+        // Merge into the current list, sessions may have been added meanwhile;
+        // downloaded copies replace local ones edited less recently
+        const removed = new Set(removedIds);
+        setSessions((prev) =>
+          mergeSessions(downloaded, prev).filter((s) => !removed.has(s.id))
+        );
+      }
+      setSyncStatus('synced');
+    } catch (error) {
+      console.error('Failed to sync timer history:', error);
+      setSyncStatus('error');
     }
   }, []);
 
-  // Save sessions to localStorage whenever they change
+  // Sync when a user signs in, and whenever the connection comes back
   useEffect(() => {
-    if (sessions.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    syncClientRef.current = syncClient;
+    if (!syncClient) {
+      setSyncStatus('disabled');
+      return;
     }
-  }, [sessions]);
+
+    const handleOnline = () => void sync();
+    const handleOffline = () => setSyncStatus('offline');
+
+    void sync();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncClient, sync]);
+
+  /**
+   * Tell other tabs and sync once a write to the store is done. IndexedDB
+   * runs writes in the order they start, so an undo never lands before the
+   * delete it undoes.
+   */
+  const persist = useCallback((write: Promise<void>, failure: string) => {
+    localChanges += 1;
+    write
+      .then(() => {
+        notifyHistoryChanged();
+        if (syncClientRef.current) {
+          void sync();
+        }
+      })
+      .catch((error) => console.error(failure, error));
+  }, [sync, notifyHistoryChanged]);
+
+  /**
+   * Record a session with its start time and pauses, e.g. a Focus tab
+   * session once it is completed or abandoned. Returns the recorded session,
+   * so a reflection can be added to it with `updateSession`.
+   */
+  const recordSession = useCallback((input: TimerSessionInput): TimerSession => {
+    const newSession = createTimerSession(input);
+
+    setSessions((prev) => [newSession, ...prev]);
+
+    // Only the new session is written, next to what other tabs have stored
+    persist(putSessions([newSession]), 'Failed to save timer session:');
+    return newSession;
+  }, [persist]);
 
   const addSession = useCallback((
-    focusMode: TimerSession['focusMode'],
+    mode: TimerSession['mode'],
     duration: number,
-    completed: boolean
+    completed: boolean,
+    phase?: SessionPhase,
+    plannedDuration?: number
   ) => {
-    const newSession: TimerSession = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
-      focusMode,
-      duration,
-      completedAt: new Date().toISOString(),
+    recordSession({
+      mode,
+      actualDuration: duration,
+      plannedDuration,
       completed,
-    };
+      phase,
+    });
+  }, [recordSession]);
 
-    setSessions((prev) => [newSession, ...prev]);
-  }, []);
+  /**
+   * Edit a recorded session, e.g. to fix its mode or remove idle time, or to
+   * add notes and tags.
+   */
+  const updateSession = useCallback((id: string, changes: TimerSessionChanges) => {
+    const session = sessions.find((s) => s.id === id);
+    if (!session) return;
+
+    const updated = { ...session, ...changes, editedAt: new Date().toISOString() };
+    setSessions((prev) => mergeSessions([updated], prev));
+    if (syncClientRef.current) {
+      addPendingIds(UPDATED_IDS_KEY, [id]);
+    }
+    persist(putSessions([updated]), 'Failed to update timer session:');
+  }, [sessions, persist]);
+
+  /**
+   * Delete recorded sessions by id. They can be put back with `restoreSessions`.
+   */
+  const deleteSessions = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const removed = new Set(ids);
+    setSessions((prev) => prev.filter((s) => !removed.has(s.id)));
+    // Remember synced sessions so they are also removed from the remote store
+    if (syncClientRef.current) {
+      addPendingIds(DELETED_IDS_KEY, ids);
+    }
+    persist(deleteStoredSessions(ids), 'Failed to delete timer sessions:');
+  }, [persist]);
+
+  /**
+   * Put deleted sessions back, e.g. to undo a delete or a clear, or add
+   * imported ones. Sessions with the id of a recorded session replace it.
+   */
+  const restoreSessions = useCallback((restored: TimerSession[]) => {
+    if (restored.length === 0) return;
+
+    setSessions((prev) => mergeSessions(prev, restored));
+    // Sessions already removed remotely are uploaded again on the next sync
+    removePendingIds(DELETED_IDS_KEY, restored.map((s) => s.id));
+    removePendingIds(SYNCED_IDS_KEY, restored.map((s) => s.id));
+    persist(putSessions(restored), 'Failed to restore timer sessions:');
+  }, [persist]);
 
   const clearHistory = useCallback(() => {
     setSessions([]);
-    localStorage.removeItem(STORAGE_KEY);
-  }, []);
+    // Remember synced sessions so they are also removed from the remote store
+    if (syncClientRef.current) {
+      addPendingIds(DELETED_IDS_KEY, sessions.map((s) => s.id));
+    }
+    persist(clearSessions(), 'Failed to clear timer history:');
+  }, [sessions, persist]);
 
   const getStatistics = useCallback((): TimerStatistics => {
-    const completedSessions = sessions.filter((s) => s.completed);
-    const totalTimeSpent = completedSessions.reduce((acc, s) => acc + s.duration, 0);
+    const focusSessions = sessions.filter(isFocusSession);
+    const completedSessions = focusSessions.filter((s) => s.completed);
+    const totalTimeSpent = completedSessions.reduce((acc, s) => acc + s.actualDuration, 0);
+    const totalBreakTime = sessions
+      .filter((s) => !isFocusSession(s) && s.completed)
+      .reduce((acc, s) => acc + s.actualDuration, 0);
 
     // Calculate session counts by mode
-    const sessionsByMode = sessions.reduce((acc, session) => {
-      acc[session.focusMode] = (acc[session.focusMode] || 0) + 1;
+    const sessionsByMode = focusSessions.reduce((acc, session) => {
+      acc[session.mode] = (acc[session.mode] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
-    // Calculate streaks (consecutive days with at least one completed session)
-    const { currentStreak, longestStreak } = calculateStreaks(completedSessions);
+    // Calculate streaks (consecutive days with at least one completed session,
+    // or with the daily goals met)
+    const dayOptions = { timeZone, dayStartHour };
+    const { currentStreak, longestStreak } =
+      (goalStreaks && calculateGoalStreaks(goals, sessions, dayOptions)) ||
+      calculateStreaks(
+        completedSessions.map((s) => s.endTime),
+        dayOptions
+      );
 
     return {
-      totalSessions: sessions.length,
+      totalSessions: focusSessions.length,
       completedSessions: completedSessions.length,
       totalTimeSpent,
+      totalBreakTime,
       currentStreak,
       longestStreak,
       sessionsByMode,
     };
-  }, [sessions]);
+  }, [sessions, timeZone, dayStartHour, goals, goalStreaks]);
 
   return {
     sessions,
     addSession,
+    recordSession,
+    updateSession,
+    deleteSessions,
+    restoreSessions,
     clearHistory,
     getStatistics,
+    syncStatus,
+    sync,
   };
 }
-
-function calculateStreaks(completedSessions: TimerSession[]): {
-  currentStreak: number;
-  longestStreak: number;
-} {
-  if (completedSessions.length === 0) {
-    return { currentStreak: 0, longestStreak: 0 };
-  }
-
-  // Get unique dates (YYYY-MM-DD format)
-  const dates = completedSessions
-    .map((s) => new Date(s.completedAt).toISOString().split('T')[0])
-    .filter((date, index, self) => self.indexOf(date) === index)
-    .sort()
-    .reverse(); // Sort descending (most recent first)
-
-  if (dates.length === 0) {
-    return { currentStreak: 0, longestStreak: 0 };
-  }
-
-  let currentStreak = 0;
-  let longestStreak = 0;
-  let tempStreak = 1;
-
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split('T')[0];
-
-  // Check if current streak is active (today or yesterday)
-  if (dates[0] === today || dates[0] === yesterday) {
-    currentStreak = 1;
-
-    // Count consecutive days
-    for (let i = 1; i < dates.length; i++) {
-      const prevDate = new Date(dates[i - 1]);
-      const currDate = new Date(dates[i]);
-      const diffDays = Math.round(
-        (prevDate.getTime() - currDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      if (diffDays === 1) {
-        currentStreak++;
-        tempStreak++;
-      } else {
-        break;
-      }
-    }
-  }
-
-  // Calculate longest streak
-  tempStreak = 1;
-  for (let i = 1; i < dates.length; i++) {
-    const prevDate = new Date(dates[i - 1]);
-    const currDate = new Date(dates[i]);
-    const diffDays = Math.round(
-      (prevDate.getTime() - currDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (diffDays === 1) {
-      tempStreak++;
-      longestStreak = Math.max(longestStreak, tempStreak);
-    } else {
-      tempStreak = 1;
-    }
-  }
-
-  longestStreak = Math.max(longestStreak, tempStreak, currentStreak);
-
-  return { currentStreak, longestStreak };
-}
@@ -1,28 +1,27 @@
 // Re-export FocusMode from centralized configuration
-export type { FocusMode } from './constants/focus-modes';
+import type { FocusMode } from './constants/focus-modes';
+import type { FocusGoal } from './types/goals';
+export type { FocusMode };
+
+// Sessions have a single canonical shape, see lib/types/timer-history.ts
+export type { TimerSession } from './types/timer-history';
 
 /**
  * @deprecated Use FocusMode instead. TimerMode is kept for backwards compatibility.
  */
 export type TimerMode = 'study' | 'work' | 'yoga' | 'meditation';
 
-export interface TimerSession {
-  id: string;
-  mode: TimerMode;
-  duration: number;
-  startTime: Date;
-  endTime?: Date;
-  completed: boolean;
-}
+export type ThemePreference = 'light' | 'dark' | 'system';
 
 export interface UserPreferences {
-  userId: string;
-  defaultDuration: {
-    study: number;
-    work: number;
-    yoga: number;
-    meditation: number;
-  };
-  theme: 'light' | 'dark';
-  soundEnabled: boolean;
+  userId?: string; // set once the preferences belong to an account
+  defaultDuration: Partial<Record<FocusMode, number>>; // seconds, overrides the mode's duration
+  theme: ThemePreference;
+  soundEnabled: boolean; // play a sound when a timer or interval completes
+  notificationsEnabled: boolean; // show a system notification when a timer completes
+  timeZone?: string; // IANA time zone days are counted in, defaults to the device's
+  dayStartHour: number; // 0-23, sessions before this hour count toward the previous day
+  goals: FocusGoal[];
+  goalStreaks: boolean; // streaks count days all daily goals were met, not days with a session
+  reflectionPrompt: boolean; // ask for notes, tags and ratings when a Focus tab session completes
 }
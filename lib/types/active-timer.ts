@@ -0,0 +1,61 @@
+import type { FocusMode } from "../constants/focus-modes";
+import type { TimerClock } from "../utils/timerClock";
+import type { SessionInterruption, SessionPause, SessionPhase } from "./timer-history";
+import type { IntervalProgram } from "./interval-program";
+
+/**
+ * Snapshot of the Focus tab timer, saved while a session is in progress.
+ */
+export interface FocusTimerSnapshot {
+  kind: "focus";
+  focusMode: FocusMode;
+  clock: TimerClock;
+  sessionStartRemaining: number | null; // seconds left when the current run started
+  pauses?: SessionPause[]; // pauses resumed so far, missing on snapshots saved before pauses were tracked
+  interruptions?: SessionInterruption[]; // logged so far, if any
+  laps?: number[]; // seconds elapsed at each lap of a stopwatch, if any were taken
+  intention?: string; // what the user is focusing on, if they said
+  taskId?: string; // task the session is attributed to, if one was selected
+  savedAt: number; // epoch milliseconds
+}
+
+/**
+ * Snapshot of the Intervals tab timer, saved while a program is in progress.
+ */
+export interface IntervalTimerSnapshot {
+  kind: "interval";
+  clock: TimerClock;
+  program: IntervalProgram;
+  currentStep: number; // 1-based index into the expanded program
+  accumulatedElapsedTime: number; // seconds from finished or skipped steps
+  beepEnabled: boolean;
+  allRoundsComplete?: boolean; // only set on the final state shared with other tabs
+  savedAt: number; // epoch milliseconds
+}
+
+/**
+ * Snapshot of the Pomodoro tab, saved while a cycle is in progress.
+ */
+export interface PomodoroTimerSnapshot {
+  kind: "pomodoro";
+  focusMode?: FocusMode; // mode the phases are recorded under, missing on snapshots saved before it was (recorded as Study)
+  clock: TimerClock;
+  phase: SessionPhase;
+  completedFocusBlocks: number;
+  taskId?: string; // task the phase in progress is attributed to, if one was selected when it started
+  savedAt: number; // epoch milliseconds
+}
+
+export type ActiveTimerSnapshot =
+  | FocusTimerSnapshot
+  | IntervalTimerSnapshot
+  | PomodoroTimerSnapshot;
+
+/**
+ * How a saved timer should be brought back after a reload:
+ * - `continue`: still running, pick up where it is now
+ * - `complete`: ran out while the page was closed, finish it retroactively
+ * - `prompt`: was paused, offer to resume
+ * - `discard`: too old to be meaningful
+ */
+export type RestoreAction = "continue" | "complete" | "prompt" | "discard";
@@ -0,0 +1,32 @@
+import type { FocusMode } from "../constants/focus-modes";
+
+/**
+ * What a goal measures: completed focus time, or completed focus sessions
+ * (each Pomodoro focus block is one session). Breaks never count.
+ */
+export type GoalMetric = "focusTime" | "sessions";
+
+export type GoalPeriod = "day" | "week";
+
+/**
+ * A target the user sets, e.g. 3 hours of Work every weekday or 10 sessions
+ * a week.
+ */
+export interface FocusGoal {
+  id: string;
+  mode?: FocusMode; // omitted for sessions of any mode
+  metric: GoalMetric;
+  target: number; // seconds of focus time, or a number of sessions
+  period: GoalPeriod;
+  weekdays?: number[]; // daily goals only: days it applies, 0 = Sunday; omitted for every day
+}
+
+/**
+ * How far a goal is in its current day or week
+ */
+export interface GoalProgress {
+  goal: FocusGoal;
+  periodStart: string; // "YYYY-MM-DD" day the period started
+  value: number; // seconds or sessions so far
+  met: boolean;
+}
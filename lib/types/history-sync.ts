@@ -0,0 +1,53 @@
+/**
+ * A timer session as stored in the Amplify `TimerSession` model. The id is
+ * the local session id, so the same session is never stored twice.
+ */
+export interface RemoteTimerSession {
+  id: string;
+  schemaVersion?: number | null; // missing on records uploaded before versioning
+  mode: string;
+  duration: number; // in seconds, time actually run
+  plannedDuration?: number | null; // in seconds, missing on records uploaded before versioning
+  startTime: string; // ISO date string
+  endTime?: string | null; // ISO date string, when the session was recorded
+  completed: boolean;
+  phase?: string | null; // Pomodoro break phase, omitted for focus sessions
+  pauses?: string | null; // JSON list of the session's pauses, missing on records uploaded before pauses were tracked
+  interruptions?: string | null; // JSON list of the interruptions logged during the session
+  intention?: string | null;
+  taskId?: string | null;
+  projectId?: string | null;
+  notes?: string | null;
+  tags?: (string | null)[] | null;
+  focusQuality?: number | null; // 1-5
+  mood?: number | null; // 1-5
+  editedAt?: string | null; // ISO date string, when the session was last edited
+}
+
+interface RemoteResult<T> {
+  data: T;
+  nextToken?: string | null;
+  errors?: { message: string }[];
+}
+
+/**
+ * The operations of the Amplify data client used to sync history. Tests pass
+ * a mock with the same shape.
+ */
+export interface HistorySyncClient {
+  ownerId: string; // id of the signed-in user
+  list: (options?: { nextToken?: string | null }) => Promise<RemoteResult<RemoteTimerSession[]>>;
+  create: (session: RemoteTimerSession) => Promise<RemoteResult<RemoteTimerSession | null>>;
+  update: (session: RemoteTimerSession) => Promise<RemoteResult<RemoteTimerSession | null>>;
+  delete: (key: { id: string }) => Promise<RemoteResult<unknown>>;
+}
+
+/**
+ * State of history sync:
+ * - `disabled`: no signed-in user, history stays on this device
+ * - `syncing`: uploading and downloading sessions
+ * - `synced`: local and remote history matched after the last sync
+ * - `offline`: waiting for the connection to come back
+ * - `error`: the last sync failed; it is retried on the next change
+ */
+export type SyncStatus = "disabled" | "syncing" | "synced" | "offline" | "error";
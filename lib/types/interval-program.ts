@@ -0,0 +1,43 @@
+/**
+ * Role of a segment in an interval program. Warmup segments run once before
+ * the rounds, cooldown segments once after them, and work/rest segments make
+ * up each round.
+ */
+export type IntervalSegmentKind = "warmup" | "work" | "rest" | "cooldown";
+
+export interface IntervalSegment {
+  id: string;
+  name: string;
+  kind: IntervalSegmentKind;
+  durationSeconds: number;
+  repeat: number; // times the segment runs back to back
+}
+
+/**
+ * Ordered segments plus how many times the work/rest part is repeated.
+ */
+export interface IntervalProgram {
+  name: string;
+  segments: IntervalSegment[];
+  rounds: number;
+}
+
+/**
+ * One countdown of a program once its repeats and rounds are expanded.
+ */
+export interface IntervalStep {
+  segmentId: string;
+  name: string;
+  kind: IntervalSegmentKind;
+  durationSeconds: number;
+  round: number | null; // 1-based round for work/rest steps, null for warmup/cooldown
+}
+
+/**
+ * A named program saved in the presets library.
+ */
+export interface IntervalPreset {
+  id: string;
+  program: IntervalProgram;
+  builtIn?: boolean; // shipped with the app, read-only
+}
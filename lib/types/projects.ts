@@ -0,0 +1,34 @@
+/**
+ * A client or piece of work that focus time is billed or reported to.
+ * Sessions and tasks belong to at most one project.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  color: string; // badge classes, one of CUSTOM_FOCUS_MODE_COLORS
+  hourlyRate?: number; // in the user's currency, omitted when not billed
+  archived: boolean; // hidden from pickers, kept for sessions and reports
+  createdAt: string; // ISO date string
+}
+
+/**
+ * Focus time of one project over a report's date range
+ */
+export interface ProjectReportRow {
+  projectId: string | null; // null for sessions without a project
+  sessions: number;
+  totalTime: number; // seconds run in focus sessions, completed or not
+  amount: number | null; // totalTime billed at the hourly rate, null without a rate
+}
+
+/**
+ * Focus time per project over a date range, most time first and sessions
+ * without a project last
+ */
+export interface ProjectReport {
+  from: string; // "YYYY-MM-DD", first day included
+  to: string; // "YYYY-MM-DD", last day included
+  rows: ProjectReportRow[];
+  totalTime: number;
+  totalAmount: number; // sum of the amounts of projects with a rate
+}
@@ -0,0 +1,21 @@
+/**
+ * Something the user plans to work on in Focus tab sessions. Tasks are kept
+ * in the order the user arranged them.
+ */
+export interface FocusTask {
+  id: string;
+  title: string;
+  estimatedPomodoros?: number; // omitted when not estimated
+  projectId?: string; // project the task's sessions are reported to
+  completed: boolean;
+  archived: boolean; // hidden from the task list, sessions keep their task
+  createdAt: string; // ISO date string
+}
+
+/**
+ * Focus recorded for a task
+ */
+export interface TaskProgress {
+  pomodoros: number; // completed focus sessions
+  totalTime: number; // seconds run in focus sessions, completed or not
+}
@@ -1,16 +1,95 @@
+import type { FocusMode } from "../constants/focus-modes";
+
+/**
+ * Part of a Pomodoro cycle a session belongs to. Sessions recorded outside
+ * the cycle are focus time.
+ */
+export type SessionPhase = "focus" | "shortBreak" | "longBreak";
+
+/**
+ * A pause in a session, from pressing Pause until the timer was resumed
+ */
+export interface SessionPause {
+  pausedAt: string; // ISO date string
+  resumedAt: string; // ISO date string
+}
+
+/**
+ * What pulled the user away during a session: their own thoughts (internal),
+ * someone or something else (external), or an idea parked for later
+ */
+export type InterruptionKind = "internal" | "external" | "later";
+
+/**
+ * An interruption or note logged while a session was running
+ */
+export interface SessionInterruption {
+  kind: InterruptionKind;
+  at: string; // ISO date string, when it was logged
+  note?: string; // what it was, if the user typed it
+}
+
+/**
+ * A recorded timer session. This is the one shape sessions have everywhere in
+ * the app; stored sessions in older shapes are migrated to it on load and the
+ * Amplify record is converted to and from it.
+ */
 export interface TimerSession {
+  schemaVersion: number; // TIMER_SESSION_SCHEMA_VERSION when written
   id: string;
-  focusMode: "study" | "work" | "yoga" | "meditation" | "interval";
+  mode: FocusMode; // built-in or custom mode id
+  startTime: string; // ISO date string, when the timer was first started
+  endTime: string; // ISO date string, when the session was completed or abandoned
+  plannedDuration: number; // in seconds, what the timer was set to
+  actualDuration: number; // in seconds, time actually run
+  completed: boolean; // true if timer ran to completion
+  phase?: SessionPhase; // omitted for focus sessions
+  pauses?: SessionPause[]; // omitted for sessions run without pausing
+  interruptions?: SessionInterruption[]; // oldest first, omitted when none were logged
+  intention?: string; // what the user set out to focus on, entered before starting
+  taskId?: string; // task from the task list the session was spent on
+  projectId?: string; // project the session's time is reported to
+  notes?: string; // written after the session
+  tags?: string[]; // lower case, without duplicates
+  focusQuality?: number; // 1-5, how well the user could focus
+  mood?: number; // 1-5, the user's energy and mood afterwards
+  editedAt?: string; // ISO date string, when the session was last edited, omitted if it never was
+}
+
+/**
+ * What the user noted about a session after it ended. Fields left empty are
+ * omitted.
+ */
+export type SessionReflection = Pick<TimerSession, "notes" | "tags" | "focusQuality" | "mood">;
+
+/**
+ * Session shape stored before sessions were versioned (schema version 1)
+ */
+export interface LegacyTimerSession {
+  id: string;
+  focusMode: string;
   duration: number; // in seconds
   completedAt: string; // ISO date string
-  completed: boolean; // true if timer ran to completion
+  completed: boolean;
+  phase?: SessionPhase;
 }
 
 export interface TimerStatistics {
   totalSessions: number;
   completedSessions: number;
   totalTimeSpent: number; // in seconds
-  currentStreak: number; // consecutive days with at least one completed session
+  totalBreakTime: number; // in seconds, breaks are not counted as focus time
+  currentStreak: number; // consecutive days with at least one completed session, or with the daily goals met
   longestStreak: number;
   sessionsByMode: Record<string, number>;
 }
+
+/**
+ * JSON backup of the timer history, as downloaded from the History tab
+ */
+export interface HistoryBackup {
+  format: "zenFocus-history";
+  version: number; // HISTORY_BACKUP_VERSION when written
+  exportedAt: string; // ISO date string
+  sessions: TimerSession[];
+}
@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadActiveTimer,
+  saveActiveTimer,
+  clearActiveTimer,
+  resolveRestoreAction,
+  fastForwardIntervalTimer,
+  fastForwardPomodoroTimer,
+  getSnapshotSession,
+  MAX_PAUSED_AGE_MS,
+} from '../activeTimerStorage';
+import type {
+  FocusTimerSnapshot,
+  IntervalTimerSnapshot,
+  PomodoroTimerSnapshot,
+} from '@/lib/types/active-timer';
+import { createSimpleProgram } from '../intervalProgram';
+
+const NOW = 1_700_000_000_000;
+
+const focusSnapshot = (
+  overrides: Partial<FocusTimerSnapshot> = {}
+): FocusTimerSnapshot => ({
+  kind: 'focus',
+  focusMode: 'work',
+  clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0 },
+  sessionStartRemaining: 60,
+  savedAt: NOW - 10_000,
+  ...overrides,
+});
+
+const intervalSnapshot = (
+  overrides: Partial<IntervalTimerSnapshot> = {}
+): IntervalTimerSnapshot => ({
+  kind: 'interval',
+  clock: { durationMs: 30_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0 },
+  program: createSimpleProgram(30, 4),
+  currentStep: 1,
+  accumulatedElapsedTime: 0,
+  beepEnabled: true,
+  savedAt: NOW - 10_000,
+  ...overrides,
+});
+
+describe('activeTimerStorage', () => {
+  describe('load/save/clear', () => {
+    it('should round-trip a snapshot by kind', () => {
+      const snapshot = focusSnapshot();
+      saveActiveTimer(snapshot);
+
+      expect(loadActiveTimer('focus')).toEqual(snapshot);
+      expect(loadActiveTimer('interval')).toBeNull();
+
+      clearActiveTimer('focus');
+      expect(loadActiveTimer('focus')).toBeNull();
+    });
+
+    it('should ignore corrupted data', () => {
+      localStorage.setItem('zenFocus_activeTimer_focus', '{not json');
+
+      expect(loadActiveTimer('focus')).toBeNull();
+    });
+
+    it('should clear an interval snapshot saved without a program', () => {
+      const legacy = {
+        ...intervalSnapshot(),
+        program: undefined,
+        durationSeconds: 30,
+        totalRepetitions: 4,
+      };
+      localStorage.setItem('zenFocus_activeTimer_interval', JSON.stringify(legacy));
+
+      expect(loadActiveTimer('interval')).toBeNull();
+      expect(localStorage.getItem('zenFocus_activeTimer_interval')).toBeNull();
+    });
+
+    it('should load an interval snapshot with its program', () => {
+      const snapshot = intervalSnapshot();
+      saveActiveTimer(snapshot);
+
+      expect(loadActiveTimer('interval')).toEqual(snapshot);
+    });
+  });
+
+  describe('resolveRestoreAction', () => {
+    it('should continue a running timer that has time left', () => {
+      expect(resolveRestoreAction(focusSnapshot(), NOW)).toBe('continue');
+    });
+
+    it('should complete a running timer whose end time has passed', () => {
+      expect(resolveRestoreAction(focusSnapshot(), NOW + 60_000)).toBe('complete');
+    });
+
+    it('should offer to resume a recently paused timer', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: NOW - 5_000, pausedMs: 0 },
+      });
+
+      expect(resolveRestoreAction(snapshot, NOW)).toBe('prompt');
+    });
+
+    it('should discard a paused timer older than the maximum age', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: NOW - 5_000, pausedMs: 0 },
+        savedAt: NOW - 5_000,
+      });
+
+      expect(resolveRestoreAction(snapshot, NOW + MAX_PAUSED_AGE_MS)).toBe('discard');
+    });
+
+    it('should continue a running stopwatch past its target', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0, countUp: true },
+      });
+
+      expect(resolveRestoreAction(snapshot, NOW + 60_000)).toBe('continue');
+    });
+
+    it('should discard a timer that was never started', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: null, pausedAt: null, pausedMs: 0 },
+      });
+
+      expect(resolveRestoreAction(snapshot, NOW)).toBe('discard');
+    });
+  });
+
+  describe('getSnapshotSession', () => {
+    it('should record a completed session from its start to the end of the countdown', () => {
+      expect(getSnapshotSession(focusSnapshot(), true, NOW + 60_000)).toEqual({
+        mode: 'work',
+        actualDuration: 60,
+        plannedDuration: 60,
+        completed: true,
+        startTime: new Date(NOW - 10_000),
+        endTime: new Date(NOW + 50_000),
+        pauses: [],
+      });
+    });
+
+    it('should end an abandoned paused session where it was paused', () => {
+      const pauses = [
+        { pausedAt: new Date(NOW - 8_000).toISOString(), resumedAt: new Date(NOW - 6_000).toISOString() },
+      ];
+      const interruptions = [{ kind: 'internal' as const, at: new Date(NOW - 9_000).toISOString() }];
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: NOW - 5_000, pausedMs: 2_000 },
+        pauses,
+        interruptions,
+      });
+
+      expect(getSnapshotSession(snapshot, false, NOW)).toMatchObject({
+        actualDuration: 3,
+        completed: false,
+        endTime: new Date(NOW - 5_000),
+        pauses,
+        interruptions,
+      });
+    });
+
+    it('should record the time a finished stopwatch ran, past its target', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 5_000, countUp: true },
+      });
+
+      expect(getSnapshotSession(snapshot, true, NOW + 90_500)).toMatchObject({
+        actualDuration: 95,
+        plannedDuration: 60,
+        completed: true,
+        endTime: new Date(NOW + 90_500),
+      });
+    });
+
+    it('should leave out the planned duration of an open-ended stopwatch', () => {
+      const snapshot = focusSnapshot({
+        clock: { durationMs: 0, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0, countUp: true },
+      });
+
+      expect(getSnapshotSession(snapshot, true, NOW)?.plannedDuration).toBeUndefined();
+    });
+
+    it('should skip sessions that never ran for a second', () => {
+      expect(getSnapshotSession(focusSnapshot(), false, NOW - 9_500)).toBeNull();
+      expect(
+        getSnapshotSession(
+          focusSnapshot({ clock: { durationMs: 60_000, startedAt: null, pausedAt: null, pausedMs: 0 } }),
+          false,
+          NOW
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('fastForwardIntervalTimer', () => {
+    it('should leave a round with time left untouched', () => {
+      const snapshot = intervalSnapshot();
+
+      expect(fastForwardIntervalTimer(snapshot, NOW)).toEqual({
+        snapshot,
+        completedSteps: [],
+        allRoundsComplete: false,
+      });
+    });
+
+    it('should advance through rounds that finished while away', () => {
+      // Round 1 ended at NOW + 20s, round 2 at NOW + 50s; round 3 is 5s in
+      const result = fastForwardIntervalTimer(intervalSnapshot(), NOW + 55_000);
+
+      expect(result.completedSteps).toHaveLength(2);
+      expect(result.allRoundsComplete).toBe(false);
+      expect(result.snapshot.currentStep).toBe(3);
+      expect(result.snapshot.accumulatedElapsedTime).toBe(60);
+      expect(result.snapshot.clock).toEqual({
+        durationMs: 30_000,
+        startedAt: NOW + 50_000,
+        pausedAt: null,
+        pausedMs: 0,
+      });
+    });
+
+    it('should finish every round when the whole program elapsed', () => {
+      const result = fastForwardIntervalTimer(
+        intervalSnapshot({ currentStep: 3, accumulatedElapsedTime: 60 }),
+        NOW + 10 * 60_000
+      );
+
+      expect(result.completedSteps).toHaveLength(2);
+      expect(result.allRoundsComplete).toBe(true);
+      expect(result.snapshot.accumulatedElapsedTime).toBe(120);
+    });
+
+    it('should not advance a paused round', () => {
+      const snapshot = intervalSnapshot({
+        clock: { durationMs: 30_000, startedAt: NOW - 10_000, pausedAt: NOW - 5_000, pausedMs: 0 },
+      });
+
+      expect(fastForwardIntervalTimer(snapshot, NOW + 60_000).completedSteps).toHaveLength(0);
+    });
+
+    it('should use each step\'s own duration in multi-segment programs', () => {
+      // Work 20s / rest 10s, 3 rounds; work 1 started 10s ago
+      const snapshot = intervalSnapshot({
+        program: {
+          name: 'Tabata',
+          segments: [
+            { id: 'w', name: 'Work', kind: 'work', durationSeconds: 20, repeat: 1 },
+            { id: 'r', name: 'Rest', kind: 'rest', durationSeconds: 10, repeat: 1 },
+          ],
+          rounds: 3,
+        },
+        clock: { durationMs: 20_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0 },
+      });
+
+      // Work 1 ends at +10s, rest 1 at +20s, work 2 at +40s; rest 2 is 5s in
+      const result = fastForwardIntervalTimer(snapshot, NOW + 45_000);
+
+      expect(result.completedSteps.map((step) => step.kind)).toEqual(['work', 'rest', 'work']);
+      expect(result.snapshot.currentStep).toBe(4);
+      expect(result.snapshot.accumulatedElapsedTime).toBe(50);
+      expect(result.snapshot.clock).toEqual({
+        durationMs: 10_000,
+        startedAt: NOW + 40_000,
+        pausedAt: null,
+        pausedMs: 0,
+      });
+    });
+  });
+
+  describe('fastForwardPomodoroTimer', () => {
+    const settings = {
+      focusDuration: 60,
+      shortBreakDuration: 10,
+      longBreakDuration: 30,
+      longBreakInterval: 2,
+      autoStartNext: true,
+    };
+    const pomodoroSnapshot: PomodoroTimerSnapshot = {
+      kind: 'pomodoro',
+      focusMode: 'work',
+      clock: { durationMs: 60_000, startedAt: NOW - 10_000, pausedAt: null, pausedMs: 0 },
+      phase: 'focus',
+      completedFocusBlocks: 0,
+      taskId: 'task-1',
+      savedAt: NOW - 10_000,
+    };
+
+    it('should record each phase that ran out, back to back with auto-start', () => {
+      // Focus ends at +50s, the short break at +60s, focus 2 at +120s; the long break is 5s in
+      const result = fastForwardPomodoroTimer(pomodoroSnapshot, settings, NOW + 125_000);
+
+      expect(
+        result.completedPhases.map(({ phase, endTime }) => [phase, endTime?.getTime()])
+      ).toEqual([
+        ['focus', NOW + 50_000],
+        ['shortBreak', NOW + 60_000],
+        ['focus', NOW + 120_000],
+      ]);
+      expect(result.completedPhases.every((session) => session.mode === 'work')).toBe(true);
+      expect(result.completedPhases.map((session) => session.taskId)).toEqual([
+        'task-1',
+        undefined,
+        'task-1',
+      ]);
+      expect(result.snapshot).toMatchObject({ phase: 'longBreak', completedFocusBlocks: 2 });
+      expect(result.snapshot.clock).toEqual({
+        durationMs: 30_000,
+        startedAt: NOW + 120_000,
+        pausedAt: null,
+        pausedMs: 0,
+      });
+    });
+
+    it('should stop at the next phase without auto-start', () => {
+      const result = fastForwardPomodoroTimer(
+        pomodoroSnapshot,
+        { ...settings, autoStartNext: false },
+        NOW + 125_000
+      );
+
+      expect(result.completedPhases).toHaveLength(1);
+      expect(result.snapshot).toMatchObject({ phase: 'shortBreak', completedFocusBlocks: 1 });
+      expect(result.snapshot.clock.startedAt).toBeNull();
+    });
+
+    it('should leave a phase with time left untouched', () => {
+      const result = fastForwardPomodoroTimer(pomodoroSnapshot, settings, NOW);
+
+      expect(result.completedPhases).toEqual([]);
+      expect(result.snapshot).toBe(pomodoroSnapshot);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  calculateStreaks,
+  daysBetween,
+  getDayKey,
+  getHour,
+  getWeekStart,
+  getWeekday,
+  isValidTimeZone,
+} from '../calendarDay';
+
+describe('calendarDay', () => {
+  describe('getDayKey', () => {
+    it('should use the local date by default', () => {
+      expect(getDayKey(new Date(2025, 11, 31, 23, 59))).toBe('2025-12-31');
+      expect(getDayKey(new Date(2026, 0, 1, 0, 0).toISOString())).toBe('2026-01-01');
+    });
+
+    it('should use the wall clock date in a time zone', () => {
+      // 23:30 in New York is already the next day in UTC
+      const time = '2025-01-11T04:30:00.000Z';
+
+      expect(getDayKey(time, { timeZone: 'America/New_York' })).toBe('2025-01-10');
+      expect(getDayKey(time, { timeZone: 'UTC' })).toBe('2025-01-11');
+      expect(getDayKey(time, { timeZone: 'Asia/Tokyo' })).toBe('2025-01-11');
+    });
+
+    it('should count times before the day start hour toward the previous day', () => {
+      const options = { timeZone: 'Europe/Berlin', dayStartHour: 4 };
+
+      expect(getDayKey('2025-03-01T02:59:00.000Z', options)).toBe('2025-02-28'); // 03:59
+      expect(getDayKey('2025-03-01T03:00:00.000Z', options)).toBe('2025-03-01'); // 04:00
+      expect(getDayKey('2025-01-01T01:00:00.000Z', options)).toBe('2024-12-31'); // 02:00
+    });
+
+    it('should keep days right across DST changes', () => {
+      const options = { timeZone: 'America/New_York' };
+
+      // Clocks go forward on March 9, 2025: 23:30 EDT is 03:30 UTC
+      expect(getDayKey('2025-03-10T03:30:00.000Z', options)).toBe('2025-03-09');
+      // and back on November 2: 23:30 EST is 04:30 UTC
+      expect(getDayKey('2025-11-03T04:30:00.000Z', options)).toBe('2025-11-02');
+    });
+  });
+
+  describe('getHour', () => {
+    it('should use the wall clock hour in a time zone', () => {
+      const time = '2025-01-11T04:30:00.000Z';
+
+      expect(getHour(time, 'America/New_York')).toBe(23);
+      expect(getHour(time, 'UTC')).toBe(4);
+      expect(getHour(new Date(2025, 0, 11, 0, 15))).toBe(0);
+    });
+  });
+
+  describe('day arithmetic', () => {
+    it('should add and count calendar days', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+      expect(daysBetween('2025-03-08', '2025-03-10')).toBe(2);
+      expect(daysBetween('2025-03-10', '2025-03-08')).toBe(-2);
+    });
+
+    it('should find the weekday and the Monday starting the week', () => {
+      expect(getWeekday('2025-01-05')).toBe(0);
+      expect(getWeekday('2025-01-06')).toBe(1);
+      expect(getWeekStart('2025-01-05')).toBe('2024-12-30');
+      expect(getWeekStart('2025-01-06')).toBe('2025-01-06');
+      expect(getWeekStart('2025-01-11')).toBe('2025-01-06');
+    });
+
+    it('should recognize time zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('calculateStreaks', () => {
+    const newYork = { timeZone: 'America/New_York' };
+
+    it('should return zero without activity', () => {
+      expect(calculateStreaks([])).toEqual({ currentStreak: 0, longestStreak: 0 });
+    });
+
+    it('should count evening sessions on their local day', () => {
+      // 21:00 in New York on March 8, 9 and 10, across the switch to DST
+      const times = ['2025-03-09T02:00:00.000Z', '2025-03-10T01:00:00.000Z', '2025-03-11T01:00:00.000Z'];
+      const now = new Date('2025-03-11T14:00:00.000Z');
+
+      expect(calculateStreaks(times, newYork, now)).toEqual({ currentStreak: 3, longestStreak: 3 });
+      // In UTC the same sessions fall on March 9, 10 and 11
+      expect(calculateStreaks(times, { timeZone: 'UTC' }, now)).toEqual({
+        currentStreak: 3,
+        longestStreak: 3,
+      });
+      expect(
+        calculateStreaks(times, { timeZone: 'UTC' }, new Date('2025-03-13T12:00:00.000Z'))
+      ).toEqual({ currentStreak: 0, longestStreak: 3 });
+    });
+
+    it('should keep a night owl streak going with a later day start', () => {
+      // 23:00 on the 10th, then 01:00 on the 12th, Berlin time
+      const times = ['2025-01-10T22:00:00.000Z', '2025-01-12T00:00:00.000Z'];
+      const now = new Date('2025-01-12T10:00:00.000Z');
+      const berlin = { timeZone: 'Europe/Berlin' };
+
+      expect(calculateStreaks(times, berlin, now)).toEqual({ currentStreak: 1, longestStreak: 1 });
+      expect(calculateStreaks(times, { ...berlin, dayStartHour: 3 }, now)).toEqual({
+        currentStreak: 2,
+        longestStreak: 2,
+      });
+    });
+
+    it('should keep the current streak until the end of the next day', () => {
+      const times = ['2025-01-08T12:00:00.000Z', '2025-01-09T12:00:00.000Z', '2025-01-10T12:00:00.000Z'];
+      const options = { timeZone: 'UTC' };
+
+      expect(calculateStreaks(times, options, new Date('2025-01-11T23:59:00.000Z'))).toEqual({
+        currentStreak: 3,
+        longestStreak: 3,
+      });
+      expect(
+        calculateStreaks(times, options, new Date('2025-01-12T00:00:00.000Z')).currentStreak
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { HEATMAP_WEEKS, buildFocusHeatmap } from '../focusHeatmap';
+import { createTimerSession } from '../timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const UTC = { timeZone: 'UTC' };
+// Wednesday, January 8, 2025
+const NOW = new Date('2025-01-08T18:00:00.000Z');
+
+const session = (endTime: string, extra: Partial<TimerSession> = {}): TimerSession => ({
+  ...createTimerSession({
+    mode: 'study',
+    actualDuration: 3600,
+    completed: true,
+    endTime: new Date(endTime),
+  }),
+  ...extra,
+});
+
+describe('focusHeatmap', () => {
+  it('should lay out a year of weeks from Monday to Sunday, ending today', () => {
+    const weeks = buildFocusHeatmap([], UTC, NOW);
+
+    expect(weeks).toHaveLength(HEATMAP_WEEKS);
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    expect(weeks[0][0]?.key).toBe('2024-01-08');
+    const lastWeek = weeks[HEATMAP_WEEKS - 1];
+    expect(lastWeek.map((day) => day?.key ?? null)).toEqual([
+      '2025-01-06',
+      '2025-01-07',
+      '2025-01-08',
+      null,
+      null,
+      null,
+      null,
+    ]);
+  });
+
+  it('should total focus time by day and mode, leaving out breaks', () => {
+    const weeks = buildFocusHeatmap(
+      [
+        session('2025-01-07T09:00:00.000Z'),
+        session('2025-01-07T11:00:00.000Z', { mode: 'work', actualDuration: 5400, completed: false }),
+        session('2025-01-07T12:00:00.000Z', { phase: 'shortBreak', actualDuration: 300 }),
+        session('2025-01-08T09:00:00.000Z', { actualDuration: 1800 }),
+      ],
+      UTC,
+      NOW,
+      1
+    );
+    const [, tuesday, wednesday] = weeks[0];
+
+    expect(tuesday).toEqual({
+      key: '2025-01-07',
+      totalTime: 9000,
+      modes: [
+        { mode: 'work', totalTime: 5400 },
+        { mode: 'study', totalTime: 3600 },
+      ],
+      level: 4,
+    });
+    expect(wednesday).toMatchObject({ totalTime: 1800, level: 1 });
+    expect(weeks[0][0]).toMatchObject({ totalTime: 0, modes: [], level: 0 });
+  });
+
+  it('should shade days relative to the busiest day', () => {
+    const weeks = buildFocusHeatmap(
+      [
+        session('2025-01-06T09:00:00.000Z', { actualDuration: 1000 }),
+        session('2025-01-07T09:00:00.000Z', { actualDuration: 2000 }),
+        session('2025-01-08T09:00:00.000Z', { actualDuration: 4000 }),
+      ],
+      UTC,
+      NOW,
+      1
+    );
+
+    expect(weeks[0].slice(0, 3).map((day) => day?.level)).toEqual([1, 2, 4]);
+  });
+
+  it('should count days in the time zone', () => {
+    // 23:30 on Monday in New York is Tuesday in UTC
+    const weeks = buildFocusHeatmap(
+      [session('2025-01-07T04:30:00.000Z')],
+      { timeZone: 'America/New_York' },
+      NOW,
+      1
+    );
+
+    expect(weeks[0][0]).toMatchObject({ key: '2025-01-06', totalTime: 3600 });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFocusTimeSeries,
+  compareWeeks,
+  getTimeOfDayDistribution,
+  summarizeInterruptions,
+  summarizeModes,
+  summarizeTags,
+} from '../focusStatistics';
+import { createTimerSession } from '../timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const UTC = { timeZone: 'UTC' };
+
+// January 6, 2025 is a Monday
+const session = (
+  endTime: string,
+  extra: Partial<Parameters<typeof createTimerSession>[0]> = {}
+): TimerSession =>
+  createTimerSession({
+    mode: 'work',
+    actualDuration: 3600,
+    completed: true,
+    endTime: new Date(endTime),
+    ...extra,
+  });
+
+describe('focusStatistics', () => {
+  describe('buildFocusTimeSeries', () => {
+    const sessions = [
+      session('2025-01-06T10:00:00.000Z'),
+      session('2025-01-07T10:00:00.000Z', { mode: 'study', actualDuration: 1800 }),
+      session('2025-01-07T12:00:00.000Z', { completed: false, actualDuration: 600 }),
+      session('2025-01-07T13:00:00.000Z', { phase: 'shortBreak', actualDuration: 300 }),
+      session('2024-11-20T10:00:00.000Z', { mode: 'yoga', actualDuration: 900 }),
+    ];
+    const now = new Date('2025-01-08T18:00:00.000Z');
+
+    it('should split daily focus time by mode, breaks excluded', () => {
+      const { periods, modes } = buildFocusTimeSeries(sessions, 'day', UTC, now, 3);
+
+      expect(modes).toEqual(['work', 'study']);
+      expect(periods).toEqual([
+        {
+          start: '2025-01-06',
+          modes: [
+            { mode: 'work', totalTime: 3600 },
+            { mode: 'study', totalTime: 0 },
+          ],
+          totalTime: 3600,
+        },
+        {
+          start: '2025-01-07',
+          modes: [
+            { mode: 'work', totalTime: 600 },
+            { mode: 'study', totalTime: 1800 },
+          ],
+          totalTime: 2400,
+        },
+        {
+          start: '2025-01-08',
+          modes: [
+            { mode: 'work', totalTime: 0 },
+            { mode: 'study', totalTime: 0 },
+          ],
+          totalTime: 0,
+        },
+      ]);
+    });
+
+    it('should group weeks from Monday and whole months', () => {
+      const weeks = buildFocusTimeSeries(sessions, 'week', UTC, now, 2);
+      const months = buildFocusTimeSeries(sessions, 'month', UTC, now, 3);
+
+      expect(weeks.periods.map((p) => [p.start, p.totalTime])).toEqual([
+        ['2024-12-30', 0],
+        ['2025-01-06', 6000],
+      ]);
+      expect(months.periods.map((p) => [p.start, p.totalTime])).toEqual([
+        ['2024-11-01', 900],
+        ['2024-12-01', 0],
+        ['2025-01-01', 6000],
+      ]);
+      expect(months.modes).toEqual(['work', 'study', 'yoga']);
+    });
+  });
+
+  describe('compareWeeks', () => {
+    it('should compare this week so far with the same days of last week', () => {
+      const comparison = compareWeeks(
+        [
+          session('2024-12-30T10:00:00.000Z'), // last Monday
+          session('2025-01-01T10:00:00.000Z'), // last Wednesday
+          session('2025-01-04T10:00:00.000Z'), // last Saturday, after today's weekday
+          session('2025-01-06T10:00:00.000Z', { actualDuration: 5400 }),
+          session('2025-01-07T10:00:00.000Z', { actualDuration: 3600 }),
+        ],
+        UTC,
+        new Date('2025-01-08T18:00:00.000Z')
+      );
+
+      expect(comparison.days.slice(0, 4)).toEqual([
+        { key: '2025-01-06', current: 5400, previous: 3600 },
+        { key: '2025-01-07', current: 3600, previous: 0 },
+        { key: '2025-01-08', current: 0, previous: 3600 },
+        { key: '2025-01-09', current: null, previous: 0 },
+      ]);
+      expect(comparison.days[5]).toEqual({ key: '2025-01-11', current: null, previous: 3600 });
+      expect(comparison).toMatchObject({
+        currentTotal: 9000,
+        previousTotal: 7200,
+        change: 0.25,
+      });
+    });
+
+    it('should not give a change without focus time last week', () => {
+      expect(
+        compareWeeks([session('2025-01-06T10:00:00.000Z')], UTC, new Date('2025-01-08T18:00:00.000Z'))
+          .change
+      ).toBeNull();
+    });
+  });
+
+  describe('getTimeOfDayDistribution', () => {
+    it('should count sessions by the wall clock hour they started', () => {
+      const hours = getTimeOfDayDistribution(
+        [
+          // Started 09:00 and 09:30 UTC
+          session('2025-01-06T10:00:00.000Z'),
+          session('2025-01-07T10:00:00.000Z', { actualDuration: 1800, completed: false }),
+          session('2025-01-07T10:05:00.000Z', { phase: 'shortBreak', actualDuration: 300 }),
+        ],
+        'America/New_York'
+      );
+
+      expect(hours).toHaveLength(24);
+      expect(hours[4]).toEqual({ hour: 4, sessions: 2, completed: 1, totalTime: 5400 });
+      expect(hours.filter((hour) => hour.sessions > 0)).toHaveLength(1);
+    });
+  });
+
+  describe('summarizeModes', () => {
+    it('should give session counts, average length and completion rate per mode', () => {
+      expect(
+        summarizeModes([
+          session('2025-01-06T10:00:00.000Z', { mode: 'study', actualDuration: 1500 }),
+          session('2025-01-06T11:00:00.000Z'),
+          session('2025-01-06T12:00:00.000Z', { actualDuration: 1200, completed: false }),
+          session('2025-01-06T12:10:00.000Z', { phase: 'longBreak', actualDuration: 900 }),
+        ])
+      ).toEqual([
+        {
+          mode: 'work',
+          sessions: 2,
+          completed: 1,
+          totalTime: 4800,
+          averageLength: 2400,
+          completionRate: 0.5,
+        },
+        {
+          mode: 'study',
+          sessions: 1,
+          completed: 1,
+          totalTime: 1500,
+          averageLength: 1500,
+          completionRate: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('summarizeTags', () => {
+    it('should total focus time per tag with the average focus quality', () => {
+      expect(
+        summarizeTags([
+          session('2025-01-06T10:00:00.000Z', { tags: ['thesis', 'reading'], focusQuality: 4 }),
+          session('2025-01-06T11:00:00.000Z', { tags: ['thesis'], actualDuration: 1800, focusQuality: 3 }),
+          session('2025-01-06T12:00:00.000Z', { tags: ['thesis'], actualDuration: 600 }),
+          session('2025-01-06T12:10:00.000Z', { tags: ['thesis'], phase: 'shortBreak' }),
+          session('2025-01-06T13:00:00.000Z'),
+        ])
+      ).toEqual([
+        { tag: 'thesis', sessions: 3, totalTime: 6000, averageFocusQuality: 3.5 },
+        { tag: 'reading', sessions: 1, totalTime: 3600, averageFocusQuality: 4 },
+      ]);
+    });
+  });
+
+  describe('summarizeInterruptions', () => {
+    const at = (time: string) => `2025-01-06T${time}:00.000Z`;
+
+    it('should count interruptions by kind per hour of focus since the first was logged', () => {
+      expect(
+        summarizeInterruptions([
+          session('2025-01-06T09:00:00.000Z'),
+          session('2025-01-06T11:00:00.000Z', {
+            interruptions: [
+              { kind: 'internal', at: at('10:10') },
+              { kind: 'later', at: at('10:20'), note: 'Book flights' },
+            ],
+          }),
+          session('2025-01-06T11:40:00.000Z', {
+            actualDuration: 1800,
+            interruptions: [{ kind: 'external', at: at('11:20') }],
+          }),
+          session('2025-01-06T11:50:00.000Z', {
+            actualDuration: 300,
+            phase: 'shortBreak',
+            interruptions: [{ kind: 'external', at: at('11:45') }],
+          }),
+        ])
+      ).toEqual({
+        total: 3,
+        byKind: { internal: 1, external: 1, later: 1 },
+        focusTime: 5400,
+        perHour: 2,
+      });
+    });
+
+    it('should have no rate before any interruption was logged', () => {
+      expect(summarizeInterruptions([session('2025-01-06T09:00:00.000Z')])).toMatchObject({
+        total: 0,
+        perHour: null,
+      });
+    });
+  });
+});
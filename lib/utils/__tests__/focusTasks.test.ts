@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FOCUS_TASKS_STORAGE_KEY,
+  createFocusTask,
+  getTaskProgress,
+  loadFocusTasks,
+  moveFocusTask,
+} from '../focusTasks';
+import { createTimerSession } from '../timerSession';
+
+describe('focusTasks', () => {
+  describe('createFocusTask', () => {
+    it('should create an open task with a trimmed title', () => {
+      const task = createFocusTask('  Write intro ', 4);
+
+      expect(task).toMatchObject({
+        title: 'Write intro',
+        estimatedPomodoros: 4,
+        completed: false,
+        archived: false,
+      });
+      expect(task.id).toMatch(/^task-/);
+    });
+
+    it('should leave out an estimate below one Pomodoro', () => {
+      expect(createFocusTask('Email', 0)).not.toHaveProperty('estimatedPomodoros');
+    });
+  });
+
+  describe('moveFocusTask', () => {
+    const [a, b, c] = ['A', 'B', 'C'].map((title) => createFocusTask(title));
+
+    it('should swap a task with its neighbour', () => {
+      expect(moveFocusTask([a, b, c], c.id, -1)).toEqual([a, c, b]);
+      expect(moveFocusTask([a, b, c], a.id, 1)).toEqual([b, a, c]);
+    });
+
+    it('should skip archived tasks and stay put at either end', () => {
+      const archived = { ...b, archived: true };
+
+      expect(moveFocusTask([a, archived, c], a.id, 1)).toEqual([c, archived, a]);
+      expect(moveFocusTask([a, b, c], a.id, -1)).toEqual([a, b, c]);
+      expect(moveFocusTask([a, archived], a.id, 1)).toEqual([a, archived]);
+    });
+  });
+
+  describe('getTaskProgress', () => {
+    it('should count completed focus sessions and all focus time per task', () => {
+      const session = (taskId: string | undefined, completed: boolean, phase?: 'shortBreak') =>
+        createTimerSession({ mode: 'work', actualDuration: 600, completed, phase, taskId });
+
+      expect(
+        getTaskProgress([
+          session('one', true),
+          session('one', false),
+          session('one', true, 'shortBreak'),
+          session('two', true),
+          session(undefined, true),
+        ])
+      ).toEqual({
+        one: { pomodoros: 1, totalTime: 1200 },
+        two: { pomodoros: 1, totalTime: 600 },
+      });
+    });
+  });
+
+  describe('loadFocusTasks', () => {
+    it('should skip malformed tasks', () => {
+      const task = createFocusTask('Report');
+      localStorage.setItem(
+        FOCUS_TASKS_STORAGE_KEY,
+        JSON.stringify([task, { id: 'x', title: 'No flags' }, { ...task, estimatedPomodoros: -1 }])
+      );
+
+      expect(loadFocusTasks()).toEqual([task]);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GOAL_NOTIFICATIONS_STORAGE_KEY,
+  calculateGoalStreaks,
+  claimGoalAnnouncements,
+  createGoal,
+  describeGoal,
+  getGoalProgress,
+  parseGoals,
+} from '../goals';
+import { createTimerSession } from '../timerSession';
+import type { FocusGoal } from '@/lib/types/goals';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const UTC = { timeZone: 'UTC' };
+
+// January 6, 2025 is a Monday
+const session = (
+  id: string,
+  endTime: string,
+  extra: Partial<TimerSession> = {}
+): TimerSession => ({
+  ...createTimerSession({
+    mode: 'work',
+    actualDuration: 3600,
+    completed: true,
+    endTime: new Date(endTime),
+  }),
+  id,
+  ...extra,
+});
+
+const goal = (fields: Partial<FocusGoal> = {}): FocusGoal => ({
+  id: 'goal',
+  metric: 'focusTime',
+  target: 7200,
+  period: 'day',
+  ...fields,
+});
+
+describe('goals', () => {
+  describe('createGoal', () => {
+    it('should give goals an id and sorted weekdays', () => {
+      const created = createGoal({
+        metric: 'sessions',
+        target: 4,
+        period: 'day',
+        weekdays: [5, 1, 3, 1],
+      });
+
+      expect(created.id).toEqual(expect.any(String));
+      expect(created.weekdays).toEqual([1, 3, 5]);
+    });
+
+    it('should drop weekdays covering every day and from weekly goals', () => {
+      expect(
+        createGoal({ metric: 'sessions', target: 4, period: 'day', weekdays: [0, 1, 2, 3, 4, 5, 6] })
+      ).not.toHaveProperty('weekdays');
+      expect(
+        createGoal({ metric: 'sessions', target: 4, period: 'week', weekdays: [1] })
+      ).not.toHaveProperty('weekdays');
+    });
+  });
+
+  describe('parseGoals', () => {
+    it('should keep only well formed goals', () => {
+      const valid = goal({ mode: 'work', weekdays: [1, 2] });
+
+      expect(
+        parseGoals([
+          valid,
+          { ...valid, id: 'bad-metric', metric: 'pages' },
+          { ...valid, id: 'bad-target', target: 0 },
+          { ...valid, id: 'bad-day', weekdays: [7] },
+          null,
+        ])
+      ).toEqual([valid]);
+      expect(parseGoals('goals')).toEqual([]);
+    });
+  });
+
+  describe('getGoalProgress', () => {
+    const sessions = [
+      session('mon-work', '2025-01-06T09:00:00.000Z'),
+      session('tue-work', '2025-01-07T09:00:00.000Z'),
+      session('tue-study', '2025-01-07T10:00:00.000Z', { mode: 'study', actualDuration: 1800 }),
+      session('tue-break', '2025-01-07T11:00:00.000Z', { phase: 'shortBreak', actualDuration: 300 }),
+      session('tue-stopped', '2025-01-07T12:00:00.000Z', { completed: false }),
+    ];
+    const tuesday = new Date('2025-01-07T18:00:00.000Z');
+
+    it('should measure daily goals over today', () => {
+      const [focusTime, workSessions] = getGoalProgress(
+        [goal({ id: 'time' }), goal({ id: 'work', mode: 'work', metric: 'sessions', target: 1 })],
+        sessions,
+        UTC,
+        tuesday
+      );
+
+      expect(focusTime).toMatchObject({ periodStart: '2025-01-07', value: 5400, met: false });
+      expect(workSessions).toMatchObject({ value: 1, met: true });
+    });
+
+    it('should measure weekly goals from Monday', () => {
+      const [weekly] = getGoalProgress(
+        [goal({ period: 'week', metric: 'sessions', target: 3 })],
+        sessions,
+        UTC,
+        tuesday
+      );
+
+      expect(weekly).toMatchObject({ periodStart: '2025-01-06', value: 3, met: true });
+    });
+
+    it('should leave out daily goals not due today', () => {
+      expect(getGoalProgress([goal({ weekdays: [1, 3, 5] })], sessions, UTC, tuesday)).toEqual([]);
+    });
+  });
+
+  describe('calculateGoalStreaks', () => {
+    const weekdayGoal = goal({ mode: 'work', target: 3600, weekdays: [1, 2, 3, 4, 5] });
+
+    it('should return null without daily goals', () => {
+      expect(calculateGoalStreaks([goal({ period: 'week' })], [], UTC)).toBeNull();
+    });
+
+    it('should count days the daily goals were met, skipping days without one', () => {
+      const sessions = [
+        session('thu', '2025-01-02T09:00:00.000Z'),
+        session('fri', '2025-01-03T09:00:00.000Z'),
+        session('mon', '2025-01-06T09:00:00.000Z'),
+      ];
+
+      // The weekend does not break the streak, and Tuesday is still in progress
+      expect(
+        calculateGoalStreaks([weekdayGoal], sessions, UTC, new Date('2025-01-07T08:00:00.000Z'))
+      ).toEqual({ currentStreak: 3, longestStreak: 3 });
+      expect(
+        calculateGoalStreaks([weekdayGoal], sessions, UTC, new Date('2025-01-08T08:00:00.000Z'))
+      ).toEqual({ currentStreak: 0, longestStreak: 3 });
+    });
+
+    it('should not count days with sessions that fell short of a goal', () => {
+      const sessions = [
+        session('mon', '2025-01-06T09:00:00.000Z'),
+        session('tue-short', '2025-01-07T09:00:00.000Z', { actualDuration: 1800 }),
+        session('wed', '2025-01-08T09:00:00.000Z'),
+      ];
+
+      expect(
+        calculateGoalStreaks([weekdayGoal], sessions, UTC, new Date('2025-01-08T18:00:00.000Z'))
+      ).toEqual({ currentStreak: 1, longestStreak: 1 });
+    });
+  });
+
+  describe('describeGoal', () => {
+    it('should describe goals in words', () => {
+      expect(describeGoal(goal({ target: 10800, weekdays: [1, 2, 3, 4, 5] }), 'Deep Work')).toBe(
+        '3h of Deep Work every weekday'
+      );
+      expect(describeGoal(goal({ metric: 'sessions', target: 10, period: 'week' }))).toBe(
+        '10 sessions a week'
+      );
+      expect(describeGoal(goal({ metric: 'sessions', target: 1 }), 'Yoga')).toBe(
+        '1 Yoga session a day'
+      );
+      expect(describeGoal(goal({ target: 5400, weekdays: [1, 3] }))).toBe(
+        '1h 30m of focus time on Mon, Wed'
+      );
+    });
+  });
+
+  describe('claimGoalAnnouncements', () => {
+    it('should claim each goal once per period', () => {
+      const current = ['a:2025-01-07', 'b:2025-01-07'];
+
+      expect(claimGoalAnnouncements(['a:2025-01-07'], current)).toEqual(['a:2025-01-07']);
+      expect(claimGoalAnnouncements(['a:2025-01-07', 'b:2025-01-07'], current)).toEqual([
+        'b:2025-01-07',
+      ]);
+      expect(claimGoalAnnouncements(['a:2025-01-07', 'b:2025-01-07'], current)).toEqual([]);
+    });
+
+    it('should forget past periods', () => {
+      claimGoalAnnouncements(['a:2025-01-07'], ['a:2025-01-07']);
+      claimGoalAnnouncements([], ['a:2025-01-08']);
+
+      expect(JSON.parse(localStorage.getItem(GOAL_NOTIFICATIONS_STORAGE_KEY)!)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  HISTORY_BACKUP_VERSION,
+  downloadFile,
+  exportHistory,
+  toCsv,
+  toICalendar,
+} from '../historyExport';
+import { createTimerSession } from '../timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const session = (id: string, endTime: string, extra: Partial<TimerSession> = {}): TimerSession => ({
+  ...createTimerSession({ mode: 'study', actualDuration: 1500, completed: true, endTime: new Date(endTime) }),
+  id,
+  ...extra,
+});
+
+const labels: Record<string, string> = { study: 'Study', 'custom-x': 'Reading, "slow"' };
+const getLabel = (mode: string) => labels[mode] ?? 'Removed mode';
+const exportedAt = new Date('2025-01-15T12:00:00.000Z');
+
+describe('historyExport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('toCsv', () => {
+    it('should write a header and one row per session', () => {
+      const csv = toCsv(
+        [
+          session('a', '2025-01-10T10:00:00.000Z', {
+            intention: 'Chapter 3',
+            tags: ['thesis', 'reading'],
+            notes: 'Slow start,\nthen "flow"',
+            focusQuality: 4,
+            mood: 3,
+          }),
+          session('b', '2025-01-11T10:00:00.000Z', {
+            mode: 'custom-x',
+            phase: 'shortBreak',
+            actualDuration: 120,
+            plannedDuration: 300,
+            completed: false,
+            pauses: [
+              { pausedAt: '2025-01-11T09:40:00.000Z', resumedAt: '2025-01-11T09:45:00.000Z' },
+            ],
+          }),
+        ],
+        getLabel
+      );
+
+      expect(csv.split('\r\n')).toEqual([
+        'id,mode,mode_label,phase,start_time,end_time,planned_duration_seconds,actual_duration_seconds,completed,pauses,paused_seconds,intention,tags,notes,focus_quality,mood',
+        'a,study,Study,focus,2025-01-10T09:35:00.000Z,2025-01-10T10:00:00.000Z,1500,1500,true,0,0,Chapter 3,"thesis, reading","Slow start,\nthen ""flow""",4,3',
+        'b,custom-x,"Reading, ""slow""",shortBreak,2025-01-11T09:35:00.000Z,2025-01-11T10:00:00.000Z,300,120,false,1,300,,,,,',
+        '',
+      ]);
+    });
+
+    it('should keep free text from running as a spreadsheet formula', () => {
+      const csv = toCsv(
+        [
+          session('a', '2025-01-10T10:00:00.000Z', {
+            intention: '=HYPERLINK("http://example.com")',
+            tags: ['+1', 'ok'],
+            notes: '@SUM(A1)',
+            phase: 'longBreak',
+          }),
+        ],
+        () => '-Reading'
+      );
+
+      expect(csv.split('\r\n')[1]).toBe(
+        'a,study,\'-Reading,longBreak,2025-01-10T09:35:00.000Z,2025-01-10T10:00:00.000Z,1500,1500,true,0,0,"\'=HYPERLINK(""http://example.com"")","\'+1, ok",\'@SUM(A1),,'
+      );
+    });
+  });
+
+  describe('toICalendar', () => {
+    it('should write one event per session in UTC', () => {
+      const ics = toICalendar(
+        [session('a', '2025-01-10T10:00:00.000Z', { completed: false, plannedDuration: 3000 })],
+        getLabel,
+        exportedAt
+      );
+      const lines = ics.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('UID:a@zenfocus');
+      expect(lines).toContain('DTSTAMP:20250115T120000Z');
+      expect(lines).toContain('DTSTART:20250110T093500Z');
+      expect(lines).toContain('DTEND:20250110T100000Z');
+      expect(lines).toContain('SUMMARY:Study (incomplete)');
+      expect(lines).toContain('DESCRIPTION:Ran 25 of 50 planned minutes');
+      expect(lines.at(-2)).toBe('END:VCALENDAR');
+    });
+
+    it('should escape text and fold long lines', () => {
+      const ics = toICalendar(
+        [session('a', '2025-01-10T10:00:00.000Z', { mode: 'custom-x', phase: 'longBreak' })],
+        (mode) => (mode === 'custom-x' ? `Reading; ${'very '.repeat(20)}long` : mode),
+        exportedAt
+      );
+      const lines = ics.split('\r\n');
+
+      expect(lines.every((line) => line.length <= 75)).toBe(true);
+      const summary = lines.findIndex((line) => line.startsWith('SUMMARY:'));
+      const unfolded = lines[summary] + lines[summary + 1].slice(1);
+      expect(unfolded).toMatch(/^SUMMARY:Reading\\; very /);
+      expect(ics.replace(/\r\n /g, '')).toContain('long Long Break\r\n');
+    });
+
+    it('should fold lines by UTF-8 octets without splitting characters', () => {
+      const notes = '読書ノート🙂'.repeat(20);
+      const ics = toICalendar([session('a', '2025-01-10T10:00:00.000Z', { notes })], getLabel, exportedAt);
+      const lines = ics.split('\r\n');
+      const encoder = new TextEncoder();
+
+      expect(lines.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+      expect(lines.some((line) => /[\ud800-\udbff]$|^ ?[\udc00-\udfff]/.test(line))).toBe(false);
+      expect(ics.replace(/\r\n /g, '')).toContain(notes);
+    });
+
+    it('should add the intention, notes and tags', () => {
+      const lines = toICalendar(
+        [
+          session('a', '2025-01-10T10:00:00.000Z', {
+            intention: 'Chapter 3',
+            notes: 'Done',
+            tags: ['thesis', 'a,b'],
+          }),
+        ],
+        getLabel,
+        exportedAt
+      ).split('\r\n');
+
+      expect(lines).toContain('SUMMARY:Study: Chapter 3');
+      expect(lines).toContain('DESCRIPTION:Ran 25 of 25 planned minutes\\n\\nDone');
+      expect(lines).toContain('CATEGORIES:Study,thesis,a\\,b');
+    });
+  });
+
+  describe('exportHistory', () => {
+    it('should name files by date and format', () => {
+      const sessions = [session('a', '2025-01-10T10:00:00.000Z')];
+
+      expect(exportHistory(sessions, 'csv', getLabel, exportedAt)).toMatchObject({
+        filename: 'zenfocus-history-2025-01-15.csv',
+        mimeType: 'text/csv',
+      });
+      expect(exportHistory(sessions, 'ics', getLabel, exportedAt).mimeType).toBe('text/calendar');
+    });
+
+    it('should write a versioned JSON backup', () => {
+      const sessions = [session('a', '2025-01-10T10:00:00.000Z')];
+      const file = exportHistory(sessions, 'json', getLabel, exportedAt);
+
+      expect(file.filename).toBe('zenfocus-history-2025-01-15.json');
+      expect(JSON.parse(file.content)).toEqual({
+        format: 'zenFocus-history',
+        version: HISTORY_BACKUP_VERSION,
+        exportedAt: '2025-01-15T12:00:00.000Z',
+        sessions,
+      });
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should download the content through an object URL', () => {
+      const createObjectURL = vi.fn(() => 'blob:export');
+      const revokeObjectURL = vi.fn();
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      downloadFile({ filename: 'history.csv', mimeType: 'text/csv', content: 'id\r\n' });
+
+      expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HISTORY_FILTER,
+  filterSessions,
+  getDailyTotals,
+  groupSessionsByDay,
+  type HistoryFilter,
+} from '../historyFilter';
+import { createTimerSession } from '../timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+// Local times, so day boundaries hold in any time zone
+const session = (
+  id: string,
+  end: [day: number, hour: number],
+  extra: Partial<TimerSession> = {}
+): TimerSession => ({
+  ...createTimerSession({
+    mode: 'study',
+    actualDuration: 1500,
+    completed: true,
+    endTime: new Date(2025, 0, end[0], end[1]),
+  }),
+  id,
+  ...extra,
+});
+
+const labels: Record<string, string> = { study: 'Study', work: 'Work', 'custom-reading': 'Reading' };
+const getLabel = (mode: string) => labels[mode] ?? 'Removed mode';
+
+const ids = (sessions: TimerSession[]) => sessions.map((s) => s.id);
+
+describe('historyFilter', () => {
+  const sessions = [
+    session('a', [10, 9], { tags: ['thesis'] }),
+    session('b', [10, 18], {
+      mode: 'work',
+      completed: false,
+      actualDuration: 600,
+      intention: 'Budget review',
+      tags: ['thesis', 'admin'],
+    }),
+    session('c', [12, 8], {
+      mode: 'custom-reading',
+      actualDuration: 2700,
+      notes: 'Finished the novel',
+    }),
+    session('d', [13, 23], { phase: 'shortBreak', actualDuration: 300 }),
+  ];
+
+  const apply = (changes: Partial<HistoryFilter>) =>
+    ids(filterSessions(sessions, { ...DEFAULT_HISTORY_FILTER, ...changes }, getLabel));
+
+  describe('filterSessions', () => {
+    it('should return every session, newest first, by default', () => {
+      expect(apply({})).toEqual(['d', 'c', 'b', 'a']);
+    });
+
+    it('should filter by local date range, including both ends', () => {
+      expect(apply({ from: '2025-01-10', to: '2025-01-12' })).toEqual(['c', 'b', 'a']);
+      expect(apply({ from: '2025-01-12' })).toEqual(['d', 'c']);
+      expect(apply({ to: '2025-01-10' })).toEqual(['b', 'a']);
+    });
+
+    it('should filter by mode and completion', () => {
+      expect(apply({ mode: 'work' })).toEqual(['b']);
+      expect(apply({ status: 'completed' })).toEqual(['d', 'c', 'a']);
+      expect(apply({ status: 'incomplete' })).toEqual(['b']);
+    });
+
+    it('should filter by tag', () => {
+      expect(apply({ tag: 'thesis' })).toEqual(['b', 'a']);
+      expect(apply({ tag: 'admin', status: 'completed' })).toEqual([]);
+    });
+
+    it('should search intentions, notes and tags', () => {
+      expect(apply({ query: 'budget' })).toEqual(['b']);
+      expect(apply({ query: 'novel' })).toEqual(['c']);
+      expect(apply({ query: 'thesis work' })).toEqual(['b']);
+    });
+
+    it('should search mode names, case-insensitively and by every word', () => {
+      expect(apply({ query: 'READ' })).toEqual(['c']);
+      expect(apply({ query: 'study reading' })).toEqual([]);
+      expect(apply({ query: '  ' })).toEqual(['d', 'c', 'b', 'a']);
+    });
+
+    it('should sort by time or duration', () => {
+      expect(apply({ sort: 'oldest' })).toEqual(['a', 'b', 'c', 'd']);
+      expect(apply({ sort: 'longest' })).toEqual(['c', 'a', 'b', 'd']);
+      expect(apply({ sort: 'shortest' })).toEqual(['d', 'b', 'a', 'c']);
+    });
+
+    it('should not reorder the given sessions', () => {
+      const input = [...sessions];
+      filterSessions(input, { ...DEFAULT_HISTORY_FILTER, sort: 'oldest' }, getLabel);
+
+      expect(input).toEqual(sessions);
+    });
+  });
+
+  describe('grouping and totals', () => {
+    it('should group sessions by local day in their given order', () => {
+      const days = groupSessionsByDay(filterSessions(sessions, DEFAULT_HISTORY_FILTER, getLabel));
+
+      expect(days.map((day) => day.key)).toEqual(['2025-01-13', '2025-01-12', '2025-01-10']);
+      expect(ids(days[2].sessions)).toEqual(['b', 'a']);
+    });
+
+    it('should total focus time per day without breaks', () => {
+      const totals = getDailyTotals(sessions);
+
+      expect(totals.get('2025-01-10')).toEqual({ count: 2, totalTime: 2100 });
+      expect(totals.get('2025-01-13')).toEqual({ count: 1, totalTime: 0 });
+    });
+
+    it('should count sessions before the day start hour toward the previous day', () => {
+      const late = [session('night', [11, 2]), session('evening', [10, 22])];
+
+      expect(groupSessionsByDay(late, { dayStartHour: 4 }).map((day) => day.key)).toEqual([
+        '2025-01-10',
+      ]);
+      expect(
+        ids(
+          filterSessions(late, { ...DEFAULT_HISTORY_FILTER, to: '2025-01-10' }, getLabel, {
+            dayStartHour: 4,
+          })
+        )
+      ).toEqual(['night', 'evening']);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  guessColumnMapping,
+  parseCsv,
+  previewImport,
+  readBackupSessions,
+  readCsvSessions,
+} from '../historyImport';
+import { createHistoryBackup, toCsv } from '../historyExport';
+import { createTimerSession } from '../timerSession';
+import type { FocusMode } from '@/lib/constants/focus-modes';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const session = (id: string, endTime: string, extra: Partial<TimerSession> = {}): TimerSession => ({
+  ...createTimerSession({ mode: 'study', actualDuration: 1500, completed: true, endTime: new Date(endTime) }),
+  id,
+  ...extra,
+});
+
+const MODE_NAMES: Record<string, FocusMode> = { study: 'study', work: 'work', deep: 'work' };
+const resolveMode = (value: string) => MODE_NAMES[value.toLowerCase()] ?? null;
+
+const readCsv = (text: string) => {
+  const rows = parseCsv(text);
+  return readCsvSessions(rows, guessColumnMapping(rows[0]), resolveMode, 'meditation');
+};
+
+describe('historyImport', () => {
+  describe('parseCsv', () => {
+    it('should read quoted fields, doubled quotes and both line endings', () => {
+      expect(parseCsv('a,b\r\n"x, ""y""",z\n\n"multi\nline",\n')).toEqual([
+        ['a', 'b'],
+        ['x, "y"', 'z'],
+        ['multi\nline', ''],
+      ]);
+    });
+  });
+
+  describe('guessColumnMapping', () => {
+    it('should recognize common headers and the duration unit', () => {
+      expect(guessColumnMapping(['Project', 'Started At', 'Duration (minutes)', 'Status'])).toEqual({
+        columns: { mode: 0, startTime: 1, duration: 2, completed: 3 },
+        durationUnit: 'minutes',
+      });
+    });
+  });
+
+  describe('readCsvSessions', () => {
+    it('should read back a zenFocus CSV export', () => {
+      const sessions = [
+        session('a', '2025-01-10T10:00:00.000Z', {
+          intention: '-Chapter 3',
+          tags: ['+thesis', 'reading'],
+          notes: '=Went well,\nmostly',
+          focusQuality: 4,
+          mood: 5,
+        }),
+        session('b', '2025-01-11T10:00:00.000Z', {
+          mode: 'work',
+          phase: 'shortBreak',
+          startTime: '2025-01-11T09:58:00.000Z',
+          plannedDuration: 300,
+          actualDuration: 120,
+          completed: false,
+        }),
+      ];
+
+      const candidates = readCsv(toCsv(sessions, (mode) => mode));
+
+      expect(candidates.map((c) => c.session)).toEqual(sessions);
+    });
+
+    it('should map other apps\' columns and derive missing times', () => {
+      const [fromStart, fromRange, unknownMode] = readCsv(
+        [
+          'Category,Start,End,Duration,Done',
+          'Deep,2025-01-10T09:00:00Z,,25,yes',
+          'work,2025-01-10T10:00:00Z,2025-01-10T10:50:00Z,,no',
+          'Gardening,,2025-01-10T12:00:00Z,1:30:00,',
+        ].join('\n')
+      );
+
+      expect(fromStart.session).toMatchObject({
+        mode: 'work',
+        endTime: '2025-01-10T09:00:25.000Z',
+        actualDuration: 25,
+        completed: true,
+      });
+      expect(fromRange.session).toMatchObject({ actualDuration: 3000, completed: false });
+      expect(unknownMode.session).toMatchObject({
+        mode: 'meditation',
+        startTime: '2025-01-10T10:30:00.000Z',
+        actualDuration: 5400,
+      });
+    });
+
+    it('should explain why rows are skipped', () => {
+      const candidates = readCsv(
+        [
+          'mode,start_time,end_time,duration,completed',
+          'study,yesterday,,1500,true',
+          'study,,2025-01-10T10:00:00Z,soon,true',
+          'study,,2025-01-10T10:00:00Z,,true',
+          'study,,,1500,true',
+          'study,,2025-01-10T10:00:00Z,1500,maybe',
+        ].join('\n')
+      );
+
+      expect(candidates).toEqual([
+        { row: 'Row 2', reason: 'Start time is not a date' },
+        { row: 'Row 3', reason: 'Duration is not a number' },
+        { row: 'Row 4', reason: 'No duration' },
+        { row: 'Row 5', reason: 'No start or end time' },
+        { row: 'Row 6', reason: 'Unknown completed value "maybe"' },
+      ]);
+    });
+
+    it('should skip rows whose start and end times do not fit their duration', () => {
+      const candidates = readCsv(
+        [
+          'mode,start_time,end_time,duration,completed',
+          'study,2025-01-10T10:00:00Z,2025-01-10T09:00:00Z,600,true',
+          'study,2025-01-10T10:00:00Z,2025-01-10T10:10:00Z,900,true',
+          'study,2025-01-10T10:00:00Z,2025-01-10T10:10:00Z,600,true',
+        ].join('\n')
+      );
+
+      expect(candidates.slice(0, 2)).toEqual([
+        { row: 'Row 2', reason: 'Start time is after the end time' },
+        { row: 'Row 3', reason: 'Duration is longer than the time between start and end' },
+      ]);
+      expect(candidates[2].session).toMatchObject({
+        startTime: '2025-01-10T10:00:00.000Z',
+        endTime: '2025-01-10T10:10:00.000Z',
+        actualDuration: 600,
+      });
+    });
+  });
+
+  describe('readBackupSessions', () => {
+    it('should read a backup and migrate older session shapes', () => {
+      const current = session('a', '2025-01-10T10:00:00.000Z');
+      const backup = createHistoryBackup([current]);
+      const legacy = {
+        id: 'old',
+        focusMode: 'work',
+        duration: 1800,
+        completedAt: '2025-01-09T10:00:00.000Z',
+        completed: true,
+      };
+
+      expect(readBackupSessions(JSON.stringify(backup))).toEqual([
+        { row: 'Session 1', session: current },
+      ]);
+      expect(readBackupSessions(JSON.stringify([legacy, 'junk']))).toEqual([
+        { row: 'Session 1', session: expect.objectContaining({ id: 'old', mode: 'work' }) },
+        { row: 'Session 2', reason: 'Not a valid session' },
+      ]);
+    });
+
+    it('should normalize session times to UTC with milliseconds', () => {
+      const current = session('a', '2025-01-10T10:00:00.000Z');
+      const backup = createHistoryBackup([
+        {
+          ...current,
+          startTime: '2025-01-10T11:35:00+02:00',
+          endTime: '2025-01-10T10:00:00Z',
+          editedAt: '2025-01-11T08:00:00+01:00',
+        },
+      ]);
+
+      expect(readBackupSessions(JSON.stringify(backup))).toEqual([
+        {
+          row: 'Session 1',
+          session: {
+            ...current,
+            startTime: '2025-01-10T09:35:00.000Z',
+            endTime: '2025-01-10T10:00:00.000Z',
+            editedAt: '2025-01-11T07:00:00.000Z',
+          },
+        },
+      ]);
+    });
+
+    it('should reject files that are not readable backups', () => {
+      expect(() => readBackupSessions('{')).toThrow('not valid JSON');
+      expect(() => readBackupSessions('{"format":"other"}')).toThrow('not a zenFocus');
+      expect(() =>
+        readBackupSessions(JSON.stringify({ ...createHistoryBackup([]), version: 99 }))
+      ).toThrow('newer version');
+    });
+  });
+
+  describe('previewImport', () => {
+    it('should skip duplicates by id or by time, in the history and in the file', () => {
+      const existing = [session('a', '2025-01-10T10:00:00.000Z')];
+      const sameTime = session('copy', '2025-01-10T10:00:00.000Z');
+      const next = session('b', '2025-01-10T10:25:00.000Z');
+
+      const preview = previewImport(
+        [
+          { row: 'Row 2', session: session('a', '2025-01-12T10:00:00.000Z') },
+          { row: 'Row 3', session: sameTime },
+          { row: 'Row 4', session: next },
+          { row: 'Row 5', session: { ...next, id: 'b2' } },
+          { row: 'Row 6', reason: 'No duration' },
+        ],
+        existing
+      );
+
+      // Starting when the last session ended is not a duplicate
+      expect(preview.sessions).toEqual([next]);
+      expect(preview.skipped).toEqual([
+        { row: 'Row 2', reason: 'Already in your history (same id)' },
+        { row: 'Row 3', reason: 'Already in your history (same time)' },
+        { row: 'Row 5', reason: 'Already in your history (same time)' },
+        { row: 'Row 6', reason: 'No duration' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mergeSessions, syncTimerHistory } from '../historySync';
+import { createTimerSession, fromRemoteSession, toRemoteSession } from '../timerSession';
+import type { HistorySyncClient, RemoteTimerSession } from '@/lib/types/history-sync';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const session = (id: string, endTime: string, extra: Partial<TimerSession> = {}): TimerSession => ({
+  ...createTimerSession({ mode: 'study', actualDuration: 1500, completed: true, endTime: new Date(endTime) }),
+  id,
+  ...extra,
+});
+
+/**
+ * In-memory stand-in for the Amplify data client, paginated two records at a time
+ */
+const createMockClient = (initial: RemoteTimerSession[] = []) => {
+  const records = new Map(initial.map((r) => [r.id, r]));
+  const client = {
+    ownerId: 'user-1',
+    list: vi.fn(async (options?: { nextToken?: string | null }) => {
+      const all = [...records.values()];
+      const start = Number(options?.nextToken ?? 0);
+      const end = start + 2;
+      return { data: all.slice(start, end), nextToken: end < all.length ? String(end) : null };
+    }),
+    create: vi.fn(async (record: RemoteTimerSession) => {
+      records.set(record.id, record);
+      return { data: record };
+    }),
+    update: vi.fn(async (record: RemoteTimerSession) => {
+      records.set(record.id, record);
+      return { data: record };
+    }),
+    delete: vi.fn(async ({ id }: { id: string }) => {
+      records.delete(id);
+      return { data: null };
+    }),
+  } satisfies HistorySyncClient;
+  return { client, records };
+};
+
+describe('historySync', () => {
+  describe('mergeSessions', () => {
+    it('should keep one copy of each id, most recent first', () => {
+      const older = session('a', '2025-01-10T10:00:00.000Z');
+      const newer = session('b', '2025-01-11T10:00:00.000Z');
+      const changedCopy = { ...older, completed: false };
+
+      expect(mergeSessions([older], [newer, changedCopy])).toEqual([newer, older]);
+    });
+  });
+
+  describe('syncTimerHistory', () => {
+    it('should upload local sessions and download remote ones', async () => {
+      const local = [session('a', '2025-01-10T10:00:00.000Z'), session('b', '2025-01-11T10:00:00.000Z')];
+      const remoteOnly = toRemoteSession(session('c', '2025-01-12T10:00:00.000Z', { mode: 'work' }));
+      const { client, records } = createMockClient([toRemoteSession(local[0]), remoteOnly]);
+
+      const result = await syncTimerHistory(client, local);
+
+      expect(client.create).toHaveBeenCalledTimes(1);
+      expect(records.has('b')).toBe(true);
+      expect(result.downloaded).toEqual([fromRemoteSession(remoteOnly)]);
+    });
+
+    it('should follow pagination when listing remote sessions', async () => {
+      const remote = ['a', 'b', 'c', 'd', 'e'].map((id) =>
+        toRemoteSession(session(id, '2025-01-10T10:00:00.000Z'))
+      );
+      const { client } = createMockClient(remote);
+
+      const { downloaded } = await syncTimerHistory(client, []);
+
+      expect(client.list).toHaveBeenCalledTimes(3);
+      expect(downloaded.map((s) => s.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('should delete locally deleted sessions and not download them again', async () => {
+      const deleted = toRemoteSession(session('gone', '2025-01-10T10:00:00.000Z'));
+      const { client, records } = createMockClient([deleted]);
+
+      const result = await syncTimerHistory(client, [], ['gone', 'never-uploaded']);
+
+      expect(records.has('gone')).toBe(false);
+      expect(result.downloaded).toEqual([]);
+      expect(result.deletedIds).toEqual(['gone', 'never-uploaded']);
+    });
+
+    it('should update the remote copies of locally edited sessions', async () => {
+      const edited = session('a', '2025-01-10T10:00:00.000Z', { mode: 'work' });
+      const { client, records } = createMockClient([
+        toRemoteSession(session('a', '2025-01-10T10:00:00.000Z')),
+      ]);
+
+      const result = await syncTimerHistory(client, [edited], [], ['a', 'deleted-since']);
+
+      expect(client.update).toHaveBeenCalledTimes(1);
+      expect(client.create).not.toHaveBeenCalled();
+      expect(records.get('a')?.mode).toBe('work');
+      expect(result.updatedIds).toEqual(['a', 'deleted-since']);
+    });
+
+    it('should spread a delete made on one device and an edit made on another', async () => {
+      const a = session('a', '2025-01-10T10:00:00.000Z');
+      const b = session('b', '2025-01-11T10:00:00.000Z');
+      const { client, records } = createMockClient([toRemoteSession(a), toRemoteSession(b)]);
+
+      // Device 1 deletes a
+      const first = await syncTimerHistory(client, [b], ['a'], [], ['a', 'b']);
+      expect(first.syncedIds).toEqual(['b']);
+
+      // Device 2 still has a, and edits b
+      const editedB = { ...b, mode: 'work' as const, editedAt: '2025-01-12T08:00:00.000Z' };
+      const second = await syncTimerHistory(client, [a, editedB], [], ['b'], ['a', 'b']);
+
+      expect(second.removedIds).toEqual(['a']);
+      expect(second.updatedIds).toEqual(['b']);
+      expect(client.create).not.toHaveBeenCalled();
+      expect(records.has('a')).toBe(false);
+
+      // Device 1 picks up the edit
+      const third = await syncTimerHistory(client, [b], [], [], first.syncedIds);
+
+      expect(third.downloaded).toEqual([editedB]);
+      expect(third.removedIds).toEqual([]);
+      expect(client.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the most recent edit of a session', async () => {
+      const original = session('a', '2025-01-10T10:00:00.000Z');
+      const remoteEdit = { ...original, notes: 'Remote', editedAt: '2025-01-12T09:00:00.000Z' };
+      const { client, records } = createMockClient([toRemoteSession(remoteEdit)]);
+
+      const older = { ...original, notes: 'Older', editedAt: '2025-01-12T08:00:00.000Z' };
+      const stale = await syncTimerHistory(client, [older], [], ['a'], ['a']);
+
+      expect(client.update).not.toHaveBeenCalled();
+      expect(stale.downloaded).toEqual([remoteEdit]);
+      expect(stale.updatedIds).toEqual(['a']);
+
+      const newer = { ...original, notes: 'Newer', editedAt: '2025-01-12T10:00:00.000Z' };
+      const fresh = await syncTimerHistory(client, [newer], [], ['a'], ['a']);
+
+      expect(fresh.downloaded).toEqual([]);
+      expect(records.get('a')?.notes).toBe('Newer');
+    });
+
+    it('should upload a synced session edited locally after another device deleted it', async () => {
+      const edited = session('a', '2025-01-10T10:00:00.000Z', { editedAt: '2025-01-12T08:00:00.000Z' });
+      const { client, records } = createMockClient();
+
+      const result = await syncTimerHistory(client, [edited], [], ['a'], ['a']);
+
+      expect(result.removedIds).toEqual([]);
+      expect(records.has('a')).toBe(true);
+      expect(result.syncedIds).toEqual(['a']);
+    });
+
+    it('should leave failed uploads for the next sync', async () => {
+      const { client } = createMockClient();
+      client.create.mockResolvedValueOnce({ data: null, errors: [{ message: 'Unauthorized' }] } as never);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        syncTimerHistory(client, [session('a', '2025-01-10T10:00:00.000Z')])
+      ).resolves.toEqual({
+        downloaded: [],
+        removedIds: [],
+        deletedIds: [],
+        updatedIds: [],
+        syncedIds: [],
+      });
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should fail when the remote sessions cannot be listed', async () => {
+      const { client } = createMockClient();
+      client.list.mockResolvedValueOnce({ data: [], errors: [{ message: 'Network error' }] } as never);
+
+      await expect(syncTimerHistory(client, [])).rejects.toThrow('Network error');
+      expect(client.create).not.toHaveBeenCalled();
+    });
+  });
+});
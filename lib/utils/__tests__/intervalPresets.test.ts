@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createIntervalPreset,
+  loadIntervalPresets,
+  parseIntervalPresets,
+  saveIntervalPresets,
+  serializeIntervalPresets,
+} from '../intervalPresets';
+import { createSimpleProgram, getSimpleProgramConfig } from '../intervalProgram';
+import { BUILT_IN_INTERVAL_PRESETS } from '@/lib/constants/interval-presets';
+import type { IntervalProgram } from '@/lib/types/interval-program';
+
+const circuit: IntervalProgram = {
+  name: 'Circuit',
+  segments: [
+    { id: 'work', name: 'Squats', kind: 'work', durationSeconds: 40, repeat: 1 },
+    { id: 'rest', name: 'Rest', kind: 'rest', durationSeconds: 20, repeat: 1 },
+  ],
+  rounds: 3,
+};
+
+describe('intervalPresets', () => {
+  describe('storage', () => {
+    it('should save and load presets in order', () => {
+      const presets = [
+        createIntervalPreset(circuit),
+        createIntervalPreset({ ...createSimpleProgram(30, 4), name: 'Quick' }),
+      ];
+      saveIntervalPresets(presets);
+
+      expect(loadIntervalPresets()).toEqual(presets);
+    });
+
+    it('should return no presets when storage is corrupted', () => {
+      localStorage.setItem('zenFocus_intervalPresets', '{not json');
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(loadIntervalPresets()).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('import and export', () => {
+    it('should round-trip programs with new preset ids', () => {
+      const simple = createIntervalPreset({ ...createSimpleProgram(30, 4), name: 'Quick' });
+      const original = [createIntervalPreset(circuit), simple];
+
+      const { presets, skipped } = parseIntervalPresets(serializeIntervalPresets(original));
+
+      expect(skipped).toBe(0);
+      expect(presets.map((preset) => preset.program)).toEqual(original.map((p) => p.program));
+      expect(presets[0].id).not.toBe(original[0].id);
+      // Simple presets load back into the simple configuration
+      expect(getSimpleProgramConfig(presets[1].program)).toEqual({
+        durationSeconds: 30,
+        repetitions: 4,
+      });
+    });
+
+    it('should not export the built-in flag', () => {
+      const exported = JSON.parse(serializeIntervalPresets(BUILT_IN_INTERVAL_PRESETS));
+
+      expect(exported.version).toBe(1);
+      expect(exported.presets[0]).toEqual({ program: BUILT_IN_INTERVAL_PRESETS[0].program });
+    });
+
+    it('should skip presets that are malformed or cannot be run', () => {
+      const file = JSON.stringify({
+        version: 1,
+        presets: [
+          { program: circuit },
+          { program: { ...circuit, rounds: 0 } },
+          { program: { ...circuit, segments: [{ name: 'Bad', kind: 'sprint' }] } },
+          { name: 'No program' },
+        ],
+      });
+
+      const { presets, skipped } = parseIntervalPresets(file);
+
+      expect(presets).toHaveLength(1);
+      expect(skipped).toBe(3);
+    });
+
+    it('should give segments without an id a new one', () => {
+      const segments = circuit.segments.map(({ name, kind, durationSeconds, repeat }) => ({
+        name,
+        kind,
+        durationSeconds,
+        repeat,
+      }));
+      const file = JSON.stringify({ version: 1, presets: [{ program: { ...circuit, segments } }] });
+
+      const [preset] = parseIntervalPresets(file).presets;
+
+      expect(preset.program.segments.every((segment) => segment.id)).toBe(true);
+    });
+
+    it('should reject files that are not presets exports', () => {
+      expect(() => parseIntervalPresets('not json')).toThrow('not valid JSON');
+      expect(() => parseIntervalPresets('{"sessions": []}')).toThrow(
+        'does not contain interval presets'
+      );
+      expect(() => parseIntervalPresets('{"version": 2, "presets": []}')).toThrow(
+        'newer version'
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSegment,
+  createSimpleProgram,
+  expandProgram,
+  getProgramDuration,
+  getSimpleProgramConfig,
+  isValidProgram,
+} from '../intervalProgram';
+import type { IntervalProgram } from '@/lib/types/interval-program';
+
+const hiit: IntervalProgram = {
+  name: 'HIIT',
+  segments: [
+    { id: 'cool', name: 'Cooldown', kind: 'cooldown', durationSeconds: 120, repeat: 1 },
+    { id: 'warm', name: 'Warmup', kind: 'warmup', durationSeconds: 60, repeat: 1 },
+    { id: 'work', name: 'Sprint', kind: 'work', durationSeconds: 20, repeat: 2 },
+    { id: 'rest', name: 'Rest', kind: 'rest', durationSeconds: 10, repeat: 1 },
+  ],
+  rounds: 2,
+};
+
+describe('intervalProgram', () => {
+  describe('expandProgram', () => {
+    it('should run warmup first, work/rest once per round, then cooldown', () => {
+      const steps = expandProgram(hiit);
+
+      expect(steps.map((step) => [step.name, step.round])).toEqual([
+        ['Warmup', null],
+        ['Sprint', 1],
+        ['Sprint', 1],
+        ['Rest', 1],
+        ['Sprint', 2],
+        ['Sprint', 2],
+        ['Rest', 2],
+        ['Cooldown', null],
+      ]);
+    });
+
+    it('should expand a simple program into one step per round', () => {
+      const steps = expandProgram(createSimpleProgram(45, 3));
+
+      expect(steps).toHaveLength(3);
+      expect(steps.every((step) => step.durationSeconds === 45)).toBe(true);
+      expect(steps.map((step) => step.round)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('getProgramDuration', () => {
+    it('should sum every step of the program', () => {
+      // 60 + 2 × (20 + 20 + 10) + 120
+      expect(getProgramDuration(hiit)).toBe(280);
+    });
+
+    it('should match duration × repetitions for a simple program', () => {
+      expect(getProgramDuration(createSimpleProgram(90, 3))).toBe(270);
+    });
+  });
+
+  describe('isValidProgram', () => {
+    it('should accept a complete program', () => {
+      expect(isValidProgram(hiit)).toBe(true);
+    });
+
+    it('should reject empty durations, repeats or rounds', () => {
+      expect(isValidProgram(createSimpleProgram(0, 3))).toBe(false);
+      expect(isValidProgram(createSimpleProgram(30, 0))).toBe(false);
+      expect(
+        isValidProgram({ ...hiit, segments: [{ ...hiit.segments[2], repeat: 0 }] })
+      ).toBe(false);
+    });
+
+    it('should reject a program without segments', () => {
+      expect(isValidProgram({ name: 'Empty', segments: [], rounds: 1 })).toBe(false);
+    });
+  });
+
+  describe('getSimpleProgramConfig', () => {
+    it('should read back a simple program', () => {
+      expect(getSimpleProgramConfig(createSimpleProgram(30, 4))).toEqual({
+        durationSeconds: 30,
+        repetitions: 4,
+      });
+    });
+
+    it('should return null for a multi-segment program', () => {
+      expect(getSimpleProgramConfig(hiit)).toBeNull();
+      expect(
+        getSimpleProgramConfig({ name: 'One', segments: [createSegment('work')], rounds: 2 })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_POMODORO_CYCLE,
+  getCycleProgress,
+  getNextCycle,
+  getPhaseDuration,
+  isBreakPhase,
+  type PomodoroCycle,
+} from '../pomodoroCycle';
+import { DEFAULT_POMODORO_SETTINGS } from '@/lib/constants/pomodoro';
+
+const settings = { ...DEFAULT_POMODORO_SETTINGS, longBreakInterval: 4 };
+
+describe('pomodoroCycle', () => {
+  describe('getPhaseDuration', () => {
+    it('should return the duration configured for each phase', () => {
+      expect(getPhaseDuration('focus', settings)).toBe(1500);
+      expect(getPhaseDuration('shortBreak', settings)).toBe(300);
+      expect(getPhaseDuration('longBreak', settings)).toBe(900);
+    });
+  });
+
+  describe('isBreakPhase', () => {
+    it('should treat only short and long breaks as breaks', () => {
+      expect(isBreakPhase('focus')).toBe(false);
+      expect(isBreakPhase('shortBreak')).toBe(true);
+      expect(isBreakPhase('longBreak')).toBe(true);
+    });
+  });
+
+  describe('getNextCycle', () => {
+    it('should follow focus with a short break', () => {
+      expect(getNextCycle(INITIAL_POMODORO_CYCLE, settings)).toEqual({
+        phase: 'shortBreak',
+        completedFocusBlocks: 1,
+      });
+    });
+
+    it('should follow a break with focus', () => {
+      expect(getNextCycle({ phase: 'shortBreak', completedFocusBlocks: 1 }, settings)).toEqual({
+        phase: 'focus',
+        completedFocusBlocks: 1,
+      });
+    });
+
+    it('should insert a long break every N focus blocks', () => {
+      let cycle: PomodoroCycle = INITIAL_POMODORO_CYCLE;
+      const phases: string[] = [];
+      for (let i = 0; i < 16; i++) {
+        cycle = getNextCycle(cycle, settings);
+        phases.push(cycle.phase);
+      }
+
+      const breaks = phases.filter((phase) => phase !== 'focus');
+      expect(breaks).toEqual([
+        'shortBreak', 'shortBreak', 'shortBreak', 'longBreak',
+        'shortBreak', 'shortBreak', 'shortBreak', 'longBreak',
+      ]);
+    });
+
+    it('should take a long break after every focus block when the interval is 1', () => {
+      const next = getNextCycle(INITIAL_POMODORO_CYCLE, { ...settings, longBreakInterval: 1 });
+      expect(next.phase).toBe('longBreak');
+    });
+  });
+
+  describe('getCycleProgress', () => {
+    it('should count the Pomodoro in progress during focus', () => {
+      expect(getCycleProgress({ phase: 'focus', completedFocusBlocks: 2 }, settings)).toEqual({
+        current: 3,
+        total: 4,
+      });
+    });
+
+    it('should count the Pomodoro just finished during a break', () => {
+      expect(getCycleProgress({ phase: 'shortBreak', completedFocusBlocks: 3 }, settings)).toEqual({
+        current: 3,
+        total: 4,
+      });
+      expect(getCycleProgress({ phase: 'longBreak', completedFocusBlocks: 4 }, settings)).toEqual({
+        current: 4,
+        total: 4,
+      });
+    });
+
+    it('should start a new set after a long break', () => {
+      expect(getCycleProgress({ phase: 'focus', completedFocusBlocks: 4 }, settings)).toEqual({
+        current: 1,
+        total: 4,
+      });
+    });
+  });
+});
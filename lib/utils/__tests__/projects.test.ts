@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROJECTS_STORAGE_KEY,
+  buildProjectReport,
+  createProject,
+  exportProjectReport,
+  getMonthToDate,
+  loadProjects,
+  toProjectReportCsv,
+} from '../projects';
+import { createTimerSession } from '../timerSession';
+import type { Project } from '../../types/projects';
+
+const client: Project = {
+  id: 'client',
+  name: 'Acme, Inc.',
+  color: 'bg-blue-100',
+  hourlyRate: 80,
+  archived: false,
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+const internal: Project = { ...client, id: 'internal', name: 'Internal', hourlyRate: undefined };
+
+const session = (
+  projectId: string | undefined,
+  actualDuration: number,
+  endTime: string,
+  phase?: 'shortBreak'
+) =>
+  createTimerSession({
+    mode: 'work',
+    actualDuration,
+    completed: false,
+    phase,
+    projectId,
+    endTime: new Date(endTime),
+  });
+
+describe('projects', () => {
+  describe('createProject', () => {
+    it('should create an active project with a trimmed name', () => {
+      const project = createProject({ name: ' Acme ', color: 'bg-blue-100', hourlyRate: 50 });
+
+      expect(project).toMatchObject({ name: 'Acme', hourlyRate: 50, archived: false });
+      expect(project.id).toMatch(/^project-/);
+    });
+
+    it('should leave out an invalid hourly rate', () => {
+      expect(createProject({ name: 'Acme', color: '', hourlyRate: -1 })).not.toHaveProperty(
+        'hourlyRate'
+      );
+    });
+  });
+
+  describe('getMonthToDate', () => {
+    it('should run from the first of the month to today', () => {
+      expect(getMonthToDate({}, new Date(2025, 2, 14, 10))).toEqual({
+        from: '2025-03-01',
+        to: '2025-03-14',
+      });
+    });
+  });
+
+  describe('buildProjectReport', () => {
+    const range = { from: '2025-03-01', to: '2025-03-31' };
+
+    it('should sum focus time per project and bill projects with a rate', () => {
+      const report = buildProjectReport(
+        [
+          session('client', 1800, '2025-03-03T10:00:00'),
+          session('client', 2700, '2025-03-04T10:00:00'),
+          session('client', 300, '2025-03-04T10:30:00', 'shortBreak'),
+          session('internal', 3600, '2025-03-05T10:00:00'),
+          session(undefined, 7200, '2025-03-06T10:00:00'),
+          session('client', 3600, '2025-04-01T10:00:00'),
+        ],
+        [client, internal],
+        range
+      );
+
+      expect(report.rows).toEqual([
+        { projectId: 'client', sessions: 2, totalTime: 4500, amount: 100 },
+        { projectId: 'internal', sessions: 1, totalTime: 3600, amount: null },
+        { projectId: null, sessions: 1, totalTime: 7200, amount: null },
+      ]);
+      expect(report.totalTime).toBe(15300);
+      expect(report.totalAmount).toBe(100);
+    });
+
+    it('should round amounts to cents', () => {
+      const report = buildProjectReport(
+        [session('client', 100, '2025-03-03T10:00:00')],
+        [{ ...client, hourlyRate: 10 }],
+        range
+      );
+
+      expect(report.rows[0].amount).toBe(0.28);
+    });
+  });
+
+  describe('toProjectReportCsv', () => {
+    it('should write a row per project and a total row', () => {
+      const report = buildProjectReport(
+        [
+          session('client', 5400, '2025-03-03T10:00:00'),
+          session('gone', 1800, '2025-03-03T11:00:00'),
+          session(undefined, 900, '2025-03-03T12:00:00'),
+        ],
+        [client],
+        { from: '2025-03-01', to: '2025-03-31' }
+      );
+      const getProject = (id: string) => [client].find((project) => project.id === id);
+
+      expect(toProjectReportCsv(report, getProject).split('\r\n')).toEqual([
+        'project,sessions,hours,hourly_rate,amount',
+        '"Acme, Inc.",1,1.50,80.00,120.00',
+        'Removed project,1,0.50,,',
+        'No project,1,0.25,,',
+        'Total,3,2.25,,120.00',
+        '',
+      ]);
+      expect(exportProjectReport(report, getProject).filename).toBe(
+        'zenfocus-report-2025-03-01-to-2025-03-31.csv'
+      );
+    });
+
+    it('should keep project names from running as spreadsheet formulas', () => {
+      const formula: Project = { ...internal, name: '=1+1' };
+      const report = buildProjectReport(
+        [session('internal', 3600, '2025-03-03T10:00:00')],
+        [formula],
+        { from: '2025-03-01', to: '2025-03-31' }
+      );
+
+      expect(toProjectReportCsv(report, () => formula).split('\r\n')[1]).toBe(
+        "'=1+1,1,1.00,,"
+      );
+    });
+  });
+
+  describe('loadProjects', () => {
+    it('should skip malformed entries', () => {
+      localStorage.setItem(
+        PROJECTS_STORAGE_KEY,
+        JSON.stringify([client, { ...client, id: 'bad', hourlyRate: 'lots' }, null])
+      );
+
+      expect(loadProjects()).toEqual([client]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createReflection, getSessionTags, isRating, parseTags } from '../sessionReflection';
+import { createTimerSession } from '../timerSession';
+
+describe('sessionReflection', () => {
+  describe('isRating', () => {
+    it('should accept whole numbers from 1 to 5', () => {
+      expect([1, 5].every(isRating)).toBe(true);
+      expect([0, 6, 2.5, '3', null].some(isRating)).toBe(false);
+    });
+  });
+
+  describe('parseTags', () => {
+    it('should split on commas and normalize tags', () => {
+      expect(parseTags(' Thesis, #reading,, thesis ,##Deep Work ')).toEqual([
+        'thesis',
+        'reading',
+        'deep work',
+      ]);
+      expect(parseTags('  ')).toEqual([]);
+    });
+  });
+
+  describe('createReflection', () => {
+    it('should clear empty fields', () => {
+      expect(createReflection(' Good ', 'Thesis', 4, null)).toEqual({
+        notes: 'Good',
+        tags: ['thesis'],
+        focusQuality: 4,
+        mood: undefined,
+      });
+      expect(createReflection('', ' , ', null, 3)).toEqual({
+        notes: undefined,
+        tags: undefined,
+        focusQuality: undefined,
+        mood: 3,
+      });
+    });
+  });
+
+  describe('getSessionTags', () => {
+    it('should list tags by how often they are used', () => {
+      const session = (tags?: string[]) =>
+        createTimerSession({ mode: 'work', actualDuration: 60, completed: true, tags });
+
+      expect(
+        getSessionTags([session(['thesis', 'reading']), session(['reading']), session(), session(['admin'])])
+      ).toEqual(['reading', 'admin', 'thesis']);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clearSessions,
+  deleteSessions,
+  getAllSessions,
+  getSessionsBetween,
+  getSessionsByMode,
+  putSessions,
+} from '../sessionStore';
+import { TIMER_HISTORY_STORAGE_KEY } from '../timerHistory';
+import { createTimerSession } from '../timerSession';
+import type { TimerSession } from '@/lib/types/timer-history';
+
+const session = (id: string, endTime: string, extra: Partial<TimerSession> = {}): TimerSession => ({
+  ...createTimerSession({ mode: 'study', actualDuration: 1500, completed: true, endTime: new Date(endTime) }),
+  id,
+  ...extra,
+});
+
+describe('sessionStore', () => {
+  it('should return sessions most recent first', async () => {
+    await putSessions([
+      session('b', '2025-01-11T10:00:00.000Z'),
+      session('a', '2025-01-10T10:00:00.000Z'),
+      session('c', '2025-01-12T10:00:00.000Z'),
+    ]);
+
+    expect((await getAllSessions()).map((s) => s.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should replace sessions with the same id', async () => {
+    await putSessions([session('a', '2025-01-10T10:00:00.000Z')]);
+    await putSessions([session('a', '2025-01-10T10:00:00.000Z', { completed: false })]);
+
+    const stored = await getAllSessions();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].completed).toBe(false);
+  });
+
+  it('should query sessions by date range and by mode', async () => {
+    await putSessions([
+      session('a', '2025-01-10T10:00:00.000Z'),
+      session('b', '2025-01-11T10:00:00.000Z', { mode: 'work' }),
+      session('c', '2025-01-12T10:00:00.000Z', { mode: 'work' }),
+    ]);
+
+    const between = await getSessionsBetween(
+      new Date('2025-01-10T00:00:00.000Z'),
+      new Date('2025-01-11T23:59:59.999Z')
+    );
+    expect(between.map((s) => s.id)).toEqual(['b', 'a']);
+    expect((await getSessionsByMode('work')).map((s) => s.id)).toEqual(['c', 'b']);
+  });
+
+  it('should delete and clear sessions', async () => {
+    await putSessions([
+      session('a', '2025-01-10T10:00:00.000Z'),
+      session('b', '2025-01-11T10:00:00.000Z'),
+    ]);
+
+    await deleteSessions(['a', 'unknown']);
+    expect((await getAllSessions()).map((s) => s.id)).toEqual(['b']);
+
+    await clearSessions();
+    expect(await getAllSessions()).toEqual([]);
+  });
+
+  it('should move history kept in localStorage into the store once', async () => {
+    await putSessions([session('existing', '2025-01-09T10:00:00.000Z')]);
+    localStorage.setItem(
+      TIMER_HISTORY_STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: 'legacy',
+          focusMode: 'work',
+          duration: 1800,
+          completedAt: '2025-01-10T10:00:00.000Z',
+          completed: true,
+        },
+      ])
+    );
+
+    const stored = await getAllSessions();
+
+    expect(stored.map((s) => s.id)).toEqual(['legacy', 'existing']);
+    expect(stored[0]).toMatchObject({ mode: 'work', actualDuration: 1800 });
+    expect(localStorage.getItem(TIMER_HISTORY_STORAGE_KEY)).toBeNull();
+  });
+});
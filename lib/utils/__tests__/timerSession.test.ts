@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TIMER_SESSION_SCHEMA_VERSION,
+  createTimerSession,
+  fromRemoteSession,
+  getPausedDuration,
+  isFocusSession,
+  migrateTimerHistory,
+  migrateTimerSession,
+  toRemoteSession,
+} from '../timerSession';
+import type { LegacyTimerSession } from '@/lib/types/timer-history';
+
+const legacy: LegacyTimerSession = {
+  id: 'old',
+  focusMode: 'work',
+  duration: 1800,
+  completedAt: '2025-01-10T10:00:00.000Z',
+  completed: true,
+};
+
+describe('timerSession', () => {
+  describe('createTimerSession', () => {
+    it('should derive the start from the end and the time run', () => {
+      const session = createTimerSession({
+        mode: 'study',
+        actualDuration: 600,
+        plannedDuration: 1500,
+        completed: false,
+        endTime: new Date('2025-01-10T10:10:00.000Z'),
+      });
+
+      expect(session).toMatchObject({
+        schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+        mode: 'study',
+        startTime: '2025-01-10T10:00:00.000Z',
+        endTime: '2025-01-10T10:10:00.000Z',
+        plannedDuration: 1500,
+        actualDuration: 600,
+        completed: false,
+      });
+      expect(session.id).toBeTruthy();
+    });
+
+    it('should plan the time run by default and omit the focus phase', () => {
+      const session = createTimerSession({
+        mode: 'study',
+        actualDuration: 1500,
+        completed: true,
+        phase: 'focus',
+      });
+
+      expect(session.plannedDuration).toBe(1500);
+      expect(session).not.toHaveProperty('phase');
+      expect(session).not.toHaveProperty('pauses');
+    });
+
+    it('should count pauses toward the time from start to end', () => {
+      const pauses = [
+        { pausedAt: '2025-01-10T10:05:00.000Z', resumedAt: '2025-01-10T10:08:00.000Z' },
+        { pausedAt: '2025-01-10T10:20:00.000Z', resumedAt: '2025-01-10T10:22:00.000Z' },
+      ];
+      const session = createTimerSession({
+        mode: 'work',
+        actualDuration: 1500,
+        completed: true,
+        endTime: new Date('2025-01-10T10:30:00.000Z'),
+        pauses,
+      });
+
+      expect(session.startTime).toBe('2025-01-10T10:00:00.000Z');
+      expect(session.pauses).toEqual(pauses);
+      expect(getPausedDuration(session)).toBe(300);
+    });
+
+    it('should keep a given start time', () => {
+      const session = createTimerSession({
+        mode: 'work',
+        actualDuration: 60,
+        completed: false,
+        startTime: new Date('2025-01-10T09:00:00.000Z'),
+        endTime: new Date('2025-01-10T10:00:00.000Z'),
+      });
+
+      expect(session.startTime).toBe('2025-01-10T09:00:00.000Z');
+      expect(getPausedDuration(session)).toBe(0);
+    });
+
+    it('should keep the intention and reflection, leaving out empty fields', () => {
+      const session = createTimerSession({
+        mode: 'work',
+        actualDuration: 1500,
+        completed: true,
+        intention: '  Chapter 3 ',
+        notes: ' ',
+        tags: ['thesis'],
+        focusQuality: 4,
+        mood: 7,
+      });
+
+      expect(session).toMatchObject({ intention: 'Chapter 3', tags: ['thesis'], focusQuality: 4 });
+      expect(session).not.toHaveProperty('notes');
+      expect(session).not.toHaveProperty('mood');
+    });
+  });
+
+  describe('isFocusSession', () => {
+    it('should count focus blocks and sessions without a phase, but not breaks', () => {
+      expect(isFocusSession({})).toBe(true);
+      expect(isFocusSession({ phase: 'focus' })).toBe(true);
+      expect(isFocusSession({ phase: 'shortBreak' })).toBe(false);
+      expect(isFocusSession({ phase: 'longBreak' })).toBe(false);
+    });
+  });
+
+  describe('migrateTimerSession', () => {
+    it('should upgrade sessions stored before versioning', () => {
+      expect(migrateTimerSession({ ...legacy, phase: 'longBreak' })).toEqual({
+        schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+        id: 'old',
+        mode: 'work',
+        startTime: '2025-01-10T09:30:00.000Z',
+        endTime: '2025-01-10T10:00:00.000Z',
+        plannedDuration: 1800,
+        actualDuration: 1800,
+        completed: true,
+        phase: 'longBreak',
+      });
+    });
+
+    it('should keep current sessions as they are', () => {
+      const current = createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true });
+
+      expect(migrateTimerSession(current)).toBe(current);
+    });
+
+    it('should reject malformed sessions', () => {
+      expect(migrateTimerSession(null)).toBeNull();
+      expect(migrateTimerSession({ ...legacy, completedAt: 'yesterday' })).toBeNull();
+      expect(migrateTimerSession({ ...legacy, schemaVersion: 2 })).toBeNull();
+      expect(
+        migrateTimerSession({
+          ...createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true }),
+          pauses: [{ pausedAt: 'earlier' }],
+        })
+      ).toBeNull();
+      expect(
+        migrateTimerSession({
+          ...createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true }),
+          interruptions: [{ kind: 'phone', at: '2025-01-10T10:05:00.000Z' }],
+        })
+      ).toBeNull();
+      expect(
+        migrateTimerSession({
+          ...createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true }),
+          focusQuality: 0,
+        })
+      ).toBeNull();
+      expect(
+        migrateTimerSession({
+          ...createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true }),
+          tags: 'thesis',
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('migrateTimerHistory', () => {
+    it('should report whether the stored list changed', () => {
+      const current = createTimerSession({ mode: 'yoga', actualDuration: 60, completed: true });
+
+      expect(migrateTimerHistory([current])).toEqual({ sessions: [current], changed: false });
+      expect(migrateTimerHistory([current, legacy, 'junk'])).toMatchObject({
+        sessions: [current, { id: 'old', mode: 'work' }],
+        changed: true,
+      });
+      expect(migrateTimerHistory({ sessions: [] })).toEqual({ sessions: [], changed: false });
+    });
+  });
+
+  describe('remote records', () => {
+    it('should round-trip sessions through the Amplify model', () => {
+      const session = createTimerSession({
+        mode: 'study',
+        actualDuration: 300,
+        plannedDuration: 300,
+        completed: true,
+        phase: 'shortBreak',
+        endTime: new Date('2025-01-10T10:25:00.000Z'),
+      });
+
+      const remote = toRemoteSession(session);
+
+      expect(remote).toEqual({
+        id: session.id,
+        schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+        mode: 'study',
+        duration: 300,
+        plannedDuration: 300,
+        startTime: '2025-01-10T10:20:00.000Z',
+        endTime: '2025-01-10T10:25:00.000Z',
+        completed: true,
+        phase: 'shortBreak',
+        pauses: null,
+        interruptions: null,
+        intention: null,
+        taskId: null,
+        projectId: null,
+        notes: null,
+        tags: null,
+        focusQuality: null,
+        mood: null,
+        editedAt: null,
+      });
+      expect(fromRemoteSession(remote)).toEqual(session);
+    });
+
+    it('should store pauses and interruptions as JSON text', () => {
+      const session = createTimerSession({
+        mode: 'work',
+        actualDuration: 600,
+        completed: false,
+        pauses: [{ pausedAt: '2025-01-10T10:05:00.000Z', resumedAt: '2025-01-10T10:06:00.000Z' }],
+        interruptions: [
+          { kind: 'external', at: '2025-01-10T10:03:00.000Z' },
+          { kind: 'later', at: '2025-01-10T10:04:00.000Z', note: 'Book flights' },
+        ],
+      });
+
+      const remote = toRemoteSession(session);
+
+      expect(typeof remote.pauses).toBe('string');
+      expect(typeof remote.interruptions).toBe('string');
+      expect(fromRemoteSession(remote)).toEqual(session);
+      expect(fromRemoteSession({ ...remote, pauses: 'not json' })).not.toHaveProperty('pauses');
+      expect(fromRemoteSession({ ...remote, interruptions: '[{}]' })).not.toHaveProperty(
+        'interruptions'
+      );
+    });
+
+    it('should round-trip the intention, task, project and reflection', () => {
+      const session = createTimerSession({
+        mode: 'work',
+        actualDuration: 1500,
+        completed: true,
+        intention: 'Chapter 3',
+        taskId: 'task-1',
+        projectId: 'project-1',
+        notes: 'Went well',
+        tags: ['thesis', 'reading'],
+        focusQuality: 5,
+        mood: 4,
+      });
+
+      const remote = toRemoteSession(session);
+
+      expect(remote.tags).toEqual(['thesis', 'reading']);
+      expect(fromRemoteSession(remote)).toEqual(session);
+      const malformed = fromRemoteSession({ ...remote, tags: [null, 'thesis'], mood: 9 });
+      expect(malformed.tags).toEqual(['thesis']);
+      expect(malformed).not.toHaveProperty('mood');
+    });
+
+    it('should fill in fields missing from records uploaded before versioning', () => {
+      const session = fromRemoteSession({
+        id: 'a',
+        mode: 'work',
+        duration: 1500,
+        startTime: '2025-01-10T10:00:00.000Z',
+        endTime: null,
+        completed: false,
+      });
+
+      expect(session).toMatchObject({
+        schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+        endTime: '2025-01-10T10:25:00.000Z',
+        plannedDuration: 1500,
+        actualDuration: 1500,
+      });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import type {
+  ActiveTimerSnapshot,
+  FocusTimerSnapshot,
+  IntervalTimerSnapshot,
+  PomodoroTimerSnapshot,
+  RestoreAction,
+} from '../types/active-timer';
+import type { IntervalStep } from '../types/interval-program';
+import type { PomodoroSettings } from '../constants/pomodoro';
+import {
+  createClock,
+  getElapsedMs,
+  getEndTime,
+  getRemainingMs,
+  isClockRunning,
+} from './timerClock';
+import { expandProgram, isValidProgram } from './intervalProgram';
+import { getNextCycle, getPhaseDuration } from './pomodoroCycle';
+import type { TimerSessionInput } from './timerSession';
+
+const STORAGE_KEYS: Record<ActiveTimerSnapshot['kind'], string> = {
+  focus: 'zenFocus_activeTimer_focus',
+  interval: 'zenFocus_activeTimer_interval',
+  pomodoro: 'zenFocus_activeTimer_pomodoro',
+};
+
+/**
+ * Paused snapshots older than this are dropped instead of offered for resume.
+ * A Focus tab session dropped this way is recorded as abandoned.
+ */
+export const MAX_PAUSED_AGE_MS = 24 * 60 * 60 * 1000;
+
+type SnapshotOf<K extends ActiveTimerSnapshot['kind']> = Extract<
+  ActiveTimerSnapshot,
+  { kind: K }
+>;
+
+/**
+ * Whether parsed storage data is a snapshot of the given timer. Interval
+ * snapshots saved before programs existed carry no program and cannot be
+ * resumed.
+ */
+function isSnapshotOf(parsed: unknown, kind: ActiveTimerSnapshot['kind']): boolean {
+  const snapshot = parsed as Partial<ActiveTimerSnapshot> | null;
+  if (snapshot?.kind !== kind || !snapshot.clock) return false;
+  if (kind !== 'interval') return true;
+
+  const { program } = snapshot as Partial<IntervalTimerSnapshot>;
+  return Array.isArray(program?.segments) && isValidProgram(program);
+}
+
+/**
+ * Reads the saved snapshot for a timer. A snapshot of the wrong shape is
+ * removed so it is not read again.
+ * @param kind - Which timer to load
+ * @returns The snapshot, or null if none is stored or it cannot be parsed
+ */
+export function loadActiveTimer<K extends ActiveTimerSnapshot['kind']>(
+  kind: K
+): SnapshotOf<K> | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const stored = localStorage.getItem(STORAGE_KEYS[kind]);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (isSnapshotOf(parsed, kind)) return parsed;
+
+    clearActiveTimer(kind);
+    return null;
+  } catch (error) {
+    console.error('Failed to parse active timer:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves a timer snapshot, replacing any previous one of the same kind
+ * @param snapshot - Snapshot to persist
+ */
+export function saveActiveTimer(snapshot: ActiveTimerSnapshot): void {
+  localStorage.setItem(STORAGE_KEYS[snapshot.kind], JSON.stringify(snapshot));
+}
+
+/**
+ * Removes the saved snapshot for a timer
+ * @param kind - Which timer to clear
+ */
+export function clearActiveTimer(kind: ActiveTimerSnapshot['kind']): void {
+  localStorage.removeItem(STORAGE_KEYS[kind]);
+}
+
+/**
+ * Decides how a saved snapshot should be restored
+ * @param snapshot - Snapshot read from storage
+ * @param now - Current epoch milliseconds
+ * @returns The restore action to take
+ */
+export function resolveRestoreAction(
+  snapshot: ActiveTimerSnapshot,
+  now: number
+): RestoreAction {
+  const endTime = getEndTime(snapshot.clock);
+
+  if (endTime === null) {
+    return 'discard';
+  }
+
+  if (isClockRunning(snapshot.clock)) {
+    // A stopwatch never runs out
+    return endTime > now || snapshot.clock.countUp ? 'continue' : 'complete';
+  }
+
+  return now - snapshot.savedAt < MAX_PAUSED_AGE_MS ? 'prompt' : 'discard';
+}
+
+/**
+ * Builds the session to record from a Focus tab snapshot, once the session
+ * completes or is abandoned. An abandoned session ends where it was paused,
+ * so time spent away from it is not part of it. A stopwatch session ends when
+ * it is finished and plans its target, or the time it ran if it had none.
+ * @param snapshot - Snapshot of the session
+ * @param completed - Whether the timer ran out, or the stopwatch was finished
+ * @param now - Current epoch milliseconds
+ * @returns Session details, or null if the timer ran for less than a second
+ */
+export function getSnapshotSession(
+  snapshot: FocusTimerSnapshot,
+  completed: boolean,
+  now: number
+): TimerSessionInput | null {
+  const { clock } = snapshot;
+  const endTime = getEndTime(clock);
+  if (clock.startedAt === null || endTime === null) return null;
+
+  const plannedDuration = clock.durationMs / 1000;
+  const actualDuration = clock.countUp
+    ? Math.floor(getElapsedMs(clock, now) / 1000)
+    : (snapshot.sessionStartRemaining ?? plannedDuration) -
+      Math.ceil(getRemainingMs(clock, now) / 1000);
+  if (actualDuration < 1) return null;
+
+  return {
+    mode: snapshot.focusMode,
+    actualDuration,
+    plannedDuration: plannedDuration || undefined,
+    completed,
+    startTime: new Date(clock.startedAt),
+    endTime: new Date(completed && !clock.countUp ? endTime : (clock.pausedAt ?? now)),
+    pauses: snapshot.pauses ?? [],
+    interruptions: snapshot.interruptions,
+    intention: snapshot.intention,
+    taskId: snapshot.taskId,
+  };
+}
+
+/**
+ * Advances an interval snapshot through steps that finished while the page
+ * was closed. Steps auto-advance back to back, so each one starts exactly
+ * when the previous one ended.
+ * @param snapshot - Snapshot read from storage
+ * @param now - Current epoch milliseconds
+ * @returns The snapshot for the step in progress now, the steps that
+ * finished in the meantime, and whether the whole program is done
+ */
+export function fastForwardIntervalTimer(
+  snapshot: IntervalTimerSnapshot,
+  now: number
+): {
+  snapshot: IntervalTimerSnapshot;
+  completedSteps: IntervalStep[];
+  allRoundsComplete: boolean;
+} {
+  const steps = expandProgram(snapshot.program);
+  let endTime = getEndTime(snapshot.clock);
+  if (endTime === null || !isClockRunning(snapshot.clock)) {
+    return { snapshot, completedSteps: [], allRoundsComplete: false };
+  }
+
+  let { currentStep, accumulatedElapsedTime } = snapshot;
+  let startedAt = snapshot.clock.startedAt;
+  const completedSteps: IntervalStep[] = [];
+
+  while (endTime <= now && currentStep >= 1 && currentStep <= steps.length) {
+    const step = steps[currentStep - 1];
+    completedSteps.push(step);
+    accumulatedElapsedTime += step.durationSeconds;
+
+    if (currentStep >= steps.length) {
+      return {
+        snapshot: { ...snapshot, accumulatedElapsedTime },
+        completedSteps,
+        allRoundsComplete: true,
+      };
+    }
+
+    currentStep++;
+    startedAt = endTime;
+    endTime += steps[currentStep - 1].durationSeconds * 1000;
+  }
+
+  if (completedSteps.length === 0) {
+    return { snapshot, completedSteps, allRoundsComplete: false };
+  }
+
+  return {
+    snapshot: {
+      ...snapshot,
+      currentStep,
+      accumulatedElapsedTime,
+      clock: {
+        durationMs: steps[currentStep - 1].durationSeconds * 1000,
+        startedAt,
+        pausedAt: null,
+        pausedMs: 0,
+      },
+    },
+    completedSteps,
+    allRoundsComplete: false,
+  };
+}
+
+/**
+ * Advances a Pomodoro snapshot through phases that finished while the page
+ * was closed. Each finished phase ends when its clock ran out. With
+ * auto-start, the next phase starts exactly when the previous one ended;
+ * otherwise the cycle stops at the phase after the first finished one,
+ * waiting to be started. Focus blocks started meanwhile keep the snapshot's task.
+ * @param snapshot - Snapshot read from storage
+ * @param settings - Pomodoro settings
+ * @param now - Current epoch milliseconds
+ * @returns The snapshot for the phase in progress or waiting now, and the
+ * sessions of the phases that finished in the meantime
+ */
+export function fastForwardPomodoroTimer(
+  snapshot: PomodoroTimerSnapshot,
+  settings: PomodoroSettings,
+  now: number
+): {
+  snapshot: PomodoroTimerSnapshot;
+  completedPhases: TimerSessionInput[];
+} {
+  let { clock } = snapshot;
+  let endTime = getEndTime(clock);
+  if (endTime === null || !isClockRunning(clock)) {
+    return { snapshot, completedPhases: [] };
+  }
+
+  let cycle = { phase: snapshot.phase, completedFocusBlocks: snapshot.completedFocusBlocks };
+  const completedPhases: TimerSessionInput[] = [];
+
+  while (endTime !== null && endTime <= now && clock.startedAt !== null) {
+    completedPhases.push({
+      mode: snapshot.focusMode ?? 'study',
+      actualDuration: clock.durationMs / 1000,
+      completed: true,
+      phase: cycle.phase,
+      startTime: new Date(clock.startedAt),
+      endTime: new Date(endTime),
+      ...(cycle.phase === 'focus' && snapshot.taskId ? { taskId: snapshot.taskId } : {}),
+    });
+
+    cycle = getNextCycle(cycle, settings);
+    const durationSeconds = getPhaseDuration(cycle.phase, settings);
+    if (!settings.autoStartNext || durationSeconds <= 0) {
+      clock = createClock(durationSeconds);
+      break;
+    }
+    clock = { durationMs: durationSeconds * 1000, startedAt: endTime, pausedAt: null, pausedMs: 0 };
+    endTime = getEndTime(clock);
+  }
+
+  if (completedPhases.length === 0) {
+    return { snapshot, completedPhases };
+  }
+
+  return {
+    snapshot: { ...snapshot, ...cycle, clock },
+    completedPhases,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * How times are bucketed into days for streaks and daily statistics
+ */
+export interface DayOptions {
+  timeZone?: string; // IANA time zone, defaults to the device's
+  dayStartHour?: number; // 0-23, times before this hour count toward the previous day
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Formatter giving wall clock parts in a time zone, created once per zone
+ */
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone ?? '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks that a time zone name is known to the browser
+ * @param timeZone - IANA time zone, e.g. "Europe/Berlin"
+ * @returns True if dates can be shown in the zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const toKey = (utcDate: Date) => utcDate.toISOString().slice(0, 10);
+
+const fromKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Gets the day a time belongs to, from its wall clock date in the time zone.
+ * Because it works on the wall clock, days are right across DST changes,
+ * when a day lasts 23 or 25 hours.
+ * @param time - ISO time string or date
+ * @param options - Time zone and the hour days start at
+ * @returns Day in "YYYY-MM-DD" form
+ */
+export function getDayKey(time: string | Date, options: DayOptions = {}): string {
+  const parts = getFormatter(options.timeZone).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const day = Date.UTC(part('year'), part('month') - 1, part('day'));
+  const beforeDayStart = part('hour') < (options.dayStartHour ?? 0);
+  return toKey(new Date(beforeDayStart ? day - DAY_MS : day));
+}
+
+/**
+ * Gets the wall clock hour of a time in the time zone
+ * @param time - ISO time string or date
+ * @param timeZone - IANA time zone, defaults to the device's
+ * @returns Hour from 0 to 23
+ */
+export function getHour(time: string | Date, timeZone?: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(time));
+  return Number(parts.find((p) => p.type === 'hour')?.value);
+}
+
+/**
+ * Moves a day by a number of calendar days
+ * @param key - Day in "YYYY-MM-DD" form
+ * @param days - Days to add, negative to go back
+ * @returns Day in "YYYY-MM-DD" form
+ */
+export function addDays(key: string, days: number): string {
+  return toKey(new Date(fromKey(key) + days * DAY_MS));
+}
+
+/**
+ * Gets the day of the week of a day
+ * @param key - Day in "YYYY-MM-DD" form
+ * @returns 0 for Sunday to 6 for Saturday
+ */
+export function getWeekday(key: string): number {
+  return new Date(fromKey(key)).getUTCDay();
+}
+
+/**
+ * Gets the Monday starting the week a day is in
+ * @param key - Day in "YYYY-MM-DD" form
+ * @returns Day in "YYYY-MM-DD" form
+ */
+export function getWeekStart(key: string): string {
+  return addDays(key, -((getWeekday(key) + 6) % 7));
+}
+
+/**
+ * Counts the calendar days from one day to another
+ * @param from - Day in "YYYY-MM-DD" form
+ * @param to - Day in "YYYY-MM-DD" form
+ * @returns Whole days, negative if `to` is before `from`
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((fromKey(to) - fromKey(from)) / DAY_MS);
+}
+
+/**
+ * Counts the current and longest runs of consecutive days with activity
+ * @param times - When each activity happened, e.g. completed session end times
+ * @param options - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @returns The current streak, which counts while the last active day is today
+ * or yesterday, and the longest streak
+ */
+export function calculateStreaks(
+  times: string[],
+  options: DayOptions = {},
+  now: Date = new Date()
+): { currentStreak: number; longestStreak: number } {
+  const days = [...new Set(times.map((time) => getDayKey(time, options)))].sort();
+  if (days.length === 0) {
+    return { currentStreak: 0, longestStreak: 0 };
+  }
+
+  let longestStreak = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = daysBetween(days[i - 1], days[i]) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  // `run` is now the streak ending on the last active day
+  const sinceLastActive = daysBetween(days[days.length - 1], getDayKey(now, options));
+  const currentStreak = sinceLastActive <= 1 ? run : 0;
+
+  return { currentStreak, longestStreak };
+}
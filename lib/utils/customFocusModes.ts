@@ -0,0 +1,59 @@
+import type { CustomFocusMode, CustomFocusModeId } from '../constants/focus-modes';
+
+/**
+ * localStorage key of the user's focus modes
+ */
+export const CUSTOM_FOCUS_MODES_STORAGE_KEY = 'zenFocus_customFocusModes';
+
+const isCustomFocusMode = (value: unknown): value is CustomFocusMode => {
+  if (!value || typeof value !== 'object') return false;
+  const mode = value as Record<string, unknown>;
+  return (
+    typeof mode.value === 'string' &&
+    mode.value.startsWith('custom-') &&
+    typeof mode.label === 'string' &&
+    typeof mode.title === 'string' &&
+    typeof mode.description === 'string' &&
+    typeof mode.duration === 'number' &&
+    typeof mode.color === 'string'
+  );
+};
+
+/**
+ * Creates an id for a new custom focus mode
+ * @returns Unique id with the `custom-` prefix
+ */
+export function createCustomFocusModeId(): CustomFocusModeId {
+  return `custom-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Reads the user's focus modes, including deleted ones
+ * @returns Stored modes, skipping malformed entries
+ */
+export function loadCustomFocusModes(): CustomFocusMode[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const stored = localStorage.getItem(CUSTOM_FOCUS_MODES_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isCustomFocusMode) : [];
+  } catch (error) {
+    console.error('Failed to parse custom focus modes:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the user's focus modes, replacing the stored list
+ * @param modes - Modes to store, including deleted ones
+ */
+export function saveCustomFocusModes(modes: CustomFocusMode[]): void {
+  localStorage.setItem(CUSTOM_FOCUS_MODES_STORAGE_KEY, JSON.stringify(modes));
+}
@@ -0,0 +1,77 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { TimerSession } from '../types/timer-history';
+import { addDays, getDayKey, getWeekStart, type DayOptions } from './calendarDay';
+import { isFocusSession } from './timerSession';
+
+/**
+ * Weeks shown in the heatmap, enough for a full year back from this week
+ */
+export const HEATMAP_WEEKS = 53;
+
+/**
+ * Shades of the heatmap above no focus time, from least to most
+ */
+export const HEATMAP_LEVELS = 4;
+
+/**
+ * Focus time of one day in the heatmap
+ */
+export interface HeatmapDay {
+  key: string; // "YYYY-MM-DD"
+  totalTime: number; // seconds of focus, breaks excluded
+  modes: { mode: FocusMode; totalTime: number }[]; // most focus time first
+  level: number; // 0 for no focus time, up to HEATMAP_LEVELS
+}
+
+/**
+ * Builds a year of daily focus time, one column per week from Monday to
+ * Sunday. Focus time counts every focus session run, completed or not, as in
+ * the history's daily totals.
+ * @param sessions - Recorded sessions
+ * @param dayOptions - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @param weeks - Number of weeks, ending with this one
+ * @returns Weeks, oldest first, of seven days; days after today are null
+ */
+export function buildFocusHeatmap(
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {},
+  now: Date = new Date(),
+  weeks: number = HEATMAP_WEEKS
+): (HeatmapDay | null)[][] {
+  const today = getDayKey(now, dayOptions);
+  const firstDay = addDays(getWeekStart(today), -7 * (weeks - 1));
+
+  const byDay = new Map<string, Map<FocusMode, number>>();
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const key = getDayKey(session.endTime, dayOptions);
+    if (key < firstDay || key > today) continue;
+
+    const modes = byDay.get(key) ?? new Map<FocusMode, number>();
+    modes.set(session.mode, (modes.get(session.mode) ?? 0) + session.actualDuration);
+    byDay.set(key, modes);
+  }
+
+  const totals = [...byDay.values()].map((modes) =>
+    [...modes.values()].reduce((sum, seconds) => sum + seconds, 0)
+  );
+  const maxTime = Math.max(0, ...totals);
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const key = addDays(firstDay, week * 7 + weekday);
+      if (key > today) return null;
+
+      const modes = [...(byDay.get(key) ?? new Map<FocusMode, number>())]
+        .map(([mode, totalTime]) => ({ mode, totalTime }))
+        .sort((a, b) => b.totalTime - a.totalTime);
+      const totalTime = modes.reduce((sum, m) => sum + m.totalTime, 0);
+      // Shades split the busiest day's focus time into equal steps
+      const level =
+        totalTime > 0 ? Math.max(1, Math.ceil((totalTime / maxTime) * HEATMAP_LEVELS)) : 0;
+
+      return { key, totalTime, modes, level };
+    })
+  );
+}
@@ -0,0 +1,340 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { InterruptionKind, TimerSession } from '../types/timer-history';
+import { addDays, getDayKey, getHour, getWeekStart, type DayOptions } from './calendarDay';
+import { isFocusSession } from './timerSession';
+
+/**
+ * Length of the periods bars are drawn for in the focus time chart
+ */
+export type ChartPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Number of bars in the focus time chart for each period
+ */
+export const CHART_PERIOD_COUNTS: Record<ChartPeriod, number> = {
+  day: 14,
+  week: 12,
+  month: 12,
+};
+
+/**
+ * Focus time of one day, week or month, split by mode
+ */
+export interface FocusPeriod {
+  start: string; // "YYYY-MM-DD", first day of the period
+  modes: { mode: FocusMode; totalTime: number }[]; // in the order of `FocusTimeSeries.modes`
+  totalTime: number; // seconds of focus, breaks excluded
+}
+
+/**
+ * Focus time of consecutive periods, oldest first
+ */
+export interface FocusTimeSeries {
+  periods: FocusPeriod[];
+  modes: FocusMode[]; // modes with focus time in any period, most overall first
+}
+
+/**
+ * This week's focus time against the same days of last week
+ */
+export interface WeekComparison {
+  days: { key: string; current: number | null; previous: number }[]; // Monday to Sunday, current is null after today
+  currentTotal: number; // seconds, this week so far
+  previousTotal: number; // seconds, last week up to the same weekday
+  change: number | null; // fraction, e.g. 0.25 for 25% more; null without focus time last week
+}
+
+/**
+ * Focus sessions started in one hour of the day
+ */
+export interface HourSummary {
+  hour: number; // 0-23
+  sessions: number;
+  completed: number;
+  totalTime: number; // seconds
+}
+
+/**
+ * Focus sessions recorded in one mode
+ */
+export interface ModeSummary {
+  mode: FocusMode;
+  sessions: number;
+  completed: number;
+  totalTime: number; // seconds
+  averageLength: number; // seconds per session
+  completionRate: number; // 0-1
+}
+
+/**
+ * Focus sessions given one tag
+ */
+export interface TagSummary {
+  tag: string;
+  sessions: number;
+  totalTime: number; // seconds
+  averageFocusQuality: number | null; // 1-5, null if none of the sessions were rated
+}
+
+/**
+ * Interruptions logged during focus sessions
+ */
+export interface InterruptionSummary {
+  total: number;
+  byKind: Record<InterruptionKind, number>;
+  focusTime: number; // seconds of focus since the first interruption was logged
+  perHour: number | null; // interruptions per hour of that focus time, null before any were logged
+}
+
+const getMonthStart = (key: string) => `${key.slice(0, 7)}-01`;
+
+/**
+ * Moves the first day of a month by whole months
+ */
+const addMonths = (key: string, months: number) => {
+  const [year, month] = key.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  return date.toISOString().slice(0, 10);
+};
+
+const getPeriodStart = (key: string, period: ChartPeriod) =>
+  period === 'day' ? key : period === 'week' ? getWeekStart(key) : getMonthStart(key);
+
+/**
+ * Sums focus time per day
+ */
+const sumByDay = (sessions: TimerSession[], dayOptions: DayOptions) => {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const key = getDayKey(session.endTime, dayOptions);
+    totals.set(key, (totals.get(key) ?? 0) + session.actualDuration);
+  }
+  return totals;
+};
+
+/**
+ * Builds the focus time of the last days, weeks or months, split by mode for
+ * stacked bars. Focus time counts every focus session run, completed or not,
+ * as in the history's daily totals.
+ * @param sessions - Recorded sessions
+ * @param period - Length of each period; weeks start on Monday
+ * @param dayOptions - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @param count - Number of periods, ending with the current one
+ * @returns Periods, oldest first, and the modes they contain
+ */
+export function buildFocusTimeSeries(
+  sessions: TimerSession[],
+  period: ChartPeriod,
+  dayOptions: DayOptions = {},
+  now: Date = new Date(),
+  count: number = CHART_PERIOD_COUNTS[period]
+): FocusTimeSeries {
+  const current = getPeriodStart(getDayKey(now, dayOptions), period);
+  const starts = Array.from({ length: count }, (_, index) => {
+    const back = index - count + 1;
+    return period === 'day'
+      ? addDays(current, back)
+      : period === 'week'
+        ? addDays(current, 7 * back)
+        : addMonths(current, back);
+  });
+
+  const byPeriod = new Map(starts.map((start) => [start, new Map<FocusMode, number>()]));
+  const modeTotals = new Map<FocusMode, number>();
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const modes = byPeriod.get(getPeriodStart(getDayKey(session.endTime, dayOptions), period));
+    if (!modes) continue;
+
+    modes.set(session.mode, (modes.get(session.mode) ?? 0) + session.actualDuration);
+    modeTotals.set(session.mode, (modeTotals.get(session.mode) ?? 0) + session.actualDuration);
+  }
+
+  // The same mode order in every bar keeps the stacks comparable
+  const modes = [...modeTotals]
+    .filter(([, totalTime]) => totalTime > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([mode]) => mode);
+
+  return {
+    periods: starts.map((start) => {
+      const times = byPeriod.get(start)!;
+      return {
+        start,
+        modes: modes.map((mode) => ({ mode, totalTime: times.get(mode) ?? 0 })),
+        totalTime: [...times.values()].reduce((sum, seconds) => sum + seconds, 0),
+      };
+    }),
+    modes,
+  };
+}
+
+/**
+ * Compares this week's focus time with last week's, day by day. The totals
+ * only count last week up to today's weekday, so a week in progress is not
+ * held against a full one.
+ * @param sessions - Recorded sessions
+ * @param dayOptions - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @returns Focus time per weekday of both weeks and the change so far
+ */
+export function compareWeeks(
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {},
+  now: Date = new Date()
+): WeekComparison {
+  const today = getDayKey(now, dayOptions);
+  const monday = getWeekStart(today);
+  const totals = sumByDay(sessions, dayOptions);
+
+  const days = Array.from({ length: 7 }, (_, weekday) => {
+    const key = addDays(monday, weekday);
+    return {
+      key,
+      current: key > today ? null : (totals.get(key) ?? 0),
+      previous: totals.get(addDays(key, -7)) ?? 0,
+    };
+  });
+
+  const elapsed = days.filter((day) => day.current !== null);
+  const currentTotal = elapsed.reduce((sum, day) => sum + (day.current ?? 0), 0);
+  const previousTotal = elapsed.reduce((sum, day) => sum + day.previous, 0);
+
+  return {
+    days,
+    currentTotal,
+    previousTotal,
+    change: previousTotal > 0 ? (currentTotal - previousTotal) / previousTotal : null,
+  };
+}
+
+/**
+ * Spreads focus sessions over the hours of the day they started in, to show
+ * when focus comes easiest. Breaks are left out.
+ * @param sessions - Recorded sessions
+ * @param timeZone - IANA time zone, defaults to the device's
+ * @returns One entry per hour from midnight
+ */
+export function getTimeOfDayDistribution(
+  sessions: TimerSession[],
+  timeZone?: string
+): HourSummary[] {
+  const hours = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    sessions: 0,
+    completed: 0,
+    totalTime: 0,
+  }));
+
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const summary = hours[getHour(session.startTime, timeZone)];
+    summary.sessions++;
+    if (session.completed) summary.completed++;
+    summary.totalTime += session.actualDuration;
+  }
+
+  return hours;
+}
+
+/**
+ * Summarizes focus sessions per mode: how many there were, how long they ran
+ * on average and how many ran to completion. Breaks are left out.
+ * @param sessions - Recorded sessions
+ * @returns One entry per mode used, most focus time first
+ */
+export function summarizeModes(sessions: TimerSession[]): ModeSummary[] {
+  const byMode = new Map<FocusMode, TimerSession[]>();
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const modeSessions = byMode.get(session.mode) ?? [];
+    modeSessions.push(session);
+    byMode.set(session.mode, modeSessions);
+  }
+
+  return [...byMode]
+    .map(([mode, modeSessions]) => {
+      const completed = modeSessions.filter((session) => session.completed).length;
+      const totalTime = modeSessions.reduce((sum, session) => sum + session.actualDuration, 0);
+      return {
+        mode,
+        sessions: modeSessions.length,
+        completed,
+        totalTime,
+        averageLength: Math.round(totalTime / modeSessions.length),
+        completionRate: completed / modeSessions.length,
+      };
+    })
+    .sort((a, b) => b.totalTime - a.totalTime);
+}
+
+/**
+ * Totals focus time per tag. A session with several tags counts toward each
+ * of them, so the totals can add up to more than the time focused. Breaks
+ * and untagged sessions are left out.
+ * @param sessions - Recorded sessions
+ * @returns One entry per tag used, most focus time first
+ */
+export function summarizeTags(sessions: TimerSession[]): TagSummary[] {
+  const byTag = new Map<string, { sessions: number; totalTime: number; ratings: number[] }>();
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    for (const tag of session.tags ?? []) {
+      const summary = byTag.get(tag) ?? { sessions: 0, totalTime: 0, ratings: [] };
+      summary.sessions++;
+      summary.totalTime += session.actualDuration;
+      if (session.focusQuality !== undefined) summary.ratings.push(session.focusQuality);
+      byTag.set(tag, summary);
+    }
+  }
+
+  return [...byTag]
+    .map(([tag, { sessions: count, totalTime, ratings }]) => ({
+      tag,
+      sessions: count,
+      totalTime,
+      averageFocusQuality:
+        ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+    }))
+    .sort((a, b) => b.totalTime - a.totalTime || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Counts the interruptions logged during focus sessions and how often they
+ * happen per hour of focus. The rate only counts focus time from the first
+ * session with a logged interruption on, so time recorded before the user
+ * started logging them does not dilute it.
+ * @param sessions - Recorded sessions
+ * @returns Interruption totals by kind and the hourly rate
+ */
+export function summarizeInterruptions(sessions: TimerSession[]): InterruptionSummary {
+  const focusSessions = sessions.filter(isFocusSession);
+  const byKind: Record<InterruptionKind, number> = { internal: 0, external: 0, later: 0 };
+  let firstLogged: string | null = null;
+  for (const session of focusSessions) {
+    for (const interruption of session.interruptions ?? []) {
+      byKind[interruption.kind]++;
+    }
+    if (session.interruptions?.length && (firstLogged === null || session.startTime < firstLogged)) {
+      firstLogged = session.startTime;
+    }
+  }
+
+  const total = byKind.internal + byKind.external + byKind.later;
+  const since = firstLogged;
+  if (since === null) {
+    return { total, byKind, focusTime: 0, perHour: null };
+  }
+
+  const focusTime = focusSessions
+    .filter((session) => session.startTime >= since)
+    .reduce((sum, session) => sum + session.actualDuration, 0);
+  return {
+    total,
+    byKind,
+    focusTime,
+    perHour: focusTime > 0 ? total / (focusTime / 3600) : null,
+  };
+}
@@ -0,0 +1,156 @@
+import type { FocusTask, TaskProgress } from '../types/tasks';
+import type { TimerSession } from '../types/timer-history';
+import { isFocusSession } from './timerSession';
+
+/**
+ * localStorage key of the user's tasks
+ */
+export const FOCUS_TASKS_STORAGE_KEY = 'zenFocus_tasks';
+
+/**
+ * localStorage key of the task new Focus tab sessions are attributed to
+ */
+export const ACTIVE_TASK_STORAGE_KEY = 'zenFocus_activeTask';
+
+const createTaskId = () => `task-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+const isEstimate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+const isFocusTask = (value: unknown): value is FocusTask => {
+  if (!value || typeof value !== 'object') return false;
+  const task = value as Record<string, unknown>;
+  return (
+    typeof task.id === 'string' &&
+    typeof task.title === 'string' &&
+    (task.estimatedPomodoros === undefined || isEstimate(task.estimatedPomodoros)) &&
+    (task.projectId === undefined || typeof task.projectId === 'string') &&
+    typeof task.completed === 'boolean' &&
+    typeof task.archived === 'boolean' &&
+    typeof task.createdAt === 'string'
+  );
+};
+
+/**
+ * Creates an open task with a new id
+ * @param title - What the task is
+ * @param estimatedPomodoros - Focus sessions the task is expected to take, if estimated
+ * @param projectId - Project the task belongs to, if any
+ * @returns Task; the title is trimmed and an estimate below 1 is dropped
+ */
+export function createFocusTask(
+  title: string,
+  estimatedPomodoros?: number,
+  projectId?: string
+): FocusTask {
+  return {
+    id: createTaskId(),
+    title: title.trim(),
+    ...(isEstimate(estimatedPomodoros) ? { estimatedPomodoros } : {}),
+    ...(projectId ? { projectId } : {}),
+    completed: false,
+    archived: false,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Moves a task up or down the list, past tasks that are not shown
+ * @param tasks - All tasks in their order
+ * @param id - Task to move
+ * @param offset - -1 to move it up, 1 to move it down
+ * @param isShown - Whether a task is in the visible list; archived tasks are skipped by default
+ * @returns Reordered tasks, or the same list if the task cannot move that way
+ */
+export function moveFocusTask(
+  tasks: FocusTask[],
+  id: string,
+  offset: -1 | 1,
+  isShown: (task: FocusTask) => boolean = (task) => !task.archived
+): FocusTask[] {
+  const index = tasks.findIndex((task) => task.id === id);
+  if (index === -1) return tasks;
+
+  let target = index + offset;
+  while (target >= 0 && target < tasks.length && !isShown(tasks[target])) {
+    target += offset;
+  }
+  if (target < 0 || target >= tasks.length) return tasks;
+
+  const reordered = [...tasks];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
+
+/**
+ * Adds up the focus sessions recorded for each task
+ * @param sessions - Recorded sessions
+ * @returns Progress by task id, for tasks with at least one session
+ */
+export function getTaskProgress(sessions: TimerSession[]): Record<string, TaskProgress> {
+  const progress: Record<string, TaskProgress> = {};
+  for (const session of sessions) {
+    if (!session.taskId || !isFocusSession(session)) continue;
+
+    const task = progress[session.taskId] ?? { pomodoros: 0, totalTime: 0 };
+    progress[session.taskId] = {
+      pomodoros: task.pomodoros + (session.completed ? 1 : 0),
+      totalTime: task.totalTime + session.actualDuration,
+    };
+  }
+  return progress;
+}
+
+/**
+ * Reads the user's tasks, including archived ones
+ * @returns Stored tasks in their order, skipping malformed entries
+ */
+export function loadFocusTasks(): FocusTask[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const stored = localStorage.getItem(FOCUS_TASKS_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isFocusTask) : [];
+  } catch (error) {
+    console.error('Failed to parse tasks:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the user's tasks, replacing the stored list
+ * @param tasks - Tasks to store in their order, including archived ones
+ */
+export function saveFocusTasks(tasks: FocusTask[]): void {
+  localStorage.setItem(FOCUS_TASKS_STORAGE_KEY, JSON.stringify(tasks));
+}
+
+/**
+ * Reads the task new Focus tab sessions are attributed to
+ * @returns Task id, or null if no task is selected
+ */
+export function loadActiveTaskId(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return localStorage.getItem(ACTIVE_TASK_STORAGE_KEY);
+}
+
+/**
+ * Saves the task new Focus tab sessions are attributed to
+ * @param id - Task id, or null to work without a task
+ */
+export function saveActiveTaskId(id: string | null): void {
+  if (id === null) {
+    localStorage.removeItem(ACTIVE_TASK_STORAGE_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_TASK_STORAGE_KEY, id);
+  }
+}
@@ -0,0 +1,257 @@
+import type { FocusGoal, GoalMetric, GoalPeriod, GoalProgress } from '../types/goals';
+import type { TimerSession } from '../types/timer-history';
+import {
+  addDays,
+  daysBetween,
+  getDayKey,
+  getWeekday,
+  getWeekStart,
+  type DayOptions,
+} from './calendarDay';
+import { formatDuration } from './formatDuration';
+import { isFocusSession } from './timerSession';
+
+/**
+ * localStorage key of the goals already announced in their current period,
+ * shared by tabs so each goal is announced once
+ */
+export const GOAL_NOTIFICATIONS_STORAGE_KEY = 'zenFocus_goalNotifications';
+
+const GOAL_METRICS: GoalMetric[] = ['focusTime', 'sessions'];
+const GOAL_PERIODS: GoalPeriod[] = ['day', 'week'];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const createGoalId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Creates a goal with a new id
+ * @param fields - Goal without an id
+ * @returns Goal; weekdays are sorted and dropped when they cover every day
+ */
+export function createGoal(fields: Omit<FocusGoal, 'id'>): FocusGoal {
+  const { weekdays, ...goal } = fields;
+  const days = [...new Set(weekdays ?? [])].sort((a, b) => a - b);
+  return {
+    id: createGoalId(),
+    ...goal,
+    ...(goal.period === 'day' && days.length > 0 && days.length < 7 ? { weekdays: days } : {}),
+  };
+}
+
+/**
+ * Keeps the stored goals that are well formed
+ * @param value - Parsed goals
+ * @returns Valid goals in their stored order
+ */
+export function parseGoals(value: unknown): FocusGoal[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((goal): goal is FocusGoal => {
+    if (!goal || typeof goal !== 'object') return false;
+    const { id, mode, metric, target, period, weekdays } = goal as Record<string, unknown>;
+    return (
+      typeof id === 'string' &&
+      (mode === undefined || typeof mode === 'string') &&
+      GOAL_METRICS.includes(metric as GoalMetric) &&
+      typeof target === 'number' &&
+      Number.isInteger(target) &&
+      target > 0 &&
+      GOAL_PERIODS.includes(period as GoalPeriod) &&
+      (weekdays === undefined ||
+        (Array.isArray(weekdays) &&
+          weekdays.every((day) => Number.isInteger(day) && day >= 0 && day < 7)))
+    );
+  });
+}
+
+/**
+ * Checks whether a goal is due on a day. Weekly goals are due every day.
+ * @param goal - Goal to check
+ * @param day - Day in "YYYY-MM-DD" form
+ */
+export function isGoalDue(goal: FocusGoal, day: string): boolean {
+  return goal.period === 'week' || !goal.weekdays || goal.weekdays.includes(getWeekday(day));
+}
+
+/**
+ * Gets the first day of the goal's period a day is in
+ * @param goal - Goal to check
+ * @param day - Day in "YYYY-MM-DD" form
+ * @returns The day itself for daily goals, the Monday before for weekly goals
+ */
+export function getGoalPeriodStart(goal: FocusGoal, day: string): string {
+  return goal.period === 'week' ? getWeekStart(day) : day;
+}
+
+/**
+ * Completed focus sessions keyed by the day they ended. Incomplete sessions
+ * never count toward goals.
+ */
+function getCountedSessions(sessions: TimerSession[], dayOptions: DayOptions) {
+  return sessions
+    .filter((s) => s.completed && isFocusSession(s))
+    .map((s) => ({ day: getDayKey(s.endTime, dayOptions), session: s }));
+}
+
+/**
+ * Adds up what a goal measures over a range of days
+ */
+function measureGoal(
+  goal: FocusGoal,
+  counted: ReturnType<typeof getCountedSessions>,
+  from: string,
+  to: string
+): number {
+  return counted
+    .filter(
+      ({ day, session }) =>
+        day >= from && day <= to && (goal.mode === undefined || session.mode === goal.mode)
+    )
+    .reduce(
+      (total, { session }) => total + (goal.metric === 'focusTime' ? session.actualDuration : 1),
+      0
+    );
+}
+
+/**
+ * Measures each goal due today over its current day or week
+ * @param goals - The user's goals
+ * @param sessions - Recorded sessions
+ * @param dayOptions - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @returns Progress of the goals due today, in the order of `goals`
+ */
+export function getGoalProgress(
+  goals: FocusGoal[],
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {},
+  now: Date = new Date()
+): GoalProgress[] {
+  const today = getDayKey(now, dayOptions);
+  const counted = getCountedSessions(sessions, dayOptions);
+
+  return goals
+    .filter((goal) => isGoalDue(goal, today))
+    .map((goal) => {
+      const periodStart = getGoalPeriodStart(goal, today);
+      const value = measureGoal(goal, counted, periodStart, today);
+      return { goal, periodStart, value, met: value >= goal.target };
+    });
+}
+
+/**
+ * Counts streaks of days on which every daily goal due was met. Days without
+ * a daily goal due neither extend nor break a streak, and today only breaks
+ * it once it is over.
+ * @param goals - The user's goals; weekly goals are not part of streaks
+ * @param sessions - Recorded sessions
+ * @param dayOptions - Time zone and the hour days start at
+ * @param now - Current time, defaults to now
+ * @returns The current and longest streaks, or null without daily goals
+ */
+export function calculateGoalStreaks(
+  goals: FocusGoal[],
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {},
+  now: Date = new Date()
+): { currentStreak: number; longestStreak: number } | null {
+  const dailyGoals = goals.filter((goal) => goal.period === 'day');
+  if (dailyGoals.length === 0) {
+    return null;
+  }
+
+  const today = getDayKey(now, dayOptions);
+  const counted = getCountedSessions(sessions, dayOptions);
+  const byDay = new Map<string, typeof counted>();
+  counted.forEach((entry) => byDay.set(entry.day, [...(byDay.get(entry.day) ?? []), entry]));
+
+  const firstDay = [...byDay.keys()].sort()[0];
+  if (!firstDay) {
+    return { currentStreak: 0, longestStreak: 0 };
+  }
+
+  let run = 0;
+  let longestStreak = 0;
+  for (let i = 0, days = daysBetween(firstDay, today); i <= days; i++) {
+    const day = addDays(firstDay, i);
+    const due = dailyGoals.filter((goal) => isGoalDue(goal, day));
+    if (due.length === 0) continue;
+
+    const entries = byDay.get(day) ?? [];
+    if (due.every((goal) => measureGoal(goal, entries, day, day) >= goal.target)) {
+      run++;
+      longestStreak = Math.max(longestStreak, run);
+    } else if (day !== today) {
+      run = 0;
+    }
+  }
+
+  return { currentStreak: run, longestStreak };
+}
+
+/**
+ * Formats an amount a goal measures, e.g. "1h 30m" or "4 sessions"
+ * @param metric - What the amount measures
+ * @param value - Seconds or sessions
+ */
+export function formatGoalValue(metric: GoalMetric, value: number): string {
+  if (metric === 'focusTime') {
+    return formatDuration(value);
+  }
+  return value === 1 ? '1 session' : `${value} sessions`;
+}
+
+/**
+ * Describes a goal in words, e.g. "3h of Work every weekday"
+ * @param goal - Goal to describe
+ * @param modeLabel - Label of the goal's focus mode, omitted for any mode
+ */
+export function describeGoal(goal: FocusGoal, modeLabel?: string): string {
+  const sessions = goal.target === 1 ? 'session' : 'sessions';
+  const amount =
+    goal.metric === 'focusTime'
+      ? `${formatDuration(goal.target)} of ${modeLabel ?? 'focus time'}`
+      : `${goal.target} ${modeLabel ? `${modeLabel} ` : ''}${sessions}`;
+
+  if (goal.period === 'week') {
+    return `${amount} a week`;
+  }
+  const { weekdays } = goal;
+  if (!weekdays) return `${amount} a day`;
+  if (weekdays.join(',') === '1,2,3,4,5') return `${amount} every weekday`;
+  if (weekdays.join(',') === '0,6') return `${amount} every weekend day`;
+  return `${amount} on ${weekdays.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+}
+
+/**
+ * Key of a goal in one of its periods
+ */
+export const getGoalPeriodKey = (goal: FocusGoal, periodStart: string) =>
+  `${goal.id}:${periodStart}`;
+
+/**
+ * Records goals as announced, so a goal met in one tab, or before a reload,
+ * is not announced again in the same period
+ * @param metKeys - Period keys of the goals met now
+ * @param currentKeys - Period keys of every goal's current period; others are forgotten
+ * @returns Keys of the goals not announced before
+ */
+export function claimGoalAnnouncements(metKeys: string[], currentKeys: string[]): string[] {
+  let announced: string[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(GOAL_NOTIFICATIONS_STORAGE_KEY) ?? '[]');
+    announced = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Start over from unreadable storage
+  }
+
+  const current = new Set(currentKeys);
+  const kept = announced.filter((key) => current.has(key));
+  const claimed = metKeys.filter((key) => !kept.includes(key));
+  if (claimed.length > 0 || kept.length !== announced.length) {
+    localStorage.setItem(GOAL_NOTIFICATIONS_STORAGE_KEY, JSON.stringify([...kept, ...claimed]));
+  }
+  return claimed;
+}
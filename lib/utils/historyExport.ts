@@ -0,0 +1,258 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { HistoryBackup, TimerSession } from '../types/timer-history';
+import { POMODORO_PHASE_CONFIG } from '../constants/pomodoro';
+import { getPausedDuration, isFocusSession } from './timerSession';
+
+/**
+ * Version of the JSON backup format. Bump it when the backup shape changes
+ * and keep reading older versions on import.
+ */
+export const HISTORY_BACKUP_VERSION = 1;
+
+export type HistoryExportFormat = 'csv' | 'json' | 'ics';
+
+/**
+ * A generated export, ready to download
+ */
+export interface HistoryExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'mode',
+  'mode_label',
+  'phase',
+  'start_time',
+  'end_time',
+  'planned_duration_seconds',
+  'actual_duration_seconds',
+  'completed',
+  'pauses',
+  'paused_seconds',
+  'intention',
+  'tags',
+  'notes',
+  'focus_quality',
+  'mood',
+] as const;
+
+/**
+ * Quotes a CSV field when it contains a quote, comma or line break (RFC 4180)
+ * @param value - Field text
+ * @returns Field ready to join into a row
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Keeps text typed by the user from running as a formula when the CSV is
+ * opened in a spreadsheet: text starting with `=`, `+`, `-` or `@` is
+ * prefixed with `'`, which spreadsheets show as text
+ * @param value - Free text, e.g. an intention or notes
+ * @returns Text safe to put in a cell
+ */
+export function escapeCsvFormula(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Converts sessions to CSV with a header row, for spreadsheets and timesheets.
+ * Free text columns are guarded with `escapeCsvFormula`; ids, numbers and
+ * dates are written as they are.
+ * @param sessions - Sessions to export
+ * @param getModeLabel - Looks up the label of a focus mode
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(
+  sessions: TimerSession[],
+  getModeLabel: (mode: FocusMode) => string
+): string {
+  const rows = sessions.map((session) =>
+    [
+      session.id,
+      session.mode,
+      escapeCsvFormula(getModeLabel(session.mode)),
+      session.phase ?? 'focus',
+      session.startTime,
+      session.endTime,
+      String(session.plannedDuration),
+      String(session.actualDuration),
+      String(session.completed),
+      String(session.pauses?.length ?? 0),
+      String(getPausedDuration(session)),
+      escapeCsvFormula(session.intention ?? ''),
+      escapeCsvFormula(session.tags?.join(', ') ?? ''),
+      escapeCsvFormula(session.notes ?? ''),
+      session.focusQuality?.toString() ?? '',
+      session.mood?.toString() ?? '',
+    ]
+      .map(escapeCsvField)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Wraps sessions in a versioned JSON backup
+ * @param sessions - Sessions to back up
+ * @param exportedAt - Time of the export, defaults to now
+ * @returns Backup object
+ */
+export function createHistoryBackup(
+  sessions: TimerSession[],
+  exportedAt: Date = new Date()
+): HistoryBackup {
+  return {
+    format: 'zenFocus-history',
+    version: HISTORY_BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    sessions,
+  };
+}
+
+/**
+ * Formats a time as an iCalendar UTC date-time, e.g. "20250110T093000Z"
+ */
+const toICalendarTime = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeICalendarText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Number of octets a character takes in UTF-8
+ */
+const getUtf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds a content line to at most 75 octets of UTF-8, continuing on lines
+ * that start with a space (RFC 5545, section 3.1). Lines are only broken
+ * between characters, so multi-octet characters are never split.
+ */
+const foldICalendarLine = (line: string) => {
+  const parts = [''];
+  let octets = 0;
+  // Iterating a string yields whole code points, keeping surrogate pairs together
+  for (const char of line) {
+    const length = getUtf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + length > (parts.length === 1 ? 75 : 74)) {
+      parts.push('');
+      octets = 0;
+    }
+    parts[parts.length - 1] += char;
+    octets += length;
+  }
+  return parts.join('\r\n ');
+};
+
+/**
+ * Converts sessions to an iCalendar file with one event per session
+ * @param sessions - Sessions to export
+ * @param getModeLabel - Looks up the label of a focus mode
+ * @param exportedAt - Time stamped on the events, defaults to now
+ * @returns iCalendar text with CRLF line endings
+ */
+export function toICalendar(
+  sessions: TimerSession[],
+  getModeLabel: (mode: FocusMode) => string,
+  exportedAt: Date = new Date()
+): string {
+  const stamp = toICalendarTime(exportedAt.toISOString());
+  const events = sessions.flatMap((session) => {
+    const phase = isFocusSession(session) ? undefined : session.phase;
+    const summary = `${getModeLabel(session.mode)}${
+      phase ? ` ${POMODORO_PHASE_CONFIG[phase].label}` : ''
+    }${
+      session.intention ? `: ${session.intention}` : ''
+    }${session.completed ? '' : ' (incomplete)'}`;
+    const description = `Ran ${Math.round(session.actualDuration / 60)} of ${Math.round(
+      session.plannedDuration / 60
+    )} planned minutes${session.notes ? `\n\n${session.notes}` : ''}`;
+    // Categories are a comma separated list, so each one is escaped on its own
+    const categories = [getModeLabel(session.mode), ...(session.tags ?? [])]
+      .map(escapeICalendarText)
+      .join(',');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${session.id}@zenfocus`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toICalendarTime(session.startTime)}`,
+      `DTEND:${toICalendarTime(session.endTime)}`,
+      `SUMMARY:${escapeICalendarText(summary)}`,
+      `DESCRIPTION:${escapeICalendarText(description)}`,
+      `CATEGORIES:${categories}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return (
+    [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//zenFocus//Timer History//EN',
+      'CALSCALE:GREGORIAN',
+      ...events,
+      'END:VCALENDAR',
+    ]
+      .map(foldICalendarLine)
+      .join('\r\n') + '\r\n'
+  );
+}
+
+/**
+ * Generates an export of the sessions in one format
+ * @param sessions - Sessions to export
+ * @param format - CSV, JSON backup or iCalendar
+ * @param getModeLabel - Looks up the label of a focus mode
+ * @param exportedAt - Time of the export, used in the file name; defaults to now
+ * @returns File name, MIME type and content
+ */
+export function exportHistory(
+  sessions: TimerSession[],
+  format: HistoryExportFormat,
+  getModeLabel: (mode: FocusMode) => string,
+  exportedAt: Date = new Date()
+): HistoryExportFile {
+  const filename = `zenfocus-history-${exportedAt.toISOString().slice(0, 10)}.${format}`;
+  switch (format) {
+    case 'csv':
+      return { filename, mimeType: 'text/csv', content: toCsv(sessions, getModeLabel) };
+    case 'json':
+      return {
+        filename,
+        mimeType: 'application/json',
+        content: JSON.stringify(createHistoryBackup(sessions, exportedAt), null, 2),
+      };
+    case 'ics':
+      return {
+        filename,
+        mimeType: 'text/calendar',
+        content: toICalendar(sessions, getModeLabel, exportedAt),
+      };
+  }
+}
+
+/**
+ * Saves a generated file through the browser's download
+ * @param file - File to download
+ */
+export function downloadFile(file: HistoryExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,154 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { TimerSession } from '../types/timer-history';
+import { getDayKey, type DayOptions } from './calendarDay';
+import { isFocusSession } from './timerSession';
+
+/**
+ * Order of the sessions in the history browser
+ */
+export type HistorySort = 'newest' | 'oldest' | 'longest' | 'shortest';
+
+/**
+ * Which sessions to show by whether they were completed
+ */
+export type HistoryStatusFilter = 'all' | 'completed' | 'incomplete';
+
+/**
+ * Criteria for browsing the history. Dates are days (see `getDayKey`) in the
+ * "YYYY-MM-DD" form of a date input; an empty date leaves that end open, and
+ * an empty tag matches sessions with any tags or none.
+ */
+export interface HistoryFilter {
+  from: string;
+  to: string;
+  mode: FocusMode | 'all';
+  status: HistoryStatusFilter;
+  tag: string;
+  query: string;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+  from: '',
+  to: '',
+  mode: 'all',
+  status: 'all',
+  tag: '',
+  query: '',
+  sort: 'newest',
+};
+
+/**
+ * Sessions of one day
+ */
+export interface HistoryDay {
+  key: string; // "YYYY-MM-DD"
+  sessions: TimerSession[];
+}
+
+// End times are UTC ISO strings, so they sort as text
+const byEndTime = (a: TimerSession, b: TimerSession) =>
+  a.endTime < b.endTime ? -1 : a.endTime > b.endTime ? 1 : 0;
+
+const compareSessions: Record<HistorySort, (a: TimerSession, b: TimerSession) => number> = {
+  newest: (a, b) => byEndTime(b, a),
+  oldest: byEndTime,
+  longest: (a, b) => b.actualDuration - a.actualDuration || byEndTime(b, a),
+  shortest: (a, b) => a.actualDuration - b.actualDuration || byEndTime(b, a),
+};
+
+/**
+ * Text a session is found by when searching the history: its mode, what it
+ * was for and what the user noted afterwards
+ * @param session - Session to describe
+ * @param modeLabel - Label of the session's focus mode
+ * @returns Lower-case searchable text
+ */
+function getSearchText(session: TimerSession, modeLabel: string): string {
+  return [modeLabel, session.mode, session.intention, session.notes, ...(session.tags ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Filters and sorts sessions for the history browser. Runs in one pass over
+ * the sessions, so it stays fast for tens of thousands of them.
+ * @param sessions - Sessions to browse
+ * @param filter - Criteria to apply
+ * @param getModeLabel - Looks up the label of a focus mode, for searching
+ * @param dayOptions - Time zone and day start the date range is in
+ * @returns Matching sessions in the requested order
+ */
+export function filterSessions(
+  sessions: TimerSession[],
+  filter: HistoryFilter,
+  getModeLabel: (mode: FocusMode) => string,
+  dayOptions: DayOptions = {}
+): TimerSession[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matching = sessions.filter((session) => {
+    if (filter.mode !== 'all' && session.mode !== filter.mode) return false;
+    if (filter.status === 'completed' && !session.completed) return false;
+    if (filter.status === 'incomplete' && session.completed) return false;
+    if (filter.tag && !session.tags?.includes(filter.tag)) return false;
+    if (filter.from || filter.to) {
+      const day = getDayKey(session.endTime, dayOptions);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+    }
+    if (terms.length > 0) {
+      const text = getSearchText(session, getModeLabel(session.mode));
+      if (!terms.every((term) => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  return matching.sort(compareSessions[filter.sort]);
+}
+
+/**
+ * Groups sessions by the day they ended, keeping their order
+ * @param sessions - Sessions sorted by time
+ * @param dayOptions - Time zone and day start
+ * @returns One entry per day, in the order the days first appear
+ */
+export function groupSessionsByDay(
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {}
+): HistoryDay[] {
+  const days: HistoryDay[] = [];
+  for (const session of sessions) {
+    const key = getDayKey(session.endTime, dayOptions);
+    const last = days[days.length - 1];
+    if (last?.key === key) {
+      last.sessions.push(session);
+    } else {
+      days.push({ key, sessions: [session] });
+    }
+  }
+  return days;
+}
+
+/**
+ * Adds up the sessions and the focus time run on each day. Pomodoro breaks
+ * count as sessions but not as focus time.
+ * @param sessions - Sessions to total
+ * @param dayOptions - Time zone and day start
+ * @returns Session count and seconds of focus, by "YYYY-MM-DD" day
+ */
+export function getDailyTotals(
+  sessions: TimerSession[],
+  dayOptions: DayOptions = {}
+): Map<string, { count: number; totalTime: number }> {
+  const totals = new Map<string, { count: number; totalTime: number }>();
+  for (const session of sessions) {
+    const key = getDayKey(session.endTime, dayOptions);
+    const total = totals.get(key) ?? { count: 0, totalTime: 0 };
+    total.count += 1;
+    if (isFocusSession(session)) total.totalTime += session.actualDuration;
+    totals.set(key, total);
+  }
+  return totals;
+}
@@ -0,0 +1,348 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { TimerSession } from '../types/timer-history';
+import { HISTORY_BACKUP_VERSION } from './historyExport';
+import { createTimerSession, migrateTimerSession } from './timerSession';
+import { createReflection } from './sessionReflection';
+
+/**
+ * Session fields a CSV column can be mapped to
+ */
+export type CsvImportField =
+  | 'id'
+  | 'mode'
+  | 'startTime'
+  | 'endTime'
+  | 'duration'
+  | 'plannedDuration'
+  | 'completed'
+  | 'phase'
+  | 'intention'
+  | 'tags'
+  | 'notes'
+  | 'focusQuality'
+  | 'mood';
+
+/**
+ * Which column holds each field, by column index. Unmapped fields are left
+ * out or derived from the others.
+ */
+export interface CsvColumnMapping {
+  columns: Partial<Record<CsvImportField, number>>;
+  durationUnit: 'seconds' | 'minutes'; // unit of plain numbers; "HH:MM:SS" values are always read as times
+}
+
+/**
+ * A row read from an import file: the session it holds, or why it was skipped
+ */
+export interface ImportCandidate {
+  row: string; // e.g. "Row 3" or "Session 2", as shown to the user
+  session?: TimerSession;
+  reason?: string;
+}
+
+/**
+ * What an import will add, checked against the history before merging
+ */
+export interface ImportPreview {
+  sessions: TimerSession[];
+  skipped: { row: string; reason: string }[];
+}
+
+/**
+ * Header names recognized for each field, lower case. Covers zenFocus CSV
+ * exports and the column names common Pomodoro and time tracking apps use.
+ */
+const FIELD_HEADERS: Record<CsvImportField, string[]> = {
+  id: ['id', 'session id', 'uuid'],
+  mode: ['mode', 'focus mode', 'mode_label', 'project', 'category', 'activity', 'tag', 'type'],
+  startTime: ['start_time', 'start time', 'start', 'started', 'started at', 'start date', 'begin'],
+  endTime: ['end_time', 'end time', 'end', 'ended', 'ended at', 'end date', 'completed at', 'date'],
+  duration: [
+    'actual_duration_seconds',
+    'duration',
+    'duration (seconds)',
+    'duration_seconds',
+    'seconds',
+    'duration (minutes)',
+    'duration_minutes',
+    'minutes',
+    'time',
+  ],
+  plannedDuration: ['planned_duration_seconds', 'planned duration', 'planned', 'target'],
+  completed: ['completed', 'complete', 'finished', 'done', 'status'],
+  phase: ['phase'],
+  intention: ['intention', 'description', 'task', 'focusing on'],
+  tags: ['tags', 'labels'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+  focusQuality: ['focus_quality', 'focus quality', 'quality', 'rating'],
+  mood: ['mood', 'energy'],
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'completed', 'complete', 'done', 'finished'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'incomplete', 'interrupted', 'cancelled', 'abandoned'];
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ * @param text - CSV file contents
+ * @returns Rows of fields; blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Guesses the column mapping from a CSV header row
+ * @param headers - First row of the file
+ * @returns Mapping of every recognized column
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const columns: CsvColumnMapping['columns'] = {};
+  const used = new Set<number>();
+
+  (Object.keys(FIELD_HEADERS) as CsvImportField[]).forEach((field) => {
+    // Prefer the earliest name in the list, e.g. "mode" over "mode_label"
+    for (const name of FIELD_HEADERS[field]) {
+      const index = normalized.findIndex((header, i) => header === name && !used.has(i));
+      if (index !== -1) {
+        columns[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  });
+
+  const durationHeader = columns.duration !== undefined ? normalized[columns.duration] : '';
+  return { columns, durationUnit: durationHeader.includes('minute') ? 'minutes' : 'seconds' };
+}
+
+/**
+ * Reads a duration: "HH:MM:SS" or "MM:SS", or a plain number in `unit`
+ * @returns Seconds, or null if the value is not a duration
+ */
+function parseDuration(value: string, unit: CsvColumnMapping['durationUnit']): number | null {
+  const text = value.trim();
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  const number = Number(text);
+  if (text === '' || !Number.isFinite(number) || number < 0) return null;
+  return Math.round(unit === 'minutes' ? number * 60 : number);
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value?.trim()) return null;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads the data rows of a CSV file as sessions
+ * @param rows - Parsed rows, header first
+ * @param mapping - Column of each field
+ * @param resolveMode - Maps a mode cell to a focus mode, or null if unknown
+ * @param defaultMode - Mode for rows without a mode or with an unknown one
+ * @returns One candidate per data row, numbered like spreadsheet rows
+ */
+export function readCsvSessions(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  resolveMode: (value: string) => FocusMode | null,
+  defaultMode: FocusMode
+): ImportCandidate[] {
+  const { columns, durationUnit } = mapping;
+  const cell = (row: string[], field: CsvImportField) =>
+    columns[field] === undefined ? undefined : row[columns[field]]?.trim();
+  // Free text exported with `escapeCsvFormula` loses its guarding quote
+  const text = (row: string[], field: CsvImportField) =>
+    cell(row, field)?.replace(/^'(?=[=+\-@])/, '');
+
+  return rows.slice(1).map((row, index) => {
+    const label = `Row ${index + 2}`;
+    const start = parseDate(cell(row, 'startTime'));
+    const end = parseDate(cell(row, 'endTime'));
+    if (cell(row, 'startTime') && !start) return { row: label, reason: 'Start time is not a date' };
+    if (cell(row, 'endTime') && !end) return { row: label, reason: 'End time is not a date' };
+    if (start && end && start > end) return { row: label, reason: 'Start time is after the end time' };
+
+    const durationCell = cell(row, 'duration');
+    let duration = durationCell ? parseDuration(durationCell, durationUnit) : null;
+    if (durationCell && duration === null) return { row: label, reason: 'Duration is not a number' };
+    if (duration === null && start && end) {
+      duration = Math.round((end.getTime() - start.getTime()) / 1000);
+    }
+    if (duration === null || duration <= 0) {
+      return { row: label, reason: 'No duration' };
+    }
+    if (start && end && duration * 1000 > end.getTime() - start.getTime()) {
+      return { row: label, reason: 'Duration is longer than the time between start and end' };
+    }
+    const endTime = end ?? (start ? new Date(start.getTime() + duration * 1000) : null);
+    if (!endTime) return { row: label, reason: 'No start or end time' };
+
+    const completedCell = cell(row, 'completed')?.toLowerCase();
+    const completed = !completedCell || !FALSE_VALUES.includes(completedCell);
+    if (completedCell && completed && !TRUE_VALUES.includes(completedCell)) {
+      return { row: label, reason: `Unknown completed value "${completedCell}"` };
+    }
+
+    const modeCell = text(row, 'mode');
+    const planned = cell(row, 'plannedDuration');
+    const plannedDuration = planned ? parseDuration(planned, durationUnit) : null;
+    const phase = cell(row, 'phase');
+    const rating = (field: 'focusQuality' | 'mood') => {
+      const value = cell(row, field);
+      return value ? Number(value) : null;
+    };
+
+    const session = createTimerSession({
+      mode: (modeCell && resolveMode(modeCell)) || defaultMode,
+      actualDuration: duration,
+      plannedDuration: plannedDuration ?? undefined,
+      completed,
+      phase: phase === 'shortBreak' || phase === 'longBreak' ? phase : undefined,
+      endTime,
+      // A start before the end less the duration means the session was paused
+      startTime: start ?? undefined,
+      intention: text(row, 'intention'),
+      // Ratings outside 1-5 are dropped rather than skipping the row
+      ...createReflection(
+        text(row, 'notes') ?? '',
+        text(row, 'tags') ?? '',
+        rating('focusQuality'),
+        rating('mood')
+      ),
+    });
+    const id = cell(row, 'id');
+    return { row: label, session: id ? { ...session, id } : session };
+  });
+}
+
+/**
+ * Reads a zenFocus JSON backup. A bare session list, as kept in localStorage
+ * by earlier versions, is also accepted. Session times are normalized to UTC
+ * ISO strings with milliseconds.
+ * @param text - JSON file contents
+ * @returns One candidate per session in the backup
+ * @throws {Error} If the file is not a backup this version can read
+ */
+export function readBackupSessions(text: string): ImportCandidate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  let sessions: unknown;
+  if (Array.isArray(parsed)) {
+    sessions = parsed;
+  } else if (parsed && typeof parsed === 'object' && 'format' in parsed) {
+    const backup = parsed as { format: unknown; version?: unknown; sessions?: unknown };
+    if (backup.format !== 'zenFocus-history') {
+      throw new Error('The file is not a zenFocus history backup');
+    }
+    if (typeof backup.version !== 'number' || backup.version > HISTORY_BACKUP_VERSION) {
+      throw new Error('The backup was made by a newer version of zenFocus');
+    }
+    sessions = backup.sessions;
+  }
+  if (!Array.isArray(sessions)) {
+    throw new Error('The file is not a zenFocus history backup');
+  }
+
+  return sessions.map((value, index) => {
+    const session = migrateTimerSession(value);
+    if (!session) return { row: `Session ${index + 1}`, reason: 'Not a valid session' };
+
+    // Stored times are compared as strings, so a backup edited by hand or
+    // written by another tool (with an offset, or without milliseconds) is
+    // brought to the format sessions are recorded in
+    const toIso = (time: string) => new Date(time).toISOString();
+    return {
+      row: `Session ${index + 1}`,
+      session: {
+        ...session,
+        startTime: toIso(session.startTime),
+        endTime: toIso(session.endTime),
+        ...(session.editedAt ? { editedAt: toIso(session.editedAt) } : {}),
+      },
+    };
+  });
+}
+
+/**
+ * Checks imported sessions against the history. A session is a duplicate
+ * when its id, or both its start and end time to the second, match a session
+ * in the history or earlier in the file.
+ * @param candidates - Rows read from the file
+ * @param existing - Sessions already in the history
+ * @returns Sessions to add, and the skipped rows with the reason
+ */
+export function previewImport(
+  candidates: ImportCandidate[],
+  existing: TimerSession[]
+): ImportPreview {
+  const toSecond = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+  const timeKey = (session: TimerSession) =>
+    `${toSecond(session.startTime)}-${toSecond(session.endTime)}`;
+  const ids = new Set(existing.map((session) => session.id));
+  const times = new Set(existing.map(timeKey));
+
+  const preview: ImportPreview = { sessions: [], skipped: [] };
+  for (const { row, session, reason } of candidates) {
+    if (!session) {
+      preview.skipped.push({ row, reason: reason ?? 'Not a valid session' });
+      continue;
+    }
+    const time = timeKey(session);
+    if (ids.has(session.id)) {
+      preview.skipped.push({ row, reason: 'Already in your history (same id)' });
+      continue;
+    }
+    if (times.has(time)) {
+      preview.skipped.push({ row, reason: 'Already in your history (same time)' });
+      continue;
+    }
+    ids.add(session.id);
+    times.add(time);
+    preview.sessions.push(session);
+  }
+  return preview;
+}
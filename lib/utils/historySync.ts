@@ -0,0 +1,161 @@
+import type { TimerSession } from '../types/timer-history';
+import type { HistorySyncClient, RemoteTimerSession } from '../types/history-sync';
+import { fromRemoteSession, toRemoteSession } from './timerSession';
+
+/**
+ * Merges two session lists, keeping one copy of each id (the first list wins)
+ * @param primary - Sessions that take precedence, usually the local ones
+ * @param secondary - Sessions added when their id is not in `primary`
+ * @returns Merged sessions, most recent first
+ */
+export function mergeSessions(
+  primary: TimerSession[],
+  secondary: TimerSession[]
+): TimerSession[] {
+  const ids = new Set(primary.map((s) => s.id));
+  return [...primary, ...secondary.filter((s) => !ids.has(s.id))].sort(
+    (a, b) => new Date(b.endTime).getTime() - new Date(a.endTime).getTime()
+  );
+}
+
+const throwOnErrors = (errors: { message: string }[] | undefined, action: string) => {
+  if (errors && errors.length > 0) {
+    throw new Error(`Failed to ${action}: ${errors.map((e) => e.message).join(', ')}`);
+  }
+};
+
+/**
+ * Lists every remote session, following pagination
+ * @param client - Amplify data client for the `TimerSession` model
+ * @returns All remote records of the signed-in user
+ * @throws {Error} If a page cannot be loaded
+ */
+async function listRemoteSessions(client: HistorySyncClient): Promise<RemoteTimerSession[]> {
+  const records: RemoteTimerSession[] = [];
+  let nextToken: string | null | undefined;
+  do {
+    const page = await client.list(nextToken ? { nextToken } : undefined);
+    throwOnErrors(page.errors, 'list remote sessions');
+    records.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return records;
+}
+
+/**
+ * When a session was last edited, 0 if it never was
+ */
+const getEditedTime = (editedAt: string | null | undefined): number =>
+  editedAt ? new Date(editedAt).getTime() : 0;
+
+/**
+ * Result of a sync
+ */
+export interface HistorySyncResult {
+  downloaded: TimerSession[]; // remote sessions missing locally, or edited more recently there
+  removedIds: string[]; // synced sessions deleted from the remote store by another device
+  deletedIds: string[]; // locally deleted sessions removed from the remote store
+  updatedIds: string[]; // locally edited sessions whose remote copy was updated, or replaced by a later edit
+  syncedIds: string[]; // sessions in the remote store once the sync is done
+}
+
+/**
+ * Syncs local history with the remote store, matching sessions by id:
+ * - deletes sessions removed locally from the remote store
+ * - uploads local sessions that were never synced
+ * - removes synced sessions that another device deleted from the remote store
+ * - keeps the most recent edit of sessions in both stores: updates the
+ *   remote copy, or downloads it if it was edited later
+ * - returns remote sessions missing locally
+ *
+ * A synced session that was edited locally since is uploaded again rather
+ * than removed. Uploads that fail are left for the next sync.
+ * @param client - Amplify data client for the `TimerSession` model
+ * @param local - Local sessions
+ * @param deletedIds - Ids of sessions deleted locally since the last sync
+ * @param updatedIds - Ids of sessions edited locally since the last sync
+ * @param syncedIds - Ids of sessions in the remote store after the last sync
+ * @returns Downloaded and removed sessions, the deletions and edits that reached the remote store, and the sessions now synced
+ * @throws {Error} If the remote sessions cannot be listed
+ */
+export async function syncTimerHistory(
+  client: HistorySyncClient,
+  local: TimerSession[],
+  deletedIds: string[] = [],
+  updatedIds: string[] = [],
+  syncedIds: string[] = []
+): Promise<HistorySyncResult> {
+  const remote = await listRemoteSessions(client);
+  const remoteById = new Map(remote.map((record) => [record.id, record]));
+  const deleted = new Set(deletedIds);
+  const synced = new Set(syncedIds);
+
+  const removed: string[] = [];
+  for (const id of deletedIds) {
+    if (!remoteById.has(id)) {
+      removed.push(id);
+      continue;
+    }
+    try {
+      const result = await client.delete({ id });
+      throwOnErrors(result.errors, 'delete remote session');
+      removed.push(id);
+      remoteById.delete(id);
+    } catch (error) {
+      console.warn('Failed to delete synced session:', error);
+    }
+  }
+
+  const updated = new Set(updatedIds);
+  const updatedSynced: string[] = [];
+  const downloaded: TimerSession[] = [];
+  const removedIds: string[] = [];
+  const uploadedIds: string[] = [];
+  for (const session of local) {
+    if (deleted.has(session.id)) continue;
+    const record = remoteById.get(session.id);
+
+    if (!record && synced.has(session.id) && !updated.has(session.id)) {
+      removedIds.push(session.id);
+      continue;
+    }
+    if (record) {
+      const localEdit = getEditedTime(session.editedAt);
+      const remoteEdit = getEditedTime(record.editedAt);
+      if (remoteEdit > localEdit) {
+        downloaded.push(fromRemoteSession(record));
+        if (updated.has(session.id)) updatedSynced.push(session.id);
+        continue;
+      }
+      if (remoteEdit === localEdit && !updated.has(session.id)) continue;
+    }
+
+    try {
+      const result = record
+        ? await client.update(toRemoteSession(session))
+        : await client.create(toRemoteSession(session));
+      throwOnErrors(result.errors, record ? 'update remote session' : 'upload session');
+      if (updated.has(session.id)) updatedSynced.push(session.id);
+      if (!record) uploadedIds.push(session.id);
+    } catch (error) {
+      console.warn('Failed to upload session:', error);
+    }
+  }
+  // Edited sessions deleted since are no longer pending
+  const localIds = new Set(local.map((s) => s.id));
+  updatedSynced.push(...updatedIds.filter((id) => !localIds.has(id)));
+
+  downloaded.push(
+    ...remote
+      .filter((record) => !localIds.has(record.id) && !deleted.has(record.id))
+      .map(fromRemoteSession)
+  );
+
+  return {
+    downloaded,
+    removedIds,
+    deletedIds: removed,
+    updatedIds: updatedSynced,
+    syncedIds: [...remoteById.keys(), ...uploadedIds],
+  };
+}
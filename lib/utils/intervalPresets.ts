@@ -0,0 +1,163 @@
+import { INTERVAL_SEGMENT_KINDS } from '../constants/interval-segments';
+import type {
+  IntervalPreset,
+  IntervalProgram,
+  IntervalSegmentKind,
+} from '../types/interval-program';
+import { createSegment, isValidProgram } from './intervalProgram';
+
+/**
+ * localStorage key of the user's saved presets
+ */
+export const INTERVAL_PRESETS_STORAGE_KEY = 'zenFocus_intervalPresets';
+
+/**
+ * Version of the presets export file format
+ */
+export const PRESETS_FILE_VERSION = 1;
+
+const createPresetId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Checks an untrusted value and rebuilds it as a program. Segments without an
+ * id are given one.
+ * @param value - Parsed JSON value
+ * @returns The program, or null if it is malformed or cannot be run
+ */
+function toProgram(value: unknown): IntervalProgram | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { name, segments, rounds } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim() || !Array.isArray(segments)) {
+    return null;
+  }
+
+  const parsedSegments = [];
+  for (const segment of segments) {
+    const { id, name: segmentName, kind, durationSeconds, repeat } = (segment ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof segmentName !== 'string' ||
+      !INTERVAL_SEGMENT_KINDS.includes(kind as IntervalSegmentKind) ||
+      typeof durationSeconds !== 'number' ||
+      typeof repeat !== 'number'
+    ) {
+      return null;
+    }
+    const parsedSegment = createSegment(kind as IntervalSegmentKind, {
+      name: segmentName,
+      durationSeconds,
+      repeat,
+    });
+    if (typeof id === 'string' && id) {
+      parsedSegment.id = id;
+    }
+    parsedSegments.push(parsedSegment);
+  }
+
+  const program: IntervalProgram = {
+    name: name.trim(),
+    segments: parsedSegments,
+    rounds: typeof rounds === 'number' ? rounds : 0,
+  };
+  return isValidProgram(program) ? program : null;
+}
+
+/**
+ * Reads the user's saved presets
+ * @returns Saved presets in the user's order, empty if none or unreadable
+ */
+export function loadIntervalPresets(): IntervalPreset[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const stored = localStorage.getItem(INTERVAL_PRESETS_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse interval presets:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the user's presets, replacing the stored list
+ * @param presets - Presets in the user's order
+ */
+export function saveIntervalPresets(presets: IntervalPreset[]): void {
+  localStorage.setItem(INTERVAL_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Creates a user preset for a program
+ * @param program - Program to save
+ * @returns New preset with a unique id
+ */
+export function createIntervalPreset(program: IntervalProgram): IntervalPreset {
+  return { id: createPresetId(), program };
+}
+
+/**
+ * Serializes presets for sharing as a JSON file
+ * @param presets - Presets to export
+ * @returns Pretty-printed JSON document
+ */
+export function serializeIntervalPresets(presets: IntervalPreset[]): string {
+  return JSON.stringify(
+    {
+      version: PRESETS_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      presets: presets.map(({ program }) => ({ program })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parses a presets file exported by `serializeIntervalPresets`. Presets that
+ * are malformed or cannot be run are skipped.
+ * @param text - File contents
+ * @returns Imported presets with new ids, and how many entries were skipped
+ * @throws {Error} If the file is not a presets export
+ */
+export function parseIntervalPresets(text: string): {
+  presets: IntervalPreset[];
+  skipped: number;
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain interval presets.');
+  }
+
+  const version = (parsed as { version?: unknown }).version;
+  if (typeof version === 'number' && version > PRESETS_FILE_VERSION) {
+    throw new Error('The file was exported by a newer version of the app.');
+  }
+
+  const presets: IntervalPreset[] = [];
+  for (const entry of entries) {
+    const program = toProgram((entry as { program?: unknown })?.program);
+    if (program) {
+      presets.push(createIntervalPreset(program));
+    }
+  }
+
+  return { presets, skipped: entries.length - presets.length };
+}
@@ -0,0 +1,125 @@
+import { INTERVAL_SEGMENT_CONFIG } from '../constants/interval-segments';
+import type {
+  IntervalProgram,
+  IntervalSegment,
+  IntervalSegmentKind,
+  IntervalStep,
+} from '../types/interval-program';
+
+/**
+ * Creates a segment with the default name and duration for its kind
+ * @param kind - Role of the segment in the program
+ * @param overrides - Fields to set instead of the defaults
+ * @returns A new segment with a unique id
+ */
+export function createSegment(
+  kind: IntervalSegmentKind,
+  overrides: Partial<Omit<IntervalSegment, 'id' | 'kind'>> = {}
+): IntervalSegment {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+    name: INTERVAL_SEGMENT_CONFIG[kind].label,
+    kind,
+    durationSeconds: INTERVAL_SEGMENT_CONFIG[kind].defaultDuration,
+    repeat: 1,
+    ...overrides,
+  };
+}
+
+const SIMPLE_SEGMENT_ID = 'simple';
+
+/**
+ * Builds the program for a single duration repeated a number of times
+ * @param durationSeconds - Length of each round in seconds
+ * @param repetitions - Number of rounds
+ * @returns Program with one work segment per round
+ */
+export function createSimpleProgram(
+  durationSeconds: number,
+  repetitions: number
+): IntervalProgram {
+  return {
+    name: 'Interval',
+    segments: [
+      { id: SIMPLE_SEGMENT_ID, name: 'Round', kind: 'work', durationSeconds, repeat: 1 },
+    ],
+    rounds: repetitions,
+  };
+}
+
+/**
+ * Reads back the duration and repetitions of a program built by
+ * `createSimpleProgram`
+ * @param program - Program to inspect
+ * @returns The simple configuration, or null for a multi-segment program
+ */
+export function getSimpleProgramConfig(
+  program: IntervalProgram
+): { durationSeconds: number; repetitions: number } | null {
+  const [segment] = program.segments;
+  if (program.segments.length !== 1 || segment.id !== SIMPLE_SEGMENT_ID) {
+    return null;
+  }
+  return { durationSeconds: segment.durationSeconds, repetitions: program.rounds };
+}
+
+/**
+ * Expands a program into the countdowns it runs, in order: warmup segments,
+ * then the work/rest segments once per round, then cooldown segments.
+ * Each segment is repeated back to back `repeat` times.
+ * @param program - Program to expand
+ * @returns Steps in the order they run
+ */
+export function expandProgram(program: IntervalProgram): IntervalStep[] {
+  const toSteps = (segments: IntervalSegment[], round: number | null) =>
+    segments.flatMap((segment) =>
+      Array.from({ length: Math.max(0, segment.repeat) }, () => ({
+        segmentId: segment.id,
+        name: segment.name,
+        kind: segment.kind,
+        durationSeconds: segment.durationSeconds,
+        round,
+      }))
+    );
+
+  const warmup = program.segments.filter((s) => s.kind === 'warmup');
+  const main = program.segments.filter((s) => s.kind === 'work' || s.kind === 'rest');
+  const cooldown = program.segments.filter((s) => s.kind === 'cooldown');
+
+  const steps = toSteps(warmup, null);
+  for (let round = 1; round <= program.rounds; round++) {
+    steps.push(...toSteps(main, round));
+  }
+  steps.push(...toSteps(cooldown, null));
+  return steps;
+}
+
+/**
+ * Total running time of a program
+ * @param program - Program to measure
+ * @returns Duration in seconds
+ */
+export function getProgramDuration(program: IntervalProgram): number {
+  return expandProgram(program).reduce((acc, step) => acc + step.durationSeconds, 0);
+}
+
+/**
+ * Whether a program can be run: every segment has a positive whole duration
+ * and repeat count, and there is at least one step
+ * @param program - Program to check
+ */
+export function isValidProgram(program: IntervalProgram): boolean {
+  const validSegments = program.segments.every(
+    (s) =>
+      Number.isInteger(s.durationSeconds) &&
+      s.durationSeconds > 0 &&
+      Number.isInteger(s.repeat) &&
+      s.repeat > 0
+  );
+  return (
+    validSegments &&
+    Number.isInteger(program.rounds) &&
+    program.rounds > 0 &&
+    expandProgram(program).length > 0
+  );
+}
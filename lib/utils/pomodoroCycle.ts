@@ -0,0 +1,79 @@
+import type { PomodoroSettings } from '../constants/pomodoro';
+import type { SessionPhase } from '../types/timer-history';
+
+/**
+ * Position in a Pomodoro cycle
+ */
+export interface PomodoroCycle {
+  phase: SessionPhase;
+  completedFocusBlocks: number; // focus blocks finished since the cycle began
+}
+
+export const INITIAL_POMODORO_CYCLE: PomodoroCycle = {
+  phase: 'focus',
+  completedFocusBlocks: 0,
+};
+
+/**
+ * Whether a phase is a break rather than focus time
+ * @param phase - Phase to check
+ */
+export function isBreakPhase(phase: SessionPhase): boolean {
+  return phase !== 'focus';
+}
+
+/**
+ * Length of a phase under the given settings
+ * @param phase - Phase to look up
+ * @param settings - Pomodoro settings
+ * @returns Duration in seconds
+ */
+export function getPhaseDuration(phase: SessionPhase, settings: PomodoroSettings): number {
+  switch (phase) {
+    case 'shortBreak':
+      return settings.shortBreakDuration;
+    case 'longBreak':
+      return settings.longBreakDuration;
+    default:
+      return settings.focusDuration;
+  }
+}
+
+/**
+ * Moves the cycle to the phase after the current one. Focus is followed by a
+ * short break, or by a long break every `longBreakInterval` focus blocks;
+ * every break is followed by focus.
+ * @param cycle - Current position in the cycle
+ * @param settings - Pomodoro settings
+ * @returns The next position in the cycle
+ */
+export function getNextCycle(cycle: PomodoroCycle, settings: PomodoroSettings): PomodoroCycle {
+  if (isBreakPhase(cycle.phase)) {
+    return { ...cycle, phase: 'focus' };
+  }
+
+  const completedFocusBlocks = cycle.completedFocusBlocks + 1;
+  const interval = Math.max(1, settings.longBreakInterval);
+  return {
+    phase: completedFocusBlocks % interval === 0 ? 'longBreak' : 'shortBreak',
+    completedFocusBlocks,
+  };
+}
+
+/**
+ * Which Pomodoro of the current set the cycle is on, e.g. 3 of 4. During a
+ * break this is the Pomodoro that was just finished.
+ * @param cycle - Current position in the cycle
+ * @param settings - Pomodoro settings
+ * @returns The 1-based Pomodoro number and the set size
+ */
+export function getCycleProgress(
+  cycle: PomodoroCycle,
+  settings: PomodoroSettings
+): { current: number; total: number } {
+  const total = Math.max(1, settings.longBreakInterval);
+  const finished = isBreakPhase(cycle.phase)
+    ? cycle.completedFocusBlocks - 1
+    : cycle.completedFocusBlocks;
+  return { current: (Math.max(0, finished) % total) + 1, total };
+}
@@ -0,0 +1,55 @@
+import { DEFAULT_POMODORO_SETTINGS, type PomodoroSettings } from '../constants/pomodoro';
+
+const STORAGE_KEY = 'zenFocus_pomodoroSettings';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Reads the saved Pomodoro settings, falling back to the defaults for any
+ * missing or invalid value
+ * @returns Pomodoro settings
+ */
+export function loadPomodoroSettings(): PomodoroSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return {
+      focusDuration: isPositiveInteger(parsed?.focusDuration)
+        ? parsed.focusDuration
+        : DEFAULT_POMODORO_SETTINGS.focusDuration,
+      shortBreakDuration: isPositiveInteger(parsed?.shortBreakDuration)
+        ? parsed.shortBreakDuration
+        : DEFAULT_POMODORO_SETTINGS.shortBreakDuration,
+      longBreakDuration: isPositiveInteger(parsed?.longBreakDuration)
+        ? parsed.longBreakDuration
+        : DEFAULT_POMODORO_SETTINGS.longBreakDuration,
+      longBreakInterval: isPositiveInteger(parsed?.longBreakInterval)
+        ? parsed.longBreakInterval
+        : DEFAULT_POMODORO_SETTINGS.longBreakInterval,
+      autoStartNext:
+        typeof parsed?.autoStartNext === 'boolean'
+          ? parsed.autoStartNext
+          : DEFAULT_POMODORO_SETTINGS.autoStartNext,
+    };
+  } catch (error) {
+    console.error('Failed to parse Pomodoro settings:', error);
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+}
+
+/**
+ * Saves the Pomodoro settings
+ * @param settings - Settings to persist
+ */
+export function savePomodoroSettings(settings: PomodoroSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,90 @@
+import { DEFAULT_PREFERENCES } from '../constants/preferences';
+import type { ThemePreference, UserPreferences } from '../types';
+import { isValidTimeZone } from './calendarDay';
+import { parseGoals } from './goals';
+
+/**
+ * localStorage key of the user's preferences
+ */
+export const PREFERENCES_STORAGE_KEY = 'zenFocus_preferences';
+
+const THEMES: ThemePreference[] = ['light', 'dark', 'system'];
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isHour = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 24;
+
+/**
+ * Keeps the duration overrides that are whole, positive seconds
+ * @param value - Parsed overrides
+ * @returns Valid overrides by focus mode
+ */
+function parseDefaultDurations(value: unknown): UserPreferences['defaultDuration'] {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([, seconds]) => isPositiveInteger(seconds))
+  );
+}
+
+/**
+ * Reads the saved preferences, falling back to the defaults for any missing
+ * or invalid value
+ * @returns User preferences
+ */
+export function loadPreferences(): UserPreferences {
+  if (typeof window === 'undefined') {
+    return DEFAULT_PREFERENCES;
+  }
+
+  const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+  if (!stored) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return {
+      ...(typeof parsed?.userId === 'string' ? { userId: parsed.userId } : {}),
+      defaultDuration: parseDefaultDurations(parsed?.defaultDuration),
+      theme: THEMES.includes(parsed?.theme) ? parsed.theme : DEFAULT_PREFERENCES.theme,
+      soundEnabled:
+        typeof parsed?.soundEnabled === 'boolean'
+          ? parsed.soundEnabled
+          : DEFAULT_PREFERENCES.soundEnabled,
+      notificationsEnabled:
+        typeof parsed?.notificationsEnabled === 'boolean'
+          ? parsed.notificationsEnabled
+          : DEFAULT_PREFERENCES.notificationsEnabled,
+      ...(typeof parsed?.timeZone === 'string' && isValidTimeZone(parsed.timeZone)
+        ? { timeZone: parsed.timeZone }
+        : {}),
+      dayStartHour: isHour(parsed?.dayStartHour)
+        ? parsed.dayStartHour
+        : DEFAULT_PREFERENCES.dayStartHour,
+      goals: parseGoals(parsed?.goals),
+      goalStreaks:
+        typeof parsed?.goalStreaks === 'boolean'
+          ? parsed.goalStreaks
+          : DEFAULT_PREFERENCES.goalStreaks,
+      reflectionPrompt:
+        typeof parsed?.reflectionPrompt === 'boolean'
+          ? parsed.reflectionPrompt
+          : DEFAULT_PREFERENCES.reflectionPrompt,
+    };
+  } catch (error) {
+    console.error('Failed to parse preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Saves the user's preferences
+ * @param preferences - Preferences to persist
+ */
+export function savePreferences(preferences: UserPreferences): void {
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
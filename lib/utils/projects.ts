@@ -0,0 +1,216 @@
+import type { Project, ProjectReport, ProjectReportRow } from '../types/projects';
+import type { TimerSession } from '../types/timer-history';
+import { getDayKey, type DayOptions } from './calendarDay';
+import { escapeCsvField, escapeCsvFormula, type HistoryExportFile } from './historyExport';
+import { isFocusSession } from './timerSession';
+
+/**
+ * localStorage key of the user's projects
+ */
+export const PROJECTS_STORAGE_KEY = 'zenFocus_projects';
+
+const REPORT_CSV_COLUMNS = ['project', 'sessions', 'hours', 'hourly_rate', 'amount'] as const;
+
+const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+const isHourlyRate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isProject = (value: unknown): value is Project => {
+  if (!value || typeof value !== 'object') return false;
+  const project = value as Record<string, unknown>;
+  return (
+    typeof project.id === 'string' &&
+    typeof project.name === 'string' &&
+    typeof project.color === 'string' &&
+    (project.hourlyRate === undefined || isHourlyRate(project.hourlyRate)) &&
+    typeof project.archived === 'boolean' &&
+    typeof project.createdAt === 'string'
+  );
+};
+
+/**
+ * Rounds an amount of money to cents
+ */
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Formats an amount of money with two decimals in the user's locale, without
+ * a currency symbol since rates can be in any currency
+ * @param amount - Amount to show
+ * @returns Text such as "1,234.50"
+ */
+export function formatAmount(amount: number): string {
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Creates an active project with a new id
+ * @param fields - Name, color and hourly rate
+ * @returns Project; the name is trimmed and an invalid rate is dropped
+ */
+export function createProject(
+  fields: Pick<Project, 'name' | 'color' | 'hourlyRate'>
+): Project {
+  return {
+    id: createProjectId(),
+    name: fields.name.trim(),
+    color: fields.color,
+    ...(isHourlyRate(fields.hourlyRate) ? { hourlyRate: fields.hourlyRate } : {}),
+    archived: false,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * First and last day of the month so far, the default report range
+ * @param dayOptions - Time zone and day start
+ * @param now - Current time, defaults to now
+ * @returns Days in "YYYY-MM-DD" form
+ */
+export function getMonthToDate(
+  dayOptions: DayOptions = {},
+  now: Date = new Date()
+): Pick<ProjectReport, 'from' | 'to'> {
+  const today = getDayKey(now, dayOptions);
+  return { from: `${today.slice(0, 8)}01`, to: today };
+}
+
+/**
+ * Sums focus time per project over a date range. Every focus session run
+ * counts, completed or not, by the day it ended.
+ * @param sessions - Recorded sessions
+ * @param projects - User's projects, for their hourly rates
+ * @param range - First and last day to include
+ * @param dayOptions - Time zone and day start the days are in
+ * @returns Report with a row per project that has time in the range
+ */
+export function buildProjectReport(
+  sessions: TimerSession[],
+  projects: Project[],
+  range: Pick<ProjectReport, 'from' | 'to'>,
+  dayOptions: DayOptions = {}
+): ProjectReport {
+  const rates = new Map(projects.map((project) => [project.id, project.hourlyRate]));
+  const totals = new Map<string | null, { sessions: number; totalTime: number }>();
+
+  for (const session of sessions) {
+    if (!isFocusSession(session)) continue;
+    const day = getDayKey(session.endTime, dayOptions);
+    if (day < range.from || day > range.to) continue;
+
+    const projectId = session.projectId ?? null;
+    const total = totals.get(projectId) ?? { sessions: 0, totalTime: 0 };
+    totals.set(projectId, {
+      sessions: total.sessions + 1,
+      totalTime: total.totalTime + session.actualDuration,
+    });
+  }
+
+  const rows: ProjectReportRow[] = [...totals].map(([projectId, total]) => {
+    const rate = projectId === null ? undefined : rates.get(projectId);
+    return {
+      projectId,
+      ...total,
+      amount: rate === undefined ? null : toCents((total.totalTime / 3600) * rate),
+    };
+  });
+  rows.sort(
+    (a, b) =>
+      Number(a.projectId === null) - Number(b.projectId === null) || b.totalTime - a.totalTime
+  );
+
+  return {
+    ...range,
+    rows,
+    totalTime: rows.reduce((sum, row) => sum + row.totalTime, 0),
+    totalAmount: toCents(rows.reduce((sum, row) => sum + (row.amount ?? 0), 0)),
+  };
+}
+
+/**
+ * Converts a project report to CSV for invoicing: one row per project with
+ * decimal hours, then a total row. Project names are guarded with
+ * `escapeCsvFormula`
+ * @param report - Report to export
+ * @param getProject - Looks up a project by id
+ * @returns CSV text with CRLF line endings
+ */
+export function toProjectReportCsv(
+  report: ProjectReport,
+  getProject: (id: string) => Project | undefined
+): string {
+  const rows = report.rows.map((row) => {
+    const project = row.projectId === null ? undefined : getProject(row.projectId);
+    return [
+      row.projectId === null
+        ? 'No project'
+        : escapeCsvFormula(project?.name ?? 'Removed project'),
+      String(row.sessions),
+      (row.totalTime / 3600).toFixed(2),
+      project?.hourlyRate?.toFixed(2) ?? '',
+      row.amount?.toFixed(2) ?? '',
+    ];
+  });
+  const total = [
+    'Total',
+    String(report.rows.reduce((sum, row) => sum + row.sessions, 0)),
+    (report.totalTime / 3600).toFixed(2),
+    '',
+    report.totalAmount.toFixed(2),
+  ];
+
+  return (
+    [REPORT_CSV_COLUMNS, ...rows, total]
+      .map((fields) => fields.map(escapeCsvField).join(','))
+      .join('\r\n') + '\r\n'
+  );
+}
+
+/**
+ * Generates the CSV file of a project report, named after its date range
+ * @param report - Report to export
+ * @param getProject - Looks up a project by id
+ * @returns File ready to download
+ */
+export function exportProjectReport(
+  report: ProjectReport,
+  getProject: (id: string) => Project | undefined
+): HistoryExportFile {
+  return {
+    filename: `zenfocus-report-${report.from}-to-${report.to}.csv`,
+    mimeType: 'text/csv',
+    content: toProjectReportCsv(report, getProject),
+  };
+}
+
+/**
+ * Reads the user's projects, including archived ones
+ * @returns Stored projects, skipping malformed entries
+ */
+export function loadProjects(): Project[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const stored = localStorage.getItem(PROJECTS_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isProject) : [];
+  } catch (error) {
+    console.error('Failed to parse projects:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the user's projects, replacing the stored list
+ * @param projects - Projects to store, including archived ones
+ */
+export function saveProjects(projects: Project[]): void {
+  localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+}
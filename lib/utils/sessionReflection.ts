@@ -0,0 +1,63 @@
+import type { SessionReflection, TimerSession } from '../types/timer-history';
+
+/**
+ * Whether a value is a rating on the 1-5 scales of the reflection prompt
+ * @param value - Value to check
+ * @returns True for the whole numbers 1 to 5
+ */
+export function isRating(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/**
+ * Reads tags typed as comma separated text, e.g. "Thesis, #reading"
+ * @param text - Tags separated by commas
+ * @returns Lower-case tags without a leading "#", blanks or duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map((tag) => tag.trim().replace(/^#+/, '').trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Builds the reflection to store on a session, leaving out empty fields
+ * @param notes - Notes as typed
+ * @param tags - Comma separated tags as typed
+ * @param focusQuality - Focus quality rating, or null if not rated
+ * @param mood - Energy and mood rating, or null if not rated
+ * @returns Fields to set; cleared fields are undefined
+ */
+export function createReflection(
+  notes: string,
+  tags: string,
+  focusQuality: number | null,
+  mood: number | null
+): SessionReflection {
+  const parsedTags = parseTags(tags);
+  return {
+    notes: notes.trim() || undefined,
+    tags: parsedTags.length > 0 ? parsedTags : undefined,
+    focusQuality: isRating(focusQuality) ? focusQuality : undefined,
+    mood: isRating(mood) ? mood : undefined,
+  };
+}
+
+/**
+ * Lists the tags used in a history, most used first
+ * @param sessions - Recorded sessions
+ * @returns Distinct tags; ties are in alphabetical order
+ */
+export function getSessionTags(sessions: TimerSession[]): string[] {
+  const counts = new Map<string, number>();
+  for (const session of sessions) {
+    for (const tag of session.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
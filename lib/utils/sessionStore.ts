@@ -0,0 +1,204 @@
+import type { FocusMode } from '../constants/focus-modes';
+import type { TimerSession } from '../types/timer-history';
+import {
+  TIMER_HISTORY_STORAGE_KEY,
+  loadTimerHistory,
+  saveTimerHistory,
+} from './timerHistory';
+
+/**
+ * IndexedDB database holding the recorded sessions
+ */
+export const SESSION_DB_NAME = 'zenFocus';
+const SESSION_DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const END_TIME_INDEX = 'endTime';
+const MODE_INDEX = 'mode';
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Opens the session database once per page. Resolves to null when IndexedDB
+ * is unavailable or cannot be opened (e.g. some private browsing modes), in
+ * which case sessions stay in localStorage.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (databasePromise) return databasePromise;
+
+  if (typeof indexedDB === 'undefined') {
+    databasePromise = Promise.resolve(null);
+    return databasePromise;
+  }
+
+  databasePromise = new Promise<IDBDatabase | null>((resolve) => {
+    const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      store.createIndex(END_TIME_INDEX, 'endTime');
+      store.createIndex(MODE_INDEX, 'mode');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Failed to open session database:', request.error);
+      resolve(null);
+    };
+  });
+  return databasePromise;
+}
+
+/**
+ * Moves sessions still in localStorage into the database and removes the
+ * key, so this only does work once. It runs before every operation because
+ * a tab running an older version of the app may still write to the key.
+ */
+async function migrateLocalHistory(db: IDBDatabase): Promise<void> {
+  if (localStorage.getItem(TIMER_HISTORY_STORAGE_KEY) === null) return;
+
+  const sessions = loadTimerHistory();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(SESSIONS_STORE);
+  sessions.forEach((session) => store.put(session));
+  await transactionDone(transaction);
+  localStorage.removeItem(TIMER_HISTORY_STORAGE_KEY);
+}
+
+/**
+ * The session database with local history migrated into it, or null when
+ * sessions are kept in localStorage
+ */
+async function getDatabase(): Promise<IDBDatabase | null> {
+  const db = await openDatabase();
+  if (db) await migrateLocalHistory(db);
+  return db;
+}
+
+const sortMostRecentFirst = (sessions: TimerSession[]) =>
+  sessions.sort((a, b) => new Date(b.endTime).getTime() - new Date(a.endTime).getTime());
+
+/**
+ * Reads every recorded session
+ * @returns Sessions, most recent first
+ */
+export async function getAllSessions(): Promise<TimerSession[]> {
+  const db = await getDatabase();
+  if (!db) return loadTimerHistory();
+
+  const index = db
+    .transaction(SESSIONS_STORE)
+    .objectStore(SESSIONS_STORE)
+    .index(END_TIME_INDEX);
+  const sessions = await requestToPromise(index.getAll() as IDBRequest<TimerSession[]>);
+  return sessions.reverse();
+}
+
+/**
+ * Reads the sessions that ended within a time range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (inclusive)
+ * @returns Sessions in the range, most recent first
+ */
+export async function getSessionsBetween(start: Date, end: Date): Promise<TimerSession[]> {
+  const db = await getDatabase();
+  if (!db) {
+    return loadTimerHistory().filter((session) => {
+      const time = new Date(session.endTime).getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    });
+  }
+
+  const index = db
+    .transaction(SESSIONS_STORE)
+    .objectStore(SESSIONS_STORE)
+    .index(END_TIME_INDEX);
+  const range = IDBKeyRange.bound(start.toISOString(), end.toISOString());
+  const sessions = await requestToPromise(index.getAll(range) as IDBRequest<TimerSession[]>);
+  return sessions.reverse();
+}
+
+/**
+ * Reads the sessions recorded in one focus mode
+ * @param mode - Built-in or custom mode id
+ * @returns Sessions of the mode, most recent first
+ */
+export async function getSessionsByMode(mode: FocusMode): Promise<TimerSession[]> {
+  const db = await getDatabase();
+  if (!db) return loadTimerHistory().filter((session) => session.mode === mode);
+
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index(MODE_INDEX);
+  const sessions = await requestToPromise(index.getAll(mode) as IDBRequest<TimerSession[]>);
+  return sortMostRecentFirst(sessions);
+}
+
+/**
+ * Adds sessions, replacing stored sessions with the same id. Only the given
+ * sessions are written.
+ * @param sessions - Sessions to store
+ */
+export async function putSessions(sessions: TimerSession[]): Promise<void> {
+  if (sessions.length === 0) return;
+
+  const db = await getDatabase();
+  if (!db) {
+    const ids = new Set(sessions.map((session) => session.id));
+    saveTimerHistory(
+      sortMostRecentFirst([
+        ...sessions,
+        ...loadTimerHistory().filter((session) => !ids.has(session.id)),
+      ])
+    );
+    return;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(SESSIONS_STORE);
+  sessions.forEach((session) => store.put(session));
+  await transactionDone(transaction);
+}
+
+/**
+ * Removes sessions by id
+ * @param ids - Ids of the sessions to remove; unknown ids are ignored
+ */
+export async function deleteSessions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await getDatabase();
+  if (!db) {
+    const removed = new Set(ids);
+    saveTimerHistory(loadTimerHistory().filter((session) => !removed.has(session.id)));
+    return;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(SESSIONS_STORE);
+  ids.forEach((id) => store.delete(id));
+  await transactionDone(transaction);
+}
+
+/**
+ * Removes every recorded session
+ */
+export async function clearSessions(): Promise<void> {
+  const db = await getDatabase();
+  if (!db) {
+    localStorage.removeItem(TIMER_HISTORY_STORAGE_KEY);
+    return;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).clear();
+  await transactionDone(transaction);
+}
@@ -0,0 +1,81 @@
+/**
+ * Wall-clock model of a countdown or stopwatch. Remaining and elapsed time are
+ * always derived from `Date.now()`, so throttled or skipped ticks never make
+ * the timer run late. All timestamps are epoch milliseconds, which keeps the
+ * clock serializable.
+ */
+export interface TimerClock {
+  durationMs: number; // for a stopwatch, the soft target, 0 for none
+  startedAt: number | null; // when the current run began
+  pausedAt: number | null; // set while paused
+  pausedMs: number; // total time spent paused since startedAt
+  countUp?: boolean; // set on a stopwatch, which keeps running past its duration
+}
+
+/**
+ * Creates an idle clock for the given duration
+ * @param seconds - Countdown duration, or soft target of a stopwatch, in seconds
+ * @param countUp - Whether the clock is an open-ended stopwatch
+ * @returns Clock that has not been started
+ */
+export function createClock(seconds: number, countUp: boolean = false): TimerClock {
+  return {
+    durationMs: seconds * 1000,
+    startedAt: null,
+    pausedAt: null,
+    pausedMs: 0,
+    ...(countUp ? { countUp } : {}),
+  };
+}
+
+/**
+ * Target end timestamp of a started clock, pushed back by time spent paused
+ * @param clock - Clock to inspect
+ * @returns End timestamp in epoch milliseconds, or null if never started
+ */
+export function getEndTime(clock: TimerClock): number | null {
+  if (clock.startedAt === null) {
+    return null;
+  }
+  return clock.startedAt + clock.durationMs + clock.pausedMs;
+}
+
+/**
+ * Milliseconds left on the clock at the given moment
+ * @param clock - Clock to inspect
+ * @param now - Current epoch milliseconds
+ * @returns Remaining milliseconds, never negative
+ */
+export function getRemainingMs(clock: TimerClock, now: number): number {
+  const endTime = getEndTime(clock);
+  if (endTime === null) {
+    return clock.durationMs;
+  }
+  const reference = clock.pausedAt ?? now;
+  return Math.max(0, endTime - reference);
+}
+
+/**
+ * Milliseconds the clock has run at the given moment, not counting pauses.
+ * A stopwatch keeps counting past its duration; a countdown stops at it.
+ * @param clock - Clock to inspect
+ * @param now - Current epoch milliseconds
+ * @returns Elapsed milliseconds, never negative
+ */
+export function getElapsedMs(clock: TimerClock, now: number): number {
+  if (!clock.countUp) {
+    return clock.durationMs - getRemainingMs(clock, now);
+  }
+  if (clock.startedAt === null) {
+    return 0;
+  }
+  const reference = clock.pausedAt ?? now;
+  return Math.max(0, reference - clock.startedAt - clock.pausedMs);
+}
+
+/**
+ * Whether the clock is currently running
+ */
+export function isClockRunning(clock: TimerClock): boolean {
+  return clock.startedAt !== null && clock.pausedAt === null;
+}
@@ -0,0 +1,45 @@
+import type { TimerSession } from '../types/timer-history';
+import { migrateTimerHistory } from './timerSession';
+
+/**
+ * localStorage key of the recorded sessions, most recent first
+ */
+export const TIMER_HISTORY_STORAGE_KEY = 'zenFocus_timerHistory';
+
+/**
+ * Reads the recorded sessions. Sessions stored in an older schema are
+ * upgraded and written back, so the migration runs once.
+ * @returns Stored sessions in the current schema, skipping malformed entries
+ */
+export function loadTimerHistory(): TimerSession[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const stored = localStorage.getItem(TIMER_HISTORY_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to parse timer history:', error);
+    return [];
+  }
+
+  const { sessions, changed } = migrateTimerHistory(parsed);
+  if (changed) {
+    saveTimerHistory(sessions);
+  }
+  return sessions;
+}
+
+/**
+ * Saves the recorded sessions, replacing the stored list
+ * @param sessions - Sessions to store, most recent first
+ */
+export function saveTimerHistory(sessions: TimerSession[]): void {
+  localStorage.setItem(TIMER_HISTORY_STORAGE_KEY, JSON.stringify(sessions));
+}
@@ -0,0 +1,309 @@
+import type { FocusMode } from '../constants/focus-modes';
+import { INTERRUPTION_KINDS } from '../constants/interruptions';
+import type {
+  LegacyTimerSession,
+  SessionInterruption,
+  SessionPause,
+  SessionPhase,
+  SessionReflection,
+  TimerSession,
+} from '../types/timer-history';
+import type { RemoteTimerSession } from '../types/history-sync';
+import { isRating } from './sessionReflection';
+
+/**
+ * Schema version of sessions written by this version of the app. Bump it and
+ * add a step to `migrateTimerSession` when the session shape changes.
+ */
+export const TIMER_SESSION_SCHEMA_VERSION = 2;
+
+const SESSION_PHASES: SessionPhase[] = ['focus', 'shortBreak', 'longBreak'];
+
+/**
+ * Details of a session to record, with the user's reflection on it if any
+ */
+export interface TimerSessionInput extends SessionReflection {
+  mode: FocusMode;
+  actualDuration: number; // in seconds
+  plannedDuration?: number; // in seconds, defaults to the actual duration
+  completed: boolean;
+  phase?: SessionPhase;
+  endTime?: Date; // defaults to now
+  startTime?: Date; // defaults to the end time less the time run and paused
+  pauses?: SessionPause[];
+  interruptions?: SessionInterruption[];
+  intention?: string; // what the user set out to focus on
+  taskId?: string; // task the session was spent on
+  projectId?: string; // project the session's time is reported to
+}
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isPauseList = (value: unknown): value is SessionPause[] =>
+  Array.isArray(value) &&
+  value.every(
+    (pause) =>
+      pause !== null &&
+      typeof pause === 'object' &&
+      isIsoDate(pause.pausedAt) &&
+      isIsoDate(pause.resumedAt)
+  );
+
+const isOptionalText = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isTagList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((tag) => typeof tag === 'string');
+
+const isInterruptionList = (value: unknown): value is SessionInterruption[] =>
+  Array.isArray(value) &&
+  value.every(
+    (interruption) =>
+      interruption !== null &&
+      typeof interruption === 'object' &&
+      INTERRUPTION_KINDS.includes(interruption.kind) &&
+      isIsoDate(interruption.at) &&
+      isOptionalText(interruption.note)
+  );
+
+const toPhase = (value: unknown): SessionPhase | undefined => {
+  const phase = SESSION_PHASES.find((p) => p === value);
+  return phase && phase !== 'focus' ? phase : undefined;
+};
+
+const secondsBefore = (iso: string, seconds: number) =>
+  new Date(new Date(iso).getTime() - seconds * 1000).toISOString();
+
+const secondsAfter = (iso: string, seconds: number) =>
+  new Date(new Date(iso).getTime() + seconds * 1000).toISOString();
+
+/**
+ * Whether a session counts as focus time. Pomodoro breaks are recorded as
+ * sessions too, but they are tracked separately: statistics, goals, reports
+ * and task progress leave them out.
+ * @param session - Recorded session
+ * @returns False for Pomodoro breaks, true for every other session
+ */
+export function isFocusSession(session: Pick<TimerSession, 'phase'>): boolean {
+  return !session.phase || session.phase === 'focus';
+}
+
+/**
+ * Total time a session spent paused
+ * @param session - Recorded session
+ * @returns Seconds paused, 0 for sessions run without pausing
+ */
+export function getPausedDuration(session: Pick<TimerSession, 'pauses'>): number {
+  return (session.pauses ?? []).reduce(
+    (total, pause) =>
+      total +
+      Math.round((new Date(pause.resumedAt).getTime() - new Date(pause.pausedAt).getTime()) / 1000),
+    0
+  );
+}
+
+/**
+ * Creates a session that ends now (or at `input.endTime`)
+ * @param input - Details of the session
+ * @returns Session in the current schema with a new id
+ */
+export function createTimerSession(input: TimerSessionInput): TimerSession {
+  const end = input.endTime ?? new Date();
+  const phase = toPhase(input.phase);
+  const pauses = input.pauses ?? [];
+  const interruptions = input.interruptions ?? [];
+  const intention = input.intention?.trim();
+  const notes = input.notes?.trim();
+  const start =
+    input.startTime ??
+    new Date(end.getTime() - (input.actualDuration + getPausedDuration({ pauses })) * 1000);
+  return {
+    schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+    id: `${end.getTime()}-${Math.random().toString(36).slice(2, 11)}`,
+    mode: input.mode,
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    plannedDuration: input.plannedDuration ?? input.actualDuration,
+    actualDuration: input.actualDuration,
+    completed: input.completed,
+    ...(phase ? { phase } : {}),
+    ...(pauses.length > 0 ? { pauses } : {}),
+    ...(interruptions.length > 0 ? { interruptions } : {}),
+    ...(intention ? { intention } : {}),
+    ...(input.taskId ? { taskId: input.taskId } : {}),
+    ...(input.projectId ? { projectId: input.projectId } : {}),
+    ...(notes ? { notes } : {}),
+    ...(input.tags && input.tags.length > 0 ? { tags: input.tags } : {}),
+    ...(isRating(input.focusQuality) ? { focusQuality: input.focusQuality } : {}),
+    ...(isRating(input.mood) ? { mood: input.mood } : {}),
+  };
+}
+
+const isCurrentSession = (value: Record<string, unknown>): boolean =>
+  typeof value.schemaVersion === 'number' &&
+  value.schemaVersion >= TIMER_SESSION_SCHEMA_VERSION &&
+  typeof value.id === 'string' &&
+  typeof value.mode === 'string' &&
+  isIsoDate(value.startTime) &&
+  isIsoDate(value.endTime) &&
+  isDuration(value.plannedDuration) &&
+  isDuration(value.actualDuration) &&
+  typeof value.completed === 'boolean' &&
+  (value.pauses === undefined || isPauseList(value.pauses)) &&
+  (value.interruptions === undefined || isInterruptionList(value.interruptions)) &&
+  isOptionalText(value.intention) &&
+  isOptionalText(value.taskId) &&
+  isOptionalText(value.projectId) &&
+  isOptionalText(value.notes) &&
+  (value.tags === undefined || isTagList(value.tags)) &&
+  (value.focusQuality === undefined || isRating(value.focusQuality)) &&
+  (value.mood === undefined || isRating(value.mood)) &&
+  (value.editedAt === undefined || isIsoDate(value.editedAt));
+
+const isLegacySession = (value: Record<string, unknown>): boolean =>
+  typeof value.id === 'string' &&
+  typeof value.focusMode === 'string' &&
+  isDuration(value.duration) &&
+  isIsoDate(value.completedAt) &&
+  typeof value.completed === 'boolean';
+
+/**
+ * Upgrades a stored session to the current schema. Sessions stored before
+ * versioning (`focusMode`, `duration`, `completedAt`) only kept the time
+ * actually run, so it is also used as the planned duration, and the start
+ * time is derived from the end time.
+ * @param value - Session as parsed from storage
+ * @returns Session in the current schema, or null if it is malformed
+ */
+export function migrateTimerSession(value: unknown): TimerSession | null {
+  if (!value || typeof value !== 'object') return null;
+  const stored = value as Record<string, unknown>;
+
+  if (isCurrentSession(stored)) {
+    return stored as unknown as TimerSession;
+  }
+
+  if (stored.schemaVersion === undefined && isLegacySession(stored)) {
+    const legacy = stored as unknown as LegacyTimerSession;
+    const endTime = new Date(legacy.completedAt).toISOString();
+    const phase = toPhase(legacy.phase);
+    return {
+      schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+      id: legacy.id,
+      mode: legacy.focusMode as FocusMode,
+      startTime: secondsBefore(endTime, legacy.duration),
+      endTime,
+      plannedDuration: legacy.duration,
+      actualDuration: legacy.duration,
+      completed: legacy.completed,
+      ...(phase ? { phase } : {}),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Upgrades a stored session list to the current schema
+ * @param value - Parsed contents of the history storage key
+ * @returns Migrated sessions, and whether anything had to change
+ */
+export function migrateTimerHistory(value: unknown): {
+  sessions: TimerSession[];
+  changed: boolean;
+} {
+  if (!Array.isArray(value)) {
+    return { sessions: [], changed: false };
+  }
+
+  const sessions: TimerSession[] = [];
+  let changed = false;
+  for (const item of value) {
+    const session = migrateTimerSession(item);
+    if (session !== item) changed = true;
+    if (session) sessions.push(session);
+  }
+  return { sessions, changed };
+}
+
+/**
+ * Reads a list of an Amplify record stored as JSON text, such as its pauses
+ */
+const parseJsonList = <T>(value: unknown, isList: (list: unknown) => list is T[]): T[] => {
+  try {
+    const list = typeof value === 'string' ? JSON.parse(value) : value;
+    return isList(list) ? list : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Converts a session to the Amplify `TimerSession` model
+ * @param session - Local session
+ * @returns Remote record with the same id
+ */
+export function toRemoteSession(session: TimerSession): RemoteTimerSession {
+  return {
+    id: session.id,
+    schemaVersion: session.schemaVersion,
+    mode: session.mode,
+    duration: session.actualDuration,
+    plannedDuration: session.plannedDuration,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    completed: session.completed,
+    phase: session.phase ?? null,
+    pauses: session.pauses ? JSON.stringify(session.pauses) : null,
+    interruptions: session.interruptions ? JSON.stringify(session.interruptions) : null,
+    intention: session.intention ?? null,
+    taskId: session.taskId ?? null,
+    projectId: session.projectId ?? null,
+    notes: session.notes ?? null,
+    tags: session.tags ?? null,
+    focusQuality: session.focusQuality ?? null,
+    mood: session.mood ?? null,
+    editedAt: session.editedAt ?? null,
+  };
+}
+
+/**
+ * Converts an Amplify `TimerSession` record to a session. Records uploaded
+ * before versioning have no planned duration or end time; they are derived
+ * from the duration and start time. Times are normalized to the UTC ISO form
+ * used locally, so sessions sort by their time strings.
+ * @param record - Remote record
+ * @returns Session in the current schema with the same id
+ */
+export function fromRemoteSession(record: RemoteTimerSession): TimerSession {
+  const phase = toPhase(record.phase);
+  const pauses = parseJsonList(record.pauses, isPauseList);
+  const interruptions = parseJsonList(record.interruptions, isInterruptionList);
+  const tags = record.tags?.filter((tag): tag is string => typeof tag === 'string') ?? [];
+  return {
+    schemaVersion: TIMER_SESSION_SCHEMA_VERSION,
+    id: record.id,
+    mode: record.mode as FocusMode,
+    startTime: new Date(record.startTime).toISOString(),
+    endTime: record.endTime
+      ? new Date(record.endTime).toISOString()
+      : secondsAfter(record.startTime, record.duration),
+    plannedDuration: record.plannedDuration ?? record.duration,
+    actualDuration: record.duration,
+    completed: record.completed,
+    ...(phase ? { phase } : {}),
+    ...(pauses.length > 0 ? { pauses } : {}),
+    ...(interruptions.length > 0 ? { interruptions } : {}),
+    ...(record.intention ? { intention: record.intention } : {}),
+    ...(record.taskId ? { taskId: record.taskId } : {}),
+    ...(record.projectId ? { projectId: record.projectId } : {}),
+    ...(record.notes ? { notes: record.notes } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(isRating(record.focusQuality) ? { focusQuality: record.focusQuality } : {}),
+    ...(isRating(record.mood) ? { mood: record.mood } : {}),
+    ...(record.editedAt ? { editedAt: new Date(record.editedAt).toISOString() } : {}),
+  };
+}
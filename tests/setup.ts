@@ -1,13 +1,27 @@
+import 'fake-indexeddb/auto';
 import React from 'react';
-import { expect, afterEach } from 'vitest';
+import { expect, afterEach, vi } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import * as matchers from '@testing-library/jest-dom/matchers';
+import { clearSessions } from '@/lib/utils/sessionStore';
 
 // Make React available globally for JSX
 global.React = React;
 
 expect.extend(matchers);
 
-afterEach(() => {
+// jsdom has no ResizeObserver; Radix form controls measure themselves with it
+global.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+afterEach(async () => {
   cleanup();
+  // Persisted timers and history must not leak between tests
+  localStorage.clear();
+  // fake-indexeddb completes requests on real timers
+  vi.useRealTimers();
+  await clearSessions();
 });